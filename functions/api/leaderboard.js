@@ -1,4 +1,4 @@
-const DEFAULT_GAME_ID = "noah-ping-pong-garden";
+import { getScoreRule } from "../../src/shared/scoreRules";
 
 function json(data, init = {}) {
   return new Response(JSON.stringify(data), {
@@ -27,14 +27,22 @@ export async function onRequestGet({ env, request }) {
   }
 
   const url = new URL(request.url);
-  const gameId = url.searchParams.get("game_id") || DEFAULT_GAME_ID;
+  const gameId = String(url.searchParams.get("game_id") || "").trim();
+  const rule = getScoreRule(gameId);
+
+  if (!rule) {
+    return json({ error: "Unknown game_id.", code: "UNKNOWN_GAME" }, { status: 400 });
+  }
+
+  // asc: 낮을수록 좋은 기록 (반응속도 ms, 이동 횟수 등)
+  const direction = rule.order === "asc" ? "ASC" : "DESC";
 
   const todayQuery = env.DB.prepare(
     `SELECT id, nickname, score, game_id, created_at
        FROM scores
       WHERE game_id = ?1
         AND created_at >= datetime('now', 'start of day')
-      ORDER BY score DESC, created_at ASC
+      ORDER BY score ${direction}, created_at ASC
       LIMIT 10`
   ).bind(gameId);
 
@@ -42,7 +50,7 @@ export async function onRequestGet({ env, request }) {
     `SELECT id, nickname, score, game_id, created_at
        FROM scores
       WHERE game_id = ?1
-      ORDER BY score DESC, created_at ASC
+      ORDER BY score ${direction}, created_at ASC
       LIMIT 10`
   ).bind(gameId);
 
@@ -53,6 +61,7 @@ export async function onRequestGet({ env, request }) {
 
   return json({
     game_id: gameId,
+    order: direction.toLowerCase(),
     today: (todayResult.results || []).map(publicScore),
     all_time: (allTimeResult.results || []).map(publicScore),
   });
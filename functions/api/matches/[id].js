@@ -0,0 +1,55 @@
+import { json, loadMatch, missingDatabase, normalizeAnonymousId, publicMatch, readBody, reject, seatOf } from "./_shared";
+
+// 폴링용 — 보낸 사람의 자리를 알려 주려고 anonymous_user_id를 헤더로 받는다
+export async function onRequestGet({ env, request, params }) {
+  if (!env.DB) return missingDatabase();
+
+  const match = await loadMatch(env.DB, params.id);
+  if (!match) {
+    return reject("NOT_FOUND", "Match not found.", 404);
+  }
+  const anonymousUserId = normalizeAnonymousId(request.headers.get("x-anonymous-user-id"));
+  return json({ match: publicMatch(match, anonymousUserId) });
+}
+
+// 빈 자리에 앉기 — 이미 앉아 있으면 그대로 돌려준다
+export async function onRequestPost({ env, request, params }) {
+  if (!env.DB) return missingDatabase();
+
+  const body = await readBody(request);
+  if (!body) {
+    return reject("INVALID_JSON", "Invalid JSON body.", 400);
+  }
+  const anonymousUserId = normalizeAnonymousId(body.anonymous_user_id);
+  if (!anonymousUserId) {
+    return reject("ANONYMOUS_ID_REQUIRED", "anonymous_user_id is required.", 400);
+  }
+
+  const match = await loadMatch(env.DB, params.id);
+  if (!match) {
+    return reject("NOT_FOUND", "Match not found.", 404);
+  }
+  if (seatOf(match.row, anonymousUserId) !== null) {
+    return json({ match: publicMatch(match, anonymousUserId) });
+  }
+
+  const seat = match.row.seat0_id === null ? 0 : match.row.seat1_id === null ? 1 : null;
+  if (seat === null) {
+    return reject("MATCH_FULL", "Both seats are taken.", 409, { match: publicMatch(match, anonymousUserId) });
+  }
+
+  // 동시에 두 명이 들어오면 먼저 UPDATE된 쪽만 앉는다
+  const update = await env.DB.prepare(
+    `UPDATE matches
+        SET seat${seat}_id = ?1, status = 'active', updated_at = datetime('now')
+      WHERE id = ?2 AND seat${seat}_id IS NULL`
+  )
+    .bind(anonymousUserId, match.row.id)
+    .run();
+
+  const latest = await loadMatch(env.DB, match.row.id);
+  if (!update.meta?.changes) {
+    return reject("MATCH_FULL", "Both seats are taken.", 409, { match: publicMatch(latest, anonymousUserId) });
+  }
+  return json({ match: publicMatch(latest, anonymousUserId) });
+}
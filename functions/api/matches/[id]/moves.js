@@ -0,0 +1,80 @@
+import { decodeMove, matchResult, seatToMove } from "../../../../src/shared/matches";
+import { json, loadMatch, missingDatabase, normalizeAnonymousId, publicMatch, readBody, reject, seatOf } from "../_shared";
+
+// 한 수 두기 — 저장된 수순을 규칙 모듈로 다시 적용한 국면에서 합법 수인지 확인 후 저장
+export async function onRequestPost({ env, request, params }) {
+  if (!env.DB) return missingDatabase();
+
+  const body = await readBody(request);
+  if (!body) {
+    return reject("INVALID_JSON", "Invalid JSON body.", 400);
+  }
+  const anonymousUserId = normalizeAnonymousId(body.anonymous_user_id);
+  if (!anonymousUserId) {
+    return reject("ANONYMOUS_ID_REQUIRED", "anonymous_user_id is required.", 400);
+  }
+
+  const match = await loadMatch(env.DB, params.id);
+  if (!match) {
+    return reject("NOT_FOUND", "Match not found.", 404);
+  }
+  const { row, rules, history } = match;
+  const view = publicMatch(match, anonymousUserId);
+  const seat = seatOf(row, anonymousUserId);
+
+  if (!rules || !history) {
+    return reject("UNKNOWN_GAME", "Match cannot be replayed.", 500);
+  }
+  if (seat === null) {
+    return reject("NOT_A_PLAYER", "You are not playing in this match.", 403, { match: view });
+  }
+  if (row.status !== "active") {
+    return reject("NOT_ACTIVE", "Match is not in progress.", 409, { match: view });
+  }
+  // 클라이언트가 본 수순 길이 — 다르면 그 사이 상대가 두었거나 같은 수를 두 번 보낸 것
+  if (Number(body.ply) !== row.move_count) {
+    return reject("STALE_PLY", "Match has changed. Reload and try again.", 409, { match: view });
+  }
+
+  const state = history.states[history.ply];
+  if (seatToMove(rules, state) !== seat) {
+    return reject("NOT_YOUR_TURN", "It is not your turn.", 409, { match: view });
+  }
+  const code = String(body.move || "");
+  const move = decodeMove(rules, state, code);
+  if (move === null) {
+    return reject("ILLEGAL_MOVE", "Move is not legal in this position.", 400, { match: view });
+  }
+
+  const result = matchResult(rules, rules.game.applyMove(state, move));
+  try {
+    // match_moves 기본 키(match_id, ply)가 동시 제출을 막고, batch는 한 트랜잭션으로 처리된다
+    await env.DB.batch([
+      env.DB.prepare(`INSERT INTO match_moves (match_id, ply, move, seat) VALUES (?1, ?2, ?3, ?4)`).bind(
+        row.id,
+        row.move_count,
+        code,
+        seat
+      ),
+      env.DB.prepare(
+        `UPDATE matches
+            SET move_count = ?1, status = ?2, result = ?3, updated_at = datetime('now')
+          WHERE id = ?4 AND move_count = ?5`
+      ).bind(
+        row.move_count + 1,
+        result === null ? "active" : "finished",
+        result === null ? null : String(result),
+        row.id,
+        row.move_count
+      ),
+    ]);
+  } catch {
+    const latest = await loadMatch(env.DB, row.id);
+    return reject("STALE_PLY", "Match has changed. Reload and try again.", 409, {
+      match: publicMatch(latest, anonymousUserId),
+    });
+  }
+
+  const latest = await loadMatch(env.DB, row.id);
+  return json({ match: publicMatch(latest, anonymousUserId) });
+}
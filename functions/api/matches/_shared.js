@@ -0,0 +1,72 @@
+import { getMatchRules, replayMatch } from "../../../src/shared/matches";
+
+// matches/*.js 공용 — onRequest* 를 내보내지 않으므로 라우트가 되지 않는다
+
+export function json(data, init = {}) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "content-type": "application/json; charset=utf-8",
+      "cache-control": "no-store",
+      ...(init.headers || {}),
+    },
+  });
+}
+
+export function reject(code, error, status, extra = {}) {
+  return json({ error, code, ...extra }, { status });
+}
+
+export function normalizeAnonymousId(value) {
+  const id = String(value || "").trim();
+  return /^[a-zA-Z0-9_-]{12,80}$/.test(id) ? id : "";
+}
+
+export function missingDatabase() {
+  return json({ error: "D1 binding DB is not configured." }, { status: 500 });
+}
+
+export async function readBody(request) {
+  try {
+    const body = await request.json();
+    return body && typeof body === "object" ? body : null;
+  } catch {
+    return null;
+  }
+}
+
+/** 판 + 지금까지의 수 코드 (없는 판이면 null) */
+export async function loadMatch(db, id) {
+  const row = await db.prepare(`SELECT * FROM matches WHERE id = ?1`).bind(String(id || "")).first();
+  if (!row) return null;
+  const { results } = await db
+    .prepare(`SELECT move FROM match_moves WHERE match_id = ?1 ORDER BY ply ASC`)
+    .bind(row.id)
+    .all();
+  const rules = getMatchRules(row.game_id);
+  const options = JSON.parse(row.options || "{}");
+  const moves = (results || []).map((r) => r.move);
+  return { row, rules, options, moves, history: rules ? replayMatch(rules, options, moves) : null };
+}
+
+export function seatOf(row, anonymousUserId) {
+  if (!anonymousUserId) return null;
+  if (row.seat0_id === anonymousUserId) return 0;
+  if (row.seat1_id === anonymousUserId) return 1;
+  return null;
+}
+
+/** 클라이언트에 보내는 판 정보 — 상대의 anonymous_user_id는 내보내지 않는다 */
+export function publicMatch(match, anonymousUserId) {
+  const { row, options, moves } = match;
+  return {
+    id: row.id,
+    game_id: row.game_id,
+    options,
+    status: row.status,
+    result: row.result === null ? null : row.result === "draw" ? "draw" : Number(row.result),
+    moves,
+    seats: [Boolean(row.seat0_id), Boolean(row.seat1_id)],
+    seat: seatOf(row, anonymousUserId),
+  };
+}
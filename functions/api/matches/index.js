@@ -0,0 +1,64 @@
+import { getMatchRules } from "../../../src/shared/matches";
+import { json, loadMatch, missingDatabase, normalizeAnonymousId, publicMatch, readBody, reject } from "./_shared";
+
+const MAX_MATCHES_PER_10_MINUTES = 10;
+
+function createMatchId() {
+  const bytes = new Uint8Array(9);
+  crypto.getRandomValues(bytes);
+  // URL 해시에 그대로 넣을 수 있는 base64url 12자
+  return btoa(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_");
+}
+
+async function isRateLimited(db, anonymousUserId) {
+  const result = await db
+    .prepare(
+      `SELECT COUNT(*) AS count
+         FROM matches
+        WHERE creator_id = ?1
+          AND created_at >= datetime('now', '-10 minutes')`
+    )
+    .bind(anonymousUserId)
+    .first();
+  return Number(result?.count || 0) >= MAX_MATCHES_PER_10_MINUTES;
+}
+
+// 새 판 — 만든 사람이 고른 자리(0: 먼저 둠, 1: 나중에 둠)에 앉고, 상대는 링크로 들어온다
+export async function onRequestPost({ env, request }) {
+  if (!env.DB) return missingDatabase();
+
+  const body = await readBody(request);
+  if (!body) {
+    return reject("INVALID_JSON", "Invalid JSON body.", 400);
+  }
+
+  const gameId = String(body.game_id || "").trim();
+  const rules = getMatchRules(gameId);
+  const anonymousUserId = normalizeAnonymousId(body.anonymous_user_id);
+  const seat = Number(body.seat);
+
+  if (!rules) {
+    return reject("UNKNOWN_GAME", "Unknown game_id.", 400);
+  }
+  if (!anonymousUserId) {
+    return reject("ANONYMOUS_ID_REQUIRED", "anonymous_user_id is required.", 400);
+  }
+  if (seat !== 0 && seat !== 1) {
+    return reject("INVALID_SEAT", "seat must be 0 or 1.", 400);
+  }
+  if (await isRateLimited(env.DB, anonymousUserId)) {
+    return reject("RATE_LIMITED", "Too many matches created. Please try again later.", 429);
+  }
+
+  const id = createMatchId();
+  const options = rules.parseOptions(body.options);
+  await env.DB.prepare(
+    `INSERT INTO matches (id, game_id, options, seat0_id, seat1_id, creator_id)
+     VALUES (?1, ?2, ?3, ?4, ?5, ?4)`
+  )
+    .bind(id, gameId, JSON.stringify(options), seat === 0 ? anonymousUserId : null, seat === 1 ? anonymousUserId : null)
+    .run();
+
+  const match = await loadMatch(env.DB, id);
+  return json({ match: publicMatch(match, anonymousUserId) }, { status: 201 });
+}
@@ -1,6 +1,10 @@
-const DEFAULT_GAME_ID = "noah-ping-pong-garden";
-const MAX_SCORE = 999999;
+import { getReplaySim, verifyReplay } from "../../src/shared/replay";
+import { checkScore, getScoreRule } from "../../src/shared/scoreRules";
+import { claimPlayToken, readPlayToken, tokenSecret } from "./scores/_playToken";
+
 const MAX_SUBMISSIONS_PER_10_MINUTES = 5;
+// 리플레이 포함 요청 본문 상한 — 60분짜리 판의 입력 로그도 수십 KB 수준
+const MAX_BODY_BYTES = 256 * 1024;
 
 function json(data, init = {}) {
   return new Response(JSON.stringify(data), {
@@ -13,6 +17,25 @@ function json(data, init = {}) {
   });
 }
 
+function reject(code, error, status, extra = {}) {
+  return json({ error, code, ...extra }, { status });
+}
+
+const SCORE_RULE_MESSAGES = {
+  INVALID_SCORE: "Score must be an integer.",
+  SCORE_OUT_OF_RANGE: "Score is outside the allowed range for this game.",
+  PLAY_TOO_SHORT: "Play duration is too short for this score.",
+};
+
+const PLAY_TOKEN_MESSAGE = "play_token is missing, expired or issued for another game.";
+const PLAY_TOKEN_USED_MESSAGE = "play_token has already been used for a score.";
+
+const REPLAY_MESSAGES = {
+  malformed: "Replay is malformed.",
+  too_long: "Replay exceeds the maximum length.",
+  too_fast: "Replay is longer than the time since the play started.",
+};
+
 function normalizeNickname(value) {
   return String(value || "")
     .trim()
@@ -43,7 +66,7 @@ async function sha256Hex(value) {
 
 async function validateTurnstile(env, token, ip) {
   if (!env.TURNSTILE_SECRET_KEY) {
-    return { ok: false, error: "Turnstile secret is not configured." };
+    return { ok: false, code: "TURNSTILE_FAILED", error: "Turnstile secret is not configured." };
   }
 
   const formData = new FormData();
@@ -59,7 +82,12 @@ async function validateTurnstile(env, token, ip) {
 
   return result.success
     ? { ok: true }
-    : { ok: false, error: "Turnstile validation failed.", details: result["error-codes"] || [] };
+    : {
+        ok: false,
+        code: "TURNSTILE_FAILED",
+        error: "Turnstile validation failed.",
+        details: result["error-codes"] || [],
+      };
 }
 
 async function isRateLimited(db, anonymousUserId, ipHash) {
@@ -95,31 +123,63 @@ export async function onRequestPost({ env, request }) {
   if (!env.DB) {
     return json({ error: "D1 binding DB is not configured." }, { status: 500 });
   }
+  // 서명 secret 없이는 플레이 시간을 믿을 수 없으므로 받지 않는다
+  const playTokenSecret = tokenSecret(env);
+  if (!playTokenSecret) {
+    return json({ error: "SCORE_TOKEN_SECRET is not configured." }, { status: 500 });
+  }
+
+  const declaredLength = Number(request.headers.get("content-length") || 0);
+  if (declaredLength > MAX_BODY_BYTES) {
+    return reject("BODY_TOO_LARGE", "Request body is too large.", 413);
+  }
+  const text = await request.text();
+  if (new TextEncoder().encode(text).length > MAX_BODY_BYTES) {
+    return reject("BODY_TOO_LARGE", "Request body is too large.", 413);
+  }
 
   let body;
   try {
-    body = await request.json();
+    body = JSON.parse(text);
   } catch {
-    return json({ error: "Invalid JSON body." }, { status: 400 });
+    return reject("INVALID_JSON", "Invalid JSON body.", 400);
   }
 
   const nickname = normalizeNickname(body.nickname);
   const score = Number(body.score);
-  const gameId = String(body.game_id || DEFAULT_GAME_ID).trim().slice(0, 64);
+  const gameId = String(body.game_id || "").trim();
+  const rule = getScoreRule(gameId);
   const anonymousUserId = normalizeAnonymousId(body.anonymous_user_id);
   const turnstileToken = String(body.turnstile_token || "");
 
+  if (!rule) {
+    return reject("UNKNOWN_GAME", "Unknown game_id.", 400);
+  }
   if (!nickname) {
-    return json({ error: "Nickname is required." }, { status: 400 });
+    return reject("NICKNAME_REQUIRED", "Nickname is required.", 400);
+  }
+  // 플레이 시간은 클라이언트가 보낸 값 대신 서버가 발급한 시작 토큰으로 잰다
+  const playToken = await readPlayToken(playTokenSecret, gameId, body.play_token);
+  if (!playToken) {
+    return reject("PLAY_TOKEN_INVALID", PLAY_TOKEN_MESSAGE, 400);
+  }
+  const durationMs = Date.now() - playToken.issuedAt;
+  const ruleError = checkScore(rule, score, durationMs);
+  if (ruleError) {
+    return reject(ruleError, SCORE_RULE_MESSAGES[ruleError], 400, {
+      min_score: rule.minScore,
+      max_score: rule.maxScore,
+    });
   }
-  if (!Number.isInteger(score) || score < 0 || score > MAX_SCORE) {
-    return json({ error: "Score must be a valid non-negative integer." }, { status: 400 });
+  const replaySim = getReplaySim(gameId);
+  if (replaySim && !body.replay) {
+    return reject("REPLAY_REQUIRED", "This game requires a replay.", 400);
   }
   if (!anonymousUserId) {
-    return json({ error: "anonymous_user_id is required." }, { status: 400 });
+    return reject("ANONYMOUS_ID_REQUIRED", "anonymous_user_id is required.", 400);
   }
   if (!turnstileToken) {
-    return json({ error: "Turnstile token is required." }, { status: 400 });
+    return reject("TURNSTILE_REQUIRED", "Turnstile token is required.", 400);
   }
 
   const ip = getClientIp(request);
@@ -132,11 +192,33 @@ export async function onRequestPost({ env, request }) {
 
   const turnstile = await validateTurnstile(env, turnstileToken, ip);
   if (!turnstile.ok) {
-    return json({ error: turnstile.error, details: turnstile.details }, { status: 403 });
+    return reject(turnstile.code, turnstile.error, 403, { details: turnstile.details });
   }
 
   if (await isRateLimited(env.DB, anonymousUserId, ipHash)) {
-    return json({ error: "Too many score submissions. Please try again later." }, { status: 429 });
+    return reject("RATE_LIMITED", "Too many score submissions. Please try again later.", 429);
+  }
+
+  // 리플레이 재생은 CPU를 쓰므로 Turnstile/레이트 리밋 통과 후에만 수행
+  if (replaySim) {
+    const check = verifyReplay(replaySim, body.replay, score, durationMs);
+    if (!check.ok) {
+      return check.reason === "mismatch"
+        ? reject("REPLAY_MISMATCH", "Replay does not reproduce the submitted score.", 400, {
+            replay_score: check.score,
+          })
+        : reject("REPLAY_INVALID", REPLAY_MESSAGES[check.reason], 400, { reason: check.reason });
+    }
+    // 리플레이는 실시간보다 빨리 갈 수 없으므로 재생한 틱 수도 플레이 시간의 하한이 된다
+    const replayMs = body.replay.ticks * replaySim.stepMs;
+    if (replayMs < rule.minDurationMs) {
+      return reject("PLAY_TOO_SHORT", SCORE_RULE_MESSAGES.PLAY_TOO_SHORT, 400);
+    }
+  }
+
+  // 모든 검사를 통과한 뒤에야 토큰을 쓴 것으로 남긴다 (거부된 제출은 같은 토큰으로 다시 낼 수 있다)
+  if (!(await claimPlayToken(env.DB, playToken.nonce, gameId))) {
+    return reject("PLAY_TOKEN_USED", PLAY_TOKEN_USED_MESSAGE, 409);
   }
 
   const insert = await env.DB.prepare(
@@ -0,0 +1,64 @@
+// scores*.js 공용 — onRequest* 를 내보내지 않으므로 라우트가 되지 않는다
+//
+// 플레이 시작 토큰: "<발급 시각 ms>.<nonce>.<HMAC-SHA256(game_id:발급 시각:nonce) base64url>"
+// 게임 화면을 열 때 받아 두었다가 점수와 함께 내면, 서버가 발급 시각부터 지금까지를 플레이 시간으로 본다.
+// 점수가 저장되면 nonce를 play_tokens에 남겨 같은 토큰으로 다시 제출할 수 없다.
+
+// 이보다 오래된 토큰은 받지 않는다 — 화면을 열어 둔 채 여러 판을 하다 제출해도 되도록 넉넉히
+export const MAX_TOKEN_AGE_MS = 24 * 60 * 60 * 1000;
+
+/** 서명 secret — 설정이 없으면 null (호출한 쪽이 500으로 거부한다) */
+export function tokenSecret(env) {
+  return env.SCORE_TOKEN_SECRET || null;
+}
+
+function toBase64Url(bytes) {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+}
+
+async function sign(secret, message) {
+  const key = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const mac = await crypto.subtle.sign("HMAC", key, new TextEncoder().encode(message));
+  return toBase64Url(new Uint8Array(mac));
+}
+
+export async function issuePlayToken(secret, gameId, now = Date.now()) {
+  const nonce = toBase64Url(crypto.getRandomValues(new Uint8Array(16)));
+  return `${now}.${nonce}.${await sign(secret, `${gameId}:${now}:${nonce}`)}`;
+}
+
+/** 토큰이 이 게임용으로 발급된 것이면 { issuedAt, nonce }, 아니면 null */
+export async function readPlayToken(secret, gameId, token, now = Date.now()) {
+  const match = /^(\d{13})\.([A-Za-z0-9_-]{22})\.([A-Za-z0-9_-]{43})$/.exec(String(token || ""));
+  if (!match) return null;
+  const issuedAt = Number(match[1]);
+  const nonce = match[2];
+  if (issuedAt > now || now - issuedAt > MAX_TOKEN_AGE_MS) return null;
+  const expected = await sign(secret, `${gameId}:${issuedAt}:${nonce}`);
+  // 길이가 같으니 글자별 비교로 시간 차를 줄인다
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) diff |= expected.charCodeAt(i) ^ match[3].charCodeAt(i);
+  return diff === 0 ? { issuedAt, nonce } : null;
+}
+
+/** nonce를 사용 처리 — 이미 쓴 토큰이면 false */
+export async function claimPlayToken(db, nonce, gameId) {
+  // 만료된 토큰은 서명 검사에서 걸러지므로 그보다 오래된 기록은 지운다
+  await db
+    .prepare(`DELETE FROM play_tokens WHERE used_at < datetime('now', '-2 days')`)
+    .run();
+  const result = await db
+    .prepare(`INSERT OR IGNORE INTO play_tokens (nonce, game_id, used_at) VALUES (?1, ?2, datetime('now'))`)
+    .bind(nonce, gameId)
+    .run();
+  return Number(result.meta?.changes || 0) > 0;
+}
@@ -0,0 +1,35 @@
+import { getScoreRule } from "../../../src/shared/scoreRules";
+import { issuePlayToken, tokenSecret } from "./_playToken";
+
+function json(data, init = {}) {
+  return new Response(JSON.stringify(data), {
+    ...init,
+    headers: {
+      "content-type": "application/json; charset=utf-8",
+      "cache-control": "no-store",
+      ...(init.headers || {}),
+    },
+  });
+}
+
+// 게임 화면을 열 때(그리고 토큰을 쓴 뒤) 호출 — 점수를 낼 때 이 토큰으로 서버가 플레이 시간을 잰다
+export async function onRequestPost({ env, request }) {
+  let body;
+  try {
+    body = await request.json();
+  } catch {
+    return json({ error: "Invalid JSON body.", code: "INVALID_JSON" }, { status: 400 });
+  }
+
+  const secret = tokenSecret(env);
+  if (!secret) {
+    return json({ error: "SCORE_TOKEN_SECRET is not configured." }, { status: 500 });
+  }
+
+  const gameId = String(body?.game_id || "").trim();
+  if (!getScoreRule(gameId)) {
+    return json({ error: "Unknown game_id.", code: "UNKNOWN_GAME" }, { status: 400 });
+  }
+
+  return json({ token: await issuePlayToken(secret, gameId) });
+}
@@ -0,0 +1,32 @@
+
+-- 온라인 대전 (통신 대국) — 수는 match_moves에 한 줄씩, 서버가 규칙 모듈로 검증 후 저장
+CREATE TABLE IF NOT EXISTS matches (
+  id TEXT PRIMARY KEY,
+  game_id TEXT NOT NULL,
+  -- JSON (예: 오목 {"rules":"renju"})
+  options TEXT NOT NULL DEFAULT '{}',
+  -- 0: 먼저 두는 쪽, 1: 나중에 두는 쪽의 anonymous_user_id
+  seat0_id TEXT,
+  seat1_id TEXT,
+  -- waiting | active | finished
+  status TEXT NOT NULL DEFAULT 'waiting',
+  -- '0' | '1' | 'draw'
+  result TEXT,
+  move_count INTEGER NOT NULL DEFAULT 0,
+  creator_id TEXT NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_matches_creator_created
+  ON matches (creator_id, created_at);
+
+CREATE TABLE IF NOT EXISTS match_moves (
+  match_id TEXT NOT NULL,
+  ply INTEGER NOT NULL,
+  move TEXT NOT NULL,
+  seat INTEGER NOT NULL,
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  -- 같은 수 번호에 두 번 저장되지 않게 (동시 제출 방지)
+  PRIMARY KEY (match_id, ply)
+);
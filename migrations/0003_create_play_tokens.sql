@@ -0,0 +1,9 @@
+-- 점수 제출에 쓴 플레이 시작 토큰 — 같은 토큰으로 두 번 저장하지 않게 (functions/api/scores/_playToken.js)
+CREATE TABLE IF NOT EXISTS play_tokens (
+  nonce TEXT PRIMARY KEY,
+  game_id TEXT NOT NULL,
+  used_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_play_tokens_used
+  ON play_tokens (used_at);
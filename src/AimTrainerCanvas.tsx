@@ -353,6 +353,8 @@ const AimTrainerCanvas: React.FC = () => {
   return (
     <GameManager
       title="Aim Trainer"
+      gameId="aim"
+      score={stats.hits}
       gameIcon="🎯"
       gameStats={gameStats}
       gameStatus={getGameStatus()}
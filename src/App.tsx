@@ -22,7 +22,8 @@ function isGameId(v: string): v is GameId {
 
 /** Read initial view from URL hash */
 function getInitialView(): GameView {
-  const hash = window.location.hash.replace(/^#\/?/, '');
+  // #chess?match=… 같은 쿼리는 게임 화면이 읽는다
+  const hash = window.location.hash.replace(/^#\/?/, '').split('?')[0];
   if (isPageId(hash)) return hash;
   if (isGameId(hash)) return hash as GameId;
   return 'menu';
@@ -3,6 +3,7 @@ import GameManager from './components/GameManager';
 import GameCanvas from './components/GameCanvas';
 import GameButton from './components/GameButton';
 import { layout } from './theme/gameTheme';
+import { useGameLoop } from './hooks/useGameLoop';
 
 const CANVAS_WIDTH = layout.maxWidth;
 const CANVAS_HEIGHT = layout.maxWidth;
@@ -31,7 +32,6 @@ interface Explosion {
 
 const BombermanCanvas: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const animationRef = useRef<number>();
   const gridRef = useRef<Cell[][]>([]);
   const bombsRef = useRef<Bomb[]>([]);
   const explosionsRef = useRef<Explosion[]>([]);
@@ -188,21 +188,29 @@ const BombermanCanvas: React.FC = () => {
     ctx.fillText('🙂', p.x * TILE + TILE / 2, p.y * TILE + TILE / 2);
   }, []);
 
-  useEffect(() => {
-    const ctx = canvasRef.current?.getContext('2d');
-    let last = performance.now();
-    const loop = (now: number) => {
-      const dt = (now - last) / 1000;
-      last = now;
-      update(dt);
-      if (ctx) draw(ctx);
-      animationRef.current = requestAnimationFrame(loop);
-    };
-    animationRef.current = requestAnimationFrame(loop);
-    return () => {
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
-    };
-  }, [draw, update]);
+  // 격자 게임이라 보간 없이 현재 상태를 그린다
+  const { paused, resume, togglePause } = useGameLoop({
+    update: (stepMs) => update(stepMs / 1000),
+    render: () => {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
+      draw(ctx);
+      if (paused) {
+        ctx.fillStyle = 'rgba(0,0,0,0.6)';
+        ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+        ctx.fillStyle = '#fff';
+        ctx.font = 'bold 32px sans-serif';
+        ctx.fillText('일시정지 (P)', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+      }
+    },
+    running: gameState === 'playing',
+    canvas: { ref: canvasRef, width: CANVAS_WIDTH, height: CANVAS_HEIGHT },
+  });
+
+  const restart = useCallback(() => {
+    resume();
+    initLevel();
+  }, [initLevel, resume]);
 
   const handleKeyDown = useCallback(
     (e: KeyboardEvent) => {
@@ -223,16 +231,23 @@ const BombermanCanvas: React.FC = () => {
           ' ',
           'r',
           'R',
+          'p',
+          'P',
         ].includes(e.key)
       ) {
         e.preventDefault();
         e.stopPropagation();
       }
       if (e.key === 'r' || e.key === 'R') {
-        initLevel();
+        restart();
         return;
       }
       if (gameState !== 'playing') return;
+      if (e.key === 'p' || e.key === 'P') {
+        togglePause();
+        return;
+      }
+      if (paused) return;
       switch (e.key) {
         case 'w':
         case 'W':
@@ -259,7 +274,7 @@ const BombermanCanvas: React.FC = () => {
           break;
       }
     },
-    [gameState, initLevel, placeBomb, tryMove]
+    [gameState, paused, placeBomb, restart, togglePause, tryMove]
   );
 
   useEffect(() => {
@@ -277,10 +292,12 @@ const BombermanCanvas: React.FC = () => {
   return (
     <GameManager
       title="Bomberman-lite"
+      gameId="bomber"
+      score={score}
       gameIcon="💣"
       gameStats={<div>부순 벽: {score}</div>}
       gameStatus={gameStatus}
-      instructions={<div>WASD/←→↑↓ 이동, Space 폭탄, R 리셋</div>}
+      instructions={<div>WASD/←→↑↓ 이동, Space 폭탄, P 일시정지, R 리셋</div>}
     >
       <GameCanvas
         ref={canvasRef}
@@ -289,7 +306,7 @@ const BombermanCanvas: React.FC = () => {
         gameTitle="Bomberman-lite"
       />
       <div style={{ marginTop: 12 }}>
-        <GameButton onClick={initLevel}>Reset</GameButton>
+        <GameButton onClick={restart}>Reset</GameButton>
       </div>
     </GameManager>
   );
@@ -314,7 +314,13 @@ const BubbleShooterCanvas: React.FC = () => {
 
   return (
     <GameLayout
-      gameStatus={state === 'over' ? '게임 오버' : undefined} title="Bubble Shooter" topInfo={topInfo} bottomInfo={instructions}>
+      gameStatus={state === 'over' ? '게임 오버' : undefined}
+      title="Bubble Shooter"
+      gameId="bubbleshooter"
+      score={score}
+      topInfo={topInfo}
+      bottomInfo={instructions}
+    >
       <GameCanvas
         ref={canvasRef}
         gameTitle="Bubble Shooter"
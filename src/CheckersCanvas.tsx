@@ -1,87 +1,110 @@
-import React, { useRef, useState, useEffect, useCallback } from 'react';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
 import GameLayout from './components/GameLayout';
 import GameCanvas from './components/GameCanvas';
 import GameButton from './components/GameButton';
+import TurnHistoryPanel from './components/TurnHistoryPanel';
+import { TurnBasedAi, useTurnBasedGame } from './hooks/useTurnBasedGame';
+import { useMctsSearch } from './hooks/useMctsSearch';
+import {
+  checkersGame,
+  CHECKERS_VARIANTS,
+  CheckersMove,
+  CheckersResult,
+  CheckersState,
+  CheckersVariantId,
+  getResult,
+  initialState,
+  isKing,
+  Side,
+  sideOf,
+} from './shared/checkers/rules';
+import { MCTS_LEVELS } from './shared/mcts';
 
-const SIZE = 8;
-const CELL = 60;
-const WIDTH = SIZE * CELL;
+const WIDTH = 480;
 const HEIGHT = WIDTH;
 
-type Piece = 0 | 1 | -1; // 1: red, -1: black
+const SIDE_NAME: Record<Side, string> = { 1: '빨강', [-1]: '파랑' };
+const SIDE_COLOR: Record<Side, string> = { 1: '#FF4444', [-1]: '#4444FF' };
 
-function initBoard(): Piece[][] {
-  const b: Piece[][] = Array.from({ length: SIZE }, () => Array(SIZE).fill(0));
-  for (let r = 0; r < 3; r++) {
-    for (let c = 0; c < SIZE; c++) {
-      if ((r + c) % 2 === 1) b[r][c] = -1;
-    }
-  }
-  for (let r = SIZE - 3; r < SIZE; r++) {
-    for (let c = 0; c < SIZE; c++) {
-      if ((r + c) % 2 === 1) b[r][c] = 1;
-    }
-  }
-  return b;
+// AI 대전이면 승패를 사람(빨강) 기준으로 표시
+function resultText(result: CheckersResult, vsAi: boolean): string {
+  if (result.kind === 'win' && vsAi) return result.winner === 1 ? '승리!' : '패배 — 게임 오버';
+  if (result.kind === 'win') return `${SIDE_NAME[result.winner]} 승리!`;
+  return `무승부 (${result.reason === 'repetition' ? '3회 반복' : '진전 없음'}) — 게임 오버`;
 }
 
 const CheckersCanvas: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [board, setBoard] = useState<Piece[][]>(() => initBoard());
-  const [turn, setTurn] = useState<Piece>(1);
-  const [selected, setSelected] = useState<{ r: number; c: number } | null>(null);
-
-  const reset = useCallback(() => {
-    setBoard(initBoard());
-    setTurn(1);
-    setSelected(null);
-  }, []);
-
-  const validMove = useCallback(
-    (sr: number, sc: number, dr: number, dc: number) => {
-      if (dr < 0 || dr >= SIZE || dc < 0 || dc >= SIZE) return null;
-      if (board[dr][dc] !== 0) return null;
-      const dir = turn === 1 ? -1 : 1;
-      if (dr - sr === dir && Math.abs(dc - sc) === 1) {
-        return { capture: null };
-      }
-      if (dr - sr === dir * 2 && Math.abs(dc - sc) === 2) {
-        const mr = (sr + dr) / 2;
-        const mc = (sc + dc) / 2;
-        if (board[mr][mc] === -turn) return { capture: { r: mr, c: mc } };
-      }
-      return null;
-    },
-    [board, turn]
+  const [variant, setVariant] = useState<CheckersVariantId>('american');
+  // MCTS 상대 레벨 (MCTS_LEVELS 인덱스), null이면 2인 플레이. AI는 파랑(-1), 사람은 빨강으로 먼저 둔다.
+  const [aiLevel, setAiLevel] = useState<number | null>(1);
+  const search = useMctsSearch<CheckersState, CheckersMove>('checkers');
+  const ai = useMemo<TurnBasedAi<CheckersState, CheckersMove> | null>(
+    () =>
+      aiLevel === null
+        ? null
+        : {
+            isAiTurn: s => s.turn === -1,
+            search: s => search(s, aiLevel),
+          },
+    [aiLevel, search]
+  );
+  const session = useTurnBasedGame(checkersGame, () => initialState('american'), { ai });
+  const { state, legalMoves: moves, thinking, canPlay, play, reset: restart } = session;
+  // 지금까지 고른 경로 (출발 칸 + 연속 잡기 착지 칸들)
+  const [path, setPath] = useState<number[]>([]);
+  const lastPath = session.lastMove?.path ?? [];
+
+  const size = CHECKERS_VARIANTS[state.variant].size;
+  const cell = WIDTH / size;
+  const result = useMemo(() => getResult(state), [state]);
+  const mustCapture = moves.length > 0 && moves[0].captures.length > 0;
+
+  // 고른 경로로 시작하는 합법 수들
+  const candidates = useMemo(
+    () => (path.length ? moves.filter(m => path.every((sq, i) => m.path[i] === sq)) : []),
+    [moves, path]
   );
 
+  const reset = useCallback((next: CheckersVariantId = variant) => restart(initialState(next)), [variant, restart]);
+
+  // 무르기/다시 하기로 국면이 바뀌면 고르던 경로는 버린다
+  useEffect(() => setPath([]), [state]);
+
+  const chooseVariant = (next: CheckersVariantId) => {
+    setVariant(next);
+    reset(next);
+  };
+
   const handleClick = useCallback(
     (e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (!canPlay) return;
       const rect = e.currentTarget.getBoundingClientRect();
       const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
       const y = ((e.clientY - rect.top) / rect.height) * HEIGHT;
-      const c = Math.floor(x / CELL);
-      const r = Math.floor(y / CELL);
-      if (!selected) {
-        if (board[r][c] === turn) setSelected({ r, c });
+      const sq = Math.floor(y / cell) * size + Math.floor(x / cell);
+
+      // 경로를 한 칸 이어 가기 — 수가 완성되면 바로 둔다
+      const next = [...path, sq];
+      const extending = candidates.filter(m => m.path[path.length] === sq);
+      if (path.length && extending.length) {
+        const done = extending.find(m => m.path.length === next.length);
+        if (done && extending.length === 1) {
+          play(done);
+        } else {
+          setPath(next);
+        }
         return;
       }
-      if (selected.r === r && selected.c === c) {
-        setSelected(null);
+
+      // 둘 수 있는 자기 말을 새로 선택 (연속 잡기 도중에는 바꿀 수 없음)
+      if (path.length <= 1 && sideOf(state.board[sq]) === state.turn && moves.some(m => m.path[0] === sq)) {
+        setPath(path[0] === sq ? [] : [sq]);
         return;
       }
-      const move = validMove(selected.r, selected.c, r, c);
-      if (move) {
-        const newBoard = board.map(row => row.slice());
-        newBoard[r][c] = board[selected.r][selected.c];
-        newBoard[selected.r][selected.c] = 0;
-        if (move.capture) newBoard[move.capture.r][move.capture.c] = 0;
-        setBoard(newBoard);
-        setTurn(-turn as Piece);
-      }
-      setSelected(null);
+      if (path.length <= 1) setPath([]);
     },
-    [board, selected, turn, validMove]
+    [candidates, cell, moves, path, canPlay, size, state, play]
   );
 
   useEffect(() => {
@@ -90,25 +113,70 @@ const CheckersCanvas: React.FC = () => {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     ctx.clearRect(0, 0, WIDTH, HEIGHT);
-    for (let r = 0; r < SIZE; r++) {
-      for (let c = 0; c < SIZE; c++) {
+    const center = (sq: number) => [(sq % size) * cell + cell / 2, Math.floor(sq / size) * cell + cell / 2];
+
+    for (let r = 0; r < size; r++) {
+      for (let c = 0; c < size; c++) {
+        const sq = r * size + c;
         ctx.fillStyle = (r + c) % 2 === 0 ? '#F0D9B5' : '#B58863';
-        ctx.fillRect(c * CELL, r * CELL, CELL, CELL);
-        const piece = board[r][c];
-        if (piece !== 0) {
-          ctx.beginPath();
-          ctx.arc(c * CELL + CELL / 2, r * CELL + CELL / 2, CELL * 0.4, 0, Math.PI * 2);
-          ctx.fillStyle = piece === 1 ? '#FF4444' : '#4444FF';
-          ctx.fill();
+        ctx.fillRect(c * cell, r * cell, cell, cell);
+        if (lastPath.includes(sq)) {
+          ctx.fillStyle = 'rgba(255, 255, 0, 0.3)';
+          ctx.fillRect(c * cell, r * cell, cell, cell);
         }
       }
     }
-    if (selected) {
+
+    // 잡기가 강제될 때 잡을 수 있는 말 표시
+    if (mustCapture && !path.length && !result) {
+      ctx.strokeStyle = '#FFAA00';
+      ctx.lineWidth = 3;
+      for (const from of new Set(moves.map(m => m.path[0]))) {
+        const [x, y] = center(from);
+        ctx.beginPath();
+        ctx.arc(x, y, cell * 0.46, 0, Math.PI * 2);
+        ctx.stroke();
+      }
+    }
+
+    state.board.forEach((piece, sq) => {
+      if (!piece) return;
+      const [x, y] = center(sq);
+      ctx.beginPath();
+      ctx.arc(x, y, cell * 0.4, 0, Math.PI * 2);
+      ctx.fillStyle = SIDE_COLOR[sideOf(piece) as Side];
+      ctx.fill();
+      // 연속 잡기로 잡히는 중인 말은 흐리게
+      if (candidates.some(m => m.captures.slice(0, path.length - 1).includes(sq))) {
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+        ctx.fill();
+      }
+      if (isKing(piece)) {
+        ctx.fillStyle = '#FFD700';
+        ctx.font = `${Math.floor(cell * 0.45)}px sans-serif`;
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText('♛', x, y + 1);
+      }
+    });
+
+    if (path.length) {
       ctx.strokeStyle = '#00FF00';
       ctx.lineWidth = 3;
-      ctx.strokeRect(selected.c * CELL + 2, selected.r * CELL + 2, CELL - 4, CELL - 4);
+      for (const sq of path) {
+        ctx.strokeRect((sq % size) * cell + 2, Math.floor(sq / size) * cell + 2, cell - 4, cell - 4);
+      }
+      // 다음에 갈 수 있는 칸
+      ctx.fillStyle = 'rgba(0, 255, 0, 0.5)';
+      for (const sq of new Set(candidates.map(m => m.path[path.length]))) {
+        if (sq === undefined) continue;
+        const [x, y] = center(sq);
+        ctx.beginPath();
+        ctx.arc(x, y, cell * 0.15, 0, Math.PI * 2);
+        ctx.fill();
+      }
     }
-  }, [board, selected]);
+  }, [candidates, cell, lastPath, moves, mustCapture, path, result, size, state]);
 
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
@@ -121,19 +189,55 @@ const CheckersCanvas: React.FC = () => {
     return () => window.removeEventListener('keydown', handler);
   }, [reset]);
 
+  const status = result
+    ? resultText(result, aiLevel !== null)
+    : `${SIDE_NAME[state.turn]} 차례${mustCapture ? ' — 잡기 필수!' : ''}${path.length > 1 ? ' (연속 잡기 중)' : ''}${thinking ? ' (AI 생각 중…)' : ''}`;
+
+  const chooseOpponent = (level: number | null) => {
+    setAiLevel(level);
+    reset();
+  };
+
+  const actionButtons = (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8, alignItems: 'center' }}>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'center' }}>
+        {Object.values(CHECKERS_VARIANTS).map(v => (
+          <GameButton key={v.id} variant={variant === v.id ? 'primary' : 'secondary'} onClick={() => chooseVariant(v.id)}>
+            {v.label}
+          </GameButton>
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'center' }}>
+        <GameButton variant={aiLevel === null ? 'primary' : 'secondary'} onClick={() => chooseOpponent(null)}>
+          2인
+        </GameButton>
+        {MCTS_LEVELS.map((level, i) => (
+          <GameButton key={level.label} variant={aiLevel === i ? 'primary' : 'secondary'} onClick={() => chooseOpponent(i)}>
+            AI {level.label}
+          </GameButton>
+        ))}
+      </div>
+    </div>
+  );
+
   return (
     <GameLayout
       title="Checkers"
-      bottomInfo={['클릭으로 이동, R: 리셋']}
+      gameStatus={result ? resultText(result, aiLevel !== null) : undefined}
+      bottomInfo={[status, '말 클릭 후 이동할 칸 클릭 (연속 잡기는 칸을 차례로 클릭), R: 리셋, Ctrl+Z/Y: 무르기/다시']}
+      actionButtons={actionButtons}
     >
-      <GameCanvas
-        ref={canvasRef}
-        width={WIDTH}
-        height={HEIGHT}
-        onClick={handleClick}
-        gameTitle="Checkers"
-      />
-      <GameButton onClick={reset}>Reset</GameButton>
+      <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', justifyContent: 'center', alignItems: 'stretch' }}>
+        <GameCanvas
+          ref={canvasRef}
+          width={WIDTH}
+          height={HEIGHT}
+          onClick={handleClick}
+          gameTitle="Checkers"
+        />
+        <TurnHistoryPanel game={session} />
+      </div>
+      <GameButton onClick={() => reset()}>Reset</GameButton>
     </GameLayout>
   );
 };
@@ -1,152 +1,166 @@
-import React, { useRef, useState, useEffect, useCallback } from 'react';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
 import GameLayout from './components/GameLayout';
 import GameCanvas from './components/GameCanvas';
 import GameButton from './components/GameButton';
+import TurnHistoryPanel from './components/TurnHistoryPanel';
+import OnlineMatchPanel from './components/OnlineMatchPanel';
+import RatingPanel from './components/RatingPanel';
+import AnalysisPanel from './components/AnalysisPanel';
+import { TurnBasedAi, useAiWorker, useTurnBasedGame } from './hooks/useTurnBasedGame';
+import { useOnlineMatch, useOnlineMode } from './hooks/useOnlineMatch';
+import { useAiRating } from './hooks/useAiRating';
+import { useGameAnalysis } from './hooks/useGameAnalysis';
+import {
+  ChessGame,
+  ChessResult,
+  Color,
+  findKing,
+  getResult,
+  inCheck,
+  Move,
+  newGame,
+  PROMOTION_PIECES,
+  sameMove,
+  toSquare,
+} from './shared/chess/rules';
+import { chessGame, parseFen, parsePgn, PgnHeaders, toFen, toPgn } from './shared/chess/notation';
+import { replayMoves } from './shared/turnBased';
+import { AI_LEVELS } from './shared/chess/ai';
+import { formatChessScore } from './shared/chess/analysis';
+import { reviewMarks } from './shared/analysis';
+import { chessMatch } from './shared/matches';
+import type { ChessAiRequest, ChessAiResponse } from './workers/chessAi.worker';
+import type { ChessAnalysisRequest, ChessAnalysisResponse } from './workers/chessAnalysis.worker';
 
 const SIZE = 8;
 const CELL = 60;
 const WIDTH = SIZE * CELL;
 const HEIGHT = WIDTH;
 
-type Piece = { type: string; color: 'w' | 'b'; moved?: boolean };
-type Board = (Piece | null)[][];
-
 const symbols: Record<string, string> = {
   p: '♟', r: '♜', n: '♞', b: '♝', q: '♛', k: '♚'
 };
 
-function initBoard(): Board {
-  const b: Board = Array.from({ length: SIZE }, () => Array(SIZE).fill(null));
-  const back = ['r', 'n', 'b', 'q', 'k', 'b', 'n', 'r'];
-  for (let c = 0; c < SIZE; c++) {
-    b[0][c] = { type: back[c], color: 'b', moved: false };
-    b[1][c] = { type: 'p', color: 'b', moved: false };
-    b[SIZE - 2][c] = { type: 'p', color: 'w', moved: false };
-    b[SIZE - 1][c] = { type: back[c], color: 'w', moved: false };
-  }
-  return b;
+const COLOR_NAME: Record<Color, string> = { w: '백', b: '흑' };
+
+const DRAW_REASON: Record<Exclude<ChessResult['kind'], 'checkmate'>, string> = {
+  stalemate: '스테일메이트',
+  'fifty-move': '50수 규칙',
+  threefold: '3회 동형반복',
+  insufficient: '기물 부족',
+};
+
+// playerColor가 있으면 AI 대전 — 승패를 플레이어 기준으로 표시
+function resultText(result: ChessResult, playerColor: Color | null): string {
+  if (result.kind !== 'checkmate') return `무승부 (${DRAW_REASON[result.kind]}) — 게임 오버`;
+  if (!playerColor) return `체크메이트 — ${COLOR_NAME[result.winner]} 승리!`;
+  return result.winner === playerColor ? '체크메이트 — 승리!' : '체크메이트 — 패배';
 }
 
 const ChessCanvas: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [board, setBoard] = useState<Board>(() => initBoard());
-  const [turn, setTurn] = useState<'w' | 'b'>('w');
-  const [selected, setSelected] = useState<{ r: number; c: number } | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  // 프로모션 기물 선택 대기 중인 후보 수들 (같은 from/to, promotion만 다름)
+  const [promotionChoices, setPromotionChoices] = useState<Move[] | null>(null);
+  // AI 상대 레벨 (AI_LEVELS 인덱스), null이면 2인 플레이
+  const [aiLevel, setAiLevel] = useState<number | null>(2);
+  const [playerColor, setPlayerColor] = useState<Color>('w');
+  // 불러온 PGN의 태그 (내보낼 때 유지)
+  const [headers, setHeaders] = useState<PgnHeaders>({});
+  const [notationText, setNotationText] = useState('');
+  const [notationMessage, setNotationMessage] = useState('');
+  // 온라인 대전 (링크로 들어오면 처음부터 켜짐) — 켜져 있으면 AI는 쉰다
+  const onlineMode = useOnlineMode();
+  const aiColor: Color | null = aiLevel === null || onlineMode.enabled ? null : playerColor === 'w' ? 'b' : 'w';
 
-  const reset = useCallback(() => {
-    setBoard(initBoard());
-    setTurn('w');
+  const search = useAiWorker<ChessAiRequest, ChessAiResponse>(
+    () => new Worker(new URL('./workers/chessAi.worker.ts', import.meta.url), { type: 'module' })
+  );
+  const ai = useMemo<TurnBasedAi<ChessGame, Move> | null>(
+    () =>
+      aiLevel === null || aiColor === null
+        ? null
+        : {
+            isAiTurn: g => g.position.turn === aiColor,
+            search: g => search({ position: g.position, level: aiLevel }).then(res => res.move),
+          },
+    [aiLevel, aiColor, search]
+  );
+  // 보고 있는 수까지의 판 — 지난 수를 보다가 두면 그 뒤 수순은 버리고 새로 이어간다
+  const session = useTurnBasedGame(chessGame, () => newGame(), { ai });
+  const online = useOnlineMatch(chessMatch, session, onlineMode);
+  const { state: viewed, legalMoves: moves, history, ply, thinking, play, goTo, reset: restart, load } = session;
+  // 대국 후 분석 (백 기준) — 분석 중에는 보드를 보기만 한다
+  const analyzeRequest = useAiWorker<ChessAnalysisRequest, ChessAnalysisResponse>(
+    () => new Worker(new URL('./workers/chessAnalysis.worker.ts', import.meta.url), { type: 'module' })
+  );
+  const analyzeGame = useCallback((g: ChessGame) => analyzeRequest({ game: g }), [analyzeRequest]);
+  const analysis = useGameAnalysis(chessGame, session, 'w', analyzeGame);
+  // 온라인에서는 최신 수순의 내 차례에만 둔다
+  const canPlay =
+    session.canPlay && !analysis.active && (!onlineMode.enabled || (online.myTurn && session.atLatest));
+  // 승패를 내 기준으로 보여 줄 색 (2인/관전이면 null)
+  const myColor: Color | null = onlineMode.enabled
+    ? online.seat === null ? null : (chessMatch.seats[online.seat] as Color)
+    : aiColor && playerColor;
+  const rating = useAiRating('chess', session, AI_LEVELS, aiColor === null ? null : aiLevel, g => {
+    const final = getResult(g);
+    return final?.kind === 'checkmate' ? (final.winner === playerColor ? 1 : 0) : 0.5;
+  });
+  // 수순 전체 (되돌린 뒤의 수까지) — 내보내기와 종국 배너는 이 기준
+  const game = history.states[history.moves.length];
+  const liveResult = useMemo(() => getResult(game), [game]);
+  const viewing = !session.atLatest;
+  // 화면의 보드/판정은 보고 있는 수 기준
+  const position = viewed.position;
+  const turn = position.turn;
+  const result = useMemo(() => (viewing ? getResult(viewed) : liveResult), [viewed, viewing, liveResult]);
+  const checked = !result && inCheck(position);
+  const lastMove = session.lastMove;
+  // 분석 중 직전 수가 최선이 아니었으면 엔진의 대안을 화살표로
+  const review = analysis.active && ply > 0 ? analysis.reviews[ply - 1] : undefined;
+  const alternative = review && review.grade !== 'best' ? analysis.evals[ply - 1].best : null;
+  // 흑으로 두면 보드를 뒤집어 자기 진영이 아래에 오게 함
+  const flipped = myColor === 'b';
+  const viewSquare = useCallback((r: number, c: number) => (flipped ? 63 - toSquare(r, c) : toSquare(r, c)), [flipped]);
+
+  // 국면이 바뀌면 (무르기/기보 이동 포함) 고르던 기물은 놓는다
+  useEffect(() => {
     setSelected(null);
-  }, []);
-
-  const inBounds = (r: number, c: number) => r >= 0 && r < SIZE && c >= 0 && c < SIZE;
-
-  const pathClear = (sr: number, sc: number, dr: number, dc: number): boolean => {
-    const stepR = Math.sign(dr - sr);
-    const stepC = Math.sign(dc - sc);
-    let r = sr + stepR;
-    let c = sc + stepC;
-    while (r !== dr || c !== dc) {
-      if (board[r][c]) return false;
-      r += stepR;
-      c += stepC;
-    }
-    return true;
-  };
+    setPromotionChoices(null);
+  }, [viewed]);
 
-  const canMove = (sr: number, sc: number, dr: number, dc: number): boolean => {
-    if (!inBounds(dr, dc)) return false;
-    const piece = board[sr][sc];
-    if (!piece) return false;
-    const target = board[dr][dc];
-    if (target && target.color === piece.color) return false;
-    const dR = dr - sr;
-    const dC = dc - sc;
-    switch (piece.type) {
-      case 'p': {
-        const dir = piece.color === 'w' ? -1 : 1;
-        const startRow = piece.color === 'w' ? SIZE - 2 : 1;
-        if (dC === 0) {
-          if (dR === dir && !target) return true;
-          if (sr === startRow && dR === 2 * dir && !target && !board[sr + dir][sc]) return true;
-        }
-        if (Math.abs(dC) === 1 && dR === dir && target) return true;
-        return false;
-      }
-      case 'r':
-        if (dR !== 0 && dC !== 0) return false;
-        return pathClear(sr, sc, dr, dc);
-      case 'b':
-        if (Math.abs(dR) !== Math.abs(dC)) return false;
-        return pathClear(sr, sc, dr, dc);
-      case 'q':
-        if (dR === 0 || dC === 0) return pathClear(sr, sc, dr, dc);
-        if (Math.abs(dR) === Math.abs(dC)) return pathClear(sr, sc, dr, dc);
-        return false;
-      case 'n':
-        return (
-          (Math.abs(dR) === 2 && Math.abs(dC) === 1) ||
-          (Math.abs(dR) === 1 && Math.abs(dC) === 2)
-        );
-      case 'k':
-        if (Math.max(Math.abs(dR), Math.abs(dC)) === 1) return true;
-        if (dR === 0 && Math.abs(dC) === 2 && !piece.moved) {
-          const rookCol = dC > 0 ? SIZE - 1 : 0;
-          const rook = board[sr][rookCol];
-          if (
-            rook &&
-            rook.type === 'r' &&
-            rook.color === piece.color &&
-            !rook.moved &&
-            pathClear(sr, sc, sr, rookCol)
-          )
-            return true;
-        }
-        return false;
-      default:
-        return false;
-    }
-  };
+  // 온라인 판은 서버 수순을 따르므로 리셋하지 않는다
+  const reset = useCallback(() => {
+    if (onlineMode.enabled) return;
+    restart(newGame());
+    setHeaders({});
+  }, [onlineMode.enabled, restart]);
 
   const handleClick = useCallback(
     (e: React.MouseEvent<HTMLCanvasElement>) => {
+      if (!canPlay || promotionChoices) return;
       const rect = e.currentTarget.getBoundingClientRect();
       const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
       const y = ((e.clientY - rect.top) / rect.height) * HEIGHT;
-      const c = Math.floor(x / CELL);
-      const r = Math.floor(y / CELL);
-      if (!selected) {
-        const piece = board[r][c];
-        if (piece && piece.color === turn) setSelected({ r, c });
+      const sq = viewSquare(Math.floor(y / CELL), Math.floor(x / CELL));
+      const piece = position.board[sq];
+
+      if (selected === null || selected === sq) {
+        setSelected(selected === null && piece?.color === turn ? sq : null);
         return;
       }
-      if (selected.r === r && selected.c === c) {
-        setSelected(null);
-        return;
+      const candidates = moves.filter(m => m.from === selected && m.to === sq);
+      if (candidates.length > 1) {
+        setPromotionChoices(candidates);
+      } else if (candidates.length === 1) {
+        play(candidates[0]);
+      } else {
+        // 다른 자기 기물을 누르면 선택 변경
+        setSelected(piece?.color === turn ? sq : null);
       }
-      if (canMove(selected.r, selected.c, r, c)) {
-        const newBoard = board.map(row => row.slice());
-        const piece = newBoard[selected.r][selected.c];
-        if (piece?.type === 'k' && Math.abs(selected.c - c) === 2) {
-          const rookCol = c > selected.c ? SIZE - 1 : 0;
-          const rookDest = c > selected.c ? c - 1 : c + 1;
-          newBoard[r][c] = { ...piece, moved: true };
-          newBoard[selected.r][selected.c] = null;
-          const rook = newBoard[r][rookCol];
-          if (rook) {
-            newBoard[r][rookDest] = { ...rook, moved: true };
-            newBoard[r][rookCol] = null;
-          }
-        } else {
-          newBoard[r][c] = { ...piece!, moved: true };
-          newBoard[selected.r][selected.c] = null;
-        }
-        setBoard(newBoard);
-        setTurn(turn === 'w' ? 'b' : 'w');
-      }
-      setSelected(null);
     },
-    [board, selected, turn]
+    [position, moves, selected, turn, canPlay, promotionChoices, play, viewSquare]
   );
 
   useEffect(() => {
@@ -154,12 +168,29 @@ const ChessCanvas: React.FC = () => {
     if (!canvas) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
+    const targets = selected === null ? [] : moves.filter(m => m.from === selected).map(m => m.to);
+    const kingInCheck = checked ? findKing(position.board, turn) : -1;
+
+    // 칸 번호 → 화면 좌표 (뒤집힌 보드 반영)
+    const cellX = (sq: number) => (flipped ? 7 - (sq % SIZE) : sq % SIZE) * CELL;
+    const cellY = (sq: number) => (flipped ? 7 - Math.floor(sq / SIZE) : Math.floor(sq / SIZE)) * CELL;
+
     ctx.clearRect(0, 0, WIDTH, HEIGHT);
     for (let r = 0; r < SIZE; r++) {
       for (let c = 0; c < SIZE; c++) {
+        const sq = viewSquare(r, c);
         ctx.fillStyle = (r + c) % 2 === 0 ? '#EEE' : '#999';
         ctx.fillRect(c * CELL, r * CELL, CELL, CELL);
-        const piece = board[r][c];
+        // 직전 수 / 체크당한 왕 표시
+        if (lastMove && (lastMove.from === sq || lastMove.to === sq)) {
+          ctx.fillStyle = 'rgba(255, 215, 0, 0.35)';
+          ctx.fillRect(c * CELL, r * CELL, CELL, CELL);
+        }
+        if (sq === kingInCheck) {
+          ctx.fillStyle = 'rgba(255, 0, 0, 0.45)';
+          ctx.fillRect(c * CELL, r * CELL, CELL, CELL);
+        }
+        const piece = position.board[sq];
         if (piece) {
           ctx.fillStyle = piece.color === 'w' ? '#FFF' : '#000';
           ctx.font = '48px serif';
@@ -169,34 +200,212 @@ const ChessCanvas: React.FC = () => {
         }
       }
     }
-    if (selected) {
+    if (selected !== null) {
       ctx.strokeStyle = '#00F';
       ctx.lineWidth = 3;
-      ctx.strokeRect(selected.c * CELL + 2, selected.r * CELL + 2, CELL - 4, CELL - 4);
+      ctx.strokeRect(cellX(selected) + 2, cellY(selected) + 2, CELL - 4, CELL - 4);
     }
-  }, [board, selected]);
+    // 이동 가능한 칸
+    ctx.fillStyle = 'rgba(0, 0, 255, 0.35)';
+    for (const to of targets) {
+      ctx.beginPath();
+      ctx.arc(cellX(to) + CELL / 2, cellY(to) + CELL / 2, position.board[to] ? CELL / 2 - 4 : 8, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    if (alternative) {
+      const x1 = cellX(alternative.from) + CELL / 2;
+      const y1 = cellY(alternative.from) + CELL / 2;
+      const x2 = cellX(alternative.to) + CELL / 2;
+      const y2 = cellY(alternative.to) + CELL / 2;
+      const angle = Math.atan2(y2 - y1, x2 - x1);
+      ctx.strokeStyle = ctx.fillStyle = 'rgba(47, 158, 68, 0.75)';
+      ctx.lineWidth = 8;
+      ctx.beginPath();
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x2 - Math.cos(angle) * 14, y2 - Math.sin(angle) * 14);
+      ctx.stroke();
+      ctx.beginPath();
+      ctx.moveTo(x2, y2);
+      ctx.lineTo(x2 - Math.cos(angle - 0.5) * 22, y2 - Math.sin(angle - 0.5) * 22);
+      ctx.lineTo(x2 - Math.cos(angle + 0.5) * 22, y2 - Math.sin(angle + 0.5) * 22);
+      ctx.closePath();
+      ctx.fill();
+    }
+  }, [position, moves, selected, turn, checked, lastMove, flipped, viewSquare, alternative]);
 
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
+      // 기보 입력칸에 타이핑할 때는 단축키 무시
+      if (e.target instanceof HTMLTextAreaElement) return;
       if (e.key.toLowerCase() === 'r') {
         e.stopPropagation();
         reset();
+      } else if (e.key === 'ArrowLeft') {
+        goTo(ply - 1);
+      } else if (e.key === 'ArrowRight') {
+        goTo(ply + 1);
       }
     };
     window.addEventListener('keydown', handler);
     return () => window.removeEventListener('keydown', handler);
-  }, [reset]);
+  }, [reset, goTo, ply]);
+
+  // 내보내기: 클립보드에 복사하고 입력칸에도 보여줌
+  const showNotation = (text: string, label: string) => {
+    setNotationText(text);
+    const copied = navigator.clipboard
+      ? navigator.clipboard.writeText(text).then(() => true, () => false)
+      : Promise.resolve(false);
+    copied.then(ok => setNotationMessage(ok ? `${label}을 클립보드에 복사했습니다.` : `${label}을 아래 칸에서 복사하세요.`));
+  };
+
+  const exportPgn = () => {
+    const players: PgnHeaders =
+      aiLevel === null || aiColor === null
+        ? {}
+        : playerColor === 'w'
+        ? { White: 'Player', Black: `AI ${AI_LEVELS[aiLevel].label}` }
+        : { White: `AI ${AI_LEVELS[aiLevel].label}`, Black: 'Player' };
+    showNotation(toPgn(game, { ...players, ...headers }), 'PGN');
+  };
+
+  // 붙여넣은 텍스트가 FEN이면 그 포지션에서, 아니면 PGN으로 읽는다
+  const importNotation = () => {
+    const text = notationText.trim();
+    if (!text) return;
+    const looksLikeFen = !text.includes('[') && text.split('/').length === 8;
+    const fen = parseFen(text);
+    const loaded = fen.ok ? { ok: true as const, value: { game: newGame(fen.value), headers: {} } } : parsePgn(text);
+    if (!loaded.ok) {
+      setNotationMessage(!fen.ok && looksLikeFen ? fen.error : loaded.error);
+      return;
+    }
+    const { start, moves: loadedMoves } = loaded.value.game;
+    const replayed = replayMoves(chessGame, newGame(start), loadedMoves, sameMove);
+    if (!replayed) return;
+    load(replayed);
+    setHeaders(loaded.value.headers);
+    setNotationMessage(fen.ok ? 'FEN 포지션을 불러왔습니다.' : `PGN ${loaded.value.game.moves.length}수를 불러왔습니다.`);
+  };
+
+  const status = (viewing ? `[${ply}수째 보는 중] ` : '') + (result
+    ? resultText(result, myColor)
+    : `${COLOR_NAME[turn]} 차례${checked ? ' — 체크!' : ''}${thinking ? ' (AI 생각 중…)' : ''}${online.myTurn ? ' (내 차례)' : ''}`);
+
+  // 상대/색을 바꾸면 새 판
+  const chooseOpponent = (level: number | null) => {
+    onlineMode.disable();
+    setAiLevel(level);
+    restart(newGame());
+    setHeaders({});
+  };
+  const chooseColor = (color: Color) => {
+    setPlayerColor(color);
+    reset();
+  };
+
+  const actionButtons = (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8, alignItems: 'center' }}>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'center' }}>
+        <GameButton
+          variant={aiLevel === null && !onlineMode.enabled ? 'primary' : 'secondary'}
+          onClick={() => chooseOpponent(null)}
+        >
+          2인
+        </GameButton>
+        {AI_LEVELS.map((level, i) => (
+          <GameButton
+            key={level.label}
+            variant={aiLevel === i && !onlineMode.enabled ? 'primary' : 'secondary'}
+            onClick={() => chooseOpponent(i)}
+          >
+            AI {level.label}
+          </GameButton>
+        ))}
+        <GameButton variant={onlineMode.enabled ? 'primary' : 'secondary'} onClick={onlineMode.enable}>
+          온라인
+        </GameButton>
+      </div>
+      {onlineMode.enabled && <OnlineMatchPanel match={online} seatNames={chessMatch.seatNames} />}
+      {aiColor !== null && (
+        <div style={{ display: 'flex', gap: 8 }}>
+          {(['w', 'b'] as Color[]).map(color => (
+            <GameButton key={color} variant={playerColor === color ? 'primary' : 'secondary'} onClick={() => chooseColor(color)}>
+              {COLOR_NAME[color]}으로 두기
+            </GameButton>
+          ))}
+        </div>
+      )}
+      <RatingPanel rating={rating} levels={AI_LEVELS} currentLevel={aiColor === null ? null : aiLevel} onChooseLevel={chooseOpponent} />
+    </div>
+  );
 
   return (
-    <GameLayout title="Chess" bottomInfo={["말 클릭 후 이동할 칸 클릭, R: 리셋, 왕 두 칸 이동: 캐슬링"]}>
-      <GameCanvas
-        ref={canvasRef}
-        width={WIDTH}
-        height={HEIGHT}
-        onClick={handleClick}
-        gameTitle="Chess"
-      />
-      <GameButton onClick={reset}>Reset</GameButton>
+    <GameLayout
+      title="Chess"
+      gameStatus={liveResult && !analysis.active ? resultText(liveResult, myColor) : undefined}
+      overlayAction={{ label: '🔍 대국 분석', onClick: analysis.start }}
+      bottomInfo={[status, "말 클릭 후 이동할 칸 클릭, R: 리셋, 왕 두 칸 이동: 캐슬링, ←/→: 기보 이동, Ctrl+Z/Y: 무르기/다시"]}
+      actionButtons={actionButtons}
+    >
+      <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', justifyContent: 'center', alignItems: 'stretch' }}>
+        <GameCanvas
+          ref={canvasRef}
+          width={WIDTH}
+          height={HEIGHT}
+          onClick={handleClick}
+          gameTitle="Chess"
+        />
+        <TurnHistoryPanel
+          game={session}
+          title="기보"
+          firstNumber={game.start.fullmove}
+          offset={game.start.turn === 'b' ? 1 : 0}
+          marks={analysis.active ? reviewMarks(analysis.reviews) : undefined}
+        />
+      </div>
+      {analysis.active && (
+        <div style={{ display: 'flex', justifyContent: 'center', margin: '8px 0' }}>
+          <AnalysisPanel
+            analysis={analysis}
+            labels={history.labels}
+            ply={ply}
+            onSelect={goTo}
+            sideNames={[COLOR_NAME.w, COLOR_NAME.b]}
+            formatScore={formatChessScore}
+          />
+        </div>
+      )}
+      {promotionChoices && (
+        <div style={{ display: 'flex', gap: 8, justifyContent: 'center', margin: '8px 0' }}>
+          <span style={{ alignSelf: 'center' }}>승격할 기물:</span>
+          {PROMOTION_PIECES.map(type => (
+            <GameButton
+              key={type}
+              onClick={() => play(promotionChoices.find(m => m.promotion === type)!)}
+            >
+              {symbols[type]}
+            </GameButton>
+          ))}
+          <GameButton onClick={() => { setPromotionChoices(null); setSelected(null); }}>취소</GameButton>
+        </div>
+      )}
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 8, margin: '8px auto', width: '100%', maxWidth: 692 }}>
+        <textarea
+          value={notationText}
+          onChange={e => setNotationText(e.target.value)}
+          placeholder="FEN 또는 PGN을 붙여넣고 불러오기"
+          rows={4}
+          style={{ width: '100%', boxSizing: 'border-box', fontFamily: 'monospace', fontSize: 12, borderRadius: 6, padding: 6 }}
+        />
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'center' }}>
+          <GameButton variant="secondary" onClick={() => showNotation(toFen(position), 'FEN')}>FEN 내보내기</GameButton>
+          <GameButton variant="secondary" onClick={exportPgn}>PGN 내보내기</GameButton>
+          {!onlineMode.enabled && <GameButton onClick={importNotation}>불러오기</GameButton>}
+        </div>
+        {notationMessage && <div style={{ textAlign: 'center', fontSize: 13 }}>{notationMessage}</div>}
+      </div>
+      {!onlineMode.enabled && <GameButton onClick={reset}>Reset</GameButton>}
     </GameLayout>
   );
 };
@@ -1,8 +1,18 @@
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import GameLayout from './components/GameLayout';
 import GameCanvas from './components/GameCanvas';
 import GameButton from './components/GameButton';
+import TurnHistoryPanel from './components/TurnHistoryPanel';
+import OnlineMatchPanel from './components/OnlineMatchPanel';
+import RatingPanel from './components/RatingPanel';
+import { TurnBasedAi, useAiWorker, useTurnBasedGame } from './hooks/useTurnBasedGame';
+import { useOnlineMatch, useOnlineMode } from './hooks/useOnlineMatch';
+import { useAiRating } from './hooks/useAiRating';
 import { spacing, typography } from './theme/gameTheme';
+import { C4_AI_LEVELS, COLS, ColumnScore, ROWS } from './shared/connectfour/solver';
+import { C4State, canDrop, connectFourGame, dropRow, getResult, initialState } from './shared/connectfour/rules';
+import { connectFourMatch } from './shared/matches';
+import type { ConnectFourAiRequest, ConnectFourAiResponse } from './workers/connectFourAi.worker';
 
 enum Player {
   NONE = 0,
@@ -23,8 +33,6 @@ interface GameStats {
   draws: number;
 }
 
-const ROWS = 6;
-const COLS = 7;
 const CANVAS_WIDTH = 700;
 const CANVAS_HEIGHT = 600;
 const CELL_SIZE = 80;
@@ -32,8 +40,11 @@ const CHIP_RADIUS = 30;
 const MARGIN_X = (CANVAS_WIDTH - COLS * CELL_SIZE) / 2;
 const MARGIN_Y = (CANVAS_HEIGHT - ROWS * CELL_SIZE) / 2;
 
-// 칩 색상
-const CHIP_COLORS = {
+// 평가 표시에 쓰는 레벨 (끝까지 읽기)
+const EVAL_LEVEL = C4_AI_LEVELS.length - 1;
+
+// 칩 색상 (사람이 먼저 = 1)
+const CHIP_COLORS: Record<number, string> = {
   [Player.NONE]: '#F5F5F5',
   [Player.HUMAN]: '#FF4444',
   [Player.AI]: '#4444FF'
@@ -44,236 +55,132 @@ const ConnectFourCanvas: React.FC = () => {
   const containerRef = useRef<HTMLDivElement>(null);
   const animationRef = useRef<number>(0);
   
-  const [board, setBoard] = useState<Player[][]>(() => 
-    Array(ROWS).fill(null).map(() => Array(COLS).fill(Player.NONE))
-  );
-  const [currentPlayer, setCurrentPlayer] = useState<Player>(Player.HUMAN);
-  const [gameState, setGameState] = useState<GameState>(GameState.PLAYING);
   const [hoveredCol, setHoveredCol] = useState<number | null>(null);
-  const [winningCells, setWinningCells] = useState<{row: number, col: number}[]>([]);
   const [droppingChip, setDroppingChip] = useState<{col: number, row: number, progress: number} | null>(null);
+  // AI 레벨 (C4_AI_LEVELS 인덱스)
+  const [aiLevel, setAiLevel] = useState(1);
+  // 열별 승/패/무 표시
+  const [showEval, setShowEval] = useState(false);
+  const [columnScores, setColumnScores] = useState<ColumnScore[] | null>(null);
   const [stats, setStats] = useState<GameStats>(() => ({
     humanWins: parseInt(localStorage.getItem('connect4-human-wins') || '0'),
     aiWins: parseInt(localStorage.getItem('connect4-ai-wins') || '0'),
     draws: parseInt(localStorage.getItem('connect4-draws') || '0')
   }));
 
-  // 유효한 열인지 확인 (맨 위가 비어있는지)
-  const isValidMove = useCallback((board: Player[][], col: number): boolean => {
-    return col >= 0 && col < COLS && board[0][col] === Player.NONE;
-  }, []);
-
-  // 칩을 놓을 수 있는 가장 아래 행 찾기
-  const getDropRow = useCallback((board: Player[][], col: number): number => {
-    for (let row = ROWS - 1; row >= 0; row--) {
-      if (board[row][col] === Player.NONE) {
-        return row;
-      }
-    }
-    return -1;
-  }, []);
-
-  // 4개 연속 체크 (4방향)
-  const checkWin = useCallback((board: Player[][], row: number, col: number, player: Player): {row: number, col: number}[] | null => {
-    const directions = [
-      [0, 1],   // 수평
-      [1, 0],   // 수직
-      [1, 1],   // 대각선 \
-      [1, -1]   // 대각선 /
-    ];
-
-    for (const [dRow, dCol] of directions) {
-      const cells: {row: number, col: number}[] = [{row, col}];
-      
-      // 한 방향으로 확장
-      for (let i = 1; i < 4; i++) {
-        const newRow = row + dRow * i;
-        const newCol = col + dCol * i;
-        if (newRow >= 0 && newRow < ROWS && newCol >= 0 && newCol < COLS && 
-            board[newRow][newCol] === player) {
-          cells.push({row: newRow, col: newCol});
-        } else {
-          break;
-        }
-      }
-      
-      // 반대 방향으로 확장
-      for (let i = 1; i < 4; i++) {
-        const newRow = row - dRow * i;
-        const newCol = col - dCol * i;
-        if (newRow >= 0 && newRow < ROWS && newCol >= 0 && newCol < COLS && 
-            board[newRow][newCol] === player) {
-          cells.unshift({row: newRow, col: newCol});
-        } else {
-          break;
-        }
-      }
-      
-      if (cells.length >= 4) {
-        return cells.slice(0, 4); // 처음 4개만 반환
-      }
-    }
-    
-    return null;
-  }, []);
-
-  // 보드가 가득 찼는지 확인
-  const isBoardFull = useCallback((board: Player[][]): boolean => {
-    return board[0].every(cell => cell !== Player.NONE);
+  // 솔버 워커 — AI 수 / 평가 표시용 하나씩
+  const searchMove = useAiWorker<ConnectFourAiRequest, ConnectFourAiResponse>(
+    () => new Worker(new URL('./workers/connectFourAi.worker.ts', import.meta.url), { type: 'module' })
+  );
+  const evaluate = useAiWorker<ConnectFourAiRequest, ConnectFourAiResponse>(
+    () => new Worker(new URL('./workers/connectFourAi.worker.ts', import.meta.url), { type: 'module' })
+  );
+  // 온라인 대전 (링크로 들어오면 처음부터 켜짐) — 켜져 있으면 AI는 쉰다
+  const onlineMode = useOnlineMode();
+  const ai = useMemo<TurnBasedAi<C4State, number> | null>(
+    () =>
+      onlineMode.enabled
+        ? null
+        : {
+            isAiTurn: state => state.turn === Player.AI,
+            search: state => searchMove({ history: state.moves, level: aiLevel }).then(res => res.col),
+          },
+    [onlineMode.enabled, aiLevel, searchMove]
+  );
+  // 수는 칩이 다 떨어진 뒤에 기록한다 — AI 수도 애니메이션부터
+  const session = useTurnBasedGame(connectFourGame, initialState, {
+    ai,
+    onAiMove: (col, state) => animateChipDrop(col, state),
+  });
+  const online = useOnlineMatch(connectFourMatch, session, onlineMode);
+  const rating = useAiRating('connect4', session, C4_AI_LEVELS, onlineMode.enabled ? null : aiLevel, s => {
+    const winner = getResult(s)?.winner ?? null;
+    return winner === Player.HUMAN ? 1 : winner === Player.AI ? 0 : 0.5;
+  });
+  const { state, play, reset } = session;
+  // 온라인에서는 최신 수순의 내 차례에만 둔다
+  const canPlay = session.canPlay && (!onlineMode.enabled || (online.myTurn && session.atLatest));
+  // 내 칩 색 — 온라인 관전 중이면 null
+  const myColor = !onlineMode.enabled ? Player.HUMAN : online.seat === null ? null : connectFourMatch.seats[online.seat];
+  const { board, turn: currentPlayer } = state;
+  const result = useMemo(() => getResult(state), [state]);
+  const gameState =
+    !result ? GameState.PLAYING
+    : result.winner === Player.HUMAN ? GameState.HUMAN_WIN
+    : result.winner === Player.AI ? GameState.AI_WIN
+    : GameState.DRAW;
+  const winningCells = result?.cells ?? [];
+
+  // 게임이 끝난 수를 통계에 반영 (무르기/다시 하기로 같은 판을 다시 세지 않도록 둘 때만)
+  const recordResult = useCallback((next: C4State) => {
+    const final = getResult(next);
+    if (!final) return;
+    const key = final.winner === Player.HUMAN ? 'humanWins' : final.winner === Player.AI ? 'aiWins' : 'draws';
+    setStats(prev => {
+      const newStats = { ...prev, [key]: prev[key] + 1 };
+      localStorage.setItem('connect4-human-wins', newStats.humanWins.toString());
+      localStorage.setItem('connect4-ai-wins', newStats.aiWins.toString());
+      localStorage.setItem('connect4-draws', newStats.draws.toString());
+      return newStats;
+    });
   }, []);
 
-  // AI 움직임 평가 (미니맥스 알고리즘 간소화 버전)
-  const evaluateMove = useCallback((board: Player[][], col: number, player: Player, depth: number = 3): number => {
-    if (!isValidMove(board, col)) return -1000;
-    
-    const newBoard = board.map(row => [...row]);
-    const row = getDropRow(newBoard, col);
-    newBoard[row][col] = player;
-    
-    // 승리 체크
-    if (checkWin(newBoard, row, col, player)) {
-      return player === Player.AI ? 1000 : -1000;
-    }
-    
-    // 상대방의 승리를 막는지 체크
-    const opponent = player === Player.AI ? Player.HUMAN : Player.AI;
-    for (let c = 0; c < COLS; c++) {
-      if (isValidMove(newBoard, c)) {
-        const testRow = getDropRow(newBoard, c);
-        newBoard[testRow][c] = opponent;
-        if (checkWin(newBoard, testRow, c, opponent)) {
-          newBoard[testRow][c] = Player.NONE;
-          return player === Player.AI ? 500 : -500;
-        }
-        newBoard[testRow][c] = Player.NONE;
-      }
-    }
-    
-    // 중앙 열 선호
-    const centerPreference = Math.abs(col - 3);
-    let score = 5 - centerPreference;
-    
-    // 깊이가 있으면 재귀적으로 평가
-    if (depth > 0) {
-      let bestScore = player === Player.AI ? -2000 : 2000;
-      for (let c = 0; c < COLS; c++) {
-        if (isValidMove(newBoard, c)) {
-          const moveScore = evaluateMove(newBoard, c, opponent, depth - 1);
-          if (player === Player.AI) {
-            bestScore = Math.max(bestScore, -moveScore);
-          } else {
-            bestScore = Math.min(bestScore, -moveScore);
-          }
-        }
-      }
-      score += bestScore * 0.1;
-    }
-    
-    return score;
-  }, [isValidMove, getDropRow, checkWin]);
-
-  // AI 움직임 결정
-  const getAIMove = useCallback((board: Player[][]): number => {
-    let bestCol = 3; // 기본적으로 중앙
-    let bestScore = -2000;
-    
-    // 모든 가능한 움직임 평가
-    for (let col = 0; col < COLS; col++) {
-      if (isValidMove(board, col)) {
-        const score = evaluateMove(board, col, Player.AI);
-        if (score > bestScore) {
-          bestScore = score;
-          bestCol = col;
-        }
-      }
-    }
-    
-    return bestCol;
-  }, [isValidMove, evaluateMove]);
-
-  // 칩 드랍 애니메이션
-  const animateChipDrop = useCallback((col: number, targetRow: number, player: Player) => {
+  // 칩 드랍 애니메이션 — 끝나면 수를 기록
+  function animateChipDrop(col: number, from: C4State) {
+    const targetRow = dropRow(from.board, col);
     let progress = 0;
     const animate = () => {
       progress += 0.15;
       setDroppingChip({ col, row: targetRow, progress: Math.min(progress, 1) });
-      
+
       if (progress < 1) {
         animationRef.current = requestAnimationFrame(animate);
       } else {
         setDroppingChip(null);
-        // 애니메이션 완료 후 실제 보드 업데이트
-        setBoard(prevBoard => {
-          const newBoard = prevBoard.map(row => [...row]);
-          newBoard[targetRow][col] = player;
-          
-          // 승리 체크
-          const winCells = checkWin(newBoard, targetRow, col, player);
-          if (winCells) {
-            setWinningCells(winCells);
-            setGameState(player === Player.HUMAN ? GameState.HUMAN_WIN : GameState.AI_WIN);
-            
-            // 통계 업데이트
-            setStats(prev => {
-              const newStats = {
-                ...prev,
-                [player === Player.HUMAN ? 'humanWins' : 'aiWins']: prev[player === Player.HUMAN ? 'humanWins' : 'aiWins'] + 1
-              };
-              localStorage.setItem('connect4-human-wins', newStats.humanWins.toString());
-              localStorage.setItem('connect4-ai-wins', newStats.aiWins.toString());
-              return newStats;
-            });
-          } else if (isBoardFull(newBoard)) {
-            setGameState(GameState.DRAW);
-            setStats(prev => {
-              const newStats = { ...prev, draws: prev.draws + 1 };
-              localStorage.setItem('connect4-draws', newStats.draws.toString());
-              return newStats;
-            });
-          } else {
-            setCurrentPlayer(player === Player.HUMAN ? Player.AI : Player.HUMAN);
-          }
-          
-          return newBoard;
-        });
+        play(col);
+        // 통계는 AI 대전만
+        if (!onlineMode.enabled) recordResult(connectFourGame.applyMove(from, col));
       }
     };
     animate();
-  }, [checkWin, isBoardFull]);
+  }
+
+  // 무르기/다시 하기/재시작으로 국면이 바뀌면 떨어지던 칩은 취소
+  useEffect(() => {
+    cancelAnimationFrame(animationRef.current);
+    setDroppingChip(null);
+  }, [state]);
 
   // 움직임 실행
-  const makeMove = useCallback((col: number) => {
-    if (gameState !== GameState.PLAYING || !isValidMove(board, col) || droppingChip) return;
-    
-    const targetRow = getDropRow(board, col);
-    animateChipDrop(col, targetRow, currentPlayer);
-  }, [gameState, isValidMove, board, getDropRow, currentPlayer, animateChipDrop, droppingChip]);
-
-  // AI 턴 처리
+  const makeMove = (col: number) => {
+    if (!canPlay || !canDrop(board, col) || droppingChip) return;
+    animateChipDrop(col, state);
+  };
+
+  // 평가 표시: 내 차례마다 열별 결과 요청 (온라인 대전에서는 끔)
+  const evalOn = showEval && !onlineMode.enabled;
   useEffect(() => {
-    if (currentPlayer === Player.AI && gameState === GameState.PLAYING && !droppingChip) {
-      const timer = setTimeout(() => {
-        const aiCol = getAIMove(board);
-        makeMove(aiCol);
-      }, 500); // AI 사고 시간
-      
-      return () => clearTimeout(timer);
-    }
-  }, [currentPlayer, gameState, board, getAIMove, makeMove, droppingChip]);
+    setColumnScores(null);
+    if (!evalOn || !canPlay) return;
+    let cancelled = false;
+    evaluate({ history: state.moves, level: EVAL_LEVEL }).then(res => {
+      if (!cancelled) setColumnScores(res.columns);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [evalOn, canPlay, state, evaluate]);
 
-  // 게임 재시작
+  // 게임 재시작 — 온라인 판은 서버 수순을 따르므로 하지 않는다
   const restartGame = useCallback(() => {
-    setBoard(Array(ROWS).fill(null).map(() => Array(COLS).fill(Player.NONE)));
-    setCurrentPlayer(Player.HUMAN);
-    setGameState(GameState.PLAYING);
-    setWinningCells([]);
-    setDroppingChip(null);
+    if (onlineMode.enabled) return;
+    reset(initialState());
     setHoveredCol(null);
-  }, []);
+  }, [onlineMode.enabled, reset]);
 
   // 캔버스 클릭 처리
-  const handleCanvasClick = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
-    if (gameState !== GameState.PLAYING || currentPlayer !== Player.HUMAN || droppingChip) return;
+  const handleCanvasClick = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    if (!canPlay || droppingChip) return;
 
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -285,11 +192,11 @@ const ConnectFourCanvas: React.FC = () => {
     if (col >= 0 && col < COLS) {
       makeMove(col);
     }
-  }, [gameState, currentPlayer, makeMove, droppingChip]);
+  };
 
   // 마우스 이동 처리 (호버 효과)
   const handleCanvasMouseMove = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
-    if (gameState !== GameState.PLAYING || currentPlayer !== Player.HUMAN || droppingChip) {
+    if (!canPlay || droppingChip) {
       setHoveredCol(null);
       return;
     }
@@ -301,12 +208,12 @@ const ConnectFourCanvas: React.FC = () => {
     const x = event.clientX - rect.left;
     const col = Math.floor((x - MARGIN_X) / CELL_SIZE);
 
-    if (col >= 0 && col < COLS && isValidMove(board, col)) {
+    if (col >= 0 && col < COLS && canDrop(board, col)) {
       setHoveredCol(col);
     } else {
       setHoveredCol(null);
     }
-  }, [gameState, currentPlayer, board, isValidMove, droppingChip]);
+  }, [canPlay, board, droppingChip]);
 
   // 캔버스 렌더링
   const draw = useCallback(() => {
@@ -367,6 +274,26 @@ const ConnectFourCanvas: React.FC = () => {
       }
     }
 
+    // 열별 평가 (내 차례 기준 승/패/무, 확정 못 하면 ?)
+    if (evalOn && gameState === GameState.PLAYING && currentPlayer === Player.HUMAN) {
+      ctx.font = 'bold 16px Arial';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      for (let col = 0; col < COLS; col++) {
+        const x = MARGIN_X + col * CELL_SIZE + CELL_SIZE / 2;
+        const cs = columnScores?.[col];
+        if (!columnScores) {
+          ctx.fillStyle = 'rgba(255,255,255,0.6)';
+          ctx.fillText('…', x, MARGIN_Y / 2);
+          continue;
+        }
+        if (!cs || cs.score === null) continue;
+        const label = !cs.exact ? '?' : cs.score > 0 ? `승 ${cs.score}` : cs.score < 0 ? `패 ${-cs.score}` : '무';
+        ctx.fillStyle = !cs.exact ? '#DDDDDD' : cs.score > 0 ? '#7CFC00' : cs.score < 0 ? '#FF8888' : '#FFFFFF';
+        ctx.fillText(label, x, MARGIN_Y / 2);
+      }
+    }
+
     // 호버된 열 하이라이트
     if (hoveredCol !== null && gameState === GameState.PLAYING) {
       const x = MARGIN_X + hoveredCol * CELL_SIZE;
@@ -412,28 +339,23 @@ const ConnectFourCanvas: React.FC = () => {
       ctx.textBaseline = 'middle';
       
       let message = '';
-      switch (gameState) {
-        case GameState.HUMAN_WIN:
-          message = '당신이 승리했습니다! 🎉';
-          break;
-        case GameState.AI_WIN:
-          message = 'AI가 승리했습니다! 🤖';
-          break;
-        case GameState.DRAW:
-          message = '무승부입니다! 🤝';
-          break;
-      }
+      if (gameState === GameState.DRAW) message = '무승부입니다! 🤝';
+      else if (!onlineMode.enabled) message = gameState === GameState.HUMAN_WIN ? '당신이 승리했습니다! 🎉' : 'AI가 승리했습니다! 🤖';
+      else if (myColor === null) message = `${connectFourMatch.seatNames[result!.winner! - 1]} 승리!`;
+      else message = result!.winner === myColor ? '당신이 승리했습니다! 🎉' : '상대가 승리했습니다!';
       
       ctx.fillText(message, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 30);
       
-      ctx.font = '20px Arial';
-      ctx.fillText('클릭하여 다시 시작', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 30);
+      if (!onlineMode.enabled) {
+        ctx.font = '20px Arial';
+        ctx.fillText('클릭하여 다시 시작', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 30);
+      }
     }
-  }, [board, winningCells, hoveredCol, gameState, droppingChip, currentPlayer]);
+  }, [board, winningCells, hoveredCol, gameState, droppingChip, currentPlayer, evalOn, columnScores, onlineMode.enabled, myColor, result]);
 
-  // 키보드 이벤트 처리
-  const handleKeyDown = useCallback((event: KeyboardEvent) => {
-    if (gameState !== GameState.PLAYING || currentPlayer !== Player.HUMAN) return;
+  // 키보드 이벤트 처리 (숫자키 1-7)
+  const handleKeyDown = (event: KeyboardEvent) => {
+    if (!canPlay) return;
 
     const col = parseInt(event.key) - 1;
     if (col >= 0 && col < COLS) {
@@ -441,13 +363,16 @@ const ConnectFourCanvas: React.FC = () => {
       event.stopPropagation();
       makeMove(col);
     }
-  }, [gameState, currentPlayer, makeMove]);
+  };
+  const handleKeyDownRef = useRef(handleKeyDown);
+  handleKeyDownRef.current = handleKeyDown;
 
   // 이벤트 리스너 등록
   useEffect(() => {
-    window.addEventListener('keydown', handleKeyDown, { capture: true });
-    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
-  }, [handleKeyDown]);
+    const handler = (event: KeyboardEvent) => handleKeyDownRef.current(event);
+    window.addEventListener('keydown', handler, { capture: true });
+    return () => window.removeEventListener('keydown', handler, { capture: true });
+  }, []);
 
   // 캔버스 렌더링
   useEffect(() => {
@@ -472,8 +397,19 @@ const ConnectFourCanvas: React.FC = () => {
     if (gameState === GameState.HUMAN_WIN) return '🔴 당신이 승리했습니다!';
     if (gameState === GameState.AI_WIN) return '🔵 AI가 승리했습니다!';
     if (gameState === GameState.DRAW) return '🤝 무승부입니다!';
+    if (onlineMode.enabled) {
+      const chip = currentPlayer === Player.HUMAN ? '🔴' : '🔵';
+      return online.myTurn ? `${chip} 당신의 턴입니다` : `${chip} ${connectFourMatch.seatNames[currentPlayer - 1]}의 턴입니다`;
+    }
     if (currentPlayer === Player.HUMAN) return '🔴 당신의 턴입니다';
-    return '🔵 AI가 생각 중입니다...';
+    return session.thinking ? '🔵 AI가 생각 중입니다...' : '🔵 AI의 턴입니다';
+  };
+
+  const chooseLevel = (level: number) => {
+    onlineMode.disable();
+    setAiLevel(level);
+    reset(initialState());
+    setHoveredCol(null);
   };
 
   // 상단 정보 (게임 목표/상태)
@@ -496,6 +432,35 @@ const ConnectFourCanvas: React.FC = () => {
         <span><strong>🔵 승:</strong> {stats.aiWins}</span>
         <span><strong>무승부:</strong> {stats.draws}</span>
       </div>
+      <div style={{ display: 'flex', gap: spacing.sm, justifyContent: 'center', flexWrap: 'wrap', marginTop: spacing.sm }}>
+        {C4_AI_LEVELS.map((level, i) => (
+          <GameButton
+            key={level.label}
+            variant={aiLevel === i && !onlineMode.enabled ? 'primary' : 'secondary'}
+            onClick={() => chooseLevel(i)}
+          >
+            {level.label}
+          </GameButton>
+        ))}
+        <GameButton variant={onlineMode.enabled ? 'primary' : 'secondary'} onClick={onlineMode.enable}>
+          온라인
+        </GameButton>
+        {!onlineMode.enabled && (
+          <GameButton variant={showEval ? 'primary' : 'secondary'} onClick={() => setShowEval(!showEval)}>
+            평가 {showEval ? 'ON' : 'OFF'}
+          </GameButton>
+        )}
+      </div>
+      {onlineMode.enabled && (
+        <div style={{ display: 'flex', justifyContent: 'center', marginTop: spacing.sm }}>
+          <OnlineMatchPanel match={online} seatNames={connectFourMatch.seatNames} />
+        </div>
+      )}
+      {!onlineMode.enabled && (
+        <div style={{ display: 'flex', justifyContent: 'center', marginTop: spacing.sm }}>
+          <RatingPanel rating={rating} levels={C4_AI_LEVELS} currentLevel={aiLevel} onChooseLevel={chooseLevel} />
+        </div>
+      )}
     </div>
   );
 
@@ -503,12 +468,15 @@ const ConnectFourCanvas: React.FC = () => {
   const bottomInfo = (
     <div style={{ textAlign: 'center' }}>
       <div style={{ marginBottom: spacing.xs }}>
-        <strong>조작법:</strong> 열을 클릭하거나 숫자키 1-7을 눌러 칩을 떨어뜨리세요
+        <strong>조작법:</strong> 열을 클릭하거나 숫자키 1-7을 눌러 칩을 떨어뜨리세요 (Ctrl+Z/Y: 무르기/다시)
       </div>
       <div style={{ marginBottom: spacing.xs }}>
         <strong>목표:</strong> 가로·세로·대각선으로 4개를 연속으로 연결하세요!
       </div>
-      {gameState !== GameState.PLAYING && (
+      <div style={{ marginBottom: spacing.xs }}>
+        <strong>평가:</strong> 각 열에 두면 끝까지 읽어 확정된 승/패/무 (숫자: 남은 수), 초반처럼 시간 안에 다 읽지 못하면 ?
+      </div>
+      {gameState !== GameState.PLAYING && !onlineMode.enabled && (
         <div style={{ marginTop: spacing.sm }}>
           <GameButton 
             onClick={restartGame}
@@ -529,23 +497,26 @@ const ConnectFourCanvas: React.FC = () => {
       style={{ outline: 'none' }}
     >
       <GameLayout
-      gameStatus={gameState === GameState.HUMAN_WIN ? '승리!' : (gameState === GameState.AI_WIN || gameState === GameState.DRAW) ? '게임 오버' : undefined} 
+      gameStatus={!result ? undefined : result.winner !== null && result.winner === myColor ? '승리!' : '게임 오버'} 
         title="🔴 Connect Four"
         topInfo={topInfo}
         bottomInfo={bottomInfo}
       >
-        <GameCanvas
-          ref={canvasRef}
-          width={CANVAS_WIDTH}
-          height={CANVAS_HEIGHT}
-          onClick={gameState !== GameState.PLAYING ? restartGame : handleCanvasClick}
-          onMouseMove={handleCanvasMouseMove}
-          gameTitle="Connect Four"
-                   style={{
-            cursor: 'pointer',
-            border: "2px solid rgba(255,255,255,0.1)"
-          }}
-        />
+        <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', justifyContent: 'center', alignItems: 'stretch' }}>
+          <GameCanvas
+            ref={canvasRef}
+            width={CANVAS_WIDTH}
+            height={CANVAS_HEIGHT}
+            onClick={gameState !== GameState.PLAYING ? restartGame : handleCanvasClick}
+            onMouseMove={handleCanvasMouseMove}
+            gameTitle="Connect Four"
+            style={{
+              cursor: 'pointer',
+              border: "2px solid rgba(255,255,255,0.1)"
+            }}
+          />
+          <TurnHistoryPanel game={session} />
+        </div>
       </GameLayout>
     </div>
   );
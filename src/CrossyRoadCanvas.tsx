@@ -3,12 +3,14 @@ import GameManager from './components/GameManager';
 import GameCanvas from './components/GameCanvas';
 import GameButton from './components/GameButton';
 import { layout } from './theme/gameTheme';
+import { useGameLoop } from './hooks/useGameLoop';
 
 const WIDTH = layout.maxWidth;
 const COLS = 9;
 const ROWS = 13;
 const TILE = WIDTH / COLS;
 const HEIGHT = TILE * ROWS;
+const STEP_MS = 1000 / 60;
 
 type RowType = 'grass' | 'road';
 interface Row {
@@ -40,9 +42,8 @@ const CrossyRoadCanvas: React.FC = () => {
   const [score, setScore] = useState(0);
   const [state, setState] = useState<'playing' | 'gameover'>('playing');
   const stateRef = useRef<'playing' | 'gameover'>('playing');
-  const raf = useRef<number>();
-  const last = useRef<number>(0);
-  const draw = useCallback((ctx: CanvasRenderingContext2D) => {
+  // 차는 등속이므로 alpha만큼 덜 간 위치(lagMs 전)에 그려 보간
+  const draw = useCallback((ctx: CanvasRenderingContext2D, lagMs = 0) => {
     ctx.clearRect(0, 0, WIDTH, HEIGHT);
     for (let y = 0; y < ROWS; y++) {
       const row = rowsRef.current[y];
@@ -53,7 +54,7 @@ const CrossyRoadCanvas: React.FC = () => {
         ctx.textAlign = 'center';
         ctx.textBaseline = 'middle';
         for (const c of row.cars) {
-          ctx.fillText('🚗', c * TILE + TILE / 2, y * TILE + TILE / 2);
+          ctx.fillText('🚗', (c - row.dir * row.speed * lagMs) * TILE + TILE / 2, y * TILE + TILE / 2);
         }
       }
     }
@@ -83,7 +84,6 @@ const CrossyRoadCanvas: React.FC = () => {
     setScore(0);
     setState('playing');
     stateRef.current = 'playing';
-    last.current = 0;
     const ctx = canvasRef.current?.getContext('2d');
     if (ctx) draw(ctx);
   }, [draw]);
@@ -92,50 +92,58 @@ const CrossyRoadCanvas: React.FC = () => {
     reset();
   }, [reset]);
 
-  const step = useCallback(
-    (time: number) => {
-      if (!last.current) last.current = time;
-      const dt = time - last.current;
-      last.current = time;
-
-      if (stateRef.current === 'playing') {
-        rowsRef.current = rowsRef.current.map((row) => {
-          if (row.type === 'road') {
-            const cars = row.cars.map((c) => {
-              let n = c + row.dir * row.speed * dt;
-              if (row.dir === 1 && n > COLS) n = -1;
-              if (row.dir === -1 && n < -1) n = COLS;
-              return n;
-            });
-            return { ...row, cars };
-          }
-          return row;
+  // 고정 스텝 — 차 이동과 충돌 판정
+  const update = (dt: number) => {
+    if (stateRef.current !== 'playing') return;
+    rowsRef.current = rowsRef.current.map((row) => {
+      if (row.type === 'road') {
+        const cars = row.cars.map((c) => {
+          let n = c + row.dir * row.speed * dt;
+          if (row.dir === 1 && n > COLS) n = -1;
+          if (row.dir === -1 && n < -1) n = COLS;
+          return n;
         });
-
-        const p = playerRef.current;
-        const row = rowsRef.current[p.y];
-        if (row.type === 'road') {
-          for (const c of row.cars) {
-            if (Math.abs(c - p.x) < 0.5) {
-              setState('gameover');
-              stateRef.current = 'gameover';
-              break;
-            }
-          }
+        return { ...row, cars };
+      }
+      return row;
+    });
+
+    const p = playerRef.current;
+    const row = rowsRef.current[p.y];
+    if (row.type === 'road') {
+      for (const c of row.cars) {
+        if (Math.abs(c - p.x) < 0.5) {
+          setState('gameover');
+          stateRef.current = 'gameover';
+          break;
         }
       }
+    }
+  };
 
+  const { paused, resume, togglePause } = useGameLoop({
+    update,
+    render: (alpha) => {
       const ctx = canvasRef.current?.getContext('2d');
-      if (ctx) draw(ctx);
-      raf.current = requestAnimationFrame(step);
+      if (!ctx) return;
+      draw(ctx, (1 - alpha) * STEP_MS);
+      if (paused) {
+        ctx.fillStyle = 'rgba(0,0,0,0.5)';
+        ctx.fillRect(0, 0, WIDTH, HEIGHT);
+        ctx.fillStyle = '#fff';
+        ctx.font = `${TILE * 0.8}px sans-serif`;
+        ctx.fillText('일시정지 (P)', WIDTH / 2, HEIGHT / 2);
+      }
     },
-    [draw]
-  );
+    stepMs: STEP_MS,
+    running: state === 'playing',
+    canvas: { ref: canvasRef, width: WIDTH, height: HEIGHT },
+  });
 
-  useEffect(() => {
-    raf.current = requestAnimationFrame(step);
-    return () => cancelAnimationFrame(raf.current!);
-  }, [step]);
+  const restart = useCallback(() => {
+    resume();
+    reset();
+  }, [reset, resume]);
 
   const move = useCallback((dx: number, dy: number) => {
     if (stateRef.current !== 'playing') return;
@@ -157,11 +165,20 @@ const CrossyRoadCanvas: React.FC = () => {
 
   const handleKeyDown = useCallback((e: KeyboardEvent) => {
     if (
-      ['w', 'a', 's', 'd', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'r', 'R'].includes(e.key)
+      ['w', 'a', 's', 'd', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'r', 'R', 'p', 'P'].includes(e.key)
     ) {
       e.preventDefault();
       e.stopPropagation();
     }
+    if (e.key === 'r' || e.key === 'R') {
+      restart();
+      return;
+    }
+    if (e.key === 'p' || e.key === 'P') {
+      if (stateRef.current === 'playing') togglePause();
+      return;
+    }
+    if (paused) return;
     switch (e.key) {
       case 'a':
       case 'A':
@@ -183,12 +200,8 @@ const CrossyRoadCanvas: React.FC = () => {
       case 'ArrowDown':
         move(0, 1);
         break;
-      case 'r':
-      case 'R':
-        reset();
-        break;
     }
-  }, [move, reset]);
+  }, [move, paused, restart, togglePause]);
 
   useEffect(() => {
     window.addEventListener('keydown', handleKeyDown, { capture: true });
@@ -200,14 +213,16 @@ const CrossyRoadCanvas: React.FC = () => {
   return (
     <GameManager
       title="Crossy Road"
+      gameId="crossy"
+      score={score}
       gameIcon="🐥"
       gameStats={<div>Score: {score}</div>}
       gameStatus={status}
-      instructions={<div>WASD/←↑→↓ 이동, R 리셋</div>}
+      instructions={<div>WASD/←↑→↓ 이동, P 일시정지, R 리셋</div>}
     >
       <GameCanvas ref={canvasRef} width={WIDTH} height={HEIGHT} gameTitle="Crossy Road" />
       <div style={{ marginTop: 12 }}>
-        <GameButton onClick={reset}>Reset</GameButton>
+        <GameButton onClick={restart}>Reset</GameButton>
       </div>
     </GameManager>
   );
@@ -3,10 +3,13 @@ import GameManager from './components/GameManager';
 import GameCanvas from './components/GameCanvas';
 import GameButton from './components/GameButton';
 import { spacing, typography } from './theme/gameTheme';
+import { lerp, useGameLoop } from './hooks/useGameLoop';
 
 interface Block {
   x: number;
   y: number;
+  // 보간용 직전 스텝 y
+  prevY: number;
   width: number;
   height: number;
   speed: number;
@@ -15,6 +18,8 @@ interface Block {
 interface Player {
   x: number;
   y: number;
+  prevX: number;
+  prevY: number;
   width: number;
   height: number;
   speed: number;
@@ -24,8 +29,8 @@ const DodgeGameCanvas: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [gameState, setGameState] = useState<'playing' | 'gameOver'>('playing');
   const [score, setScore] = useState(0);
-  const animationFrameRef = useRef<number>();
-  const lastTimeRef = useRef<number>(0);
+  // 같은 프레임 안의 남은 스텝이 게임 오버 뒤에 돌지 않도록
+  const overRef = useRef(false);
   const spawnTimerRef = useRef<number>(0);
   const difficultyTimerRef = useRef<number>(0);
 
@@ -38,6 +43,8 @@ const DodgeGameCanvas: React.FC = () => {
   const playerRef = useRef<Player>({
     x: CANVAS_WIDTH / 2 - 25,
     y: CANVAS_HEIGHT - 100,
+    prevX: CANVAS_WIDTH / 2 - 25,
+    prevY: CANVAS_HEIGHT - 100,
     width: 50,
     height: 50,
     speed: 300
@@ -53,6 +60,7 @@ const DodgeGameCanvas: React.FC = () => {
     const block: Block = {
       x: Math.random() * (CANVAS_WIDTH - blockWidth),
       y: -50,
+      prevY: -50,
       width: blockWidth,
       height: 30,
       speed: blockSpeedRef.current + Math.random() * 50 // 속도에 약간의 변화
@@ -67,11 +75,14 @@ const DodgeGameCanvas: React.FC = () => {
            player.y + player.height > block.y;
   }, []);
 
-  const updateGame = useCallback((deltaTime: number) => {
-    if (gameState !== 'playing') return;
+  // 고정 스텝 업데이트
+  const updateGame = (deltaTime: number) => {
+    if (overRef.current) return;
 
     const player = playerRef.current;
-    
+    player.prevX = player.x;
+    player.prevY = player.y;
+
     // 플레이어 이동
     if (keysRef.current.has('KeyW') || keysRef.current.has('ArrowUp')) {
       player.y = Math.max(0, player.y - player.speed * deltaTime / 1000);
@@ -95,10 +106,12 @@ const DodgeGameCanvas: React.FC = () => {
 
     // 블록 이동 및 충돌 검사
     blocksRef.current = blocksRef.current.filter(block => {
+      block.prevY = block.y;
       block.y += block.speed * deltaTime / 1000;
       
       // 충돌 검사
       if (checkCollision(player, block)) {
+        overRef.current = true;
         setGameState('gameOver');
         return false;
       }
@@ -119,9 +132,13 @@ const DodgeGameCanvas: React.FC = () => {
       blockSpeedRef.current += 20; // 속도 증가
       difficultyTimerRef.current = 0;
     }
-  }, [gameState, spawnBlock, checkCollision]);
+  };
+
+  // 직전/현재 스텝 사이를 alpha로 보간해 그린다
+  const draw = (alpha: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
 
-  const draw = useCallback((ctx: CanvasRenderingContext2D) => {
     // 배경
     ctx.fillStyle = '#000011';
     ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
@@ -129,21 +146,24 @@ const DodgeGameCanvas: React.FC = () => {
     if (gameState === 'playing') {
       // 플레이어 그리기
       const player = playerRef.current;
+      const px = lerp(player.prevX, player.x, alpha);
+      const py = lerp(player.prevY, player.y, alpha);
       ctx.fillStyle = '#00ff00';
-      ctx.fillRect(player.x, player.y, player.width, player.height);
+      ctx.fillRect(px, py, player.width, player.height);
       
       // 플레이어에 간단한 디테일 추가
       ctx.fillStyle = '#00aa00';
-      ctx.fillRect(player.x + 10, player.y + 10, player.width - 20, player.height - 20);
+      ctx.fillRect(px + 10, py + 10, player.width - 20, player.height - 20);
 
       // 블록들 그리기
       blocksRef.current.forEach(block => {
+        const by = lerp(block.prevY, block.y, alpha);
         ctx.fillStyle = '#ff4444';
-        ctx.fillRect(block.x, block.y, block.width, block.height);
+        ctx.fillRect(block.x, by, block.width, block.height);
         
         // 블록에 그라데이션 효과
         ctx.fillStyle = '#ff6666';
-        ctx.fillRect(block.x + 2, block.y + 2, block.width - 4, block.height - 4);
+        ctx.fillRect(block.x + 2, by + 2, block.width - 4, block.height - 4);
       });
 
       // 점수 표시
@@ -155,6 +175,18 @@ const DodgeGameCanvas: React.FC = () => {
       ctx.font = '16px Arial';
       ctx.fillText(`Speed: ${Math.round(blockSpeedRef.current)}`, 20, 70);
       ctx.fillText(`Spawn Rate: ${(1000 / spawnIntervalRef.current).toFixed(1)}/s`, 20, 90);
+
+      if (paused) {
+        ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+        ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+        ctx.fillStyle = '#ffffff';
+        ctx.font = '48px Arial';
+        ctx.textAlign = 'center';
+        ctx.fillText('PAUSED', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+        ctx.font = '24px Arial';
+        ctx.fillText('Press P to Resume', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 50);
+        ctx.textAlign = 'left';
+      }
     } else if (gameState === 'gameOver') {
       // Game Over 화면
       ctx.fillStyle = 'rgba(0, 0, 0, 0.8)';
@@ -171,22 +203,14 @@ const DodgeGameCanvas: React.FC = () => {
       ctx.fillText('Press R to Restart', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 50);
       ctx.textAlign = 'left';
     }
-  }, [gameState, score]);
-
-  const gameLoop = useCallback((currentTime: number) => {
-    const deltaTime = currentTime - lastTimeRef.current;
-    lastTimeRef.current = currentTime;
-
-    updateGame(deltaTime);
-
-    const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (ctx) {
-      draw(ctx);
-    }
+  };
 
-    animationFrameRef.current = requestAnimationFrame(gameLoop);
-  }, [updateGame, draw]);
+  const { paused, resume, togglePause } = useGameLoop({
+    update: updateGame,
+    render: draw,
+    running: gameState === 'playing',
+    canvas: { ref: canvasRef, width: CANVAS_WIDTH, height: CANVAS_HEIGHT },
+  });
 
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
     keysRef.current.add(event.code);
@@ -194,19 +218,24 @@ const DodgeGameCanvas: React.FC = () => {
     if (event.code === 'KeyR' && gameState === 'gameOver') {
       restartGame();
     }
+    if (event.code === 'KeyP' && gameState === 'playing') {
+      togglePause();
+    }
     
     // 게임 조작키들의 기본 동작 방지 및 전파 차단
     if (['KeyW', 'KeyA', 'KeyS', 'KeyD', 'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(event.code)) {
       event.preventDefault();
       event.stopPropagation();
     }
-  }, [gameState]);
+  }, [gameState, togglePause]);
 
   const handleKeyUp = useCallback((event: KeyboardEvent) => {
     keysRef.current.delete(event.code);
   }, []);
 
   const restartGame = useCallback(() => {
+    overRef.current = false;
+    resume();
     setGameState('playing');
     setScore(0);
     blocksRef.current = [];
@@ -219,33 +248,23 @@ const DodgeGameCanvas: React.FC = () => {
     playerRef.current = {
       x: CANVAS_WIDTH / 2 - 25,
       y: CANVAS_HEIGHT - 100,
+      prevX: CANVAS_WIDTH / 2 - 25,
+      prevY: CANVAS_HEIGHT - 100,
       width: 50,
       height: 50,
       speed: 300
     };
-  }, []);
+  }, [resume]);
 
   useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-
-    canvas.width = CANVAS_WIDTH;
-    canvas.height = CANVAS_HEIGHT;
-
     window.addEventListener('keydown', handleKeyDown, { capture: true });
     window.addEventListener('keyup', handleKeyUp, { capture: true });
 
-    lastTimeRef.current = performance.now();
-    animationFrameRef.current = requestAnimationFrame(gameLoop);
-
     return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('keyup', handleKeyUp);
-      if (animationFrameRef.current) {
-        cancelAnimationFrame(animationFrameRef.current);
-      }
+      window.removeEventListener('keydown', handleKeyDown, { capture: true });
+      window.removeEventListener('keyup', handleKeyUp, { capture: true });
     };
-  }, [handleKeyDown, handleKeyUp, gameLoop]);
+  }, [handleKeyDown, handleKeyUp]);
 
   // 상단 정보 (게임 목표/상태)
   const gameStats = (
@@ -255,7 +274,7 @@ const DodgeGameCanvas: React.FC = () => {
         fontSize: 18,
         marginBottom: spacing.sm
       }}>
-        {gameState === 'playing' ? '플레이 중' : '게임 오버 💀'}
+        {gameState === 'gameOver' ? '게임 오버 💀' : paused ? '일시정지' : '플레이 중'}
       </div>
       <div style={{
         fontSize: 16,
@@ -274,7 +293,7 @@ const DodgeGameCanvas: React.FC = () => {
         <strong>조작법:</strong> WASD 또는 방향키로 움직여서 떨어지는 블록을 피하세요!
       </div>
       <div style={{ marginBottom: spacing.xs }}>
-        <strong>게임:</strong> R키 = 재시작, 시간이 지날수록 난이도가 증가합니다
+        <strong>게임:</strong> R키 = 재시작, P키 = 일시정지, 시간이 지날수록 난이도가 증가합니다
       </div>
       <div style={{ fontSize: 12, opacity: 0.8 }}>
         블록과 충돌하지 않도록 주의하세요!
@@ -296,6 +315,8 @@ const DodgeGameCanvas: React.FC = () => {
   return (
     <GameManager
       title="Dodge Game"
+      gameId="dodge"
+      score={score}
       gameIcon="🚫"
       gameStats={gameStats}
       gameStatus={gameState === 'gameOver' ? '게임 오버' : undefined}
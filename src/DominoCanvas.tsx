@@ -202,7 +202,13 @@ const DominoCanvas: React.FC = () => {
 
   return (
     <GameLayout
-      gameStatus={goalHit ? '클리어!' : undefined} title="Domino Topple" topInfo={topInfo} bottomInfo={instructions}>
+      gameStatus={goalHit ? '클리어!' : undefined}
+      title="Domino Topple"
+      gameId="domino"
+      score={score}
+      topInfo={topInfo}
+      bottomInfo={instructions}
+    >
       <GameCanvas
         ref={canvasRef}
         gameTitle="Domino Topple"
@@ -2,39 +2,23 @@ import React, { useState, useCallback, useEffect, useRef } from 'react';
 import GameManager from './components/GameManager';
 import GameCanvas from './components/GameCanvas';
 import GameButton from './components/GameButton';
-
-type GameState = 'ready' | 'playing' | 'gameOver';
-
-interface Bird {
-  x: number;
-  y: number;
-  velocity: number;
-  width: number;
-  height: number;
-}
-
-interface Pipe {
-  id: number;
-  x: number;
-  topHeight: number;
-  bottomY: number;
-  width: number;
-  passed: boolean;
-}
-
-const CANVAS_WIDTH = 800;
-const CANVAS_HEIGHT = 600;
-const BIRD_WIDTH = 34;
-const BIRD_HEIGHT = 24;
-const PIPE_WIDTH = 80;
-const PIPE_GAP = 200;
-const PIPE_SPEED = 3;
-const PIPE_SPAWN_INTERVAL = 1500; // 1.5초마다 파이프 생성
-
-// 물리 상수
-const GRAVITY = 0.6;
-const JUMP_FORCE = -12;
-const MAX_FALL_SPEED = 10;
+import { createRecorder, Replay, ReplayRecorder, snapshotReplay } from './shared/replay/core';
+import { lerp, useGameLoop } from './hooks/useGameLoop';
+import { playSfx } from './audio/engine';
+import {
+  BIRD_HEIGHT,
+  BIRD_WIDTH,
+  BIRD_X,
+  FLAPPY_ACTIONS,
+  FLAPPY_HEIGHT as CANVAS_HEIGHT,
+  FLAPPY_WIDTH as CANVAS_WIDTH,
+  FlappyPhase,
+  FlappyState,
+  flappySim,
+  GROUND_HEIGHT,
+  PIPE_SPEED,
+  PIPE_WIDTH,
+} from './shared/sims/flappy';
 
 // 색상
 const BIRD_COLOR = '#FFD700';
@@ -44,213 +28,58 @@ const GROUND_COLOR = '#DEB887';
 
 const FlappyBirdCanvas: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const animationRef = useRef<number>(0);
-  const lastPipeSpawnRef = useRef<number>(0);
-  const pipeIdRef = useRef(0);
-  
-  const [gameState, setGameState] = useState<GameState>('ready');
-  const [bird, setBird] = useState<Bird>({
-    x: 150,
-    y: CANVAS_HEIGHT / 2,
-    velocity: 0,
-    width: BIRD_WIDTH,
-    height: BIRD_HEIGHT
-  });
-  const [pipes, setPipes] = useState<Pipe[]>([]);
+  // 게임 로직은 flappySim, 입력은 리플레이로 기록
+  const recRef = useRef<ReplayRecorder<FlappyState>>();
+  if (!recRef.current) recRef.current = createRecorder(flappySim);
+  const shownStateRef = useRef<FlappyPhase>('ready');
+  // 보간용 직전 스텝의 새 높이
+  const prevBirdYRef = useRef(0);
+
+  const [gameState, setGameState] = useState<FlappyPhase>('ready');
   const [score, setScore] = useState(0);
   const [bestScore, setBestScore] = useState(0);
-  const [backgroundX, setBackgroundX] = useState(0);
-
-  // 파이프 생성
-  const createPipe = useCallback((x: number): Pipe => {
-    const minTopHeight = 50;
-    const maxTopHeight = CANVAS_HEIGHT - PIPE_GAP - 100; // 바닥 여유공간
-    const topHeight = minTopHeight + Math.random() * (maxTopHeight - minTopHeight);
-    
-    return {
-      id: pipeIdRef.current++,
-      x,
-      topHeight,
-      bottomY: topHeight + PIPE_GAP,
-      width: PIPE_WIDTH,
-      passed: false
-    };
-  }, []);
-
-  // AABB 충돌 감지
-  const checkAABBCollision = useCallback((
-    ax: number, ay: number, aw: number, ah: number,
-    bx: number, by: number, bw: number, bh: number
-  ) => {
-    return ax < bx + bw && ax + aw > bx && ay < by + bh && ay + ah > by;
-  }, []);
-
-  // 새와 파이프 충돌 검사
-  const checkBirdPipeCollision = useCallback((bird: Bird, pipe: Pipe) => {
-    // 위쪽 파이프와 충돌
-    const topCollision = checkAABBCollision(
-      bird.x, bird.y, bird.width, bird.height,
-      pipe.x, 0, pipe.width, pipe.topHeight
-    );
-    
-    // 아래쪽 파이프와 충돌
-    const bottomCollision = checkAABBCollision(
-      bird.x, bird.y, bird.width, bird.height,
-      pipe.x, pipe.bottomY, pipe.width, CANVAS_HEIGHT - pipe.bottomY
-    );
-    
-    return topCollision || bottomCollision;
-  }, [checkAABBCollision]);
-
-  // 점프 함수
-  const jump = useCallback(() => {
-    if (gameState === 'ready') {
-      setGameState('playing');
-      lastPipeSpawnRef.current = performance.now();
-    }
-    
-    if (gameState === 'playing') {
-      setBird(prev => ({
-        ...prev,
-        velocity: JUMP_FORCE
-      }));
-    }
-  }, [gameState]);
-
-  // 게임 시작/재시작
-  const startGame = useCallback(() => {
-    setBird({
-      x: 150,
-      y: CANVAS_HEIGHT / 2,
-      velocity: 0,
-      width: BIRD_WIDTH,
-      height: BIRD_HEIGHT
-    });
-    setPipes([]);
-    setScore(0);
-    setBackgroundX(0);
-    setGameState('ready');
-    pipeIdRef.current = 0;
-    lastPipeSpawnRef.current = 0;
-  }, []);
-
-  // 게임 루프
-  const gameLoop = useCallback(() => {
-    const currentTime = performance.now();
-    
-    if (gameState === 'playing') {
-      // 새 물리 업데이트
-      setBird(prev => {
-        let newBird = { ...prev };
-        
-        // 중력 적용
-        newBird.velocity += GRAVITY;
-        
-        // 최대 낙하 속도 제한
-        if (newBird.velocity > MAX_FALL_SPEED) {
-          newBird.velocity = MAX_FALL_SPEED;
-        }
-        
-        // 위치 업데이트
-        newBird.y += newBird.velocity;
-        
-        // 바닥/천장 충돌 검사
-        if (newBird.y + newBird.height >= CANVAS_HEIGHT - 50 || newBird.y <= 0) {
-          setGameState('gameOver');
-          setBestScore(prev => Math.max(prev, score));
-          return prev;
-        }
-        
-        return newBird;
-      });
-
-      // 배경 스크롤
-      setBackgroundX(prev => prev - 1);
-
-      // 파이프 스폰
-      if (currentTime - lastPipeSpawnRef.current > PIPE_SPAWN_INTERVAL) {
-        setPipes(prev => [...prev, createPipe(CANVAS_WIDTH)]);
-        lastPipeSpawnRef.current = currentTime;
+  const [replay, setReplay] = useState<Replay | null>(null);
+
+  // sim 상태 → React 상태 동기화
+  const sync = useCallback(() => {
+    const rec = recRef.current!;
+    const st = rec.state;
+    if (st.phase !== shownStateRef.current) {
+      shownStateRef.current = st.phase;
+      if (st.phase === 'gameOver') {
+        setReplay(snapshotReplay(rec.replay));
+        setBestScore(prev => Math.max(prev, st.score));
       }
-
-      // 파이프 이동 및 충돌 검사
-      setPipes(prev => {
-        const updatedPipes = prev.map(pipe => ({
-          ...pipe,
-          x: pipe.x - PIPE_SPEED
-        })).filter(pipe => pipe.x + pipe.width > -50); // 화면 밖 파이프 제거
-
-        // 충돌 검사
-        for (const pipe of updatedPipes) {
-          if (checkBirdPipeCollision(bird, pipe)) {
-            setGameState('gameOver');
-            setBestScore(prev => Math.max(prev, score));
-            break;
-          }
-        }
-
-        return updatedPipes;
-      });
-
-      // 점수 업데이트 (파이프 통과)
-      setPipes(prev => {
-        const updatedPipes = prev.map(pipe => {
-          if (!pipe.passed && bird.x > pipe.x + pipe.width) {
-            setScore(prevScore => prevScore + 1);
-            return { ...pipe, passed: true };
-          }
-          return pipe;
-        });
-        return updatedPipes;
-      });
+      setGameState(st.phase);
     }
+    setScore(st.score);
+  }, []);
 
-    animationRef.current = requestAnimationFrame(gameLoop);
-  }, [gameState, bird, score, createPipe, checkBirdPipeCollision]);
-
-  // 키보드 및 마우스 입력
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (e.code === 'Space' || e.key === ' ') {
-        e.preventDefault();
-        jump();
-      }
-      if (e.key === 'r' && gameState === 'gameOver') {
-        startGame();
-      }
-    };
-
-    const handleClick = () => {
-      if (gameState === 'gameOver') {
-        startGame();
-      } else {
-        jump();
-      }
-    };
-
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('click', handleClick);
-
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('click', handleClick);
-    };
-  }, [gameState, jump, startGame]);
-
-  // 게임 루프 시작/정지
-  useEffect(() => {
-    animationRef.current = requestAnimationFrame(gameLoop);
-    return () => cancelAnimationFrame(animationRef.current);
-  }, [gameLoop]);
-
-  // 캔버스 렌더링
-  useEffect(() => {
+  // 고정 스텝 — sim 한 틱 진행
+  const update = () => {
+    const rec = recRef.current!;
+    if (rec.state.phase !== 'playing') return;
+    prevBirdYRef.current = rec.state.birdY;
+    const before = rec.state.score;
+    rec.step();
+    if (rec.state.score > before) playSfx('score');
+    sync();
+  };
+
+  // 캔버스 렌더링 — 직전/현재 스텝 사이를 alpha로 보간
+  const draw = (alpha: number) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
+    const { velocity, pipes, score } = recRef.current!.state;
+    // 파이프/배경은 틱마다 일정하게 움직이므로 남은 진행률만큼 덜 간 위치에 그린다
+    const lag = gameState === 'playing' ? 1 - alpha : 0;
+    const birdY = lerp(prevBirdYRef.current, recRef.current!.state.birdY, alpha);
+    const backgroundX = recRef.current!.state.backgroundX + lag;
+
     // 배경
     const gradient = ctx.createLinearGradient(0, 0, 0, CANVAS_HEIGHT);
     gradient.addColorStop(0, BACKGROUND_COLOR);
@@ -272,33 +101,34 @@ const FlappyBirdCanvas: React.FC = () => {
     }
 
     // 파이프 그리기
-    pipes.forEach(pipe => {
+    pipes.forEach(({ x, topHeight, bottomY }) => {
+      const pipe = { x: x + lag * PIPE_SPEED, topHeight, bottomY };
       // 위쪽 파이프
       ctx.fillStyle = PIPE_COLOR;
-      ctx.fillRect(pipe.x, 0, pipe.width, pipe.topHeight);
+      ctx.fillRect(pipe.x, 0, PIPE_WIDTH, pipe.topHeight);
       
       // 파이프 캡 (위)
       ctx.fillStyle = '#2E7D32';
-      ctx.fillRect(pipe.x - 5, pipe.topHeight - 30, pipe.width + 10, 30);
+      ctx.fillRect(pipe.x - 5, pipe.topHeight - 30, PIPE_WIDTH + 10, 30);
       
       // 아래쪽 파이프
       ctx.fillStyle = PIPE_COLOR;
-      ctx.fillRect(pipe.x, pipe.bottomY, pipe.width, CANVAS_HEIGHT - pipe.bottomY);
+      ctx.fillRect(pipe.x, pipe.bottomY, PIPE_WIDTH, CANVAS_HEIGHT - pipe.bottomY);
       
       // 파이프 캡 (아래)
       ctx.fillStyle = '#2E7D32';
-      ctx.fillRect(pipe.x - 5, pipe.bottomY, pipe.width + 10, 30);
+      ctx.fillRect(pipe.x - 5, pipe.bottomY, PIPE_WIDTH + 10, 30);
       
       // 파이프 테두리
       ctx.strokeStyle = '#1B5E20';
       ctx.lineWidth = 2;
-      ctx.strokeRect(pipe.x, 0, pipe.width, pipe.topHeight);
-      ctx.strokeRect(pipe.x, pipe.bottomY, pipe.width, CANVAS_HEIGHT - pipe.bottomY);
+      ctx.strokeRect(pipe.x, 0, PIPE_WIDTH, pipe.topHeight);
+      ctx.strokeRect(pipe.x, pipe.bottomY, PIPE_WIDTH, CANVAS_HEIGHT - pipe.bottomY);
     });
 
     // 바닥
     ctx.fillStyle = GROUND_COLOR;
-    ctx.fillRect(0, CANVAS_HEIGHT - 50, CANVAS_WIDTH, 50);
+    ctx.fillRect(0, CANVAS_HEIGHT - GROUND_HEIGHT, CANVAS_WIDTH, GROUND_HEIGHT);
     
     // 바닥 패턴
     ctx.fillStyle = '#CD853F';
@@ -308,19 +138,19 @@ const FlappyBirdCanvas: React.FC = () => {
 
     // 새 그리기
     ctx.save();
-    ctx.translate(bird.x + bird.width / 2, bird.y + bird.height / 2);
+    ctx.translate(BIRD_X + BIRD_WIDTH / 2, birdY + BIRD_HEIGHT / 2);
     
     // 새의 회전 각도 (속도에 따라)
-    const angle = Math.max(-0.5, Math.min(0.5, bird.velocity * 0.05));
+    const angle = Math.max(-0.5, Math.min(0.5, velocity * 0.05));
     ctx.rotate(angle);
     
     // 새 몸체
     ctx.fillStyle = BIRD_COLOR;
-    ctx.fillRect(-bird.width / 2, -bird.height / 2, bird.width, bird.height);
+    ctx.fillRect(-BIRD_WIDTH / 2, -BIRD_HEIGHT / 2, BIRD_WIDTH, BIRD_HEIGHT);
     
     // 새 부리
     ctx.fillStyle = '#FF8C00';
-    ctx.fillRect(bird.width / 2 - 5, -3, 12, 6);
+    ctx.fillRect(BIRD_WIDTH / 2 - 5, -3, 12, 6);
     
     // 새 눈
     ctx.fillStyle = '#000';
@@ -331,7 +161,7 @@ const FlappyBirdCanvas: React.FC = () => {
     // 새 테두리
     ctx.strokeStyle = '#FFB300';
     ctx.lineWidth = 2;
-    ctx.strokeRect(-bird.width / 2, -bird.height / 2, bird.width, bird.height);
+    ctx.strokeRect(-BIRD_WIDTH / 2, -BIRD_HEIGHT / 2, BIRD_WIDTH, BIRD_HEIGHT);
     
     ctx.restore();
 
@@ -345,7 +175,19 @@ const FlappyBirdCanvas: React.FC = () => {
     ctx.fillText(score.toString(), CANVAS_WIDTH / 2, 60);
 
     // 게임 상태별 메시지
-    if (gameState === 'ready') {
+    if (paused && gameState === 'playing') {
+      ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
+      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+
+      ctx.fillStyle = '#fff';
+      ctx.font = 'bold 48px Arial';
+      ctx.strokeText('일시정지', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 20);
+      ctx.fillText('일시정지', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 20);
+
+      ctx.font = 'bold 24px Arial';
+      ctx.strokeText('스페이스바나 클릭으로 계속', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 30);
+      ctx.fillText('스페이스바나 클릭으로 계속', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 30);
+    } else if (gameState === 'ready') {
       ctx.fillStyle = 'rgba(0, 0, 0, 0.7)';
       ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
       
@@ -379,12 +221,67 @@ const FlappyBirdCanvas: React.FC = () => {
     }
 
     ctx.textAlign = 'left';
-  }, [bird, pipes, score, bestScore, gameState, backgroundX]);
+  };
+
+  const { paused, resume, togglePause } = useGameLoop({
+    update,
+    render: draw,
+    stepMs: flappySim.stepMs,
+    running: gameState === 'playing',
+    canvas: { ref: canvasRef, width: CANVAS_WIDTH, height: CANVAS_HEIGHT },
+  });
 
-  // 컴포넌트 시작 시 게임 초기화
+  // 점프 함수 (ready 상태면 시작과 함께 점프, 일시정지 중이면 계속하기만)
+  const jump = useCallback(() => {
+    if (paused) {
+      resume();
+      return;
+    }
+    const rec = recRef.current!;
+    prevBirdYRef.current = rec.state.birdY;
+    rec.input(FLAPPY_ACTIONS.flap);
+    sync();
+  }, [paused, resume, sync]);
+
+  // 게임 시작/재시작 (새 시드)
+  const startGame = useCallback(() => {
+    recRef.current = createRecorder(flappySim);
+    resume();
+    setReplay(null);
+    sync();
+  }, [resume, sync]);
+
+  // 키보드 및 마우스 입력
   useEffect(() => {
-    startGame();
-  }, [startGame]);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.code === 'Space' || e.key === ' ') {
+        e.preventDefault();
+        jump();
+      }
+      if (e.key === 'r' && gameState === 'gameOver') {
+        startGame();
+      }
+      if (e.key === 'p' && gameState === 'playing') {
+        togglePause();
+      }
+    };
+
+    const handleClick = () => {
+      if (gameState === 'gameOver') {
+        startGame();
+      } else {
+        jump();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('click', handleClick);
+
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('click', handleClick);
+    };
+  }, [gameState, jump, startGame, togglePause]);
 
   const gameStats = (
     <div>
@@ -393,7 +290,7 @@ const FlappyBirdCanvas: React.FC = () => {
   );
 
   const instructions =
-    '스페이스바 또는 클릭: 점프\n파이프 사이를 통과하며 점수를 쌓으세요!';
+    '스페이스바 또는 클릭: 점프, P: 일시정지\n파이프 사이를 통과하며 점수를 쌓으세요!';
 
   const actionButtons =
     gameState === 'gameOver' ? (
@@ -405,6 +302,9 @@ const FlappyBirdCanvas: React.FC = () => {
   return (
     <GameManager
       title="Flappy Bird"
+      gameId="flappy"
+      score={score}
+      replay={replay ?? undefined}
       gameIcon="🐦"
       gameStats={gameStats}
       gameStatus={gameState === 'gameOver' ? '게임 오버' : undefined}
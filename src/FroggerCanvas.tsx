@@ -3,6 +3,7 @@ import GameManager from './components/GameManager';
 import GameCanvas from './components/GameCanvas';
 import GameButton from './components/GameButton';
 import { layout } from './theme/gameTheme';
+import { useGameLoop } from './hooks/useGameLoop';
 
 const CANVAS_WIDTH = layout.maxWidth;
 const CANVAS_HEIGHT = Math.round(layout.maxWidth * 0.75);
@@ -22,7 +23,6 @@ interface Car {
 
 const FroggerCanvas: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const animationRef = useRef<number>();
   const carsRef = useRef<Car[]>([]);
   const frogRef = useRef({ x: 0, y: 0 });
 
@@ -63,43 +63,10 @@ const FroggerCanvas: React.FC = () => {
     resetFrog();
   }, [initCars, resetFrog]);
 
-  const handleKey = useCallback((e: KeyboardEvent) => {
-    if (gameState !== 'playing') return;
-    // 방향키로 페이지가 스크롤되지 않도록 차단
-    if (['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key)) {
-      e.preventDefault();
-    }
-    const frog = frogRef.current;
-    switch (e.key) {
-      case 'ArrowUp':
-      case 'w':
-      case 'W':
-        frog.y = Math.max(0, frog.y - FROG_SIZE);
-        break;
-      case 'ArrowDown':
-      case 's':
-      case 'S':
-        frog.y = Math.min(CANVAS_HEIGHT - FROG_SIZE, frog.y + FROG_SIZE);
-        break;
-      case 'ArrowLeft':
-      case 'a':
-      case 'A':
-        frog.x = Math.max(0, frog.x - FROG_SIZE);
-        break;
-      case 'ArrowRight':
-      case 'd':
-      case 'D':
-        frog.x = Math.min(CANVAS_WIDTH - FROG_SIZE, frog.x + FROG_SIZE);
-        break;
-    }
-    if (frog.y <= 0) {
-      setScore(s => s + 1);
-      resetFrog();
-    }
-  }, [gameState, resetFrog]);
-
-  const update = useCallback((dt: number) => {
+  // 고정 스텝 업데이트 (stepMs → 초)
+  const update = (stepMs: number) => {
     if (gameState !== 'playing') return;
+    const dt = stepMs / 1000;
     const frog = frogRef.current;
     carsRef.current.forEach(car => {
       car.x += car.speed * dt;
@@ -119,9 +86,10 @@ const FroggerCanvas: React.FC = () => {
         resetFrog();
       }
     });
-  }, [gameState, resetFrog]);
+  };
 
-  const draw = useCallback(() => {
+  // 차는 등속이므로 다음 스텝까지 남은 만큼 뒤에 그려 보간
+  const draw = (alpha: number) => {
     const ctx = canvasRef.current?.getContext('2d');
     if (!ctx) return;
     ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
@@ -144,44 +112,94 @@ const FroggerCanvas: React.FC = () => {
 
     // cars
     ctx.fillStyle = 'orange';
+    const lag = (1 - alpha) / 60;
     carsRef.current.forEach(car => {
-      ctx.fillRect(car.x, car.y, car.width, car.height);
+      ctx.fillRect(car.x - car.speed * lag, car.y, car.width, car.height);
     });
 
     // frog
     ctx.fillStyle = 'lime';
     const frog = frogRef.current;
     ctx.fillRect(frog.x, frog.y, FROG_SIZE, FROG_SIZE);
-  }, []);
 
-  const loop = useCallback((time: number) => {
-    const prev = (loop as any).prev || time;
-    const dt = (time - prev) / 1000;
-    (loop as any).prev = time;
-    update(dt);
-    draw();
-    animationRef.current = requestAnimationFrame(loop);
-  }, [draw, update]);
+    if (paused) {
+      ctx.fillStyle = 'rgba(0,0,0,0.5)';
+      ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+      ctx.fillStyle = '#fff';
+      ctx.font = 'bold 32px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText('PAUSED', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+      ctx.textAlign = 'left';
+    }
+  };
+
+  const { paused, resume, togglePause } = useGameLoop({
+    update,
+    render: draw,
+    running: gameState === 'playing',
+    canvas: { ref: canvasRef, width: CANVAS_WIDTH, height: CANVAS_HEIGHT },
+  });
+
+  const handleKey = useCallback((e: KeyboardEvent) => {
+    if (gameState !== 'playing') return;
+    if (e.key === 'p' || e.key === 'P') {
+      togglePause();
+      return;
+    }
+    if (paused) return;
+    // 방향키로 페이지가 스크롤되지 않도록 차단
+    if (['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'].includes(e.key)) {
+      e.preventDefault();
+    }
+    const frog = frogRef.current;
+    switch (e.key) {
+      case 'ArrowUp':
+      case 'w':
+      case 'W':
+        frog.y = Math.max(0, frog.y - FROG_SIZE);
+        break;
+      case 'ArrowDown':
+      case 's':
+      case 'S':
+        frog.y = Math.min(CANVAS_HEIGHT - FROG_SIZE, frog.y + FROG_SIZE);
+        break;
+      case 'ArrowLeft':
+      case 'a':
+      case 'A':
+        frog.x = Math.max(0, frog.x - FROG_SIZE);
+        break;
+      case 'ArrowRight':
+      case 'd':
+      case 'D':
+        frog.x = Math.min(CANVAS_WIDTH - FROG_SIZE, frog.x + FROG_SIZE);
+        break;
+    }
+    if (frog.y <= 0) {
+      setScore(s => s + 1);
+      resetFrog();
+    }
+  }, [gameState, paused, resetFrog, togglePause]);
 
   useEffect(() => {
     startGame();
+  }, [startGame]);
+
+  useEffect(() => {
     const handler = (e: KeyboardEvent) => handleKey(e);
     window.addEventListener('keydown', handler);
-    animationRef.current = requestAnimationFrame(loop);
-    return () => {
-      window.removeEventListener('keydown', handler);
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
-    };
-  }, [handleKey, loop, startGame]);
+    return () => window.removeEventListener('keydown', handler);
+  }, [handleKey]);
 
   return (
     <GameManager
       title="Frogger"
+      gameId="frogger"
+      score={score}
       gameIcon="🐸"
       gameStats={<div>Score: {score} | Lives: {lives}</div>}
       gameStatus={gameState === 'gameover' ? 'Game Over' : undefined}
-      actionButtons={<GameButton onClick={startGame}>Reset</GameButton>}
-      instructions={<div>방향키로 이동하여 위쪽으로 건너가세요</div>}
+      actionButtons={<GameButton onClick={() => { resume(); startGame(); }}>Reset</GameButton>}
+      instructions={<div>방향키로 이동하여 위쪽으로 건너가세요 (P: 일시정지)</div>}
     >
       <GameCanvas
           gameTitle="frogger"
@@ -2,6 +2,7 @@ import React, { useRef, useEffect, useState, useCallback } from 'react';
 import GameManager from './components/GameManager';
 import GameCanvas from './components/GameCanvas';
 import GameButton from './components/GameButton';
+import { useGameLoop } from './hooks/useGameLoop';
 import { layout } from './theme/gameTheme';
 
 const CANVAS_WIDTH = layout.maxWidth;
@@ -30,8 +31,6 @@ interface Enemy {
 
 const GalagaCanvas: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const animationRef = useRef<number>();
-  const lastTimeRef = useRef(0);
   const keysRef = useRef<Set<string>>(new Set());
   const bulletsRef = useRef<Bullet[]>([]);
   const enemiesRef = useRef<Enemy[]>([]);
@@ -153,8 +152,10 @@ const GalagaCanvas: React.FC = () => {
     [state]
   );
 
+  // 총알은 등속이므로 다음 스텝까지 남은 만큼 뒤에 그려 보간
   const draw = useCallback(
-    (ctx: CanvasRenderingContext2D) => {
+    (ctx: CanvasRenderingContext2D, alpha: number) => {
+      const lag = (1 - alpha) / 60;
       ctx.fillStyle = '#000';
       ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
 
@@ -162,7 +163,7 @@ const GalagaCanvas: React.FC = () => {
       ctx.fillRect(playerXRef.current - 20, CANVAS_HEIGHT - 40, 40, 20);
 
       ctx.fillStyle = '#ff0';
-      bulletsRef.current.forEach((b) => ctx.fillRect(b.x - 2, b.y - 10, 4, 10));
+      bulletsRef.current.forEach((b) => ctx.fillRect(b.x - 2, b.y - 10 + BULLET_SPEED * lag, 4, 10));
 
       ctx.fillStyle = '#f00';
       enemiesRef.current.forEach((e) => {
@@ -193,18 +194,32 @@ const GalagaCanvas: React.FC = () => {
     [score, state]
   );
 
-  const loop = useCallback(
-    (time: number) => {
-      if (!lastTimeRef.current) lastTimeRef.current = time;
-      const dt = (time - lastTimeRef.current) / 1000;
-      lastTimeRef.current = time;
-      update(dt);
+  const { paused, resume, togglePause } = useGameLoop({
+    update: (stepMs) => update(stepMs / 1000),
+    render: (alpha) => {
       const ctx = canvasRef.current?.getContext('2d');
-      if (ctx) draw(ctx);
-      animationRef.current = requestAnimationFrame(loop);
+      if (!ctx) return;
+      draw(ctx, alpha);
+      if (paused) {
+        ctx.fillStyle = 'rgba(0,0,0,0.6)';
+        ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+        ctx.textAlign = 'center';
+        ctx.fillStyle = '#fff';
+        ctx.font = '48px Arial';
+        ctx.fillText('PAUSED', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+        ctx.font = '24px Arial';
+        ctx.fillText('Press P to Resume', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 40);
+        ctx.textAlign = 'left';
+      }
     },
-    [update, draw]
-  );
+    running: state === 'playing',
+    canvas: { ref: canvasRef, width: CANVAS_WIDTH, height: CANVAS_HEIGHT },
+  });
+
+  const restart = useCallback(() => {
+    resume();
+    start();
+  }, [resume, start]);
 
   useEffect(() => {
     start();
@@ -212,19 +227,20 @@ const GalagaCanvas: React.FC = () => {
 
   useEffect(() => {
     const onKeyDown = (e: KeyboardEvent) => {
-      if (['ArrowLeft', 'ArrowRight', 'KeyA', 'KeyD', 'Space', 'KeyR'].includes(e.code)) {
+      if (['ArrowLeft', 'ArrowRight', 'KeyA', 'KeyD', 'Space', 'KeyR', 'KeyP'].includes(e.code)) {
         e.preventDefault();
         e.stopPropagation();
       }
       keysRef.current.add(e.code);
-      if (e.code === 'Space' && state === 'playing') {
+      if (e.code === 'KeyP' && state === 'playing') togglePause();
+      if (e.code === 'Space' && state === 'playing' && !paused) {
         const now = performance.now();
         if (now - lastShotRef.current > FIRE_DELAY) {
           bulletsRef.current.push({ x: playerXRef.current, y: CANVAS_HEIGHT - 40 });
           lastShotRef.current = now;
         }
       }
-      if (e.code === 'KeyR' && state !== 'playing') start();
+      if (e.code === 'KeyR' && state !== 'playing') restart();
     };
     const onKeyUp = (e: KeyboardEvent) => {
       keysRef.current.delete(e.code);
@@ -235,19 +251,12 @@ const GalagaCanvas: React.FC = () => {
       window.removeEventListener('keydown', onKeyDown, { capture: true });
       window.removeEventListener('keyup', onKeyUp, { capture: true });
     };
-  }, [state, start]);
-
-  useEffect(() => {
-    animationRef.current = requestAnimationFrame(loop);
-    return () => {
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
-    };
-  }, [loop]);
+  }, [paused, restart, state, togglePause]);
 
   const gameStats = <div>점수: {score}</div>;
-  const instructions = 'A/D 또는 ←/→ 이동, Space 발사, R 재시작';
+  const instructions = 'A/D 또는 ←/→ 이동, Space 발사, P 일시정지, R 재시작';
   const actionButtons = (
-    <GameButton onClick={start} variant="primary" size="large">
+    <GameButton onClick={restart} variant="primary" size="large">
       다시 시작
     </GameButton>
   );
@@ -255,6 +264,8 @@ const GalagaCanvas: React.FC = () => {
   return (
     <GameManager
       title="Galaga"
+      gameId="galaga"
+      score={score}
       gameIcon="🚀"
       gameStats={gameStats}
       gameStatus={state === 'won' ? '승리!' : state === 'gameover' ? '게임 오버' : undefined}
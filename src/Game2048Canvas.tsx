@@ -442,6 +442,8 @@ const Game2048Canvas: React.FC = () => {
       <GameLayout
       gameStatus={gameState === 'won' ? '승리!' : gameState === 'gameOver' ? '게임 오버' : undefined} 
         title="🔢 2048"
+        gameId="2048"
+        score={stats.score}
         topInfo={topInfo}
         bottomInfo={bottomInfo}
       >
@@ -2,6 +2,7 @@ import React, { useRef, useEffect, useState, useCallback } from 'react';
 import GameLayout from './components/GameLayout';
 import GameCanvas from './components/GameCanvas';
 import GameButton from './components/GameButton';
+import { lerp, useGameLoop } from './hooks/useGameLoop';
 
 const COLORS = ['#ff595e', '#1982c4', '#6a4c93', '#8ac926', '#ffca3a', '#ff924c'];
 const WIDTH = 300;
@@ -12,10 +13,13 @@ const BLOCK = 20;
 const BOTTOM_MARGIN = 20;
 const CENTER_Y = HEIGHT - RADIUS - BOTTOM_MARGIN;
 const START_Y = -CENTER_Y - BLOCK;
+// 낙하 속도 (px/ms)
+const FALL_SPEED = 0.25;
 
 interface FallingBlock {
   color: number;
   y: number; // relative to center, negative going up
+  prevY: number;
 }
 
 const HextrisCanvas: React.FC = () => {
@@ -34,97 +38,104 @@ const HextrisCanvas: React.FC = () => {
     setState('playing');
   }, []);
 
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
+  // 고정 스텝 — 블록 낙하와 착지 판정
+  const update = (stepMs: number) => {
+    if (!blockRef.current) {
+      blockRef.current = { color: Math.floor(Math.random() * 6), y: START_Y, prevY: START_Y };
+    }
+    const b = blockRef.current;
+    b.prevY = b.y;
+    b.y += FALL_SPEED * stepMs;
+    if (b.y >= -RADIUS) {
+      const topIndex = ((-rotationRef.current % 6) + 6) % 6;
+      if (b.color !== topIndex) {
+        setState('over');
+      } else {
+        stacksRef.current[topIndex]++;
+        if (stacksRef.current[topIndex] >= 3) {
+          setScore(s => s + stacksRef.current[topIndex]);
+          stacksRef.current[topIndex] = 0;
+        }
+      }
+      blockRef.current = null;
+    }
+  };
+
+  const render = (alpha: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
     if (!ctx) return;
-    const dpr = window.devicePixelRatio || 1;
-    canvas.width = WIDTH * dpr;
-    canvas.height = HEIGHT * dpr;
-    ctx.scale(dpr, dpr);
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+    ctx.fillStyle = '#222';
+    ctx.fillRect(0, 0, WIDTH, HEIGHT);
+    ctx.save();
+    ctx.translate(WIDTH / 2, CENTER_Y);
+    // rotate hexagon -30 degrees so a face, not an edge, points upward
+    ctx.rotate(rotationRef.current * (Math.PI / 3) - Math.PI / 6);
+    // draw hexagon wedges
+    for (let i = 0; i < 6; i++) {
+      const a1 = (i * Math.PI) / 3 - Math.PI / 2;
+      const a2 = ((i + 1) * Math.PI) / 3 - Math.PI / 2;
+      ctx.beginPath();
+      ctx.moveTo(0, 0);
+      ctx.lineTo(RADIUS * Math.cos(a1), RADIUS * Math.sin(a1));
+      ctx.lineTo(RADIUS * Math.cos(a2), RADIUS * Math.sin(a2));
+      ctx.closePath();
+      ctx.fillStyle = COLORS[i];
+      ctx.fill();
+      // draw stack
+      const angleMid = (a1 + a2) / 2;
+      for (let h = 0; h < stacksRef.current[i]; h++) {
+        const dist = RADIUS + BLOCK * (h + 0.5);
+        const bx = dist * Math.cos(angleMid) - BLOCK / 2;
+        const by = dist * Math.sin(angleMid) - BLOCK / 2;
+        ctx.fillStyle = COLORS[i];
+        ctx.fillRect(bx, by, BLOCK, BLOCK);
+      }
+    }
+    ctx.restore();
 
-    let prev: number | null = null;
-    let rafId: number;
-    const loop = (time: number) => {
-      if (prev === null) prev = time;
-      const delta = time - prev;
-      prev = time;
-      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
-      ctx.clearRect(0, 0, WIDTH, HEIGHT);
-      ctx.fillStyle = '#222';
-      ctx.fillRect(0, 0, WIDTH, HEIGHT);
+    // draw falling block
+    const b = blockRef.current;
+    if (state === 'playing' && b) {
       ctx.save();
       ctx.translate(WIDTH / 2, CENTER_Y);
-      // rotate hexagon -30 degrees so a face, not an edge, points upward
-      ctx.rotate(rotationRef.current * (Math.PI / 3) - Math.PI / 6);
-      // draw hexagon wedges
-      for (let i = 0; i < 6; i++) {
-        const a1 = (i * Math.PI) / 3 - Math.PI / 2;
-        const a2 = ((i + 1) * Math.PI) / 3 - Math.PI / 2;
-        ctx.beginPath();
-        ctx.moveTo(0, 0);
-        ctx.lineTo(RADIUS * Math.cos(a1), RADIUS * Math.sin(a1));
-        ctx.lineTo(RADIUS * Math.cos(a2), RADIUS * Math.sin(a2));
-        ctx.closePath();
-        ctx.fillStyle = COLORS[i];
-        ctx.fill();
-        // draw stack
-        const angleMid = (a1 + a2) / 2;
-        for (let h = 0; h < stacksRef.current[i]; h++) {
-          const dist = RADIUS + BLOCK * (h + 0.5);
-          const bx = dist * Math.cos(angleMid) - BLOCK / 2;
-          const by = dist * Math.sin(angleMid) - BLOCK / 2;
-          ctx.fillStyle = COLORS[i];
-          ctx.fillRect(bx, by, BLOCK, BLOCK);
-        }
-      }
+      ctx.fillStyle = COLORS[b.color];
+      ctx.fillRect(-BLOCK / 2, lerp(b.prevY, b.y, alpha) - BLOCK, BLOCK, BLOCK);
       ctx.restore();
+    }
+    if (state !== 'playing' || paused) {
+      ctx.fillStyle = '#fff';
+      ctx.font = '24px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText(paused ? 'Paused (P)' : 'Game Over', WIDTH / 2, HEIGHT / 2);
+    }
+  };
 
-      // draw falling block
-      if (state === 'playing') {
-        if (!blockRef.current) {
-          blockRef.current = { color: Math.floor(Math.random() * 6), y: START_Y };
-        }
-        const b = blockRef.current!;
-        b.y += (delta / 16) * 4; // speed
-        ctx.save();
-        ctx.translate(WIDTH / 2, CENTER_Y);
-        ctx.fillStyle = COLORS[b.color];
-        ctx.fillRect(-BLOCK / 2, b.y - BLOCK, BLOCK, BLOCK);
-        ctx.restore();
-        if (b.y >= -RADIUS) {
-          const topIndex = ((-rotationRef.current % 6) + 6) % 6;
-          if (b.color !== topIndex) {
-            setState('over');
-          } else {
-            stacksRef.current[topIndex]++;
-            if (stacksRef.current[topIndex] >= 3) {
-              setScore(s => s + stacksRef.current[topIndex]);
-              stacksRef.current[topIndex] = 0;
-            }
-          }
-          blockRef.current = null;
-        }
-      } else {
-        ctx.fillStyle = '#fff';
-        ctx.font = '24px sans-serif';
-        ctx.textAlign = 'center';
-        ctx.fillText('Game Over', WIDTH / 2, HEIGHT / 2);
-      }
-
-      rafId = requestAnimationFrame(loop);
-    };
-    rafId = requestAnimationFrame(loop);
-    return () => cancelAnimationFrame(rafId);
-  }, [state]);
+  const { paused, resume, togglePause } = useGameLoop({
+    update,
+    render,
+    running: state === 'playing',
+    canvas: { ref: canvasRef, width: WIDTH, height: HEIGHT },
+  });
 
   useEffect(() => {
     const handleKey = (e: KeyboardEvent) => {
       const key = e.key.toLowerCase();
-      if (['a', 'd', 'w', 's', 'r'].includes(key)) {
+      if (['a', 'd', 'w', 's', 'r', 'p'].includes(key)) {
         e.stopPropagation();
       }
+      if (key === 'r') {
+        e.preventDefault();
+        resume();
+        resetGame();
+        return;
+      }
+      if (key === 'p') {
+        e.preventDefault();
+        if (state === 'playing') togglePause();
+        return;
+      }
+      if (paused) return;
       if (key === 'a' || e.key === 'ArrowLeft') {
         e.preventDefault();
         rotationRef.current = (rotationRef.current + 5) % 6;
@@ -137,21 +148,20 @@ const HextrisCanvas: React.FC = () => {
       } else if (key === 's') {
         e.preventDefault();
         rotationRef.current = (rotationRef.current + 3) % 6;
-      } else if (key === 'r') {
-        e.preventDefault();
-        resetGame();
       }
     };
     window.addEventListener('keydown', handleKey, { capture: true });
     return () => window.removeEventListener('keydown', handleKey, { capture: true });
-  }, [resetGame]);
+  }, [paused, resetGame, resume, state, togglePause]);
 
   return (
     <GameLayout
       gameStatus={state === 'over' ? '게임 오버' : undefined}
       title="🔷 Hextris"
+      gameId="hextris"
+      score={score}
       topInfo={<div>Score: {score}</div>}
-      bottomInfo={<div>좌우 키(A/D)로 회전, W/S로 뒤집기. R=Reset</div>}
+      bottomInfo={<div>좌우 키(A/D)로 회전, W/S로 뒤집기. P=Pause, R=Reset</div>}
     >
       <GameCanvas
         ref={canvasRef}
@@ -161,7 +171,7 @@ const HextrisCanvas: React.FC = () => {
         style={{ aspectRatio: `${WIDTH} / ${HEIGHT}` }}
       />
       <div style={{ marginTop: 16 }}>
-        <GameButton onClick={resetGame}>Reset</GameButton>
+        <GameButton onClick={() => { resume(); resetGame(); }}>Reset</GameButton>
       </div>
     </GameLayout>
   );
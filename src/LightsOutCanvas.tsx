@@ -159,6 +159,8 @@ const LightsOutCanvas: React.FC = () => {
   return (
     <GameManager
       title="Lights Out"
+      gameId="lightsout"
+      score={isWon ? moves : undefined}
       gameIcon="💡"
       gameStats={gameStats}
       gameStatus={gameStatus}
@@ -1,71 +1,130 @@
-import React, { useRef, useState, useEffect, useCallback } from 'react';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
 import GameLayout from './components/GameLayout';
 import GameCanvas from './components/GameCanvas';
 import GameButton from './components/GameButton';
+import TurnHistoryPanel from './components/TurnHistoryPanel';
+import RatingPanel from './components/RatingPanel';
+import { TurnBasedAi, useAiWorker, useTurnBasedGame } from './hooks/useTurnBasedGame';
+import { useAiRating } from './hooks/useAiRating';
+import { useMctsSearch } from './hooks/useMctsSearch';
+import {
+  initialState,
+  mancalaGame,
+  MancalaState,
+  MancalaVariant,
+  OWARE_QUIET_LIMIT,
+  PITS,
+  Side,
+  sow,
+  SowResult,
+  VARIANTS,
+  winner,
+} from './shared/mancala/rules';
+import { MANCALA_AI_LEVELS } from './shared/mancala/ai';
+import { MCTS_DEFAULT_LEVEL } from './shared/mcts';
+import type { MancalaAiRequest, MancalaAiResponse } from './workers/mancalaAi.worker';
 
-const PITS = 6;
 const CELL = 80;
 const WIDTH = CELL * (PITS + 2);
 const HEIGHT = CELL * 2;
+// 씨앗 한 알 떨어지는 간격 / 잡기 표시 시간
+const SOW_MS = 160;
+const CAPTURE_MS = 500;
 
-type Board = number[]; // length 14
+const SIDE_NAME: Record<Side, string> = { 0: '아래', 1: '위' };
 
-function initBoard(): Board {
-  const b = Array(14).fill(4);
-  b[6] = b[13] = 0; // stores
-  return b;
+// 뿌리는 중인 수 — step개까지 떨어진 상태를 그린다
+interface Sowing {
+  before: MancalaState;
+  pit: number;
+  result: SowResult;
+  step: number;
+}
+
+function startSowing(before: MancalaState, pit: number): Sowing {
+  return { before, pit, result: sow(before, pit), step: 0 };
+}
+
+/** 칸 번호 → 화면 사각형 왼쪽 위 (위 줄은 12→7 순서로 왼쪽부터) */
+function slotRect(slot: number): { x: number; y: number; h: number } {
+  if (slot === 13) return { x: 0, y: 0, h: HEIGHT };
+  if (slot === 6) return { x: WIDTH - CELL, y: 0, h: HEIGHT };
+  if (slot < 6) return { x: CELL + slot * CELL, y: CELL, h: CELL };
+  return { x: CELL + (12 - slot) * CELL, y: 0, h: CELL };
 }
 
 const MancalaCanvas: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [board, setBoard] = useState<Board>(() => initBoard());
-  const [turn, setTurn] = useState<0 | 1>(0); // 0 bottom, 1 top
-  const [winner, setWinner] = useState<0 | 1 | 'draw' | null>(null);
+  const [variant, setVariant] = useState<MancalaVariant>('kalah4');
+  const [sowing, setSowing] = useState<Sowing | null>(null);
+  // AI 상대 레벨 (MANCALA_AI_LEVELS 인덱스), null이면 2인 플레이. AI는 항상 위쪽(1).
+  const [aiLevel, setAiLevel] = useState<number | null>(1);
+  const [playerFirst, setPlayerFirst] = useState(true);
+  // 전용 AI 대신 범용 MCTS로 둘지 (레이팅에는 넣지 않음)
+  const [mcts, setMcts] = useState(false);
+  const aiSide: Side | null = aiLevel === null ? null : 1;
+
+  const search = useAiWorker<MancalaAiRequest, MancalaAiResponse>(
+    () => new Worker(new URL('./workers/mancalaAi.worker.ts', import.meta.url), { type: 'module' })
+  );
+  const mctsSearch = useMctsSearch<MancalaState, number>('mancala');
+  // 한 번 더 두기도 국면이 바뀌므로 다시 탐색된다
+  const ai = useMemo<TurnBasedAi<MancalaState, number> | null>(
+    () =>
+      aiLevel === null
+        ? null
+        : {
+            isAiTurn: state => state.turn === aiSide,
+            search: state =>
+              mcts ? mctsSearch(state, MCTS_DEFAULT_LEVEL) : search({ state, level: aiLevel }).then(res => res.move),
+          },
+    [aiLevel, aiSide, mcts, search, mctsSearch]
+  );
+  // 수는 씨앗을 다 뿌린 뒤에야 기록한다 — AI 수도 애니메이션부터
+  const session = useTurnBasedGame(mancalaGame, () => initialState('kalah4'), {
+    ai,
+    onAiMove: (pit, state) => setSowing(startSowing(state, pit)),
+  });
+  const { state: game, legalMoves: moves, terminal: gameOver, thinking, canPlay, play, reset: restart } = session;
+  // 변형과 상관없이 만칼라 레이팅 하나로 센다 (사람은 항상 아래쪽 0)
+  const rating = useAiRating('mancala', session, MANCALA_AI_LEVELS, mcts ? null : aiLevel, state => {
+    const side = winner(state);
+    return side === null ? 0.5 : side === 0 ? 1 : 0;
+  });
 
-  const reset = useCallback(() => {
-    setBoard(initBoard());
-    setTurn(0);
-    setWinner(null);
-  }, []);
+  // 무르기/다시 하기로 국면이 바뀌면 뿌리던 수는 취소
+  useEffect(() => setSowing(null), [game]);
+
+  // 새 판 — AI가 먼저면 위쪽 차례로 시작
+  const startGame = useCallback((nextVariant: MancalaVariant, first: boolean, level: number | null) => {
+    const start = initialState(nextVariant);
+    restart(level !== null && !first ? { ...start, turn: 1 } : start);
+  }, [restart]);
+  const reset = useCallback(() => startGame(variant, playerFirst, aiLevel), [startGame, variant, playerFirst, aiLevel]);
 
   const handlePit = useCallback(
-    (index: number) => {
-      if ((turn === 0 && (index < 0 || index >= PITS)) || (turn === 1 && (index < 7 || index >= 7 + PITS))) return;
-      const b = board.slice();
-      let i = index;
-      let stones = b[i];
-      if (stones === 0) return;
-      b[i] = 0;
-      while (stones > 0) {
-        i = (i + 1) % 14;
-        if (turn === 0 && i === 13) continue;
-        if (turn === 1 && i === 6) continue;
-        b[i]++;
-        stones--;
-      }
-      const myStore = turn === 0 ? 6 : 13;
-      if (turn === 0 && i >= 0 && i < PITS && b[i] === 1) {
-        const opposite = 12 - i;
-        b[myStore] += b[i] + b[opposite];
-        b[i] = b[opposite] = 0;
-      }
-      if (turn === 1 && i >= 7 && i < 7 + PITS && b[i] === 1) {
-        const opposite = 12 - i;
-        b[myStore] += b[i] + b[opposite];
-        b[i] = b[opposite] = 0;
-      }
-      const end = b.slice(0, PITS).every(v => v === 0) || b.slice(7, 7 + PITS).every(v => v === 0);
-      if (end) {
-        for (let p = 0; p < PITS; p++) b[6] += b[p], b[p] = 0;
-        for (let p = 7; p < 7 + PITS; p++) b[13] += b[p], b[p] = 0;
-        setWinner(b[6] > b[13] ? 0 : b[13] > b[6] ? 1 : 'draw');
-      }
-      setBoard(b);
-      if (i !== myStore && !end) setTurn(turn === 0 ? 1 : 0);
+    (pit: number) => {
+      if (sowing || !canPlay || !moves.includes(pit)) return;
+      setSowing(startSowing(game, pit));
     },
-    [board, turn]
+    [game, moves, sowing, canPlay]
   );
 
+  // 한 알씩 떨어뜨리고, 다 떨어지면 잡힌 구멍을 잠깐 보여 준 뒤 수를 기록
+  useEffect(() => {
+    if (!sowing) return;
+    const done = sowing.step >= sowing.result.path.length;
+    const timer = setTimeout(() => {
+      if (done) {
+        setSowing(null);
+        play(sowing.pit);
+      } else {
+        setSowing({ ...sowing, step: sowing.step + 1 });
+      }
+    }, done ? (sowing.result.captured.length ? CAPTURE_MS : SOW_MS) : SOW_MS);
+    return () => clearTimeout(timer);
+  }, [sowing, play]);
+
   const handleClick = useCallback(
     (e: React.MouseEvent<HTMLCanvasElement>) => {
       const rect = e.currentTarget.getBoundingClientRect();
@@ -79,6 +138,16 @@ const MancalaCanvas: React.FC = () => {
     [handlePit]
   );
 
+  // 뿌리는 중이면 step개까지 떨어진 보드
+  const board = useMemo(() => {
+    if (!sowing) return game.board;
+    if (sowing.step >= sowing.result.path.length && !sowing.result.captured.length) return sowing.result.state.board;
+    const b = sowing.before.board.slice();
+    b[sowing.pit] = 0;
+    for (let k = 0; k < sowing.step; k++) b[sowing.result.path[k]]++;
+    return b;
+  }, [game, sowing]);
+
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -87,30 +156,45 @@ const MancalaCanvas: React.FC = () => {
     ctx.clearRect(0, 0, WIDTH, HEIGHT);
     ctx.fillStyle = '#DEB887';
     ctx.fillRect(0, 0, WIDTH, HEIGHT);
-    ctx.strokeStyle = '#000';
-    ctx.lineWidth = 2;
-    // stores
-    ctx.strokeRect(0, 0, CELL, HEIGHT);
-    ctx.strokeRect(WIDTH - CELL, 0, CELL, HEIGHT);
-    ctx.font = '20px sans-serif';
-    ctx.textAlign = 'center';
-    ctx.textBaseline = 'middle';
-    ctx.fillStyle = '#000';
-    ctx.fillText(String(board[13]), CELL / 2, HEIGHT / 2);
-    ctx.fillText(String(board[6]), WIDTH - CELL / 2, HEIGHT / 2);
-    // top row pits
-    for (let p = 0; p < PITS; p++) {
-      const x = CELL + p * CELL;
-      ctx.strokeRect(x, 0, CELL, CELL);
-      ctx.fillText(String(board[12 - p]), x + CELL / 2, CELL / 2);
-    }
-    // bottom row pits
-    for (let p = 0; p < PITS; p++) {
-      const x = CELL + p * CELL;
-      ctx.strokeRect(x, CELL, CELL, CELL);
-      ctx.fillText(String(board[p]), x + CELL / 2, CELL + CELL / 2);
+
+    const dropping = sowing && sowing.step > 0 ? sowing.result.path[sowing.step - 1] : -1;
+    const capturing = sowing && sowing.step >= sowing.result.path.length ? sowing.result.captured : [];
+    const selectable = !sowing && canPlay ? moves : [];
+
+    for (let slot = 0; slot < 14; slot++) {
+      const { x, y, h } = slotRect(slot);
+      if (capturing.includes(slot)) {
+        ctx.fillStyle = 'rgba(220, 40, 40, 0.45)';
+        ctx.fillRect(x, y, CELL, h);
+      } else if (slot === dropping) {
+        ctx.fillStyle = 'rgba(255, 215, 0, 0.55)';
+        ctx.fillRect(x, y, CELL, h);
+      } else if (selectable.includes(slot)) {
+        ctx.fillStyle = 'rgba(255, 255, 255, 0.25)';
+        ctx.fillRect(x, y, CELL, h);
+      }
+      ctx.strokeStyle = '#000';
+      ctx.lineWidth = 2;
+      ctx.strokeRect(x, y, CELL, h);
+
+      // 씨앗 (많으면 숫자만)
+      const count = board[slot];
+      const shown = Math.min(count, 12);
+      for (let k = 0; k < shown; k++) {
+        const angle = k * 2.4;
+        const radius = 6 + 3 * Math.sqrt(k);
+        ctx.beginPath();
+        ctx.arc(x + CELL / 2 + Math.cos(angle) * radius, y + h / 2 + Math.sin(angle) * radius, 5, 0, Math.PI * 2);
+        ctx.fillStyle = '#5a3a22';
+        ctx.fill();
+      }
+      ctx.font = '16px sans-serif';
+      ctx.textAlign = 'right';
+      ctx.textBaseline = 'top';
+      ctx.fillStyle = '#000';
+      ctx.fillText(String(count), x + CELL - 6, y + 4);
     }
-  }, [board]);
+  }, [board, sowing, moves, canPlay]);
 
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
@@ -123,18 +207,96 @@ const MancalaCanvas: React.FC = () => {
     return () => window.removeEventListener('keydown', handler);
   }, [reset]);
 
+  const win = gameOver ? winner(game) : null;
+  const result =
+    win === null
+      ? '무승부 — 게임 오버'
+      : aiSide === null
+      ? `${SIDE_NAME[win]}쪽 승리!`
+      : win === aiSide
+      ? '패배 — 게임 오버'
+      : '승리!';
+  const status = gameOver
+    ? result
+    : `${SIDE_NAME[game.turn]}쪽 차례${thinking ? ' (AI 생각 중…)' : ''}`;
+
+  // 변형/상대/순서를 바꾸면 새 판
+  const chooseVariant = (next: MancalaVariant) => {
+    setVariant(next);
+    startGame(next, playerFirst, aiLevel);
+  };
+  const chooseOpponent = (level: number | null) => {
+    setMcts(false);
+    setAiLevel(level);
+    startGame(variant, playerFirst, level);
+  };
+  const chooseMcts = () => {
+    const level = aiLevel ?? 1;
+    setMcts(true);
+    setAiLevel(level);
+    startGame(variant, playerFirst, level);
+  };
+  const chooseOrder = (first: boolean) => {
+    setPlayerFirst(first);
+    startGame(variant, first, aiLevel);
+  };
+
+  const actionButtons = (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8, alignItems: 'center' }}>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'center' }}>
+        {(Object.keys(VARIANTS) as MancalaVariant[]).map(v => (
+          <GameButton key={v} variant={variant === v ? 'primary' : 'secondary'} onClick={() => chooseVariant(v)}>
+            {VARIANTS[v].label}
+          </GameButton>
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'center' }}>
+        <GameButton variant={aiLevel === null ? 'primary' : 'secondary'} onClick={() => chooseOpponent(null)}>
+          2인
+        </GameButton>
+        {MANCALA_AI_LEVELS.map((level, i) => (
+          <GameButton key={level.label} variant={aiLevel === i && !mcts ? 'primary' : 'secondary'} onClick={() => chooseOpponent(i)}>
+            AI {level.label}
+          </GameButton>
+        ))}
+        <GameButton variant={mcts ? 'primary' : 'secondary'} onClick={chooseMcts}>
+          AI MCTS
+        </GameButton>
+      </div>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'center' }}>
+        {aiLevel !== null && [true, false].map(first => (
+          <GameButton key={String(first)} variant={playerFirst === first ? 'primary' : 'secondary'} onClick={() => chooseOrder(first)}>
+            {first ? '내가 먼저' : 'AI 먼저'}
+          </GameButton>
+        ))}
+        <GameButton onClick={reset}>Reset</GameButton>
+      </div>
+      <RatingPanel rating={rating} levels={MANCALA_AI_LEVELS} currentLevel={mcts ? null : aiLevel} onChooseLevel={chooseOpponent} />
+    </div>
+  );
+
+  const rulesHint =
+    VARIANTS[variant].kind === 'kalah'
+      ? '창고에 끝나면 한 번 더, 내 빈 구멍에 끝나면 맞은편과 함께 잡기'
+      : `상대 구멍을 2~3알로 만들면 잡기(앞 구멍도 연달아), 상대가 비면 씨앗을 넘겨 줘야 함, ${OWARE_QUIET_LIMIT}수 동안 잡기가 없으면 각자 제 진영 씨앗을 갖고 끝`;
+
   return (
     <GameLayout
-      gameStatus={winner === null ? undefined : winner === 0 ? '승리!' : '게임 오버'}
-      title="Mancala" bottomInfo={['자기 구멍 클릭, R: 리셋']}>
-      <GameCanvas
-        ref={canvasRef}
-        width={WIDTH}
-        height={HEIGHT}
-        onClick={handleClick}
-        gameTitle="Mancala"
-      />
-      <GameButton onClick={reset}>Reset</GameButton>
+      gameStatus={gameOver ? result : undefined}
+      title="Mancala"
+      bottomInfo={[`아래: ${board[6]} 위: ${board[13]}`, status, `${VARIANTS[variant].label} — ${rulesHint}`, '자기 구멍 클릭, R: 리셋, Ctrl+Z/Y: 무르기/다시']}
+      actionButtons={actionButtons}
+    >
+      <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', justifyContent: 'center', alignItems: 'stretch' }}>
+        <GameCanvas
+          ref={canvasRef}
+          width={WIDTH}
+          height={HEIGHT}
+          onClick={handleClick}
+          gameTitle="Mancala"
+        />
+        <TurnHistoryPanel game={session} />
+      </div>
     </GameLayout>
   );
 };
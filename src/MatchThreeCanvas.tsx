@@ -237,6 +237,8 @@ const MatchThreeCanvas: React.FC = () => {
   return (
     <GameLayout
       title="💎 Match-3"
+      gameId="match3"
+      score={score}
       topInfo={<div>Score: {score}</div>}
       bottomInfo={<div>인접한 보석을 클릭해 교환하세요. 3개 이상 매치하면 제거됩니다. R=Reset</div>}
     >
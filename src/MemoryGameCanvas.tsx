@@ -463,6 +463,8 @@ const MemoryGameCanvas: React.FC = () => {
   return (
     <GameManager
       title="Memory Card Matching"
+      gameId="memory"
+      score={gameState === 'won' ? stats.time : undefined}
       gameIcon="🧠"
       gameStats={gameStats}
       gameStatus={gameState === 'won' ? '클리어!' : undefined}
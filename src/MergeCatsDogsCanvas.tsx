@@ -233,6 +233,8 @@ const MergeCatsDogsCanvas: React.FC = () => {
   return (
     <GameManager
       title="Merge Cats & Dogs"
+      gameId="mergecatsdogs"
+      score={score}
       gameIcon="🐱"
       gameStats={<div>Score: {score}</div>}
       gameStatus={status}
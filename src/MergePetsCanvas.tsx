@@ -193,6 +193,8 @@ const MergePetsCanvas: React.FC = () => {
   return (
     <GameManager
       title="Merge Pets"
+      gameId="mergepets"
+      score={score}
       gameIcon="🐾"
       gameStats={<div>Score: {score}</div>}
       gameStatus={status}
@@ -2,117 +2,251 @@ import React, { useRef, useState, useEffect, useCallback } from 'react';
 import GameLayout from './components/GameLayout';
 import GameCanvas from './components/GameCanvas';
 import GameButton from './components/GameButton';
+import { useAiWorker } from './hooks/useTurnBasedGame';
+import {
+  Board,
+  BoardConfig,
+  chord,
+  clampConfig,
+  countFlags,
+  createBoard,
+  cycleMark,
+  Difficulty,
+  isCleared,
+  PRESETS,
+  reveal,
+  RevealResult,
+} from './shared/minesweeper/rules';
+import { findSafeHint } from './shared/minesweeper/solver';
+import type { MinesweeperGenRequest, MinesweeperGenResponse } from './workers/minesweeperGen.worker';
 
-const SIZE = 10;
-const MINES = 10;
-const CELL = 32;
-const WIDTH = SIZE * CELL;
-const HEIGHT = SIZE * CELL;
-
-interface Cell {
-  mine: boolean;
-  revealed: boolean;
-  flagged: boolean;
-  adjacent: number;
+// 판이 넓으면(고급 30칸) 칸을 줄여 이 너비 안에 맞춘다
+const MAX_BOARD_WIDTH = 720;
+const MAX_CELL = 32;
+// 터치로 이만큼 누르고 있으면 깃발 표시
+const LONG_PRESS_MS = 450;
+const BEST_TIMES_KEY = 'minesweeper-best-times';
+
+const NUMBER_COLORS = ['', '#4dabf7', '#69db7c', '#ff6b6b', '#9775fa', '#ffa94d', '#3bc9db', '#f8f9fa', '#adb5bd'];
+const DIFFICULTY_ORDER: Difficulty[] = ['beginner', 'intermediate', 'expert', 'custom'];
+
+type Status = 'ready' | 'playing' | 'won' | 'lost';
+
+function difficultyLabel(difficulty: Difficulty): string {
+  return difficulty === 'custom' ? '사용자 지정' : PRESETS[difficulty].label;
 }
 
-function createBoard(): Cell[][] {
-  const board: Cell[][] = Array.from({ length: SIZE }, () =>
-    Array.from({ length: SIZE }, () => ({ mine: false, revealed: false, flagged: false, adjacent: 0 }))
-  );
-  let placed = 0;
-  while (placed < MINES) {
-    const r = Math.floor(Math.random() * SIZE);
-    const c = Math.floor(Math.random() * SIZE);
-    if (board[r][c].mine) continue;
-    board[r][c].mine = true;
-    placed++;
-  }
-  for (let r = 0; r < SIZE; r++) {
-    for (let c = 0; c < SIZE; c++) {
-      if (board[r][c].mine) continue;
-      let count = 0;
-      for (let dr = -1; dr <= 1; dr++) {
-        for (let dc = -1; dc <= 1; dc++) {
-          const nr = r + dr;
-          const nc = c + dc;
-          if (nr < 0 || nr >= SIZE || nc < 0 || nc >= SIZE) continue;
-          if (board[nr][nc].mine) count++;
-        }
-      }
-      board[r][c].adjacent = count;
-    }
+// 최고 기록은 난이도별로 (사용자 지정은 크기/지뢰 수마다, 찍기 없는 판은 따로)
+function bestTimeKey(difficulty: Difficulty, config: BoardConfig, noGuess: boolean): string {
+  const base = difficulty === 'custom' ? `custom-${config.rows}x${config.cols}-${config.mines}` : difficulty;
+  return noGuess ? `${base}-noguess` : base;
+}
+
+function loadBestTimes(): Record<string, number> {
+  try {
+    return JSON.parse(localStorage.getItem(BEST_TIMES_KEY) || '{}');
+  } catch {
+    return {};
   }
-  return board;
+}
+
+function formatTime(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}초`;
 }
 
 const MinesweeperCanvas: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const [board, setBoard] = useState<Cell[][]>(() => createBoard());
-  const [state, setState] = useState<'playing' | 'won' | 'lost'>('playing');
-  const [flags, setFlags] = useState(0);
-
-  const resetGame = useCallback(() => {
-    setBoard(createBoard());
-    setState('playing');
-    setFlags(0);
+  const [difficulty, setDifficulty] = useState<Difficulty>('beginner');
+  const [customConfig, setCustomConfig] = useState<BoardConfig>({ rows: 12, cols: 20, mines: 40 });
+  const config: BoardConfig = difficulty === 'custom' ? customConfig : PRESETS[difficulty];
+  const [board, setBoard] = useState<Board>(() => createBoard(PRESETS.beginner));
+  const [status, setStatus] = useState<Status>('ready');
+  const [exploded, setExploded] = useState<[number, number] | null>(null);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [finishedAt, setFinishedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  const [bestTimes, setBestTimes] = useState<Record<string, number>>(loadBestTimes);
+  const [newRecord, setNewRecord] = useState(false);
+  // 찍기 없는 판 — 첫 클릭 때 워커가 논리로 풀리는 배치를 찾는다
+  const [noGuess, setNoGuess] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  // 힌트는 그 판에서만 보인다 (판이 바뀌면 사라짐)
+  const [hint, setHint] = useState<{ board: Board; cell: [number, number] } | null>(null);
+  const [hintsUsed, setHintsUsed] = useState(0);
+  const [notice, setNotice] = useState('');
+  // 새 판을 시작하면 늘어난다 — 늦게 온 생성 결과를 버릴 때
+  const gameIdRef = useRef(0);
+  // 롱프레스 — 깃발을 꽂았으면 뒤따르는 click은 무시한다
+  const longPressTimer = useRef<number | null>(null);
+  const longPressed = useRef(false);
+  const lastPointerType = useRef('mouse');
+
+  const cell = Math.min(MAX_CELL, Math.floor(MAX_BOARD_WIDTH / board.cols));
+  const width = board.cols * cell;
+  const height = board.rows * cell;
+  const bestKey = bestTimeKey(difficulty, config, noGuess);
+  const elapsed = startedAt === null ? 0 : (finishedAt ?? now) - startedAt;
+
+  const generate = useAiWorker<MinesweeperGenRequest, MinesweeperGenResponse>(
+    () => new Worker(new URL('./workers/minesweeperGen.worker.ts', import.meta.url), { type: 'module' })
+  );
+
+  const startGame = useCallback((next: BoardConfig) => {
+    gameIdRef.current++;
+    setBoard(createBoard(next));
+    setStatus('ready');
+    setExploded(null);
+    setStartedAt(null);
+    setFinishedAt(null);
+    setNewRecord(false);
+    setGenerating(false);
+    setHint(null);
+    setHintsUsed(0);
+    setNotice('');
   }, []);
 
-  const flood = useCallback((b: Cell[][], r: number, c: number) => {
-    const cell = b[r][c];
-    if (cell.revealed || cell.flagged) return;
-    cell.revealed = true;
-    if (cell.mine) {
-      setState('lost');
+  const resetGame = useCallback(() => startGame(config), [startGame, config]);
+
+  const chooseDifficulty = (next: Difficulty) => {
+    setDifficulty(next);
+    startGame(next === 'custom' ? customConfig : PRESETS[next]);
+  };
+
+  const toggleNoGuess = () => {
+    setNoGuess(on => !on);
+    startGame(config);
+  };
+
+  const applyCustom = () => {
+    const next = clampConfig(customConfig);
+    setCustomConfig(next);
+    setDifficulty('custom');
+    startGame(next);
+  };
+
+  // 플레이 중에만 시계를 돌린다
+  useEffect(() => {
+    if (status !== 'playing') return;
+    const id = window.setInterval(() => setNow(Date.now()), 100);
+    return () => window.clearInterval(id);
+  }, [status]);
+
+  const finish = (result: RevealResult, start: number) => {
+    const end = Date.now();
+    if (result.exploded) {
+      setExploded(result.exploded);
+      setStatus('lost');
+      setFinishedAt(end);
       return;
     }
-    if (cell.adjacent === 0) {
-      for (let dr = -1; dr <= 1; dr++) {
-        for (let dc = -1; dc <= 1; dc++) {
-          const nr = r + dr;
-          const nc = c + dc;
-          if (nr < 0 || nr >= SIZE || nc < 0 || nc >= SIZE) continue;
-          flood(b, nr, nc);
-        }
-      }
+    if (!isCleared(result.board)) return;
+    // 다 열면 남은 지뢰에 깃발을 꽂아 보여준다
+    setBoard({
+      ...result.board,
+      cells: result.board.cells.map(row => row.map(c => (c.mine ? { ...c, mark: 'flag' as const } : c))),
+    });
+    setStatus('won');
+    setFinishedAt(end);
+    // 힌트를 쓴 판은 기록에 넣지 않는다
+    if (hintsUsed > 0) return;
+    const time = end - start;
+    if (bestTimes[bestKey] !== undefined && bestTimes[bestKey] <= time) return;
+    const next = { ...bestTimes, [bestKey]: time };
+    localStorage.setItem(BEST_TIMES_KEY, JSON.stringify(next));
+    setBestTimes(next);
+    setNewRecord(true);
+  };
+
+  const cellAt = (e: React.MouseEvent<HTMLCanvasElement> | React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const c = Math.floor((((e.clientX - rect.left) / rect.width) * width) / cell);
+    const r = Math.floor((((e.clientY - rect.top) / rect.height) * height) / cell);
+    return r >= 0 && r < board.rows && c >= 0 && c < board.cols ? ([r, c] as const) : null;
+  };
+
+  const apply = (result: RevealResult) => {
+    let start = startedAt;
+    if (start === null) {
+      start = Date.now();
+      setStartedAt(start);
+      setNow(start);
+      setStatus('playing');
     }
-  }, []);
+    setBoard(result.board);
+    finish(result, start);
+  };
 
-  const handleClick = useCallback(
-    (e: React.MouseEvent<HTMLCanvasElement>) => {
-      if (state !== 'playing') return;
-      const rect = e.currentTarget.getBoundingClientRect();
-      const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
-      const y = ((e.clientY - rect.top) / rect.height) * HEIGHT;
-      const c = Math.floor(x / CELL);
-      const r = Math.floor(y / CELL);
-      const newBoard = board.map(row => row.map(cell => ({ ...cell })));
-      flood(newBoard, r, c);
-      const cleared = newBoard.every(row => row.every(cell => cell.revealed || cell.mine));
-      if (cleared && state === 'playing') setState('won');
-      setBoard(newBoard);
-    },
-    [board, flood, state]
-  );
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    if (longPressed.current) {
+      longPressed.current = false;
+      return;
+    }
+    if (status === 'won' || status === 'lost' || generating) return;
+    const pos = cellAt(e);
+    if (!pos) return;
+    const [r, c] = pos;
+    if (noGuess && !board.placed && board.cells[r][c].mark !== 'flag') {
+      const gameId = gameIdRef.current;
+      setGenerating(true);
+      generate({ config: { rows: board.rows, cols: board.cols, mines: board.mines }, r, c }).then(res => {
+        if (gameIdRef.current !== gameId) return;
+        setGenerating(false);
+        if (!res.noGuess) setNotice('찍기 없는 판을 시간 안에 못 찾아 일반 판으로 시작합니다');
+        apply(reveal(board, r, c, () => res.mines));
+      });
+      return;
+    }
+    // 열린 숫자 칸을 누르면 화음(코드) 열기
+    const result = board.cells[r][c].revealed ? chord(board, r, c) : reveal(board, r, c);
+    if (result.board !== board) apply(result);
+  };
 
-  const handleRightClick = useCallback(
-    (e: React.MouseEvent<HTMLCanvasElement>) => {
-      e.preventDefault();
-      if (state !== 'playing') return;
-      const rect = e.currentTarget.getBoundingClientRect();
-      const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
-      const y = ((e.clientY - rect.top) / rect.height) * HEIGHT;
-      const c = Math.floor(x / CELL);
-      const r = Math.floor(y / CELL);
-      const newBoard = board.map(row => row.map(cell => ({ ...cell })));
-      const cell = newBoard[r][c];
-      if (cell.revealed) return;
-      cell.flagged = !cell.flagged;
-      setFlags(f => f + (cell.flagged ? 1 : -1));
-      setBoard(newBoard);
-    },
-    [board, state]
-  );
+  const showHint = () => {
+    if (status === 'won' || status === 'lost' || generating) return;
+    const safe = findSafeHint(board);
+    if (!safe) {
+      setNotice('논리로 확실한 안전 칸이 없습니다 — 찍어야 하는 국면이에요');
+      return;
+    }
+    setHint({ board, cell: safe });
+    setNotice('');
+    if (board.placed) setHintsUsed(n => n + 1);
+  };
+
+  const mark = (r: number, c: number) => {
+    if (status === 'won' || status === 'lost' || generating) return;
+    setBoard(prev => cycleMark(prev, r, c));
+  };
+
+  const handleRightClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    // 터치 롱프레스에 따라오는 contextmenu는 타이머가 처리한다
+    if (lastPointerType.current === 'touch') return;
+    const pos = cellAt(e);
+    if (pos) mark(pos[0], pos[1]);
+  };
+
+  const clearLongPress = () => {
+    if (longPressTimer.current !== null) window.clearTimeout(longPressTimer.current);
+    longPressTimer.current = null;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    lastPointerType.current = e.pointerType;
+    longPressed.current = false;
+    clearLongPress();
+    if (e.pointerType !== 'touch') return;
+    const pos = cellAt(e);
+    if (!pos) return;
+    longPressTimer.current = window.setTimeout(() => {
+      longPressTimer.current = null;
+      longPressed.current = true;
+      mark(pos[0], pos[1]);
+      navigator.vibrate?.(20);
+    }, LONG_PRESS_MS);
+  };
+
+  useEffect(() => clearLongPress, []);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -120,57 +254,84 @@ const MinesweeperCanvas: React.FC = () => {
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     const dpr = window.devicePixelRatio || 1;
-    canvas.width = WIDTH * dpr;
-    canvas.height = HEIGHT * dpr;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
     ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
-    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+    ctx.clearRect(0, 0, width, height);
     ctx.fillStyle = '#222';
-    ctx.fillRect(0, 0, WIDTH, HEIGHT);
-    for (let r = 0; r < SIZE; r++) {
-      for (let c = 0; c < SIZE; c++) {
-        const cell = board[r][c];
-        const x = c * CELL;
-        const y = r * CELL;
-        ctx.strokeStyle = '#555';
-        ctx.strokeRect(x, y, CELL, CELL);
-        if (cell.revealed) {
-          ctx.fillStyle = '#333';
-          ctx.fillRect(x, y, CELL, CELL);
-          if (cell.mine) {
-            ctx.fillStyle = 'red';
+    ctx.fillRect(0, 0, width, height);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.font = `bold ${Math.round(cell * 0.55)}px sans-serif`;
+    const lost = status === 'lost';
+    for (let r = 0; r < board.rows; r++) {
+      for (let c = 0; c < board.cols; c++) {
+        const current = board.cells[r][c];
+        const x = c * cell;
+        const y = r * cell;
+        const cx = x + cell / 2;
+        const cy = y + cell / 2;
+        // 지면 지뢰를 모두 보여준다
+        const showMine = current.mine && (current.revealed || (lost && current.mark !== 'flag'));
+        if (current.revealed || showMine) {
+          const isExploded = exploded !== null && exploded[0] === r && exploded[1] === c;
+          ctx.fillStyle = isExploded ? '#c92a2a' : '#333';
+          ctx.fillRect(x, y, cell, cell);
+          if (current.mine) {
+            ctx.fillStyle = isExploded ? '#fff' : 'red';
             ctx.beginPath();
-            ctx.arc(x + CELL / 2, y + CELL / 2, CELL / 4, 0, Math.PI * 2);
+            ctx.arc(cx, cy, cell / 4, 0, Math.PI * 2);
             ctx.fill();
-          } else if (cell.adjacent > 0) {
-            ctx.fillStyle = '#fff';
-            ctx.font = '16px sans-serif';
-            ctx.textAlign = 'center';
-            ctx.textBaseline = 'middle';
-            ctx.fillText(String(cell.adjacent), x + CELL / 2, y + CELL / 2);
+          } else if (current.adjacent > 0) {
+            ctx.fillStyle = NUMBER_COLORS[current.adjacent];
+            ctx.fillText(String(current.adjacent), cx, cy + 1);
           }
         } else {
           ctx.fillStyle = '#444';
-          ctx.fillRect(x, y, CELL, CELL);
-          if (cell.flagged) {
+          ctx.fillRect(x, y, cell, cell);
+          if (current.mark === 'flag') {
             ctx.fillStyle = 'yellow';
             ctx.beginPath();
-            ctx.moveTo(x + CELL * 0.3, y + CELL * 0.7);
-            ctx.lineTo(x + CELL * 0.5, y + CELL * 0.3);
-            ctx.lineTo(x + CELL * 0.7, y + CELL * 0.7);
+            ctx.moveTo(x + cell * 0.3, y + cell * 0.7);
+            ctx.lineTo(x + cell * 0.5, y + cell * 0.3);
+            ctx.lineTo(x + cell * 0.7, y + cell * 0.7);
             ctx.closePath();
             ctx.fill();
+            // 진 판에서 틀린 깃발은 X
+            if (lost && !current.mine) {
+              ctx.strokeStyle = '#ff6b6b';
+              ctx.lineWidth = 2;
+              ctx.beginPath();
+              ctx.moveTo(x + cell * 0.25, y + cell * 0.25);
+              ctx.lineTo(x + cell * 0.75, y + cell * 0.75);
+              ctx.moveTo(x + cell * 0.75, y + cell * 0.25);
+              ctx.lineTo(x + cell * 0.25, y + cell * 0.75);
+              ctx.stroke();
+              ctx.lineWidth = 1;
+            }
+          } else if (current.mark === 'question') {
+            ctx.fillStyle = '#fff';
+            ctx.fillText('?', cx, cy + 1);
           }
         }
+        ctx.strokeStyle = '#555';
+        ctx.strokeRect(x, y, cell, cell);
       }
     }
-    if (state === 'won' || state === 'lost') {
+    if (hint && hint.board === board) {
+      const [hr, hc] = hint.cell;
+      ctx.strokeStyle = '#51cf66';
+      ctx.lineWidth = 3;
+      ctx.strokeRect(hc * cell + 2, hr * cell + 2, cell - 4, cell - 4);
+      ctx.lineWidth = 1;
+    }
+    if (status === 'won' || status === 'lost') {
       ctx.fillStyle = '#fff';
       ctx.font = '20px sans-serif';
-      ctx.textAlign = 'center';
-      const msg = state === 'won' ? '승리!' : '실패!';
-      ctx.fillText(msg, WIDTH / 2, HEIGHT / 2);
+      const msg = status === 'won' ? '승리!' : '실패!';
+      ctx.fillText(msg, width / 2, height / 2);
     }
-  }, [board, state]);
+  }, [board, status, exploded, hint, width, height, cell]);
 
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
@@ -184,24 +345,96 @@ const MinesweeperCanvas: React.FC = () => {
     return () => window.removeEventListener('keydown', onKey, { capture: true });
   }, [resetGame]);
 
+  const best = bestTimes[bestKey];
+  const numberInput: React.CSSProperties = { width: 56, padding: '4px 6px', borderRadius: 6, border: '1px solid #888' };
+  const customField = (key: keyof BoardConfig, label: string) => (
+    <label style={{ display: 'flex', gap: 4, alignItems: 'center', fontSize: 13 }}>
+      {label}
+      <input
+        type="number"
+        value={customConfig[key]}
+        onChange={e => setCustomConfig(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+        style={numberInput}
+      />
+    </label>
+  );
+
+  const actionButtons = (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8, alignItems: 'center' }}>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'center' }}>
+        {DIFFICULTY_ORDER.map(d => (
+          <GameButton key={d} variant={difficulty === d ? 'primary' : 'secondary'} onClick={() => chooseDifficulty(d)}>
+            {difficultyLabel(d)}
+          </GameButton>
+        ))}
+      </div>
+      {difficulty === 'custom' && (
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'center', alignItems: 'center' }}>
+          {customField('rows', '세로')}
+          {customField('cols', '가로')}
+          {customField('mines', '지뢰')}
+          <GameButton variant="secondary" onClick={applyCustom}>
+            적용
+          </GameButton>
+        </div>
+      )}
+      <div style={{ fontSize: 13, color: '#bcbcbe', textAlign: 'center' }}>
+        최고 기록 ·{' '}
+        {(Object.keys(PRESETS) as (keyof typeof PRESETS)[])
+          .map(d => {
+            const time = bestTimes[bestTimeKey(d, PRESETS[d], noGuess)];
+            return `${PRESETS[d].label} ${time === undefined ? '-' : formatTime(time)}`;
+          })
+          .join(' · ')}
+      </div>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'center' }}>
+        <GameButton variant={noGuess ? 'primary' : 'secondary'} onClick={toggleNoGuess}>
+          🧠 찍기 없는 판
+        </GameButton>
+        <GameButton variant="secondary" onClick={showHint}>
+          💡 힌트
+        </GameButton>
+        <GameButton onClick={resetGame}>Reset</GameButton>
+      </div>
+    </div>
+  );
+
   return (
     <GameLayout
-      gameStatus={state === 'won' ? '클리어!' : state === 'lost' ? '게임 오버' : undefined}
+      gameStatus={status === 'won' ? '클리어!' : status === 'lost' ? '게임 오버' : undefined}
       title="💣 Minesweeper"
-      topInfo={<div>Flags: {flags}/{MINES}</div>}
-      bottomInfo={<div>좌클릭: 열기, 우클릭: 깃발, R=Reset</div>}
+      topInfo={
+        <div style={{ textAlign: 'center' }}>
+          <div>
+            {difficultyLabel(difficulty)} {board.cols}×{board.rows} · 💣 {board.mines - countFlags(board)} · ⏱{' '}
+            {formatTime(elapsed)}
+          </div>
+          <div style={{ fontSize: 13, color: '#bcbcbe' }}>
+            {newRecord ? '🏆 새 최고 기록!' : `최고 기록: ${best === undefined ? '-' : formatTime(best)}`}
+            {noGuess && ' · 찍기 없는 판'}
+            {hintsUsed > 0 && ` · 힌트 ${hintsUsed}회 (기록 제외)`}
+          </div>
+          {(generating || notice) && (
+            <div style={{ fontSize: 13, color: '#ffd43b' }}>{generating ? '논리로 풀리는 판을 만드는 중…' : notice}</div>
+          )}
+        </div>
+      }
+      bottomInfo={<div>좌클릭: 열기 (숫자 칸: 주변 열기), 우클릭/길게 누르기: 깃발 → ? → 없음, 💡 힌트: 확실히 안전한 칸 표시, R=Reset</div>}
+      actionButtons={actionButtons}
     >
       <GameCanvas
         ref={canvasRef}
         gameTitle="Minesweeper"
-        width={WIDTH}
-        height={HEIGHT}
+        width={width}
+        height={height}
         onClick={handleClick}
         onContextMenu={handleRightClick}
+        onPointerDown={handlePointerDown}
+        onPointerUp={clearLongPress}
+        onPointerLeave={clearLongPress}
+        onPointerCancel={clearLongPress}
+        style={{ touchAction: 'manipulation', userSelect: 'none', WebkitUserSelect: 'none' }}
       />
-      <div style={{ marginTop: 16 }}>
-        <GameButton onClick={resetGame}>Reset</GameButton>
-      </div>
     </GameLayout>
   );
 };
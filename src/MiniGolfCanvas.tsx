@@ -581,6 +581,8 @@ const MiniGolfCanvas: React.FC = () => {
       <GameLayout 
         gameStatus={gameState === GameState.GAME_COMPLETE ? '클리어!' : gameState === GameState.HOLE_IN_ONE ? '승리!' : undefined}
         title="⛳ 미니골프"
+        gameId="minigolf"
+        score={gameState === GameState.GAME_COMPLETE ? shots : undefined}
         topInfo={topInfo}
         bottomInfo={bottomInfo}
       >
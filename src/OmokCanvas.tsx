@@ -1,37 +1,124 @@
-import React, { useEffect, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import GameManager from "./components/GameManager";
 import PureGameCanvas from "./components/PureGameCanvas";
 import GameButton from "./components/GameButton";
+import TurnHistoryPanel from "./components/TurnHistoryPanel";
+import OnlineMatchPanel from "./components/OnlineMatchPanel";
+import RatingPanel from "./components/RatingPanel";
+import { TurnBasedAi, useAiWorker, useTurnBasedGame } from "./hooks/useTurnBasedGame";
+import { useOnlineMatch, useOnlineMode } from "./hooks/useOnlineMatch";
+import { useAiRating } from "./hooks/useAiRating";
+import { useMctsSearch } from "./hooks/useMctsSearch";
+import {
+  BLACK,
+  EMPTY,
+  Forbidden,
+  forbiddenKind,
+  getResult,
+  initialState,
+  omokGame,
+  OmokRules,
+  OmokState,
+  Player,
+  RULE_LABELS,
+  SIZE,
+  WHITE,
+} from "./shared/omok/rules";
+import { OMOK_AI_LEVELS } from "./shared/omok/ai";
+import { MCTS_DEFAULT_LEVEL } from "./shared/mcts";
+import { omokMatch } from "./shared/matches";
+import type { OmokAiRequest, OmokAiResponse } from "./workers/omokAi.worker";
 
 /**
- * 간단한 오목 보드.
- * 마우스로 교대로 돌을 두고 다섯 줄을 만들면 승리합니다.
+ * 오목 — 자유룰(정확히 5목) / 렌주룰(흑 3-3·4-4·장목 금수)
+ * 2인 대전, AI(위협 탐색) 대전 또는 링크로 하는 온라인 대전. 렌주룰에서 흑 차례엔 금수 자리에 ✕ 표시.
  * R 키로 게임을 다시 시작할 수 있습니다.
  */
 
-const BOARD_SIZE = 15; // 15x15 교차점
 const CELL = 32; // 격자 간격(px)
 const MARGIN = 20; // 바깥 여백(px)
+const BOARD_PX = MARGIN * 2 + CELL * (SIZE - 1);
 
-type Stone = 0 | 1 | 2; // 0=empty, 1=black, 2=white
+const COLOR_NAME: Record<Player, string> = { 1: "⚫ 흑", 2: "⚪ 백" };
+const FORBIDDEN_LABEL: Record<Forbidden, string> = {
+  "double-three": "3-3",
+  "double-four": "4-4",
+  overline: "장목",
+};
+const AI_REASON: Partial<Record<OmokAiResponse["reason"], string>> = {
+  vcf: "AI가 4로 몰아붙이는 필승 수순(VCF)을 찾았습니다",
+  vct: "AI가 3·4로 이어지는 필승 수순(VCT)을 찾았습니다",
+  defend: "AI가 당신의 필승 수순을 끊었습니다",
+};
 
 export default function OmokCanvas() {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
 
-  const [board, setBoard] = useState<Stone[][]>(() =>
-    Array.from({ length: BOARD_SIZE }, () => Array<Stone>(BOARD_SIZE).fill(0))
+  const [rules, setRules] = useState<OmokRules>("freestyle");
+  // AI 상대 레벨 (OMOK_AI_LEVELS 인덱스), null이면 2인 플레이
+  const [aiLevel, setAiLevel] = useState<number | null>(1);
+  const [playerColor, setPlayerColor] = useState<Player>(BLACK);
+  const [notice, setNotice] = useState("");
+  // 전용 AI 대신 범용 MCTS로 둘지 (레이팅에는 넣지 않음)
+  const [mcts, setMcts] = useState(false);
+  // 온라인 대전 (링크로 들어오면 처음부터 켜짐) — 켜져 있으면 AI는 쉰다
+  const onlineMode = useOnlineMode();
+  const aiColor: Player | null = aiLevel === null || onlineMode.enabled ? null : playerColor === BLACK ? WHITE : BLACK;
+
+  const search = useAiWorker<OmokAiRequest, OmokAiResponse>(
+    () => new Worker(new URL("./workers/omokAi.worker.ts", import.meta.url), { type: "module" })
   );
-  const [turn, setTurn] = useState<1 | 2>(1);
-  const [winner, setWinner] = useState<1 | 2 | null>(null);
-
-  // 보드 리셋
-  function reset() {
-    setBoard(
-      Array.from({ length: BOARD_SIZE }, () => Array<Stone>(BOARD_SIZE).fill(0))
-    );
-    setTurn(1);
-    setWinner(null);
-  }
+  const mctsSearch = useMctsSearch<OmokState, number>("omok");
+  const ai = useMemo<TurnBasedAi<OmokState, number> | null>(
+    () =>
+      aiLevel === null || aiColor === null
+        ? null
+        : {
+            isAiTurn: (state) => state.turn === aiColor,
+            search: (state) =>
+              mcts
+                ? mctsSearch(state, MCTS_DEFAULT_LEVEL)
+                : search({ state, level: aiLevel }).then((res) => {
+                    setNotice(AI_REASON[res.reason] ?? "");
+                    return res.move;
+                  }),
+          },
+    [aiLevel, aiColor, mcts, search, mctsSearch]
+  );
+  const session = useTurnBasedGame(omokGame, () => initialState("freestyle"), { ai });
+  const online = useOnlineMatch(omokMatch, session, onlineMode);
+  const { state: game, thinking, play, reset: restart } = session;
+  // 온라인에서는 최신 수순의 내 차례에만 둔다
+  const canPlay = session.canPlay && (!onlineMode.enabled || (online.myTurn && session.atLatest));
+  const onlineColor = online.seat === null ? null : (omokMatch.seats[online.seat] as Player);
+  const rating = useAiRating("omok", session, OMOK_AI_LEVELS, aiColor === null || mcts ? null : aiLevel, (s) => {
+    const final = getResult(s);
+    return final?.kind === "win" ? (final.winner === playerColor ? 1 : 0) : 0.5;
+  });
+
+  const result = useMemo(() => getResult(game), [game]);
+  const lastMove = game.moves[game.moves.length - 1];
+
+  // 렌주룰 흑 차례의 금수 자리 (사람이 둘 때만 표시)
+  const forbidden = useMemo(() => {
+    const marks = new Map<number, Forbidden>();
+    if (game.rules !== "renju" || game.turn !== BLACK || result) return marks;
+    if (onlineMode.enabled ? !canPlay : aiColor === BLACK) return marks;
+    const board = game.board.slice();
+    board.forEach((v, idx) => {
+      if (v !== EMPTY) return;
+      const kind = forbiddenKind(board, idx);
+      if (kind) marks.set(idx, kind);
+    });
+    return marks;
+  }, [game, result, aiColor, onlineMode.enabled, canPlay]);
+
+  // 온라인 판은 서버 수순을 따르므로 리셋하지 않는다
+  const reset = useCallback((nextRules: OmokRules = rules) => {
+    if (onlineMode.enabled) return;
+    restart(initialState(nextRules));
+    setNotice("");
+  }, [rules, onlineMode.enabled, restart]);
 
   // 키보드 R 로 리셋
   useEffect(() => {
@@ -43,61 +130,27 @@ export default function OmokCanvas() {
       }
     };
     window.addEventListener("keydown", onKey, { capture: true });
-    return () => window.removeEventListener("keydown", onKey);
-  }, []);
+    return () => window.removeEventListener("keydown", onKey, { capture: true });
+  }, [reset]);
 
   // 클릭으로 돌 두기
   function handleClick(e: React.MouseEvent<HTMLCanvasElement>) {
-    if (winner) return;
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const rect = canvas.getBoundingClientRect();
-    const x = e.clientX - rect.left;
-    const y = e.clientY - rect.top;
+    if (!canPlay) return;
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * BOARD_PX;
+    const y = ((e.clientY - rect.top) / rect.height) * BOARD_PX;
     const gx = Math.round((x - MARGIN) / CELL);
     const gy = Math.round((y - MARGIN) / CELL);
-    if (gx < 0 || gy < 0 || gx >= BOARD_SIZE || gy >= BOARD_SIZE) return;
-    if (board[gy][gx] !== 0) return;
-
-    const nextBoard = board.map((row) => row.slice()) as Stone[][];
-    nextBoard[gy][gx] = turn;
-    setBoard(nextBoard);
-
-    if (checkWin(nextBoard, gx, gy, turn)) {
-      setWinner(turn);
-    } else {
-      setTurn(turn === 1 ? 2 : 1);
-    }
-  }
-
-  // 승리 체크
-  function checkWin(b: Stone[][], x: number, y: number, color: Stone): boolean {
-    const dirs = [
-      [1, 0],
-      [0, 1],
-      [1, 1],
-      [1, -1],
-    ];
-    for (const [dx, dy] of dirs) {
-      let count = 1;
-      for (const dir of [1, -1]) {
-        let nx = x + dx * dir;
-        let ny = y + dy * dir;
-        while (
-          nx >= 0 &&
-          nx < BOARD_SIZE &&
-          ny >= 0 &&
-          ny < BOARD_SIZE &&
-          b[ny][nx] === color
-        ) {
-          count++;
-          nx += dx * dir;
-          ny += dy * dir;
-        }
-      }
-      if (count >= 5) return true;
+    if (gx < 0 || gy < 0 || gx >= SIZE || gy >= SIZE) return;
+    const idx = gy * SIZE + gx;
+    const kind = forbidden.get(idx);
+    if (kind) {
+      setNotice(`금수 자리입니다 (${FORBIDDEN_LABEL[kind]})`);
+      return;
     }
-    return false;
+    if (!session.legalMoves.includes(idx)) return;
+    setNotice("");
+    play(idx);
   }
 
   // 그리기
@@ -105,71 +158,189 @@ export default function OmokCanvas() {
     const canvas = canvasRef.current!;
     const ctx = canvas.getContext("2d")!;
 
-    const size = MARGIN * 2 + CELL * (BOARD_SIZE - 1);
     const dpr = Math.max(1, window.devicePixelRatio || 1);
-    canvas.style.width = size + "px";
+    canvas.style.width = BOARD_PX + "px";
     canvas.style.maxWidth = "100%";
     canvas.style.height = "auto";
     canvas.style.aspectRatio = "1 / 1";
-    canvas.width = Math.floor(size * dpr);
-    canvas.height = Math.floor(size * dpr);
+    canvas.width = Math.floor(BOARD_PX * dpr);
+    canvas.height = Math.floor(BOARD_PX * dpr);
     ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
 
     // 갈색 배경으로 칠하기
     ctx.fillStyle = "#D2B48C"; // 탄 갈색 (Tan)
-    ctx.fillRect(0, 0, size, size);
-    
-    ctx.strokeStyle = "#8B4513"; // 어두운 갈색 격자선
+    ctx.fillRect(0, 0, BOARD_PX, BOARD_PX);
 
-    for (let i = 0; i < BOARD_SIZE; i++) {
+    ctx.strokeStyle = "#8B4513"; // 어두운 갈색 격자선
+    ctx.lineWidth = 1;
+    for (let i = 0; i < SIZE; i++) {
       const p = MARGIN + i * CELL + 0.5;
       ctx.beginPath();
       ctx.moveTo(MARGIN + 0.5, p);
-      ctx.lineTo(MARGIN + CELL * (BOARD_SIZE - 1) + 0.5, p);
+      ctx.lineTo(MARGIN + CELL * (SIZE - 1) + 0.5, p);
       ctx.stroke();
       ctx.beginPath();
       ctx.moveTo(p, MARGIN + 0.5);
-      ctx.lineTo(p, MARGIN + CELL * (BOARD_SIZE - 1) + 0.5);
+      ctx.lineTo(p, MARGIN + CELL * (SIZE - 1) + 0.5);
       ctx.stroke();
     }
 
-    for (let y = 0; y < BOARD_SIZE; y++) {
-      for (let x = 0; x < BOARD_SIZE; x++) {
-        const cell = board[y][x];
-        if (cell === 0) continue;
-        const cx = MARGIN + x * CELL;
-        const cy = MARGIN + y * CELL;
-        ctx.beginPath();
-        ctx.arc(cx, cy, CELL / 2 - 2, 0, Math.PI * 2);
-        ctx.fillStyle = cell === 1 ? "#000" : "#fff";
-        ctx.strokeStyle = "#000";
-        ctx.fill();
-        ctx.stroke();
-      }
+    const center = (idx: number) => [MARGIN + (idx % SIZE) * CELL, MARGIN + Math.floor(idx / SIZE) * CELL];
+
+    game.board.forEach((cell, idx) => {
+      if (cell === EMPTY) return;
+      const [cx, cy] = center(idx);
+      ctx.beginPath();
+      ctx.arc(cx, cy, CELL / 2 - 2, 0, Math.PI * 2);
+      ctx.fillStyle = cell === BLACK ? "#000" : "#fff";
+      ctx.strokeStyle = "#000";
+      ctx.fill();
+      ctx.stroke();
+    });
+
+    // 금수 자리 ✕
+    ctx.strokeStyle = "rgba(200, 30, 30, 0.8)";
+    ctx.lineWidth = 2;
+    forbidden.forEach((_, idx) => {
+      const [cx, cy] = center(idx);
+      const r = CELL / 5;
+      ctx.beginPath();
+      ctx.moveTo(cx - r, cy - r);
+      ctx.lineTo(cx + r, cy + r);
+      ctx.moveTo(cx + r, cy - r);
+      ctx.lineTo(cx - r, cy + r);
+      ctx.stroke();
+    });
+
+    // 직전 수 표시
+    if (lastMove !== undefined) {
+      const [cx, cy] = center(lastMove);
+      ctx.fillStyle = "#e33";
+      ctx.beginPath();
+      ctx.arc(cx, cy, 4, 0, Math.PI * 2);
+      ctx.fill();
     }
-  }, [board]);
 
-  const size = MARGIN * 2 + CELL * (BOARD_SIZE - 1);
+    // 승리 줄
+    if (result?.kind === "win") {
+      const [x1, y1] = center(result.line[0]);
+      const [x2, y2] = center(result.line[result.line.length - 1]);
+      ctx.strokeStyle = "rgba(255, 215, 0, 0.9)";
+      ctx.lineWidth = 6;
+      ctx.lineCap = "round";
+      ctx.beginPath();
+      ctx.moveTo(x1, y1);
+      ctx.lineTo(x2, y2);
+      ctx.stroke();
+      ctx.lineCap = "butt";
+    }
+  }, [game, forbidden, lastMove, result]);
 
   const getGameStatus = () => {
-    if (winner) {
-      return `${winner === 1 ? '⚫' : '⚪'} 승리! 🎉`;
+    if (result?.kind === "draw") return "무승부 — 게임 오버";
+    if (result) {
+      const mine = onlineMode.enabled ? onlineColor : aiColor === null ? null : playerColor;
+      if (mine === null) return `${COLOR_NAME[result.winner]} 승리! 🎉`;
+      return result.winner === mine ? "승리! 🎉" : "패배 — 게임 오버";
     }
-    return `${turn === 1 ? '⚫ 흑' : '⚪ 백'} 차례`;
+    if (online.myTurn) return `${COLOR_NAME[game.turn]} 차례 (내 차례)`;
+    return `${COLOR_NAME[game.turn]} 차례${thinking ? " (AI 생각 중…)" : ""}`;
+  };
+
+  // 룰/상대/색을 바꾸면 새 판
+  const chooseRules = (next: OmokRules) => {
+    setRules(next);
+    reset(next);
+  };
+  const chooseOpponent = (level: number | null) => {
+    onlineMode.disable();
+    setMcts(false);
+    setAiLevel(level);
+    restart(initialState(rules));
+    setNotice("");
+  };
+  const chooseMcts = () => {
+    onlineMode.disable();
+    setMcts(true);
+    setAiLevel((level) => level ?? 1);
+    restart(initialState(rules));
+    setNotice("");
+  };
+  const chooseColor = (color: Player) => {
+    setPlayerColor(color);
+    reset();
   };
 
   const gameStats = (
     <div style={{ textAlign: 'center', color: '#bcbcbe' }}>
-      현재: {turn === 1 ? '⚫ 흑돌' : '⚪ 백돌'} 차례
+      {RULE_LABELS[game.rules]} · {game.moves.length}수{notice ? ` · ${notice}` : ''}
     </div>
   );
 
-  const actionButtons = winner ? (
-    <GameButton 
-      onClick={reset}
-      variant="primary"
-      size="large"
-    >
+  const controls = (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8, alignItems: 'center' }}>
+      {/* 온라인 판의 룰은 만든 사람이 정한다 */}
+      {!online.link && (
+        <div style={{ display: 'flex', gap: 8 }}>
+          {(Object.keys(RULE_LABELS) as OmokRules[]).map((r) => (
+            <GameButton key={r} variant={rules === r ? 'primary' : 'secondary'} onClick={() => chooseRules(r)}>
+              {RULE_LABELS[r]}
+            </GameButton>
+          ))}
+        </div>
+      )}
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'center' }}>
+        <GameButton
+          variant={aiLevel === null && !onlineMode.enabled ? 'primary' : 'secondary'}
+          onClick={() => chooseOpponent(null)}
+        >
+          2인
+        </GameButton>
+        {OMOK_AI_LEVELS.map((level, i) => (
+          <GameButton
+            key={level.label}
+            variant={aiLevel === i && !mcts && !onlineMode.enabled ? 'primary' : 'secondary'}
+            onClick={() => chooseOpponent(i)}
+          >
+            AI {level.label}
+          </GameButton>
+        ))}
+        <GameButton variant={mcts && !onlineMode.enabled ? 'primary' : 'secondary'} onClick={chooseMcts}>
+          AI MCTS
+        </GameButton>
+        <GameButton variant={onlineMode.enabled ? 'primary' : 'secondary'} onClick={onlineMode.enable}>
+          온라인
+        </GameButton>
+      </div>
+      {onlineMode.enabled && (
+        <OnlineMatchPanel
+          match={online}
+          seatNames={omokMatch.seatNames}
+          onCreate={(seat) => online.create(seat, { rules })}
+        />
+      )}
+      {aiColor !== null && (
+        <div style={{ display: 'flex', gap: 8 }}>
+          {([BLACK, WHITE] as Player[]).map((color) => (
+            <GameButton key={color} variant={playerColor === color ? 'primary' : 'secondary'} onClick={() => chooseColor(color)}>
+              {COLOR_NAME[color]}으로 두기
+            </GameButton>
+          ))}
+        </div>
+      )}
+      {!onlineMode.enabled && (
+        <RatingPanel
+          rating={rating}
+          levels={OMOK_AI_LEVELS}
+          currentLevel={aiColor === null || mcts ? null : aiLevel}
+          onChooseLevel={chooseOpponent}
+        />
+      )}
+    </div>
+  );
+
+  const actionButtons = result && !onlineMode.enabled ? (
+    <GameButton onClick={() => reset()} variant="primary" size="large">
       새 게임 시작
     </GameButton>
   ) : null;
@@ -180,18 +351,21 @@ export default function OmokCanvas() {
       gameIcon="○●"
       gameStats={gameStats}
       gameStatus={getGameStatus()}
-      instructions="교대로 돌을 두어 가로, 세로, 대각선으로 5개를 연결하세요! 마우스 클릭으로 돌을 두고, R키로 재시작할 수 있습니다."
+      instructions="교대로 돌을 두어 가로, 세로, 대각선으로 정확히 5개를 연결하세요 (6목 이상은 인정하지 않음). 렌주룰에서는 흑의 3-3, 4-4, 장목이 금지됩니다. 마우스 클릭으로 돌을 두고, R키로 재시작, Ctrl+Z/Y로 무르기/다시 할 수 있습니다."
+      controls={controls}
       actionButtons={actionButtons}
     >
-      <PureGameCanvas
-        ref={canvasRef}
-        width={size}
-        height={size}
-        onClick={handleClick}
-        gameTitle="Omok"
-        style={{ cursor: winner ? 'default' : 'pointer' }}
-      />
+      <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', justifyContent: 'center', alignItems: 'stretch' }}>
+        <PureGameCanvas
+          ref={canvasRef}
+          width={BOARD_PX}
+          height={BOARD_PX}
+          onClick={handleClick}
+          gameTitle="Omok"
+          style={{ cursor: canPlay ? 'pointer' : 'default' }}
+        />
+        <TurnHistoryPanel game={session} />
+      </div>
     </GameManager>
   );
 }
-
@@ -1,103 +1,106 @@
-import React, { useRef, useState, useEffect, useCallback } from 'react';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
 import GameLayout from './components/GameLayout';
 import GameCanvas from './components/GameCanvas';
 import GameButton from './components/GameButton';
+import TurnHistoryPanel from './components/TurnHistoryPanel';
+import OnlineMatchPanel from './components/OnlineMatchPanel';
+import RatingPanel from './components/RatingPanel';
+import AnalysisPanel from './components/AnalysisPanel';
+import { TurnBasedAi, useAiWorker, useTurnBasedGame } from './hooks/useTurnBasedGame';
+import { useOnlineMatch, useOnlineMode } from './hooks/useOnlineMatch';
+import { useAiRating } from './hooks/useAiRating';
+import { useGameAnalysis } from './hooks/useGameAnalysis';
+import {
+  BLACK,
+  countDiscs,
+  initialState,
+  othelloGame,
+  OthelloMove,
+  OthelloState,
+  Player,
+  PLAYER_NAME,
+  SIZE,
+  WHITE,
+} from './shared/othello/rules';
+import { OTHELLO_AI_LEVELS } from './shared/othello/ai';
+import { formatOthelloScore } from './shared/othello/analysis';
+import { reviewMarks } from './shared/analysis';
+import { othelloMatch } from './shared/matches';
+import type { OthelloAiRequest, OthelloAiResponse } from './workers/othelloAi.worker';
+import type { OthelloAnalysisRequest, OthelloAnalysisResponse } from './workers/othelloAnalysis.worker';
 
-const SIZE = 8;
 const CELL = 60;
 const WIDTH = SIZE * CELL;
 const HEIGHT = WIDTH;
 
-type Cell = 0 | 1 | -1; // 1: black, -1: white
-
-function initBoard(): Cell[][] {
-  const b: Cell[][] = Array.from({ length: SIZE }, () => Array(SIZE).fill(0));
-  b[3][3] = b[4][4] = -1;
-  b[3][4] = b[4][3] = 1;
-  return b;
-}
-
-const directions = [
-  [-1, -1], [-1, 0], [-1, 1],
-  [0, -1],          [0, 1],
-  [1, -1],  [1, 0], [1, 1]
-];
-
 const OthelloCanvas: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [board, setBoard] = useState<Cell[][]>(() => initBoard());
-  const [turn, setTurn] = useState<Cell>(1);
-  const [gameOver, setGameOver] = useState(false);
+  // 둘 수 있는 칸과 뒤집히는 돌 수 표시
+  const [showHints, setShowHints] = useState(true);
+  // AI 상대 레벨 (OTHELLO_AI_LEVELS 인덱스), null이면 2인 플레이
+  const [aiLevel, setAiLevel] = useState<number | null>(1);
+  const [playerColor, setPlayerColor] = useState<Player>(BLACK);
+  // 온라인 대전 (링크로 들어오면 처음부터 켜짐) — 켜져 있으면 AI는 쉰다
+  const onlineMode = useOnlineMode();
+  const aiColor: Player | null = aiLevel === null || onlineMode.enabled ? null : (-playerColor as Player);
 
-  const reset = useCallback(() => {
-    setBoard(initBoard());
-    setTurn(1);
-    setGameOver(false);
-  }, []);
+  const search = useAiWorker<OthelloAiRequest, OthelloAiResponse>(
+    () => new Worker(new URL('./workers/othelloAi.worker.ts', import.meta.url), { type: 'module' })
+  );
+  const ai = useMemo<TurnBasedAi<OthelloState, OthelloMove> | null>(
+    () =>
+      aiLevel === null || aiColor === null
+        ? null
+        : {
+            isAiTurn: state => state.turn === aiColor,
+            search: state => search({ state, level: aiLevel }).then(res => res.move),
+          },
+    [aiLevel, aiColor, search]
+  );
+  const game = useTurnBasedGame(othelloGame, initialState, { ai });
+  const online = useOnlineMatch(othelloMatch, game, onlineMode);
+  const { state, legalMoves: moves, terminal: gameOver, thinking, play, reset: restart } = game;
+  // 대국 후 분석 (흑 기준) — 분석 중에는 보드를 보기만 한다
+  const analyzeRequest = useAiWorker<OthelloAnalysisRequest, OthelloAnalysisResponse>(
+    () => new Worker(new URL('./workers/othelloAnalysis.worker.ts', import.meta.url), { type: 'module' })
+  );
+  const analyzeState = useCallback((s: OthelloState) => analyzeRequest({ state: s }), [analyzeRequest]);
+  const analysis = useGameAnalysis(othelloGame, game, BLACK, analyzeState);
+  // 온라인에서는 최신 수순의 내 차례에만 둔다
+  const canPlay = game.canPlay && !analysis.active && (!onlineMode.enabled || (online.myTurn && game.atLatest));
+  const onlineColor = online.seat === null ? null : (othelloMatch.seats[online.seat] as Player);
+  const rating = useAiRating('othello', game, OTHELLO_AI_LEVELS, aiColor === null ? null : aiLevel, s => {
+    const { black, white } = countDiscs(s.board);
+    const diff = playerColor === BLACK ? black - white : white - black;
+    return diff > 0 ? 1 : diff === 0 ? 0.5 : 0;
+  });
+  const { board, turn } = state;
+  const lastMove = game.lastMove?.idx ?? null;
+  // 직전 수 뒤 차례가 그대로면 상대는 둘 곳이 없어 패스된 것
+  const prevState = game.ply > 0 ? game.history.states[game.ply - 1] : null;
+  const passed: Player | null = !gameOver && prevState?.turn === turn ? (-turn as Player) : null;
+  // 분석 중 직전 수가 최선이 아니었으면 엔진의 대안 칸을 표시
+  const review = analysis.active && game.ply > 0 ? analysis.reviews[game.ply - 1] : undefined;
+  const alternative = review && review.grade !== 'best' ? analysis.evals[game.ply - 1].best?.idx ?? null : null;
 
-  const validMoves = useCallback((b: Cell[][], player: Cell) => {
-    const moves: [number, number, [number, number][]][] = [];
-    for (let r = 0; r < SIZE; r++) {
-      for (let c = 0; c < SIZE; c++) {
-        if (b[r][c] !== 0) continue;
-        const flips: [number, number][] = [];
-        for (const [dr, dc] of directions) {
-          let nr = r + dr;
-          let nc = c + dc;
-          const line: [number, number][] = [];
-          while (nr >= 0 && nr < SIZE && nc >= 0 && nc < SIZE && b[nr][nc] === -player) {
-            line.push([nr, nc]);
-            nr += dr; nc += dc;
-          }
-          if (line.length && nr >= 0 && nr < SIZE && nc >= 0 && nc < SIZE && b[nr][nc] === player) {
-            flips.push(...line);
-          }
-        }
-        if (flips.length) moves.push([r, c, flips]);
-      }
-    }
-    return moves;
-  }, []);
+  // 온라인 판은 서버 수순을 따르므로 리셋하지 않는다
+  const reset = useCallback(() => {
+    if (!onlineMode.enabled) restart(initialState());
+  }, [onlineMode.enabled, restart]);
 
   const handleClick = useCallback(
     (e: React.MouseEvent<HTMLCanvasElement>) => {
-      if (gameOver) return;
+      if (!canPlay) return;
       const rect = e.currentTarget.getBoundingClientRect();
       const x = ((e.clientX - rect.left) / rect.width) * WIDTH;
       const y = ((e.clientY - rect.top) / rect.height) * HEIGHT;
-      const c = Math.floor(x / CELL);
-      const r = Math.floor(y / CELL);
-      const moves = validMoves(board, turn);
-      const move = moves.find(m => m[0] === r && m[1] === c);
-      if (!move) return;
-      const newBoard = board.map(row => row.slice());
-      newBoard[r][c] = turn;
-      for (const [fr, fc] of move[2]) newBoard[fr][fc] = turn;
-      setBoard(newBoard);
-      const opponent = -turn as Cell;
-      const nextMoves = validMoves(newBoard, opponent);
-      if (nextMoves.length) {
-        setTurn(opponent);
-      } else if (validMoves(newBoard, turn).length === 0) {
-        setGameOver(true);
-      }
+      const idx = Math.floor(y / CELL) * SIZE + Math.floor(x / CELL);
+      const move = moves.find(m => m.idx === idx);
+      if (move) play(move);
     },
-    [board, turn, validMoves, gameOver]
+    [moves, canPlay, play]
   );
 
-  useEffect(() => {
-    if (gameOver) return;
-    const moves = validMoves(board, turn);
-    if (moves.length === 0) {
-      const opponentMoves = validMoves(board, -turn as Cell);
-      if (opponentMoves.length) {
-        setTurn(-turn as Cell);
-      } else {
-        setGameOver(true);
-      }
-    }
-  }, [board, turn, validMoves, gameOver]);
-
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -115,19 +118,48 @@ const OthelloCanvas: React.FC = () => {
       ctx.lineTo(WIDTH, i * CELL);
       ctx.stroke();
     }
-    for (let r = 0; r < SIZE; r++) {
-      for (let c = 0; c < SIZE; c++) {
-        const cell = board[r][c];
-        if (cell !== 0) {
-          ctx.beginPath();
-          ctx.arc(c * CELL + CELL / 2, r * CELL + CELL / 2, CELL * 0.4, 0, Math.PI * 2);
-          ctx.fillStyle = cell === 1 ? '#000' : '#FFF';
-          ctx.fill();
-          ctx.stroke();
-        }
+    board.forEach((cell, idx) => {
+      if (cell === 0) return;
+      const cx = (idx % SIZE) * CELL + CELL / 2;
+      const cy = Math.floor(idx / SIZE) * CELL + CELL / 2;
+      ctx.beginPath();
+      ctx.arc(cx, cy, CELL * 0.4, 0, Math.PI * 2);
+      ctx.fillStyle = cell === BLACK ? '#000' : '#FFF';
+      ctx.fill();
+      ctx.stroke();
+      if (idx === lastMove) {
+        ctx.fillStyle = '#e33';
+        ctx.beginPath();
+        ctx.arc(cx, cy, 5, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    });
+
+    // 힌트: 사람 차례일 때 둘 수 있는 칸 + 뒤집히는 돌 수
+    if (showHints && canPlay) {
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.font = 'bold 16px sans-serif';
+      for (const m of moves) {
+        const cx = (m.idx % SIZE) * CELL + CELL / 2;
+        const cy = Math.floor(m.idx / SIZE) * CELL + CELL / 2;
+        ctx.beginPath();
+        ctx.arc(cx, cy, CELL * 0.3, 0, Math.PI * 2);
+        ctx.fillStyle = turn === BLACK ? 'rgba(0, 0, 0, 0.25)' : 'rgba(255, 255, 255, 0.35)';
+        ctx.fill();
+        ctx.fillStyle = turn === BLACK ? '#fff' : '#000';
+        ctx.fillText(String(m.flips.length), cx, cy + 1);
       }
     }
-  }, [board]);
+    if (alternative !== null) {
+      ctx.strokeStyle = 'rgba(47, 158, 68, 0.9)';
+      ctx.lineWidth = 4;
+      ctx.beginPath();
+      ctx.arc((alternative % SIZE) * CELL + CELL / 2, Math.floor(alternative / SIZE) * CELL + CELL / 2, CELL * 0.36, 0, Math.PI * 2);
+      ctx.stroke();
+      ctx.lineWidth = 1;
+    }
+  }, [board, turn, moves, lastMove, showHints, canPlay, alternative]);
 
   useEffect(() => {
     const handler = (e: KeyboardEvent) => {
@@ -140,32 +172,109 @@ const OthelloCanvas: React.FC = () => {
     return () => window.removeEventListener('keydown', handler);
   }, [reset]);
 
-  const blackCount = board.reduce((sum, row) => sum + row.filter(c => c === 1).length, 0);
-  const whiteCount = board.reduce((sum, row) => sum + row.filter(c => c === -1).length, 0);
+  const { black: blackCount, white: whiteCount } = countDiscs(board);
+  const winner: Player | null = blackCount === whiteCount ? null : blackCount > whiteCount ? BLACK : WHITE;
   const result =
-    blackCount === whiteCount
-      ? '무승부'
-      : blackCount > whiteCount
-      ? '흑돌 승'
-      : '백돌 승';
+    winner === null
+      ? '무승부 — 게임 오버'
+      : onlineColor !== null
+      ? winner === onlineColor
+        ? '승리!'
+        : '패배 — 게임 오버'
+      : aiColor === null
+      ? `${PLAYER_NAME[winner]}돌 승리!`
+      : winner === playerColor
+      ? '승리!'
+      : '패배 — 게임 오버';
+  const passNotice = passed ? `${PLAYER_NAME[passed]}은 둘 곳이 없어 패스 — ` : '';
   const status = gameOver
     ? result
-    : `${turn === 1 ? '흑' : '백'} 차례`;
+    : `${passNotice}${PLAYER_NAME[turn]} 차례${thinking ? ' (AI 생각 중…)' : ''}`;
+
+  // 상대/색을 바꾸면 새 판
+  const chooseOpponent = (level: number | null) => {
+    onlineMode.disable();
+    setAiLevel(level);
+    restart(initialState());
+  };
+  const chooseColor = (color: Player) => {
+    setPlayerColor(color);
+    reset();
+  };
+
+  const actionButtons = (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8, alignItems: 'center' }}>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'center' }}>
+        <GameButton
+          variant={aiLevel === null && !onlineMode.enabled ? 'primary' : 'secondary'}
+          onClick={() => chooseOpponent(null)}
+        >
+          2인
+        </GameButton>
+        {OTHELLO_AI_LEVELS.map((level, i) => (
+          <GameButton
+            key={level.label}
+            variant={aiLevel === i && !onlineMode.enabled ? 'primary' : 'secondary'}
+            onClick={() => chooseOpponent(i)}
+          >
+            AI {level.label}
+          </GameButton>
+        ))}
+        <GameButton variant={onlineMode.enabled ? 'primary' : 'secondary'} onClick={onlineMode.enable}>
+          온라인
+        </GameButton>
+      </div>
+      {onlineMode.enabled && <OnlineMatchPanel match={online} seatNames={othelloMatch.seatNames} />}
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'center' }}>
+        {aiColor !== null && ([BLACK, WHITE] as Player[]).map(color => (
+          <GameButton key={color} variant={playerColor === color ? 'primary' : 'secondary'} onClick={() => chooseColor(color)}>
+            {PLAYER_NAME[color]}으로 두기
+          </GameButton>
+        ))}
+        <GameButton variant={showHints ? 'primary' : 'secondary'} onClick={() => setShowHints(!showHints)}>
+          힌트 {showHints ? 'ON' : 'OFF'}
+        </GameButton>
+        {!onlineMode.enabled && <GameButton onClick={reset}>Reset</GameButton>}
+      </div>
+      <RatingPanel
+        rating={rating}
+        levels={OTHELLO_AI_LEVELS}
+        currentLevel={aiColor === null ? null : aiLevel}
+        onChooseLevel={chooseOpponent}
+      />
+    </div>
+  );
 
   return (
     <GameLayout
-      gameStatus={gameOver ? (blackCount === whiteCount ? '게임 오버' : '승리!') : undefined}
+      gameStatus={gameOver && !analysis.active ? result : undefined}
+      overlayAction={{ label: '🔍 대국 분석', onClick: analysis.start }}
       title="Othello"
-      bottomInfo={[`흑: ${blackCount} 백: ${whiteCount}`, status, '돌을 놓아 뒤집으세요. R: 리셋']}
+      bottomInfo={[`흑: ${blackCount} 백: ${whiteCount}`, status, '돌을 놓아 뒤집으세요. 힌트 숫자는 뒤집히는 돌 수. R: 리셋, Ctrl+Z/Y: 무르기/다시']}
+      actionButtons={actionButtons}
     >
-      <GameCanvas
-        ref={canvasRef}
-        width={WIDTH}
-        height={HEIGHT}
-        onClick={handleClick}
-        gameTitle="Othello"
-      />
-      <GameButton onClick={reset}>Reset</GameButton>
+      <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', justifyContent: 'center', alignItems: 'stretch' }}>
+        <GameCanvas
+          ref={canvasRef}
+          width={WIDTH}
+          height={HEIGHT}
+          onClick={handleClick}
+          gameTitle="Othello"
+        />
+        <TurnHistoryPanel game={game} marks={analysis.active ? reviewMarks(analysis.reviews) : undefined} />
+      </div>
+      {analysis.active && (
+        <div style={{ display: 'flex', justifyContent: 'center', margin: '8px 0' }}>
+          <AnalysisPanel
+            analysis={analysis}
+            labels={game.history.labels}
+            ply={game.ply}
+            onSelect={game.goTo}
+            sideNames={[PLAYER_NAME[BLACK], PLAYER_NAME[WHITE]]}
+            formatScore={formatOthelloScore}
+          />
+        </div>
+      )}
     </GameLayout>
   );
 };
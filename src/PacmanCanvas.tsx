@@ -1,6 +1,7 @@
 import React, { useRef, useEffect, useState, useCallback } from 'react';
 import GameLayout from './components/GameLayout';
 import GameCanvas from './components/GameCanvas';
+import { lerp, useGameLoop } from './hooks/useGameLoop';
 
 // ====== 기본 상수 ======
 const CELL = 20;
@@ -240,7 +241,6 @@ const dirVec = (dx: number, dy: number) => {
 
 const wrapX = (x: number) => (x < 0 ? COLS - 1 : x >= COLS ? 0 : x);
 const wrapY = (y: number) => (y < 0 ? ROWS - 1 : y >= ROWS ? 0 : y);
-const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
 
 // 유령 하우스
 const HOUSE = { x: 13, y: 11 };
@@ -357,9 +357,8 @@ const PacmanCanvas: React.FC = () => {
   // 애니메이션
   const mouthMaxRef = useRef(Math.PI / 4);
   const mouthPhaseRef = useRef(0);
-  const rafRef = useRef<number | null>(null);
   const animTRef = useRef(1);
-  const lastStepAtRef = useRef(performance.now());
+  const lastFrameAtRef = useRef(performance.now());
 
   // ====== 레벨 로딩 ======
   const loadLevel = useCallback((lv: number) => {
@@ -381,7 +380,6 @@ const PacmanCanvas: React.FC = () => {
     frightenedRef.current = 0;
     mouthPhaseRef.current = 0;
     animTRef.current = 1;
-    lastStepAtRef.current = performance.now();
     setState('playing');
     setTickMs(tickMsForLevel(lv));
   }, []);
@@ -585,10 +583,12 @@ const PacmanCanvas: React.FC = () => {
           // 리셋(현재 레벨 유지)
           const rel = ghostReleasesForLevel(levelIndexRef.current);
           pacmanRef.current = { x: 13, y: 23, dx: 0, dy: 0 };
+          pacmanPrevRef.current = { x: 13, y: 23 };
           frightenedRef.current = 0;
           mouthPhaseRef.current = 0;
           ghostsRef.current.forEach((gg, i) => {
             gg.x = 13; gg.y = 11; gg.dx = 0; gg.dy = 0; gg.release = rel[i]; gg.state = 'normal';
+            ghostsPrevRef.current[i] = { x: 13, y: 11 };
           });
         }
       }
@@ -600,57 +600,55 @@ const PacmanCanvas: React.FC = () => {
       setState('clear');
       setTimeout(() => { advanceLevel(); }, 400);
     }
+  }, [advanceLevel, state]);
 
-    // 다음 rAF 보간을 위해 초기화
-    animTRef.current = 0;
-    lastStepAtRef.current = performance.now();
+  // ====== 게임 루프 (틱 = tickMs, 렌더는 틱 사이 보간/입 모션) ======
+  const render = (alpha: number) => {
+    const now = performance.now();
+    const dt = (now - lastFrameAtRef.current) / 1000;
+    lastFrameAtRef.current = now;
 
-    draw();
-  }, [advanceLevel, draw, state]);
+    // 입 모션 (일시정지 중에는 멈춤)
+    const moving = !paused && (pacmanRef.current.dx !== 0 || pacmanRef.current.dy !== 0);
+    mouthPhaseRef.current = moving ? (mouthPhaseRef.current + dt * 3) % 1e6 : mouthPhaseRef.current;
 
-  // ====== 초기화 & 타이머 ======
-  useEffect(() => {
-    const cvs = canvasRef.current; if (!cvs) return;
-    cvs.width = COLS * CELL; cvs.height = ROWS * CELL;
+    animTRef.current = alpha;
     draw();
-  }, [draw]);
-
-  useEffect(() => {
-    const id = setInterval(step, tickMs);
-    return () => clearInterval(id);
-  }, [step, tickMs, level]);
-
-  // ====== rAF (부드러운 보간/입 모션) ======
-  useEffect(() => {
-    let last = performance.now();
-    const loop = (now: number) => {
-      const dt = (now - last) / 1000; last = now;
-
-      // 입 모션
-      const moving = pacmanRef.current.dx !== 0 || pacmanRef.current.dy !== 0;
-      mouthPhaseRef.current = moving ? (mouthPhaseRef.current + dt * 3) % 1e6 : 0;
 
-      // 보간 진행도(0→1)
-      animTRef.current = Math.min(1, (now - lastStepAtRef.current) / (tickMs));
+    if (paused && state === 'playing') {
+      const ctx = canvasRef.current?.getContext('2d'); if (!ctx) return;
+      ctx.fillStyle = 'rgba(0,0,0,0.5)';
+      ctx.fillRect(0, 0, COLS * CELL, ROWS * CELL);
+      ctx.fillStyle = '#fff';
+      ctx.font = 'bold 28px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText('PAUSED', (COLS*CELL)/2, (ROWS*CELL)/2 - 10);
+      ctx.font = '16px sans-serif';
+      ctx.fillText('P: 계속하기', (COLS*CELL)/2, (ROWS*CELL)/2 + 20);
+    }
+  };
 
-      draw();
-      rafRef.current = requestAnimationFrame(loop);
-    };
-    rafRef.current = requestAnimationFrame(loop);
-    return () => { if (rafRef.current) cancelAnimationFrame(rafRef.current); };
-  }, [draw, tickMs]);
+  const { paused, resume, togglePause } = useGameLoop({
+    update: step,
+    render,
+    stepMs: tickMs,
+    running: state === 'playing',
+    canvas: { ref: canvasRef, width: COLS * CELL, height: ROWS * CELL },
+  });
 
   // ====== 입력 ======
   useEffect(() => {
     const handleKey = (e: KeyboardEvent) => {
       const key = e.key.toLowerCase();
-      if (['w','a','s','d','arrowup','arrowleft','arrowdown','arrowright','r','n'].includes(key)) {
+      if (['w','a','s','d','arrowup','arrowleft','arrowdown','arrowright','r','n','p'].includes(key)) {
         e.preventDefault(); e.stopPropagation();
       }
-      if (e.shiftKey && key === 'r') { setScore(0); setLives(3); loadLevel(0); return; }
-      if (key === 'r') { resetCurrentLevel(); return; }
-      if (key === 'n') { advanceLevel(); return; }
+      if (e.shiftKey && key === 'r') { resume(); resetAll(); return; }
+      if (key === 'r') { resume(); resetCurrentLevel(); return; }
+      if (key === 'n') { resume(); advanceLevel(); return; }
       if (state !== 'playing') return;
+      if (key === 'p') { togglePause(); return; }
+      if (paused) return;
 
       if (key === 'w' || key === 'arrowup') { pacmanRef.current.dx = 0; pacmanRef.current.dy = -1; }
       else if (key === 's' || key === 'arrowdown') { pacmanRef.current.dx = 0; pacmanRef.current.dy = 1; }
@@ -659,12 +657,14 @@ const PacmanCanvas: React.FC = () => {
     };
     window.addEventListener('keydown', handleKey, { capture: true });
     return () => window.removeEventListener('keydown', handleKey, { capture: true });
-  }, [advanceLevel, loadLevel, resetCurrentLevel, state]);
+  }, [advanceLevel, paused, resetAll, resetCurrentLevel, resume, state, togglePause]);
 
   return (
     <GameLayout
       gameStatus={state === 'clear' ? '클리어!' : state === 'over' ? '게임 오버' : undefined}
       title="🟡 Pac-Man"
+      gameId="pacman"
+      score={score}
       topInfo={
         <div>
           Level: {level + 1}/{LEVELS.length} &nbsp;|&nbsp; Score: {score} &nbsp;|&nbsp; Lives: {lives} &nbsp;|&nbsp; Tick: {tickMs}ms
@@ -672,7 +672,7 @@ const PacmanCanvas: React.FC = () => {
       }
       bottomInfo={
         <div>
-          WASD/Arrow 이동 • R 현재 레벨 재시작 • Shift+R 전체 리셋 • N 다음 레벨(디버그)
+          WASD/Arrow 이동 • P 일시정지 • R 현재 레벨 재시작 • Shift+R 전체 리셋 • N 다음 레벨(디버그)
         </div>
       }
     >
@@ -180,6 +180,8 @@ export default function PaperIoCanvas() {
     <GameLayout
       gameStatus={state === 'over' ? '게임 오버' : undefined}
       title="📄 Paper.io"
+      gameId="paper"
+      score={score}
       topInfo={<div>Score: {score}</div>}
       bottomInfo={<div>WASD/Arrow 이동, R=Reset</div>}
     >
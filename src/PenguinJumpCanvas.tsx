@@ -3,6 +3,7 @@ import GameManager from './components/GameManager';
 import GameCanvas from './components/GameCanvas';
 import GameButton from './components/GameButton';
 import { layout } from './theme/gameTheme';
+import { lerp, useGameLoop } from './hooks/useGameLoop';
 
 interface Platform {
   x: number;
@@ -59,7 +60,6 @@ for (let y = 0; y < ROWS; y++) {
 
 const PenguinJumpCanvas: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const animationRef = useRef<number>();
 
   const [score, setScore] = useState(0);
 
@@ -73,6 +73,8 @@ const PenguinJumpCanvas: React.FC = () => {
     onGround: false,
   });
 
+  // 보간용 직전 스텝 위치
+  const prevRef = useRef({ x: START_X, y: START_Y });
   const keys = useRef({ left: false, right: false });
 
   const resetPlayer = useCallback(() => {
@@ -85,6 +87,7 @@ const PenguinJumpCanvas: React.FC = () => {
       height: PLAYER_SIZE,
       onGround: false,
     };
+    prevRef.current = { x: START_X, y: START_Y };
   }, []);
 
   const reset = useCallback(() => {
@@ -92,59 +95,9 @@ const PenguinJumpCanvas: React.FC = () => {
     resetPlayer();
   }, [resetPlayer]);
 
-  const handleKeyDown = useCallback((e: KeyboardEvent) => {
-    if (['a', 'd', 'w', ' ', 'ArrowLeft', 'ArrowRight', 'ArrowUp'].includes(e.key)) {
-      e.preventDefault();
-      e.stopPropagation();
-    }
-    switch (e.key) {
-      case 'a':
-      case 'ArrowLeft':
-        keys.current.left = true;
-        break;
-      case 'd':
-      case 'ArrowRight':
-        keys.current.right = true;
-        break;
-      case 'w':
-      case 'ArrowUp':
-      case ' ': // space
-        if (playerRef.current.onGround) {
-          playerRef.current.vy = JUMP_VELOCITY;
-          playerRef.current.onGround = false;
-        }
-        break;
-    }
-  }, []);
-
-  const handleKeyUp = useCallback((e: KeyboardEvent) => {
-    if (['a', 'd', 'ArrowLeft', 'ArrowRight'].includes(e.key)) {
-      e.preventDefault();
-      e.stopPropagation();
-    }
-    switch (e.key) {
-      case 'a':
-      case 'ArrowLeft':
-        keys.current.left = false;
-        break;
-      case 'd':
-      case 'ArrowRight':
-        keys.current.right = false;
-        break;
-    }
-  }, []);
-
-  useEffect(() => {
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
-    return () => {
-      window.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('keyup', handleKeyUp);
-    };
-  }, [handleKeyDown, handleKeyUp]);
-
   const update = useCallback((dt: number) => {
     const player = playerRef.current;
+    prevRef.current = { x: player.x, y: player.y };
 
     // horizontal movement
     if (keys.current.left) player.vx = -SPEED;
@@ -197,7 +150,7 @@ const PenguinJumpCanvas: React.FC = () => {
     }
   }, [resetPlayer]);
 
-  const draw = useCallback((ctx: CanvasRenderingContext2D) => {
+  const draw = useCallback((ctx: CanvasRenderingContext2D, alpha: number) => {
     ctx.clearRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
 
     // platforms
@@ -215,29 +168,91 @@ const PenguinJumpCanvas: React.FC = () => {
     const player = playerRef.current;
     ctx.font = `${player.width}px serif`;
     ctx.textBaseline = 'bottom';
-    ctx.fillText('🐧', player.x, player.y + player.height);
+    const prev = prevRef.current;
+    ctx.fillText('🐧', lerp(prev.x, player.x, alpha), lerp(prev.y, player.y, alpha) + player.height);
   }, []);
 
-  useEffect(() => {
-    const ctx = canvasRef.current?.getContext('2d');
-    if (!ctx) return;
-    let last = performance.now();
+  const { paused, resume, togglePause } = useGameLoop({
+    update: (stepMs) => update(stepMs / 1000),
+    render: (alpha) => {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
+      draw(ctx, alpha);
+      if (paused) {
+        ctx.fillStyle = 'rgba(0,0,0,0.5)';
+        ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+        ctx.fillStyle = '#fff';
+        ctx.font = 'bold 32px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText('일시정지 (P)', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+        ctx.textAlign = 'left';
+      }
+    },
+    canvas: { ref: canvasRef, width: CANVAS_WIDTH, height: CANVAS_HEIGHT },
+  });
+
+  const handleKeyDown = useCallback((e: KeyboardEvent) => {
+    if (['a', 'd', 'w', 'p', ' ', 'ArrowLeft', 'ArrowRight', 'ArrowUp'].includes(e.key)) {
+      e.preventDefault();
+      e.stopPropagation();
+    }
+    if (e.key === 'p') {
+      togglePause();
+      return;
+    }
+    if (paused) return;
+    switch (e.key) {
+      case 'a':
+      case 'ArrowLeft':
+        keys.current.left = true;
+        break;
+      case 'd':
+      case 'ArrowRight':
+        keys.current.right = true;
+        break;
+      case 'w':
+      case 'ArrowUp':
+      case ' ': // space
+        if (playerRef.current.onGround) {
+          playerRef.current.vy = JUMP_VELOCITY;
+          playerRef.current.onGround = false;
+        }
+        break;
+    }
+  }, [paused, togglePause]);
 
-    const loop = (time: number) => {
-      const dt = (time - last) / 1000;
-      last = time;
-      update(dt);
-      draw(ctx);
-      animationRef.current = requestAnimationFrame(loop);
+  const handleKeyUp = useCallback((e: KeyboardEvent) => {
+    if (['a', 'd', 'ArrowLeft', 'ArrowRight'].includes(e.key)) {
+      e.preventDefault();
+      e.stopPropagation();
+    }
+    switch (e.key) {
+      case 'a':
+      case 'ArrowLeft':
+        keys.current.left = false;
+        break;
+      case 'd':
+      case 'ArrowRight':
+        keys.current.right = false;
+        break;
+    }
+  }, []);
+
+  useEffect(() => {
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
     };
-    animationRef.current = requestAnimationFrame(loop);
-    return () => cancelAnimationFrame(animationRef.current!);
-  }, [update, draw]);
+  }, [handleKeyDown, handleKeyUp]);
+
 
   const gameStats = <div style={{ textAlign: 'center' }}>점수: {score}</div>;
-  const instructions = 'A/D 또는 ←→로 이동, W/Space/↑로 점프하세요. 깃발에 닿으면 점수를 얻습니다.';
+  const instructions = 'A/D 또는 ←→로 이동, W/Space/↑로 점프, P로 일시정지. 깃발에 닿으면 점수를 얻습니다.';
   const actionButtons = (
-    <GameButton onClick={reset} variant="primary" size="large">
+    <GameButton onClick={() => { resume(); reset(); }} variant="primary" size="large">
       다시 시작
     </GameButton>
   );
@@ -245,6 +260,8 @@ const PenguinJumpCanvas: React.FC = () => {
   return (
     <GameManager
       title="Penguin Jump"
+      gameId="penguin"
+      score={score}
       gameIcon="🐧"
       gameStats={gameStats}
       instructions={instructions}
@@ -1,186 +1,375 @@
-import React, { useRef, useState, useEffect, useCallback } from 'react';
+import React, { useRef, useState, useEffect, useCallback, useMemo } from 'react';
 import GameLayout from './components/GameLayout';
 import GameCanvas from './components/GameCanvas';
 import GameButton from './components/GameButton';
+import PicrossEditorPanel from './components/PicrossEditorPanel';
+import { useAiWorker } from './hooks/useTurnBasedGame';
+import { computeClues, Picture, sameClue, satisfiesClues } from './shared/picross/rules';
+import { randomUniquePicture } from './shared/picross/solver';
+import { LibraryPuzzle, PICROSS_LIBRARY, PICROSS_SIZES, PicrossSize } from './shared/picross/library';
+import { decodePuzzle, encodePuzzle } from './shared/picross/code';
+import type { PicrossCheckRequest, PicrossCheckResponse } from './workers/picrossSolver.worker';
 
-const SIZE = 10;
-const CELL = 32;
-const HINT = 40;
-const WIDTH = HINT + SIZE * CELL;
-const HEIGHT = HINT + SIZE * CELL;
+// 크기별 칸 크기 — 20×20도 화면에 들어오게
+const CELL_SIZE: Record<PicrossSize, number> = { 5: 40, 10: 30, 15: 24, 20: 20 };
+const PROGRESS_KEY = 'picross-progress';
+// 에디터에서 그리기를 멈추고 이만큼 지나면 유일해 검사
+const CHECK_DELAY_MS = 300;
 
 type CellState = 0 | 1 | 2; // empty, filled, marked
 
-function createPuzzle(): boolean[][] {
-  return Array.from({ length: SIZE }, () =>
-    Array.from({ length: SIZE }, () => Math.random() < 0.5)
-  );
+interface ActivePuzzle {
+  // 모음 퍼즐 id (공유 코드로 연 퍼즐은 'p:<코드>'), 무작위면 null (진행 기록 없음)
+  id: string | null;
+  name: string;
+  picture: Picture;
 }
 
-function createBoard(): CellState[][] {
-  return Array.from({ length: SIZE }, () => Array<CellState>(SIZE).fill(0));
+// 퍼즐별 진행 — 푼 적 있는지, 최고 기록, 풀던 판
+interface PuzzleProgress {
+  solved: boolean;
+  bestTime?: number;
+  board?: string;
 }
 
-function computeHints(puzzle: boolean[][]) {
-  const rows = puzzle.map((row) => {
-    const hints: number[] = [];
-    let count = 0;
-    for (const cell of row) {
-      if (cell) count++;
-      else if (count) {
-        hints.push(count);
-        count = 0;
-      }
-    }
-    if (count) hints.push(count);
-    return hints.length ? hints : [0];
-  });
-  const cols = Array.from({ length: SIZE }, (_, c) => {
-    const hints: number[] = [];
-    let count = 0;
-    for (let r = 0; r < SIZE; r++) {
-      if (puzzle[r][c]) count++;
-      else if (count) {
-        hints.push(count);
-        count = 0;
-      }
-    }
-    if (count) hints.push(count);
-    return hints.length ? hints : [0];
-  });
-  return { rows, cols };
+function loadProgress(): Record<string, PuzzleProgress> {
+  try {
+    return JSON.parse(localStorage.getItem(PROGRESS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function createBoard(size: number): CellState[][] {
+  return Array.from({ length: size }, () => Array<CellState>(size).fill(0));
+}
+
+function encodeBoard(board: CellState[][]): string {
+  return board.map(row => row.join('')).join('');
+}
+
+function decodeBoard(code: string | undefined, size: number): CellState[][] {
+  if (!code || code.length !== size * size) return createBoard(size);
+  return Array.from({ length: size }, (_, r) => Array.from({ length: size }, (_, c) => Number(code[r * size + c]) as CellState));
+}
+
+function filledCells(board: CellState[][]): Picture {
+  return board.map(row => row.map(v => v === 1));
+}
+
+// #picross?p=<코드>
+function readPuzzleCode(): string | null {
+  const query = window.location.hash.split('?')[1] ?? '';
+  return new URLSearchParams(query).get('p');
+}
+
+function writePuzzleCode(code: string | null) {
+  const page = window.location.hash.replace(/^#\/?/, '').split('?')[0];
+  window.location.hash = code === null ? page : `${page}?p=${code}`;
+}
+
+function puzzleLink(code: string): string {
+  return `${window.location.origin}${window.location.pathname}#picross?p=${code}`;
+}
+
+function sharedPuzzle(code: string): ActivePuzzle | null {
+  const shared = decodePuzzle(code);
+  return shared && { id: `p:${code}`, name: shared.name || '이름 없는 퍼즐', picture: shared.picture };
+}
+
+function formatTime(ms: number): string {
+  return `${Math.floor(ms / 60000)}:${String(Math.floor(ms / 1000) % 60).padStart(2, '0')}`;
+}
+
+function fromLibrary(puzzle: LibraryPuzzle): ActivePuzzle {
+  return { id: puzzle.id, name: puzzle.name, picture: puzzle.picture };
+}
+
+function randomPuzzle(size: PicrossSize): ActivePuzzle | null {
+  const picture = randomUniquePicture(size);
+  return picture && { id: null, name: `무작위 ${size}×${size}`, picture };
 }
 
 const PicrossCanvas: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const [puzzle, setPuzzle] = useState<boolean[][]>(() => createPuzzle());
-  const [board, setBoard] = useState<CellState[][]>(() => createBoard());
-  const [hints, setHints] = useState(() => computeHints(puzzle));
+  const [progress, setProgress] = useState<Record<string, PuzzleProgress>>(loadProgress);
+  // 링크로 들어오면 공유 퍼즐부터
+  const [puzzle, setPuzzle] = useState<ActivePuzzle>(() => {
+    const code = readPuzzleCode();
+    return (code && sharedPuzzle(code)) || fromLibrary(PICROSS_LIBRARY[0]);
+  });
+  const [board, setBoard] = useState<CellState[][]>(() =>
+    decodeBoard(puzzle.id === null ? undefined : progress[puzzle.id]?.board, puzzle.picture.length)
+  );
   const [state, setState] = useState<'playing' | 'won'>('playing');
+  const [startedAt, setStartedAt] = useState(() => Date.now());
+  const [clearTime, setClearTime] = useState<number | null>(null);
+  const [notice, setNotice] = useState(() => (readPuzzleCode() !== null && !puzzle.id?.startsWith('p:') ? '퍼즐 코드를 읽지 못했습니다.' : ''));
 
-  const resetGame = useCallback(() => {
-    const p = createPuzzle();
-    setPuzzle(p);
-    setBoard(createBoard());
-    setHints(computeHints(p));
-    setState('playing');
-  }, []);
+  // 에디터 — 그림도 같은 CellState 판(1=채움)에 그린다
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState<CellState[][]>(() => createBoard(10));
+  const [draftName, setDraftName] = useState('');
+  const [check, setCheck] = useState<{ draft: CellState[][]; result: PicrossCheckResponse } | null>(null);
+  const checkSolutions = useAiWorker<PicrossCheckRequest, PicrossCheckResponse>(
+    () => new Worker(new URL('./workers/picrossSolver.worker.ts', import.meta.url), { type: 'module' })
+  );
 
-  const checkWin = useCallback((b: CellState[][], p: boolean[][]) => {
-    for (let r = 0; r < SIZE; r++) {
-      for (let c = 0; c < SIZE; c++) {
-        const filled = b[r][c] === 1;
-        if (filled !== p[r][c]) return false;
-      }
-    }
-    return true;
+  const grid = editing ? draft : board;
+  const size = grid.length as PicrossSize;
+  const hints = useMemo(() => computeClues(editing ? filledCells(draft) : puzzle.picture), [editing, draft, puzzle]);
+  const cell = CELL_SIZE[size];
+  // 힌트 칸 — 가장 긴 힌트 줄이 들어가게
+  const hintStep = Math.round(cell * 0.5);
+  const hintLeft = Math.max(40, Math.max(...hints.rows.map(h => h.length)) * hintStep + 8);
+  const hintTop = Math.max(40, Math.max(...hints.cols.map(h => h.length)) * hintStep + 8);
+  const width = hintLeft + size * cell;
+  const height = hintTop + size * cell;
+
+  const saveProgress = useCallback((id: string, update: (prev: PuzzleProgress) => PuzzleProgress) => {
+    setProgress(prev => {
+      const next = { ...prev, [id]: update(prev[id] ?? { solved: false }) };
+      localStorage.setItem(PROGRESS_KEY, JSON.stringify(next));
+      return next;
+    });
   }, []);
 
-  const handleClick = useCallback(
-    (e: React.MouseEvent<HTMLCanvasElement>) => {
-      if (state !== 'playing') return;
-      const rect = e.currentTarget.getBoundingClientRect();
-      const x = ((e.clientX - rect.left) / rect.width) * WIDTH - HINT;
-      const y = ((e.clientY - rect.top) / rect.height) * HEIGHT - HINT;
-      if (x < 0 || y < 0) return;
-      const c = Math.floor(x / CELL);
-      const r = Math.floor(y / CELL);
-      if (r < 0 || r >= SIZE || c < 0 || c >= SIZE) return;
-      const newBoard = board.map((row) => row.slice());
-      newBoard[r][c] = newBoard[r][c] === 1 ? 0 : 1;
-      if (checkWin(newBoard, puzzle)) setState('won');
-      setBoard(newBoard);
+  const openPuzzle = useCallback(
+    (next: ActivePuzzle) => {
+      // 공유 퍼즐이 아니면 주소의 ?p=를 지운다
+      const code = next.id?.startsWith('p:') ? next.id.slice(2) : null;
+      if (readPuzzleCode() !== code) writePuzzleCode(code);
+      setEditing(false);
+      setNotice('');
+      setPuzzle(next);
+      setBoard(decodeBoard(next.id === null ? undefined : progress[next.id]?.board, next.picture.length));
+      setState('playing');
+      setStartedAt(Date.now());
+      setClearTime(null);
     },
-    [board, checkWin, puzzle, state]
+    [progress]
   );
 
-  const handleRightClick = useCallback(
-    (e: React.MouseEvent<HTMLCanvasElement>) => {
-      e.preventDefault();
-      if (state !== 'playing') return;
-      const rect = e.currentTarget.getBoundingClientRect();
-      const x = ((e.clientX - rect.left) / rect.width) * WIDTH - HINT;
-      const y = ((e.clientY - rect.top) / rect.height) * HEIGHT - HINT;
-      if (x < 0 || y < 0) return;
-      const c = Math.floor(x / CELL);
-      const r = Math.floor(y / CELL);
-      if (r < 0 || r >= SIZE || c < 0 || c >= SIZE) return;
-      const newBoard = board.map((row) => row.slice());
-      newBoard[r][c] = newBoard[r][c] === 2 ? 0 : 2;
-      setBoard(newBoard);
+  // 해가 하나뿐인 그림을 못 찾으면 지금 퍼즐을 두고 알린다
+  const openRandom = useCallback(
+    (next: PicrossSize) => {
+      const random = randomPuzzle(next);
+      if (random) openPuzzle(random);
+      else setNotice('해가 하나뿐인 무작위 퍼즐을 만들지 못했습니다. 다시 시도해 주세요.');
     },
-    [board, state]
+    [openPuzzle]
   );
 
+  // 주소의 퍼즐 코드가 바뀌면(링크를 붙여 넣은 경우) 그 퍼즐을 연다
+  useEffect(() => {
+    const onHashChange = () => {
+      const code = readPuzzleCode();
+      if (code === null || puzzle.id === `p:${code}`) return;
+      const shared = sharedPuzzle(code);
+      if (shared) openPuzzle(shared);
+      else setNotice('퍼즐 코드를 읽지 못했습니다.');
+    };
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, [puzzle, openPuzzle]);
+
+  // 그림이 바뀌면 잠시 뒤 워커로 해를 센다 — 늦게 온 결과는 그 그림과 같이 둬서 섞이지 않게
+  useEffect(() => {
+    if (!editing) return;
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      checkSolutions({ clues: computeClues(filledCells(draft)) }).then(result => {
+        if (!cancelled) setCheck({ draft, result });
+      });
+    }, CHECK_DELAY_MS);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [editing, draft, checkSolutions]);
+
+  const draftCheck = check?.draft === draft ? check.result : null;
+  const draftCode =
+    draftCheck && draftCheck.count === 1 && !draftCheck.exhausted
+      ? encodePuzzle({ name: draftName, picture: filledCells(draft) })
+      : null;
+
+  const openEditor = () => {
+    setEditing(true);
+    setNotice('');
+  };
+
+  const playDraft = () => {
+    if (!draftCode) return;
+    const shared = sharedPuzzle(draftCode);
+    if (shared) openPuzzle(shared);
+  };
+
+  // R — 같은 퍼즐을 처음부터 (무작위면 새 퍼즐, 에디터면 그림 지우기)
+  const resetGame = useCallback(() => {
+    if (editing) {
+      setDraft(createBoard(size));
+      return;
+    }
+    if (puzzle.id === null) {
+      openRandom(size);
+      return;
+    }
+    const id = puzzle.id;
+    saveProgress(id, prev => ({ ...prev, board: undefined }));
+    setBoard(createBoard(size));
+    setState('playing');
+    setStartedAt(Date.now());
+    setClearTime(null);
+  }, [editing, puzzle, size, openRandom, saveProgress]);
+
+  const chooseSize = (next: PicrossSize) => {
+    const first = PICROSS_LIBRARY.find(p => p.size === next && !progress[p.id]?.solved) ?? PICROSS_LIBRARY.find(p => p.size === next);
+    if (first) openPuzzle(fromLibrary(first));
+    else openRandom(next);
+  };
+
+  const update = (newBoard: CellState[][]) => {
+    setBoard(newBoard);
+    const won = satisfiesClues(newBoard.map(row => row.map(v => v === 1)), hints);
+    if (won) {
+      const time = Date.now() - startedAt;
+      setState('won');
+      setClearTime(time);
+      if (puzzle.id !== null) {
+        saveProgress(puzzle.id, prev => ({
+          solved: true,
+          bestTime: prev.bestTime === undefined ? time : Math.min(prev.bestTime, time),
+        }));
+      }
+    } else if (puzzle.id !== null) {
+      const code = encodeBoard(newBoard);
+      saveProgress(puzzle.id, prev => ({ ...prev, board: code }));
+    }
+  };
+
+  const cellAt = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const x = ((e.clientX - rect.left) / rect.width) * width - hintLeft;
+    const y = ((e.clientY - rect.top) / rect.height) * height - hintTop;
+    if (x < 0 || y < 0) return null;
+    const c = Math.floor(x / cell);
+    const r = Math.floor(y / cell);
+    return r < size && c < size ? ([r, c] as const) : null;
+  };
+
+  const draw = (r: number, c: number, value: CellState) => {
+    const next = draft.map(row => row.slice());
+    next[r][c] = value;
+    setDraft(next);
+  };
+
+  const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    const pos = cellAt(e);
+    if (!pos) return;
+    const [r, c] = pos;
+    if (editing) {
+      draw(r, c, draft[r][c] === 1 ? 0 : 1);
+      return;
+    }
+    if (state !== 'playing') return;
+    const newBoard = board.map(row => row.slice());
+    newBoard[r][c] = newBoard[r][c] === 1 ? 0 : 1;
+    update(newBoard);
+  };
+
+  const handleRightClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
+    e.preventDefault();
+    const pos = cellAt(e);
+    if (!pos) return;
+    const [r, c] = pos;
+    if (editing) {
+      draw(r, c, 0);
+      return;
+    }
+    if (state !== 'playing') return;
+    const newBoard = board.map(row => row.slice());
+    newBoard[r][c] = newBoard[r][c] === 2 ? 0 : 2;
+    update(newBoard);
+  };
+
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
     const dpr = window.devicePixelRatio || 1;
-    canvas.width = WIDTH * dpr;
-    canvas.height = HEIGHT * dpr;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
     ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
-    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+    ctx.clearRect(0, 0, width, height);
     ctx.fillStyle = '#222';
-    ctx.fillRect(0, 0, WIDTH, HEIGHT);
+    ctx.fillRect(0, 0, width, height);
 
-    // draw hints
-    ctx.fillStyle = '#fff';
-    ctx.font = '14px sans-serif';
+    // draw hints — 이미 맞춘 줄의 힌트는 흐리게 (에디터에선 늘 맞으니 그대로)
+    const current = computeClues(filledCells(grid));
+    const dim = (now: number[], clue: number[]) => !editing && sameClue(now, clue);
+    ctx.font = `${Math.round(cell * 0.45)}px sans-serif`;
     ctx.textAlign = 'right';
     ctx.textBaseline = 'middle';
-    for (let r = 0; r < SIZE; r++) {
+    for (let r = 0; r < size; r++) {
       const rowHints = hints.rows[r];
+      ctx.fillStyle = dim(current.rows[r], rowHints) ? '#777' : '#fff';
       for (let i = 0; i < rowHints.length; i++) {
         const num = rowHints[rowHints.length - 1 - i];
-        ctx.fillText(String(num), HINT - 4 - i * 14, HINT + r * CELL + CELL / 2);
+        ctx.fillText(String(num), hintLeft - 4 - i * hintStep, hintTop + r * cell + cell / 2);
       }
     }
     ctx.textAlign = 'center';
     ctx.textBaseline = 'bottom';
-    for (let c = 0; c < SIZE; c++) {
+    for (let c = 0; c < size; c++) {
       const colHints = hints.cols[c];
+      ctx.fillStyle = dim(current.cols[c], colHints) ? '#777' : '#fff';
       for (let i = 0; i < colHints.length; i++) {
         const num = colHints[colHints.length - 1 - i];
-        ctx.fillText(String(num), HINT + c * CELL + CELL / 2, HINT - 4 - i * 14);
+        ctx.fillText(String(num), hintLeft + c * cell + cell / 2, hintTop - 4 - i * hintStep);
       }
     }
 
-    // draw grid and cells
-    for (let r = 0; r < SIZE; r++) {
-      for (let c = 0; c < SIZE; c++) {
-        const x = HINT + c * CELL;
-        const y = HINT + r * CELL;
+    // draw grid and cells — 다 풀면 X는 지우고 그림만
+    for (let r = 0; r < size; r++) {
+      for (let c = 0; c < size; c++) {
+        const x = hintLeft + c * cell;
+        const y = hintTop + r * cell;
         ctx.strokeStyle = '#555';
-        ctx.strokeRect(x, y, CELL, CELL);
-        const val = board[r][c];
+        ctx.strokeRect(x, y, cell, cell);
+        const val = grid[r][c];
         if (val === 1) {
-          ctx.fillStyle = '#fff';
-          ctx.fillRect(x + 2, y + 2, CELL - 4, CELL - 4);
-        } else if (val === 2) {
+          ctx.fillStyle = state === 'won' && !editing ? '#ffd43b' : '#fff';
+          ctx.fillRect(x + 2, y + 2, cell - 4, cell - 4);
+        } else if (val === 2 && state !== 'won') {
           ctx.strokeStyle = '#888';
           ctx.beginPath();
           ctx.moveTo(x + 4, y + 4);
-          ctx.lineTo(x + CELL - 4, y + CELL - 4);
-          ctx.moveTo(x + CELL - 4, y + 4);
-          ctx.lineTo(x + 4, y + CELL - 4);
+          ctx.lineTo(x + cell - 4, y + cell - 4);
+          ctx.moveTo(x + cell - 4, y + 4);
+          ctx.lineTo(x + 4, y + cell - 4);
           ctx.stroke();
         } else {
           ctx.fillStyle = '#333';
-          ctx.fillRect(x + 1, y + 1, CELL - 2, CELL - 2);
+          ctx.fillRect(x + 1, y + 1, cell - 2, cell - 2);
         }
       }
     }
 
-    if (state === 'won') {
-      ctx.fillStyle = '#fff';
-      ctx.font = '20px sans-serif';
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'middle';
-      ctx.fillText('완료!', WIDTH / 2, HEIGHT / 2);
+    // 5칸마다 굵은 선
+    ctx.strokeStyle = '#999';
+    ctx.lineWidth = 2;
+    for (let i = 5; i < size; i += 5) {
+      ctx.beginPath();
+      ctx.moveTo(hintLeft + i * cell, hintTop);
+      ctx.lineTo(hintLeft + i * cell, height);
+      ctx.moveTo(hintLeft, hintTop + i * cell);
+      ctx.lineTo(width, hintTop + i * cell);
+      ctx.stroke();
     }
-  }, [board, hints, state]);
+    ctx.lineWidth = 1;
+  }, [grid, editing, hints, state, size, cell, hintStep, hintLeft, hintTop, width, height]);
 
   useEffect(() => {
     const onKey = (e: KeyboardEvent) => {
@@ -194,23 +383,97 @@ const PicrossCanvas: React.FC = () => {
     return () => window.removeEventListener('keydown', onKey, { capture: true });
   }, [resetGame]);
 
+  const record = puzzle.id === null ? undefined : progress[puzzle.id];
+  const solvedCount = PICROSS_LIBRARY.filter(p => progress[p.id]?.solved).length;
+  // 이름은 푼 퍼즐만 보여준다
+  const title = state === 'won' || record?.solved || puzzle.id === null ? puzzle.name : '???';
+
+  const actionButtons = editing ? (
+    <PicrossEditorPanel
+      size={size}
+      onSize={s => setDraft(createBoard(s))}
+      name={draftName}
+      onName={setDraftName}
+      check={draftCheck}
+      link={draftCode && puzzleLink(draftCode)}
+      onPlay={playDraft}
+      onClear={() => setDraft(createBoard(size))}
+      onClose={() => setEditing(false)}
+    />
+  ) : (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8, alignItems: 'center' }}>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'center' }}>
+        {PICROSS_SIZES.map(s => (
+          <GameButton key={s} variant={size === s ? 'primary' : 'secondary'} onClick={() => chooseSize(s)}>
+            {s}×{s}
+          </GameButton>
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: 6, flexWrap: 'wrap', justifyContent: 'center' }}>
+        {PICROSS_LIBRARY.filter(p => p.size === size).map((p, i) => {
+          const saved = progress[p.id];
+          return (
+            <GameButton
+              key={p.id}
+              variant={puzzle.id === p.id ? 'primary' : 'secondary'}
+              onClick={() => openPuzzle(fromLibrary(p))}
+              style={{ padding: '4px 10px', fontSize: 13 }}
+            >
+              {saved?.solved ? `✔ ${p.name}` : `#${i + 1} ???${saved?.board ? ' …' : ''}`}
+            </GameButton>
+          );
+        })}
+        <GameButton
+          variant={puzzle.id === null ? 'primary' : 'secondary'}
+          onClick={() => openRandom(size)}
+          style={{ padding: '4px 10px', fontSize: 13 }}
+        >
+          🎲 무작위
+        </GameButton>
+      </div>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'center' }}>
+        <GameButton variant="secondary" onClick={openEditor}>
+          ✏️ 퍼즐 만들기
+        </GameButton>
+        <GameButton onClick={resetGame}>Reset</GameButton>
+      </div>
+    </div>
+  );
+
   return (
     <GameLayout
-      gameStatus={state === 'won' ? '클리어!' : undefined}
+      gameStatus={state === 'won' && !editing ? `클리어! — ${puzzle.name}` : undefined}
       title="🖼️ Picross"
-      bottomInfo={<div>좌클릭: 칸 채우기, 우클릭: X, R=Reset</div>}
+      topInfo={
+        <div style={{ textAlign: 'center' }}>
+          <div>
+            {editing ? `✏️ ${size}×${size} 퍼즐 만들기` : `${size}×${size} · ${title}`}
+            {!editing && clearTime !== null && ` · ${formatTime(clearTime)}`}
+          </div>
+          <div style={{ fontSize: 13, color: '#bcbcbe' }}>
+            모음 {solvedCount}/{PICROSS_LIBRARY.length} 완료
+            {record?.bestTime !== undefined && ` · 최고 기록 ${formatTime(record.bestTime)}`}
+          </div>
+          {notice && <div style={{ fontSize: 13, color: '#ffd43b' }}>{notice}</div>}
+        </div>
+      }
+      bottomInfo={
+        <div>
+          {editing
+            ? '좌클릭: 칸 채우기/비우기, 우클릭: 비우기, R=그림 지우기'
+            : '좌클릭: 칸 채우기, 우클릭: X, R=Reset (모음 퍼즐은 풀던 판이 저장됩니다)'}
+        </div>
+      }
+      actionButtons={actionButtons}
     >
       <GameCanvas
         ref={canvasRef}
         gameTitle="Picross"
-        width={WIDTH}
-        height={HEIGHT}
+        width={width}
+        height={height}
         onClick={handleClick}
         onContextMenu={handleRightClick}
       />
-      <div style={{ marginTop: 16 }}>
-        <GameButton onClick={resetGame}>Reset</GameButton>
-      </div>
     </GameLayout>
   );
 };
@@ -1,6 +1,5 @@
 import React, { useEffect, useRef, useState } from "react";
 import GameManager from "./components/GameManager";
-import LeaderboardPanel from "./components/LeaderboardPanel";
 import PureGameCanvas from "./components/PureGameCanvas";
 
 type Props = {
@@ -490,7 +489,6 @@ export default function PingPongCanvas({ width, height }: Props) {
           {copyStatus}
         </div>
       )}
-      <LeaderboardPanel finalScore={finalScore} />
     </>
   );
 
@@ -498,6 +496,8 @@ export default function PingPongCanvas({ width, height }: Props) {
     <GameManager
       title="Noah Ping Pong Garden"
       gameIcon="✦"
+      gameId="pingpong"
+      score={finalScore?.player}
       gameStats={gameStats}
       gameStatus={finalScore ? (finalScore.player >= WIN_SCORE ? '승리!' : '게임 오버') : undefined}
       instructions={instructions}
@@ -2,6 +2,10 @@ import React, { useRef, useEffect, useCallback, useState } from 'react';
 import GameLayout from './components/GameLayout';
 import GameCanvas from './components/GameCanvas';
 import GameButton from './components/GameButton';
+import { lerp, useGameLoop } from './hooks/useGameLoop';
+import { useGameInput } from './hooks/useGameInput';
+import { keyLabel } from './input/bindings';
+import { MusicNote, playMusic, playSfx, stopMusic } from './audio/engine';
 
 const WIDTH = 300;
 const HEIGHT = 600;
@@ -11,11 +15,21 @@ const NOTE_SPEED = 240; // px per second
 const SPAWN_INTERVAL = 800; // ms
 const HIT_WINDOW = 50;
 const MAX_MISSES = 5;
-const KEYS = ['q', 'w', 'e', 'r'];
+const LANE_ACTIONS = ['lane1', 'lane2', 'lane3', 'lane4'];
+// 노트 간격(SPAWN_INTERVAL)에 맞춘 한 박 = 한 노트
+const BPM = 60000 / SPAWN_INTERVAL;
+const BEAT: MusicNote[] = [
+  { freq: 110, beats: 0.5 }, { freq: 0, beats: 0.5 },
+  { freq: 165, beats: 0.5 }, { freq: 0, beats: 0.5 },
+  { freq: 131, beats: 0.5 }, { freq: 0, beats: 0.5 },
+  { freq: 165, beats: 0.5 }, { freq: 196, beats: 0.5 },
+];
 
 type Note = {
   lane: number;
   y: number;
+  // 보간용 직전 스텝 y
+  prevY: number;
   state: 'active' | 'hit' | 'miss';
   timer: number;
 };
@@ -29,161 +43,163 @@ const PumpItUpCanvas: React.FC = () => {
   const [misses, setMisses] = useState(0);
   const [state, setState] = useState<'playing' | 'over'>('playing');
 
-  const resetGame = useCallback(() => {
-    notesRef.current = [];
-    spawnRef.current = 0;
-    setScore(0);
-    setMisses(0);
-    setState('playing');
-  }, []);
-
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    const dpr = window.devicePixelRatio || 1;
-    canvas.width = WIDTH * dpr;
-    canvas.height = HEIGHT * dpr;
-    ctx.scale(dpr, dpr);
-
-    let prev: number | null = null;
-    let rafId: number;
-    const loop = (time: number) => {
-      if (prev === null) prev = time;
-      const delta = time - prev;
-      prev = time;
-
-      ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
-      ctx.clearRect(0, 0, WIDTH, HEIGHT);
-      ctx.fillStyle = '#000';
-      ctx.fillRect(0, 0, WIDTH, HEIGHT);
-
-      // draw target lanes
-        ctx.fillStyle = '#444';
-        for (let i = 0; i < 4; i++) {
-          ctx.fillRect(i * LANE_WIDTH, 0, 2, HEIGHT);
-          ctx.fillRect(i * LANE_WIDTH, TARGET_Y, LANE_WIDTH, 10);
-        }
-
-      // lane key hints
-      ctx.font = '64px sans-serif';
-      ctx.textAlign = 'center';
-      ctx.textBaseline = 'bottom';
-      for (let i = 0; i < 4; i++) {
-        flashRef.current[i] = Math.max(0, flashRef.current[i] - delta);
-        ctx.fillStyle = flashRef.current[i]
-          ? 'rgba(255,255,255,0.6)'
-          : 'rgba(255,255,255,0.1)';
-        ctx.fillText(KEYS[i].toUpperCase(), i * LANE_WIDTH + LANE_WIDTH / 2, HEIGHT - 10);
+  // 고정 스텝 — 노트 생성/이동, 판정선 통과 시 미스 처리
+  const update = (delta: number) => {
+    for (let i = 0; i < 4; i++) flashRef.current[i] = Math.max(0, flashRef.current[i] - delta);
+
+    spawnRef.current += delta;
+    if (spawnRef.current > SPAWN_INTERVAL) {
+      spawnRef.current -= SPAWN_INTERVAL;
+      notesRef.current.push({
+        lane: Math.floor(Math.random() * 4),
+        y: -20,
+        prevY: -20,
+        state: 'active',
+        timer: 0,
+      });
+    }
+
+    for (const note of notesRef.current) {
+      note.prevY = note.y;
+      if (note.state === 'active') {
+        note.y += NOTE_SPEED * (delta / 1000);
+      } else {
+        note.timer -= delta;
       }
-
-      if (state === 'playing') {
-        spawnRef.current += delta;
-        if (spawnRef.current > SPAWN_INTERVAL) {
-          spawnRef.current -= SPAWN_INTERVAL;
-          notesRef.current.push({
-            lane: Math.floor(Math.random() * 4),
-            y: -20,
-            state: 'active',
-            timer: 0,
-          });
-        }
+    }
+
+    // handle misses and clean-up
+    for (const n of notesRef.current) {
+      if (n.state === 'active' && n.y > TARGET_Y + HIT_WINDOW) {
+        n.state = 'miss';
+        n.timer = 300;
+        setMisses((m) => {
+          const nm = m + 1;
+          if (nm >= MAX_MISSES) setState('over');
+          return nm;
+        });
       }
+    }
 
-      for (const note of notesRef.current) {
-        if (note.state === 'active' && state === 'playing') {
-          note.y += NOTE_SPEED * (delta / 1000);
-        } else {
-          note.timer -= delta;
-        }
-        const color =
-          note.state === 'hit'
-            ? '#0f0'
-            : note.state === 'miss'
-            ? '#f00'
-            : '#0bf';
-        ctx.fillStyle = color;
-        const x = note.lane * LANE_WIDTH + LANE_WIDTH / 2;
-        ctx.beginPath();
-        ctx.arc(x, note.y, 20, 0, Math.PI * 2);
-        ctx.fill();
-      }
+    notesRef.current = notesRef.current.filter(
+      (n) => n.state === 'active' || n.timer > 0
+    );
+  };
 
-      // handle misses and clean-up
-      if (state === 'playing') {
-        for (const n of notesRef.current) {
-          if (n.state === 'active' && n.y > TARGET_Y + HIT_WINDOW) {
-            n.state = 'miss';
-            n.timer = 300;
-            setMisses((m) => {
-              const nm = m + 1;
-              if (nm >= MAX_MISSES) setState('over');
-              return nm;
-            });
-          }
-        }
-      }
+  // 직전/현재 스텝 사이를 alpha로 보간해 그린다
+  const render = (alpha: number) => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
 
-      notesRef.current = notesRef.current.filter(
-        (n) => n.state === 'active' || n.timer > 0
-      );
+    ctx.clearRect(0, 0, WIDTH, HEIGHT);
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, WIDTH, HEIGHT);
+
+    // draw target lanes
+    ctx.fillStyle = '#444';
+    for (let i = 0; i < 4; i++) {
+      ctx.fillRect(i * LANE_WIDTH, 0, 2, HEIGHT);
+      ctx.fillRect(i * LANE_WIDTH, TARGET_Y, LANE_WIDTH, 10);
+    }
+
+    // lane key hints
+    ctx.font = '64px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'bottom';
+    for (let i = 0; i < 4; i++) {
+      ctx.fillStyle = flashRef.current[i]
+        ? 'rgba(255,255,255,0.6)'
+        : 'rgba(255,255,255,0.1)';
+      ctx.fillText(laneKeys[i], i * LANE_WIDTH + LANE_WIDTH / 2, HEIGHT - 10);
+    }
+
+    for (const note of notesRef.current) {
+      const color =
+        note.state === 'hit'
+          ? '#0f0'
+          : note.state === 'miss'
+          ? '#f00'
+          : '#0bf';
+      ctx.fillStyle = color;
+      const x = note.lane * LANE_WIDTH + LANE_WIDTH / 2;
+      ctx.beginPath();
+      ctx.arc(x, lerp(note.prevY, note.y, alpha), 20, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    if (state === 'over' || paused) {
+      ctx.fillStyle = '#fff';
+      ctx.font = '20px sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText(paused ? 'Paused (P)' : 'Game Over', WIDTH / 2, HEIGHT / 2);
+    }
+  };
 
-      if (state === 'over') {
-        ctx.fillStyle = '#fff';
-        ctx.font = '20px sans-serif';
-        ctx.textAlign = 'center';
-        ctx.fillText('Game Over', WIDTH / 2, HEIGHT / 2);
-      }
+  const { paused, resume, togglePause } = useGameLoop({
+    update,
+    render,
+    running: state === 'playing',
+    canvas: { ref: canvasRef, width: WIDTH, height: HEIGHT },
+  });
 
-      rafId = requestAnimationFrame(loop);
-    };
-    rafId = requestAnimationFrame(loop);
-    return () => cancelAnimationFrame(rafId);
-  }, [state]);
-
-  const handleKey = useCallback(
-    (e: KeyboardEvent) => {
-      const key = e.key.toLowerCase();
-      if ([...KEYS, ' '].includes(key)) {
-        e.preventDefault();
-        e.stopPropagation();
-      }
-      if (key === ' ') {
-        resetGame();
-        return;
-      }
-      if (state !== 'playing') return;
-      let lane: number | null = null;
-      if (key === 'q') lane = 0;
-      else if (key === 'w') lane = 1;
-      else if (key === 'e') lane = 2;
-      else if (key === 'r') lane = 3;
-      if (lane === null) return;
-      flashRef.current[lane] = 100;
-      const note = notesRef.current.find(
-        (n) => n.lane === lane && n.state === 'active' && Math.abs(n.y - TARGET_Y) < HIT_WINDOW
-      );
-      if (note) {
-        note.state = 'hit';
-        note.timer = 300;
-        setScore((s) => s + 1);
-      }
-    },
-    [resetGame, state]
-  );
+  const resetGame = useCallback(() => {
+    notesRef.current = [];
+    spawnRef.current = 0;
+    setScore(0);
+    setMisses(0);
+    setState('playing');
+    resume();
+  }, [resume]);
 
+  // 플레이 중에만 배경 비트
+  const musicOn = state === 'playing' && !paused;
   useEffect(() => {
-    window.addEventListener('keydown', handleKey, { capture: true });
-    return () => window.removeEventListener('keydown', handleKey, { capture: true });
-  }, [handleKey]);
+    if (!musicOn) return;
+    playMusic(BEAT, { bpm: BPM });
+    return stopMusic;
+  }, [musicOn]);
+
+  const handleAction = (action: string) => {
+    if (action === 'restart') {
+      resetGame();
+      return;
+    }
+    if (state !== 'playing') return;
+    if (action === 'pause') {
+      togglePause();
+      return;
+    }
+    if (paused) return;
+    const lane = LANE_ACTIONS.indexOf(action);
+    if (lane < 0) return;
+    flashRef.current[lane] = 100;
+    const note = notesRef.current.find(
+      (n) => n.lane === lane && n.state === 'active' && Math.abs(n.y - TARGET_Y) < HIT_WINDOW
+    );
+    if (note) {
+      note.state = 'hit';
+      note.timer = 300;
+      playSfx('hit');
+      setScore((s) => s + 1);
+    }
+  };
+
+  const { bindings } = useGameInput('pumpitup', { onPress: handleAction });
+  const bindingText = (action: string) => bindings[action].map(keyLabel).join('/');
+  const laneKeys = LANE_ACTIONS.map(bindingText);
 
   return (
     <GameLayout
       gameStatus={state === 'over' ? '게임 오버' : undefined}
       title="🎵 Pump It Up"
+      gameId="pumpitup"
+      score={score}
       topInfo={<div>Score: {score} Misses: {misses}/{MAX_MISSES}</div>}
-      bottomInfo={<div>Q W E R : Hit • Space : Reset</div>}
+      bottomInfo={
+        <div>
+          {laneKeys.join(' ')} : Hit • {bindingText('pause')} : Pause • {bindingText('restart')} : Reset
+        </div>
+      }
     >
       <GameCanvas ref={canvasRef} gameTitle="Pump It Up" width={WIDTH} height={HEIGHT} />
       <div style={{ marginTop: 16 }}>
@@ -258,6 +258,8 @@ const PuyoPuyoCanvas: React.FC = () => {
     <GameLayout
       gameStatus={state === 'over' ? '게임 오버' : undefined}
       title="🍡 Puyo Puyo"
+      gameId="puyo"
+      score={score}
       topInfo={<div>Score: {score}</div>}
       bottomInfo={<div>A/D 좌우, S 아래, Space 하드드롭, W 회전, R=Reset</div>}
     >
@@ -226,6 +226,8 @@ export default function QixCanvas() {
     <GameLayout
       gameStatus={state === 'clear' ? '클리어!' : state === 'over' ? '게임 오버' : undefined}
       title="❌ Qix"
+      gameId="qix"
+      score={score}
       topInfo={
         <div>
           Score: {score} / {TOTAL} (
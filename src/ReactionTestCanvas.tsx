@@ -2,7 +2,7 @@ import React, { useState, useCallback, useEffect, useRef } from 'react';
 import GameManager from './components/GameManager';
 import GameButton from './components/GameButton';
 
-type GameState = 'ready' | 'waiting' | 'action' | 'result' | 'tooEarly';
+type GameState = 'ready' | 'waiting' | 'action' | 'result' | 'tooEarly' | 'done';
 
 const COLORS = [
   '#ff4444', '#44ff44', '#4444ff', '#ffff44', 
@@ -11,6 +11,7 @@ const COLORS = [
 
 const MIN_WAIT_TIME = 2000; // 최소 대기 시간 (2초)
 const MAX_WAIT_TIME = 7000; // 최대 대기 시간 (7초)
+const ROUNDS = 5; // 한 세션 라운드 수 (평균이 리더보드 기록)
 
 const ReactionTestCanvas: React.FC = () => {
   const [gameState, setGameState] = useState<GameState>('ready');
@@ -83,6 +84,15 @@ const ReactionTestCanvas: React.FC = () => {
         // 기록 업데이트
         const newAttempts = [...attempts, reaction];
         setAttempts(newAttempts);
+
+        // 세션 종료
+        if (newAttempts.length >= ROUNDS) {
+          const average = Math.round(newAttempts.reduce((a, b) => a + b, 0) / newAttempts.length);
+          setGameState('done');
+          setBestTime(prev => (prev === null || reaction < prev ? reaction : prev));
+          setMessage(`${ROUNDS}회 평균 ${average}ms`);
+          break;
+        }
         
         // 최고 기록 업데이트
         if (!bestTime || reaction < bestTime) {
@@ -103,6 +113,14 @@ const ReactionTestCanvas: React.FC = () => {
         setRound(prev => prev + 1);
         startRound();
         break;
+
+      case 'done':
+        // 새 세션
+        setAttempts([]);
+        setBestTime(null);
+        setRound(1);
+        startRound();
+        break;
     }
   }, [gameState, startRound, getRandomColor, attempts, bestTime, round]);
 
@@ -155,7 +173,7 @@ const ReactionTestCanvas: React.FC = () => {
 
   const gameStats = (
     <div style={{ textAlign: 'center', color: '#bcbcbe' }}>
-      <div>라운드: {round}</div>
+      <div>라운드: {round}/{ROUNDS}</div>
       {bestTime !== null && <div>최고 기록: {bestTime}ms</div>}
       {averageTime !== null && <div>평균: {averageTime}ms ({attempts.length}회)</div>}
     </div>
@@ -168,14 +186,16 @@ const ReactionTestCanvas: React.FC = () => {
   ) : undefined;
 
   const instructions =
-    '화면이 초록색으로 바뀌면 즉시 클릭하세요.\n빨간색일 때 클릭하면 실격입니다.';
+    `화면이 초록색으로 바뀌면 즉시 클릭하세요.\n빨간색일 때 클릭하면 실격입니다. ${ROUNDS}라운드 평균이 기록됩니다.`;
 
   return (
     <GameManager
       title="Reaction Test"
       gameIcon="⚡"
       gameStats={gameStats}
-      gameStatus={gameState === 'tooEarly' ? '게임 오버' : undefined}
+      gameId="reaction"
+      score={gameState === 'done' && averageTime !== null ? averageTime : undefined}
+      gameStatus={gameState === 'tooEarly' ? '게임 오버' : gameState === 'done' ? '완료!' : undefined}
       instructions={instructions}
       actionButtons={actionButtons}
     >
@@ -200,7 +220,7 @@ const ReactionTestCanvas: React.FC = () => {
         }}
       >
         {message}
-        {reactionTime && gameState === 'result' && (
+        {reactionTime && (gameState === 'result' || gameState === 'done') && (
           <div
             style={{
               marginTop: 16,
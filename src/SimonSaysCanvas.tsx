@@ -1,6 +1,7 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
+import React, { useState, useCallback, useEffect } from 'react';
 import GameManager from './components/GameManager';
 import GameButton from './components/GameButton';
+import { playTone } from './audio/engine';
 
 type GameState = 'ready' | 'demo' | 'input' | 'success' | 'gameover';
 type Color = 'red' | 'blue' | 'green' | 'yellow';
@@ -17,7 +18,6 @@ const DEMO_DELAY = 600;
 const FLASH_DURATION = 400;
 
 const SimonSaysCanvas: React.FC = () => {
-  const audioContextRef = useRef<AudioContext | null>(null);
   const [gameState, setGameState] = useState<GameState>('ready');
   const [pattern, setPattern] = useState<Color[]>([]);
   const [userInput, setUserInput] = useState<Color[]>([]);
@@ -27,34 +27,10 @@ const SimonSaysCanvas: React.FC = () => {
   const [level, setLevel] = useState(1);
   const [message, setMessage] = useState('시작하려면 START를 누르세요');
 
-  // 오디오 컨텍스트 초기화
-  const initAudioContext = useCallback(() => {
-    if (!audioContextRef.current) {
-      audioContextRef.current = new (window.AudioContext || (window as any).webkitAudioContext)();
-    }
-  }, []);
-
-  // 사운드 재생
+  // 사운드 재생 (공용 오디오 엔진)
   const playSound = useCallback((frequency: number, duration: number = FLASH_DURATION) => {
-    initAudioContext();
-    const ctx = audioContextRef.current;
-    if (!ctx) return;
-
-    const oscillator = ctx.createOscillator();
-    const gainNode = ctx.createGain();
-    
-    oscillator.connect(gainNode);
-    gainNode.connect(ctx.destination);
-    
-    oscillator.frequency.setValueAtTime(frequency, ctx.currentTime);
-    oscillator.type = 'sine';
-    
-    gainNode.gain.setValueAtTime(0.1, ctx.currentTime);
-    gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + duration / 1000);
-    
-    oscillator.start(ctx.currentTime);
-    oscillator.stop(ctx.currentTime + duration / 1000);
-  }, [initAudioContext]);
+    playTone(frequency, duration, { gain: 0.1 });
+  }, []);
 
   // 색상 활성화 (시각적 + 사운드)
   const activateColor = useCallback((color: Color) => {
@@ -192,6 +168,8 @@ const SimonSaysCanvas: React.FC = () => {
   return (
     <GameManager
       title="Simon Says"
+      gameId="simon"
+      score={score}
       gameIcon="🧩"
       gameStats={gameStats}
       gameStatus={message}
@@ -416,6 +416,8 @@ const SlidePuzzleCanvas: React.FC = () => {
       <GameLayout
       gameStatus={gameState === 'won' ? '클리어!' : undefined} 
         title="🧩 15퍼즐"
+        gameId="slide"
+        score={gameState === 'won' ? stats.moves : undefined}
         topInfo={topInfo}
         bottomInfo={bottomInfo}
       >
@@ -2,7 +2,10 @@ import React, { useCallback, useEffect, useRef, useState } from "react";
 import GameLayout from "./components/GameLayout";
 import GameCanvas from "./components/GameCanvas";
 import GameButton from "./components/GameButton";
+import SokobanPackPanel from "./components/SokobanPackPanel";
 import { spacing, typography } from "./theme/gameTheme";
+import { BUNDLED_PACKS, customPackId } from "./shared/sokoban/packs";
+import { parsePack, SokobanPack } from "./shared/sokoban/xsb";
 
 /**
  * SokobanCanvas.tsx
@@ -10,7 +13,7 @@ import { spacing, typography } from "./theme/gameTheme";
  * - 맵 크기에 맞춘 tileSize 자동 계산 + 중앙 정렬
  * - TARGET/PLAYER_ON_TARGET 남아 있으면 미완으로 보는 승리 판정
  * - setTimeout 클로저 안전(next level 인덱스 고정)
- * - 레벨 유효성 검사(플레이어=1, 박스=타깃)
+ * - 표준 XSB/SOK 레벨 팩(번들 + 붙여넣기), 팩별 진행 기록
  * - Undo/Redo 지원
  */
 
@@ -26,67 +29,30 @@ enum TileType {
   PLAYER = 4,
   BOX_ON_TARGET = 5,
   PLAYER_ON_TARGET = 6,
+  // 벽 바깥 — 그리지 않고 들어갈 수 없다
+  VOID = 7,
 }
 
-/* ====== 레벨 데이터: ' ' 바닥, '#' 벽, '.' 목표, '*' 박스, '@' 플레이어, '$' 목표 위 박스, '+' 목표 위 플레이어 ====== */
-const LEVELS: string[][] = [
-  // 레벨 1 - 튜토리얼 (1박스 1타깃)
-  [
-    "########",
-    "#      #",
-    "#   .  #",
-    "#   *  #",
-    "#   @  #",
-    "#      #",
-    "#      #",
-    "########",
-  ],
-  // 레벨 2 - 기본 푸시 + 벽
-  [
-    "########",
-    "#   #  #",
-    "# . #  #",
-    "# *    #",
-    "#  @   #",
-    "#      #",
-    "#      #",
-    "########",
-  ],
-  // 레벨 3 - 2박스 2타깃
-  [
-    "#########",
-    "#       #",
-    "# . .   #",
-    "#  **   #",
-    "#   @   #",
-    "#       #",
-    "#       #",
-    "#       #",
-    "#########",
-  ],
-  // 레벨 4 - 코너 유의
-  [
-    "##########",
-    "#   ##   #",
-    "# .  # . #",
-    "# ** #   #",
-    "#  @     #",
-    "#        #",
-    "##########",
-  ],
-  // 레벨 5 - 교정(박스=4, 목표=4, 플레이어=1)
-  [
-    "############",
-    "#          #",
-    "#  ##  ##  #",
-    "#  *  *    #",
-    "#  ##  ##  #",
-    "#     @    #",
-    "#    **    #",
-    "#   ....   #",
-    "############",
-  ],
-];
+const PROGRESS_KEY = "sokoban-progress";
+const PACK_KEY = "sokoban-pack";
+const CUSTOM_PACK_KEY = "sokoban-custom-pack";
+
+// 팩 id → 레벨 번호 → 최소 이동 수
+type PackProgress = Record<string, Record<string, number>>;
+
+const loadProgress = (): PackProgress => {
+  try {
+    return JSON.parse(localStorage.getItem(PROGRESS_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const loadCustomPack = (text: string | null): SokobanPack | null => {
+  if (!text) return null;
+  const pack = parsePack(text, customPackId(text), "붙여 넣은 팩");
+  return pack.levels.length ? pack : null;
+};
 
 /* ====== 유틸 ====== */
 const deepCopyMap = (map: TileType[][]) => map.map((row) => [...row]);
@@ -108,37 +74,10 @@ const toPlayerOn = (t: TileType): TileType =>
 const toBoxOn = (t: TileType): TileType =>
   t === TileType.TARGET ? TileType.BOX_ON_TARGET : TileType.BOX;
 
-/* ====== 레벨 파서 / 검증 ====== */
-const validateLevel = (level: string[]) => {
-  let boxes = 0,
-    targets = 0,
-    players = 0;
-  for (const row of level) {
-    for (const ch of row) {
-      if (ch === "*") boxes++;
-      if (ch === "$") {
-        boxes++;
-        targets++;
-      }
-      if (ch === ".") targets++;
-      if (ch === "+") {
-        players++;
-        targets++;
-      }
-      if (ch === "@") players++;
-    }
-  }
-  if (players !== 1) {
-    console.warn(`[Sokoban] Player count ${players} (must be 1)`);
-  }
-  if (boxes !== targets) {
-    console.warn(`[Sokoban] Boxes ${boxes} vs Targets ${targets} mismatch`);
-  }
-};
-
+/* ====== 레벨 파서 (XSB: '$' 박스, '*' 목표 위 박스) ====== */
 const parseLevel = (level: string[]) => {
   const rows = level.length;
-  const cols = level[0]?.length ?? 0;
+  const cols = Math.max(0, ...level.map((line) => line.length));
   const map: TileType[][] = Array.from({ length: rows }, () =>
     Array<TileType>(cols).fill(TileType.EMPTY)
   );
@@ -157,7 +96,7 @@ const parseLevel = (level: string[]) => {
         case ".":
           map[y][x] = TileType.TARGET;
           break;
-        case "*":
+        case "$":
           map[y][x] = TileType.BOX;
           break;
         case "@":
@@ -165,7 +104,7 @@ const parseLevel = (level: string[]) => {
           playerX = x;
           playerY = y;
           break;
-        case "$":
+        case "*":
           map[y][x] = TileType.BOX_ON_TARGET;
           break;
         case "+":
@@ -180,6 +119,25 @@ const parseLevel = (level: string[]) => {
     }
   }
 
+  // 플레이어에서 벽을 넘지 않고 닿지 않는 바닥은 벽 바깥
+  const inside = map.map((row) => row.map(() => false));
+  const stack = [[playerX, playerY]];
+  inside[playerY][playerX] = true;
+  while (stack.length) {
+    const [x, y] = stack.pop()!;
+    for (const [nx, ny] of [[x + 1, y], [x - 1, y], [x, y + 1], [x, y - 1]]) {
+      if (ny < 0 || nx < 0 || ny >= rows || nx >= cols) continue;
+      if (inside[ny][nx] || map[ny][nx] === TileType.WALL) continue;
+      inside[ny][nx] = true;
+      stack.push([nx, ny]);
+    }
+  }
+  for (let y = 0; y < rows; y++) {
+    for (let x = 0; x < cols; x++) {
+      if (!inside[y][x] && map[y][x] === TileType.EMPTY) map[y][x] = TileType.VOID;
+    }
+  }
+
   return { map, playerX, playerY };
 };
 
@@ -210,20 +168,33 @@ const SokobanCanvas: React.FC = () => {
     isCompleted: false,
   });
 
+  // 번들 팩 + 마지막으로 붙여 넣은 팩
+  const [customPack, setCustomPack] = useState<SokobanPack | null>(() =>
+    loadCustomPack(localStorage.getItem(CUSTOM_PACK_KEY))
+  );
+  const [pack, setPack] = useState<SokobanPack>(() => {
+    const saved = localStorage.getItem(PACK_KEY);
+    const custom = loadCustomPack(localStorage.getItem(CUSTOM_PACK_KEY));
+    return (custom?.id === saved ? custom : BUNDLED_PACKS.find((p) => p.id === saved)) ?? BUNDLED_PACKS[0];
+  });
+  const [progress, setProgress] = useState<PackProgress>(loadProgress);
+  const packs = customPack ? [...BUNDLED_PACKS, customPack] : BUNDLED_PACKS;
+  const levels = pack.levels;
+
   const undoStack = useRef<HistoryState[]>([]);
   const redoStack = useRef<HistoryState[]>([]);
+  // 클리어 후 다음 레벨로 넘어가는 타이머 (그 사이 팩/레벨을 바꾸면 취소)
+  const advanceTimer = useRef<number>();
 
   /* ====== 초기화 ====== */
-  const initLevel = useCallback(
-    (levelIndex: number) => {
-      if (levelIndex >= LEVELS.length) {
+  const startLevel = useCallback(
+    (packLevels: SokobanPack["levels"], levelIndex: number) => {
+      window.clearTimeout(advanceTimer.current);
+      if (levelIndex >= packLevels.length) {
         setGameState((prev) => ({ ...prev, isCompleted: true }));
         return;
       }
-      const raw = LEVELS[levelIndex];
-      validateLevel(raw); // 유효성 체크
-
-      const { map: newMap, playerX, playerY } = parseLevel(raw);
+      const { map: newMap, playerX, playerY } = parseLevel(packLevels[levelIndex].lines);
       undoStack.current = [];
       redoStack.current = [];
       setMap(newMap);
@@ -234,8 +205,41 @@ const SokobanCanvas: React.FC = () => {
     []
   );
 
+  const initLevel = useCallback((levelIndex: number) => startLevel(levels, levelIndex), [levels, startLevel]);
+
+  // 팩을 열면 아직 안 푼 첫 레벨부터
+  const firstUnsolved = (target: SokobanPack) => {
+    const solved = progress[target.id] ?? {};
+    const index = target.levels.findIndex((_, i) => solved[i] === undefined);
+    return Math.max(0, index);
+  };
+
+  const selectPack = (next: SokobanPack) => {
+    setPack(next);
+    localStorage.setItem(PACK_KEY, next.id);
+    startLevel(next.levels, firstUnsolved(next));
+  };
+
+  const importPack = (text: string): string | null => {
+    const next = parsePack(text, customPackId(text), "붙여 넣은 팩");
+    if (!next.levels.length) {
+      return next.skipped.length
+        ? `쓸 수 있는 레벨이 없습니다 — ${next.skipped[0].index}번: ${next.skipped[0].error}`
+        : "레벨을 찾지 못했습니다. XSB/SOK 형식인지 확인하세요.";
+    }
+    try {
+      localStorage.setItem(CUSTOM_PACK_KEY, text);
+    } catch {
+      // 너무 큰 팩은 이번 세션에서만 쓴다
+    }
+    setCustomPack(next);
+    selectPack(next);
+    return null;
+  };
+
   useEffect(() => {
-    initLevel(0);
+    initLevel(firstUnsolved(pack));
+    return () => window.clearTimeout(advanceTimer.current);
   }, []); // initialize only once
 
   /* ====== 승리 판정: TARGET / PLAYER_ON_TARGET 남아 있으면 미완료 ====== */
@@ -337,9 +341,19 @@ const SokobanCanvas: React.FC = () => {
       setGameState((s) => ({ ...s, moves: s.moves + 1 }));
 
       if (checkWin(newMap)) {
+        // 팩별 최소 이동 수 기록
+        const moves = gameState.moves + 1;
+        const packProgress = progress[pack.id] ?? {};
+        const best = packProgress[gameState.level];
+        if (best === undefined || moves < best) {
+          const nextProgress = { ...progress, [pack.id]: { ...packProgress, [gameState.level]: moves } };
+          setProgress(nextProgress);
+          localStorage.setItem(PROGRESS_KEY, JSON.stringify(nextProgress));
+        }
+
         const nextLevelIndex = gameState.level + 1; // 클로저 안전
-        setTimeout(() => {
-          if (nextLevelIndex < LEVELS.length) {
+        advanceTimer.current = window.setTimeout(() => {
+          if (nextLevelIndex < levels.length) {
             initLevel(nextLevelIndex);
           } else {
             setGameState((prev) => ({ ...prev, isCompleted: true }));
@@ -347,7 +361,7 @@ const SokobanCanvas: React.FC = () => {
         }, 500);
       }
     },
-    [gameState.isCompleted, gameState.level, map, playerX, playerY, initLevel, saveState, checkWin]
+    [gameState.isCompleted, gameState.level, gameState.moves, map, playerX, playerY, levels, pack.id, progress, initLevel, saveState, checkWin]
   );
 
   /* ====== 입력 ====== */
@@ -391,12 +405,12 @@ const SokobanCanvas: React.FC = () => {
         e.stopPropagation();
         return initLevel(gameState.level); // 현재 레벨 리셋
       }
-      if (k === "n") return initLevel(Math.min(gameState.level + 1, LEVELS.length - 1)); // 다음 레벨
+      if (k === "n") return initLevel(Math.min(gameState.level + 1, levels.length - 1)); // 다음 레벨
       if (k === "p") return initLevel(Math.max(gameState.level - 1, 0)); // 이전 레벨
     };
     window.addEventListener("keydown", handler, { capture: true });
     return () => window.removeEventListener("keydown", handler, { capture: true });
-  }, [tryMove, undo, redo, initLevel, gameState.level]);
+  }, [tryMove, undo, redo, initLevel, gameState.level, levels.length]);
 
   /* ====== 렌더링 ====== */
   const draw = useCallback(() => {
@@ -444,6 +458,7 @@ const SokobanCanvas: React.FC = () => {
         const tile = map[y][x];
         const drawX = offsetX + x * tileSize;
         const drawY = offsetY + y * tileSize;
+        if (tile === TileType.VOID) continue;
 
         // 바닥
         ctx.fillStyle = "#3A3A3A";
@@ -503,7 +518,7 @@ const SokobanCanvas: React.FC = () => {
     ctx.font = "bold 16px Arial";
     ctx.textAlign = "left";
     ctx.textBaseline = "top";
-    ctx.fillText(`Level: ${gameState.level + 1}/${LEVELS.length}`, 16, 12);
+    ctx.fillText(`Level: ${gameState.level + 1}/${levels.length}  ${levels[gameState.level]?.title ?? ""}`, 16, 12);
     ctx.fillText(`Moves: ${gameState.moves}`, 16, 34);
 
     // 완료 오버레이
@@ -519,7 +534,7 @@ const SokobanCanvas: React.FC = () => {
       ctx.fillStyle = "#FFFFFF";
       ctx.fillText("R: 현재 레벨 다시 시작  /  P: 이전  /  N: 다음", CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 24);
     }
-  }, [map, gameState]);
+  }, [map, gameState, levels]);
 
   useEffect(() => {
     draw();
@@ -527,7 +542,7 @@ const SokobanCanvas: React.FC = () => {
 
   const getGameStatus = () => {
     if (gameState.isCompleted) return '모든 레벨 완료! 🎉';
-    return `레벨 ${gameState.level + 1}/${LEVELS.length}`;
+    return `${pack.title} · 레벨 ${gameState.level + 1}/${levels.length}`;
   };
 
   const getInstructions = () => {
@@ -538,6 +553,9 @@ const SokobanCanvas: React.FC = () => {
   };
 
   /* ====== UI ====== */
+  const packProgress = progress[pack.id] ?? {};
+  const bestMoves = packProgress[gameState.level];
+
   // 상단 정보 (게임 목표/상태)
   const topInfo = (
     <div style={{ textAlign: 'center' }}>
@@ -553,7 +571,34 @@ const SokobanCanvas: React.FC = () => {
         color: '#bcbcbe'
       }}>
         움직임: {gameState.moves}스
+        {bestMoves !== undefined && ` · 최소 기록: ${bestMoves}수`}
+      </div>
+      <div style={{ marginTop: spacing.sm }}>
+        <SokobanPackPanel
+          packs={packs}
+          currentId={pack.id}
+          solvedCount={(p) => Object.keys(progress[p.id] ?? {}).length}
+          onSelect={selectPack}
+          onImport={importPack}
+        />
       </div>
+      <select
+        value={gameState.level}
+        onChange={(e) => initLevel(Number(e.target.value))}
+        style={{ marginTop: spacing.xs, padding: '4px 8px', borderRadius: 6, fontSize: 14 }}
+      >
+        {levels.map((level, i) => (
+          <option key={i} value={i}>
+            {packProgress[i] !== undefined ? '✔ ' : ''}
+            {i + 1}. {level.title}
+          </option>
+        ))}
+      </select>
+      {levels[gameState.level]?.comment && (
+        <div style={{ fontSize: 12, color: '#bcbcbe', marginTop: spacing.xs }}>
+          {levels[gameState.level].comment}
+        </div>
+      )}
     </div>
   );
 
@@ -591,10 +636,10 @@ const SokobanCanvas: React.FC = () => {
         </GameButton>
         
         <GameButton
-          onClick={() => initLevel(Math.min(LEVELS.length - 1, gameState.level + 1))}
+          onClick={() => initLevel(Math.min(levels.length - 1, gameState.level + 1))}
           variant="secondary"
           size="normal"
-          disabled={gameState.level >= LEVELS.length - 1}
+          disabled={gameState.level >= levels.length - 1}
         >
           다음 레벨
         </GameButton>
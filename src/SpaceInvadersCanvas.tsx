@@ -3,6 +3,7 @@ import GameManager from './components/GameManager';
 import GameCanvas from './components/GameCanvas';
 import GameButton from './components/GameButton';
 import { layout } from './theme/gameTheme';
+import { useGameLoop } from './hooks/useGameLoop';
 
 // Use shared layout width so the game matches the rest of the catalog
 const CANVAS_WIDTH = layout.maxWidth;
@@ -33,8 +34,6 @@ interface Alien {
 
 const SpaceInvadersCanvas: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const animationRef = useRef<number>();
-  const lastTimeRef = useRef<number>(0);
   const keysRef = useRef<Set<string>>(new Set());
   const bulletsRef = useRef<Bullet[]>([]);
   const aliensRef = useRef<Alien[]>([]);
@@ -121,7 +120,9 @@ const SpaceInvadersCanvas: React.FC = () => {
     }
   }, [gameState]);
 
-  const draw = useCallback((ctx: CanvasRenderingContext2D) => {
+  // 총알/외계인은 등속이므로 다음 스텝까지 남은 만큼 뒤에 그려 보간
+  const draw = useCallback((ctx: CanvasRenderingContext2D, alpha: number) => {
+    const lag = (1 - alpha) / 60;
     ctx.fillStyle = '#000';
     ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
 
@@ -131,12 +132,12 @@ const SpaceInvadersCanvas: React.FC = () => {
 
     ctx.fillStyle = '#ffff00';
     bulletsRef.current.forEach(b => {
-      ctx.fillRect(b.x - 2, b.y, 4, 10);
+      ctx.fillRect(b.x - 2, b.y + BULLET_SPEED * lag, 4, 10);
     });
 
     ctx.fillStyle = '#ff4444';
     aliensRef.current.forEach(a => {
-      if (a.alive) ctx.fillRect(a.x, a.y, ALIEN_WIDTH, ALIEN_HEIGHT);
+      if (a.alive) ctx.fillRect(a.x - directionRef.current * ALIEN_X_SPEED * lag, a.y, ALIEN_WIDTH, ALIEN_HEIGHT);
     });
 
     ctx.fillStyle = '#fff';
@@ -157,15 +158,27 @@ const SpaceInvadersCanvas: React.FC = () => {
     }
   }, [score, gameState]);
 
-  const loop = useCallback((time: number) => {
-    if (!lastTimeRef.current) lastTimeRef.current = time;
-    const dt = (time - lastTimeRef.current) / 1000;
-    lastTimeRef.current = time;
-    update(dt);
-    const ctx = canvasRef.current?.getContext('2d');
-    if (ctx) draw(ctx);
-    animationRef.current = requestAnimationFrame(loop);
-  }, [update, draw]);
+  const { paused, resume, togglePause } = useGameLoop({
+    update: stepMs => update(stepMs / 1000),
+    render: alpha => {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
+      draw(ctx, alpha);
+      if (paused) {
+        ctx.fillStyle = 'rgba(0,0,0,0.6)';
+        ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+        ctx.textAlign = 'center';
+        ctx.fillStyle = '#fff';
+        ctx.font = '48px Arial';
+        ctx.fillText('PAUSED', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+        ctx.font = '24px Arial';
+        ctx.fillText('Press P to Resume', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 40);
+        ctx.textAlign = 'left';
+      }
+    },
+    running: gameState === 'playing',
+    canvas: { ref: canvasRef, width: CANVAS_WIDTH, height: CANVAS_HEIGHT },
+  });
 
   useEffect(() => {
     startGame();
@@ -173,12 +186,15 @@ const SpaceInvadersCanvas: React.FC = () => {
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (['ArrowLeft', 'ArrowRight', 'KeyA', 'KeyD', 'Space', 'KeyR'].includes(e.code)) {
+      if (['ArrowLeft', 'ArrowRight', 'KeyA', 'KeyD', 'Space', 'KeyR', 'KeyP'].includes(e.code)) {
         e.preventDefault();
         e.stopPropagation();
       }
       keysRef.current.add(e.code);
-      if (e.code === 'Space' && gameState === 'playing') {
+      if (e.code === 'KeyP' && gameState === 'playing') {
+        togglePause();
+      }
+      if (e.code === 'Space' && gameState === 'playing' && !paused) {
         const now = performance.now();
         if (now - lastShotRef.current > FIRE_DELAY) {
           bulletsRef.current.push({
@@ -189,6 +205,7 @@ const SpaceInvadersCanvas: React.FC = () => {
         }
       }
       if (e.code === 'KeyR' && gameState !== 'playing') {
+        resume();
         startGame();
       }
     };
@@ -201,19 +218,12 @@ const SpaceInvadersCanvas: React.FC = () => {
       window.removeEventListener('keydown', handleKeyDown, { capture: true });
       window.removeEventListener('keyup', handleKeyUp, { capture: true });
     };
-  }, [gameState, startGame]);
-
-  useEffect(() => {
-    animationRef.current = requestAnimationFrame(loop);
-    return () => {
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
-    };
-  }, [loop]);
+  }, [gameState, paused, resume, startGame, togglePause]);
 
   const gameStats = <div>점수: {score}</div>;
-  const instructions = '←/→ 또는 A/D 이동, Space 발사, R 재시작';
+  const instructions = '←/→ 또는 A/D 이동, Space 발사, P 일시정지, R 재시작';
   const actionButtons = (
-    <GameButton onClick={startGame} variant="primary" size="large">
+    <GameButton onClick={() => { resume(); startGame(); }} variant="primary" size="large">
       다시 시작
     </GameButton>
   );
@@ -221,6 +231,8 @@ const SpaceInvadersCanvas: React.FC = () => {
   return (
     <GameManager
       title="Space Invaders"
+      gameId="space"
+      score={score}
       gameIcon="👾"
       gameStats={gameStats}
       gameStatus={gameState === 'won' ? '승리!' : gameState === 'gameover' ? '게임 오버' : undefined}
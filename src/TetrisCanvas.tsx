@@ -3,9 +3,24 @@ import GameLayout from "./components/GameLayout";
 import GameCanvas from "./components/GameCanvas";
 import { spacing, typography } from "./theme/gameTheme";
 
+import { createRecorder, Replay, snapshotReplay } from "./shared/replay/core";
+import { GameLoopControls, useGameLoop } from "./hooks/useGameLoop";
+import { useGameInput } from "./hooks/useGameInput";
+import { keyLabel } from "./input/bindings";
+import { playSfx } from "./audio/engine";
+import {
+  ghostY,
+  Piece,
+  PieceType,
+  rotateMat,
+  SHAPES,
+  TETRIS_ACTIONS,
+  TETRIS_COLS as COLS,
+  TETRIS_ROWS as ROWS,
+  tetrisSim,
+} from "./shared/sims/tetris";
+
 /** ───────────── 설정 ───────────── */
-const COLS = 10;
-const ROWS = 20;
 const CELL = 26;          // 보드 셀 픽셀(논리) 크기
 const MARGIN = 28;        // 보드 바깥 여백
 const PANEL_W = 150;      // 홀드/넥스트 패널 폭
@@ -23,104 +38,34 @@ const COLORS: Record<string, string> = {
   X: "#353741"               // 테두리/그리드
 };
 
-type Cell = 0 | "I" | "O" | "T" | "S" | "Z" | "J" | "L";
-
-/** ───────────── 조각 정의 ─────────────
- * 각 조각은 4x4 매트릭스로 표현(회전은 코드로 계산).
- */
-const SHAPES: Record<Exclude<Cell, 0>, number[][]> = {
-  I: [
-    [0,0,0,0],
-    [1,1,1,1],
-    [0,0,0,0],
-    [0,0,0,0]
-  ],
-  O: [
-    [0,1,1,0],
-    [0,1,1,0],
-    [0,0,0,0],
-    [0,0,0,0]
-  ],
-  T: [
-    [0,1,0,0],
-    [1,1,1,0],
-    [0,0,0,0],
-    [0,0,0,0]
-  ],
-  S: [
-    [0,1,1,0],
-    [1,1,0,0],
-    [0,0,0,0],
-    [0,0,0,0]
-  ],
-  Z: [
-    [1,1,0,0],
-    [0,1,1,0],
-    [0,0,0,0],
-    [0,0,0,0]
-  ],
-  J: [
-    [1,0,0,0],
-    [1,1,1,0],
-    [0,0,0,0],
-    [0,0,0,0]
-  ],
-  L: [
-    [0,0,1,0],
-    [1,1,1,0],
-    [0,0,0,0],
-    [0,0,0,0]
-  ],
-};
-
-type PieceType = Exclude<Cell, 0>;
-type Piece = {
-  type: PieceType;
-  x: number;
-  y: number;
-  rot: number; // 0..3
-};
-
-/** ───────────── 유틸 ───────────── */
-const clamp = (v: number, a: number, b: number) => Math.max(a, Math.min(b, v));
-const rnd = (n: number) => Math.floor(Math.random() * n);
-
-function rotateMat(m: number[][], times: number) {
-  // 4x4 행렬을 시계방향 times번 회전
-  let r = m.map(row => row.slice());
-  for (let t = 0; t < (times % 4 + 4) % 4; t++) {
-    const n = r.length;
-    const out = Array.from({ length: n }, () => Array(n).fill(0));
-    for (let y = 0; y < n; y++)
-      for (let x = 0; x < n; x++)
-        out[x][n - 1 - y] = r[y][x];
-    r = out;
-  }
-  return r;
-}
-
-// 7-백 생성기
-function* bagGen() {
-  const bagTypes: PieceType[] = ["I","O","T","S","Z","J","L"];
-  while (true) {
-    const bag = [...bagTypes];
-    const out: PieceType[] = [];
-    while (bag.length) out.push(bag.splice(rnd(bag.length), 1)[0]);
-    yield* out;
-  }
-}
-
-function fallIntervalMs(level: number) {
-  // 레벨에 따라 점점 빨라짐(대략 Tetris Guideline 감각)
-  return Math.max(60, Math.floor(1000 * Math.pow(0.88, level)));
-}
-
 /** ───────────── 메인 컴포넌트 ───────────── */
 export default function TetrisCanvas() {
   const [over, setOver] = useState(false);
+  const [finalScore, setFinalScore] = useState(0);
+  const [replay, setReplay] = useState<Replay | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
   const scoreRef = useRef<HTMLDivElement | null>(null);
-  const infoRef = useRef<HTMLDivElement | null>(null);
+  // 루프는 useGameLoop가 돌리고, 스텝/그리기는 아래 effect가 채운다
+  const frameRef = useRef<{ update: () => void; draw: () => void }>();
+
+  const loop = useGameLoop({
+    update: () => frameRef.current?.update(),
+    render: () => frameRef.current?.draw(),
+    stepMs: tetrisSim.stepMs,
+    running: !over,
+  });
+  const loopRef = useRef<GameLoopControls>(loop);
+  loopRef.current = loop;
+
+  // 입력은 useGameInput이 논리 액션으로 바꿔 아래 effect의 핸들러로 넘긴다
+  const actionRef = useRef<(action: string) => void>();
+  const { bindings } = useGameInput("tetris", {
+    gestureTarget: canvasRef,
+    onPress: (action) => actionRef.current?.(action),
+  });
+  const bindingText = (action: string) => bindings[action].map(keyLabel).join("/");
+  const bindingTextRef = useRef(bindingText);
+  bindingTextRef.current = bindingText;
 
   useEffect(() => {
     const canvas = canvasRef.current!;
@@ -142,187 +87,49 @@ export default function TetrisCanvas() {
     }
     const { widthCSS: W, heightCSS: H } = fitDPR();
 
-    // 보드/상태
-    const board: Cell[][] = Array.from({ length: ROWS }, () => Array(COLS).fill(0));
-    const nextQ: PieceType[] = [];
-    const bags = bagGen();
-
-    let cur: Piece;
-    let hold: PieceType | null = null;
-    let canHold = true;
-
-    let score = 0;
-    let lines = 0;
-    let level = 0;
-    let paused = false;
-    let gameOver = false;
+    // 상태 — 게임 로직은 tetrisSim, 입력은 리플레이로 기록
+    let rec = createRecorder(tetrisSim);
+    let endedShown = false;
+    let shownLines = 0;
 
     const boardX = MARGIN + PANEL_W;  // 보드 좌상단 X
     const boardY = MARGIN;            // 보드 좌상단 Y
 
-    // 초기 큐 채우기
-    while (nextQ.length < 5) nextQ.push(bags.next().value as PieceType);
-
-    function spawn() {
-      const t = nextQ.shift() as PieceType;
-      nextQ.push(bags.next().value as PieceType);
-      cur = { type: t, x: Math.floor(COLS / 2) - 2, y: -1, rot: 0 };
-      if (collides(cur)) {
-        gameOver = true;
-        paused = true;
-        setOver(true);
-      }
-      canHold = true;
-    }
-
-    function cellsOfPiece(p: Piece) {
-      const mat = rotateMat(SHAPES[p.type], p.rot);
-      const cells: { x: number; y: number }[] = [];
-      for (let y = 0; y < 4; y++)
-        for (let x = 0; x < 4; x++)
-          if (mat[y][x]) cells.push({ x: p.x + x, y: p.y + y });
-      return cells;
-    }
-
-    function collides(p: Piece) {
-      const cells = cellsOfPiece(p);
-      for (const c of cells) {
-        if (c.y < 0) continue; // 스폰 영역
-        if (c.x < 0 || c.x >= COLS || c.y >= ROWS) return true;
-        if (board[c.y][c.x]) return true;
-      }
-      return false;
-    }
-
-    function mergePiece() {
-      for (const c of cellsOfPiece(cur)) {
-        if (c.y >= 0 && c.y < ROWS && c.x >= 0 && c.x < COLS) {
-          board[c.y][c.x] = cur.type;
-        }
-      }
-    }
-
-    function clearLines() {
-      let cleared = 0;
-      for (let y = ROWS - 1; y >= 0; y--) {
-        if (board[y].every(v => v !== 0)) {
-          board.splice(y, 1);
-          board.unshift(Array(COLS).fill(0));
-          cleared++;
-          y++;
-        }
-      }
-      if (cleared) {
-        lines += cleared;
-        // 점수(레벨+1 배수)
-        const base = [0, 100, 300, 500, 800][cleared] || 0;
-        score += base * (level + 1);
-        level = Math.floor(lines / 10);
-      }
-    }
-
-    function move(dx: number, dy: number) {
-      if (gameOver || paused) return false;
-      const np = { ...cur, x: cur.x + dx, y: cur.y + dy };
-      if (!collides(np)) {
-        cur = np;
-        return true;
-      }
-      return false;
-    }
-
-    function rotate(dir: 1 | -1) {
-      if (gameOver || paused) return;
-      const np = { ...cur, rot: (cur.rot + (dir === 1 ? 1 : 3)) % 4 };
-      // 간단 월킥: 0, ±1, ±2 시프트
-      const kicks = [0, -1, 1, -2, 2];
-      for (const k of kicks) {
-        const test = { ...np, x: np.x + k };
-        if (!collides(test)) {
-          cur = test;
-          return;
-        }
-      }
-    }
-
-    function hardDrop() {
-      if (gameOver || paused) return;
-      let dropped = 0;
-      while (move(0, 1)) dropped++;
-      score += dropped * 2; // 하드드랍 가산
-      lock();
-    }
-
-    function softDrop() {
-      if (move(0, 1)) score += 1;
-      else lock();
-    }
-
-    function lock() {
-      mergePiece();
-      clearLines();
-      spawn();
+    function input(action: number) {
+      if (loopRef.current.paused || rec.state.over) return;
+      rec.input(action);
+      checkLines();
+      checkOver();
     }
 
-    function holdSwap() {
-      if (!canHold || gameOver || paused) return;
-      const curType = cur.type;
-      if (hold == null) {
-        hold = curType;
-        spawn();
-      } else {
-        const temp = hold;
-        hold = curType;
-        cur = { type: temp, x: Math.floor(COLS / 2) - 2, y: -1, rot: 0 };
-        if (collides(cur)) { gameOver = true; paused = true; setOver(true); }
-      }
-      canHold = false;
+    function checkLines() {
+      if (rec.state.lines > shownLines) playSfx("lineClear");
+      shownLines = rec.state.lines;
     }
 
-    function ghostY(): number {
-      let gy = cur.y;
-      while (true) {
-        const test = { ...cur, y: gy + 1 };
-        if (collides(test)) break;
-        gy++;
+    function checkOver() {
+      if (rec.state.over && !endedShown) {
+        endedShown = true;
+        setFinalScore(rec.state.score);
+        setReplay(snapshotReplay(rec.replay));
+        setOver(true);
       }
-      return gy;
     }
 
     /** ───── 입력 ───── */
-    const onKeyDown = (e: KeyboardEvent) => {
-      if (["ArrowLeft", "ArrowRight", "ArrowDown", " ", "z", "Z", "x", "X", "c", "C", "p", "P", "r", "R", "ArrowUp"].includes(e.key)) {
-        e.preventDefault();
-        e.stopPropagation();
-      }
-
-      if (gameOver && (e.key === "r" || e.key === "R")) {
-        reset();
-        return;
-      }
-      switch (e.key) {
-        case "ArrowLeft": move(-1, 0); break;
-        case "ArrowRight": move(1, 0); break;
-        case "ArrowDown": softDrop(); break;
-        case " ": hardDrop(); break;
-        case "z": case "Z": rotate(-1); break;
-        case "x": case "X":
-        case "ArrowUp": rotate(1); break;
-        case "c": case "C": holdSwap(); break;
-        case "p": case "P": paused = !paused; break;
-        case "r": case "R": reset(); break;
-      }
+    actionRef.current = (action) => {
+      if (action in TETRIS_ACTIONS) input(TETRIS_ACTIONS[action as keyof typeof TETRIS_ACTIONS]);
+      else if (action === "pause") { if (!rec.state.over) loopRef.current.togglePause(); }
+      else if (action === "restart") reset();
     };
 
-    window.addEventListener("keydown", onKeyDown, { capture: true });
-
+    // 새 판 (새 시드)
     function reset() {
-      for (let y = 0; y < ROWS; y++) board[y].fill(0);
-      score = 0; lines = 0; level = 0;
-      hold = null; canHold = true; paused = false; gameOver = false; setOver(false);
-      nextQ.length = 0; while (nextQ.length < 5) nextQ.push(bags.next().value as PieceType);
-      spawn();
-      dropTimer = 0;
+      rec = createRecorder(tetrisSim);
+      loopRef.current.resume();
+      endedShown = false;
+      setOver(false);
+      setReplay(null);
     }
 
     /** ───── 렌더 ───── */
@@ -365,6 +172,8 @@ export default function TetrisCanvas() {
     }
 
     function draw() {
+      const st = rec.state;
+      const { board, cur, hold, nextQ, score, level, lines, over: gameOver } = st;
       // 배경
       ctx.clearRect(0, 0, W, H);
       const grad = ctx.createRadialGradient(W/2, H/2, 0, W/2, H/2, Math.max(W,H)/1.2);
@@ -401,7 +210,7 @@ export default function TetrisCanvas() {
           if (board[y][x]) drawCell(x, y, COLORS[board[y][x] as PieceType]);
 
       // 고스트
-      const gy = ghostY();
+      const gy = ghostY(st);
       drawPiece({ ...cur, y: gy }, "G", 0.35);
 
       // 현재 조각
@@ -447,8 +256,8 @@ export default function TetrisCanvas() {
       ctx.restore();
 
       // 상태 메시지
-      if (paused && !gameOver) overlay("일시정지 (P:재개)");
-      if (gameOver) overlay("게임 오버 (R:다시 시작)");
+      if (loopRef.current.paused && !gameOver) overlay(`일시정지 (${bindingTextRef.current("pause")}:재개)`);
+      if (gameOver) overlay(`게임 오버 (${bindingTextRef.current("restart")}:다시 시작)`);
     }
 
     function overlay(text: string) {
@@ -481,39 +290,20 @@ export default function TetrisCanvas() {
     }
 
     /** ───── 루프 ───── */
-    let last = 0;
-    let dropTimer = 0;
-
-    function tick(ts: number) {
-      const dt = Math.min(50, ts - last);
-      last = ts;
-
-      if (!paused && !gameOver) {
-        dropTimer += dt;
-        const interval = fallIntervalMs(level);
-        while (dropTimer >= interval) {
-          if (!move(0, 1)) lock();
-          dropTimer -= interval;
-        }
-      }
-      draw();
-      raf = requestAnimationFrame(tick);
-    }
-
-    // 초기화
-    spawn();
-    let raf = requestAnimationFrame(tick);
-
-    // 안내 텍스트
-    if (infoRef.current) {
-      infoRef.current.innerHTML =
-        `<b>조작</b> — ←/→ 이동, ↓ 소프트드랍(+1점), Space 하드드랍(+2점/칸), Z/Up/X 회전, C 홀드, P 일시정지, R 재시작`;
-    }
+    frameRef.current = {
+      update() {
+        if (rec.state.over) return;
+        rec.step();
+        checkLines();
+        checkOver();
+      },
+      draw,
+    };
 
     // 정리
     return () => {
-      cancelAnimationFrame(raf);
-      window.removeEventListener("keydown", onKeyDown);
+      frameRef.current = undefined;
+      actionRef.current = undefined;
     };
   }, []);
 
@@ -547,14 +337,15 @@ export default function TetrisCanvas() {
   const bottomInfo = (
     <div style={{ textAlign: 'center' }}>
       <div 
-        ref={infoRef}
         style={{ 
           fontSize: 14, 
           color: "#bcbcbe", 
           marginBottom: spacing.xs
         }}
       >
-        조작 — ←/→ 이동, ↑ 소프트드롭(+1점), Space 하드드롭(+2점/칸), Z/Up/X 회전, C 홀드, P 일시정지, R 재시작
+        <b>조작</b> — {bindingText("left")}/{bindingText("right")} 이동, {bindingText("softDrop")} 소프트드롭(+1점),{" "}
+        {bindingText("hardDrop")} 하드드롭(+2점/칸), {bindingText("rotateCW")} 회전, {bindingText("rotateCCW")} 역회전,{" "}
+        {bindingText("hold")} 홀드, {bindingText("pause")} 일시정지, {bindingText("restart")} 재시작
       </div>
     </div>
   );
@@ -563,6 +354,9 @@ export default function TetrisCanvas() {
     <GameLayout 
       gameStatus={over ? '게임 오버' : undefined}
       title="🧱 테트리스"
+      gameId="tetris"
+      score={finalScore}
+      replay={replay ?? undefined}
       topInfo={topInfo}
       bottomInfo={bottomInfo}
     >
@@ -1,61 +1,125 @@
-import React, { useEffect, useRef, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useRef, useState } from "react";
 import GameLayout from "./components/GameLayout";
 import GameCanvas from "./components/GameCanvas";
 import GameButton from "./components/GameButton";
+import TurnHistoryPanel from "./components/TurnHistoryPanel";
+import RatingPanel from "./components/RatingPanel";
+import { TurnBasedAi, useAiWorker, useTurnBasedGame } from "./hooks/useTurnBasedGame";
+import { useAiRating } from "./hooks/useAiRating";
+import { useMctsSearch } from "./hooks/useMctsSearch";
 import { spacing, typography } from "./theme/gameTheme";
+import {
+  gameResult,
+  GRID_SIZES,
+  initialGrid,
+  initialUltimate,
+  Mark,
+  MAX_K,
+  TttGame,
+  tttGame,
+} from "./shared/tictactoe/rules";
+import { TTT_AI_LEVELS } from "./shared/tictactoe/ai";
+import { MCTS_DEFAULT_LEVEL } from "./shared/mcts";
+import type { TttAiRequest, TttAiResponse } from "./workers/tictactoeAi.worker";
 
 /**
  * 틱택토(Tic-Tac-Toe) 게임
- * X와 O를 번갈아 두며, 가로·세로·대각선으로 3개를 먼저 연결하면 승리
+ * - N×N: 가로·세로·대각선으로 k개를 먼저 연결하면 승리 (3×3 3목이 클래식)
+ * - 얼티밋: 작은 보드 9개, 방금 둔 칸 위치가 상대가 둘 작은 보드를 정한다
  */
 
-type Player = 'X' | 'O' | null;
-type Board = Player[];
-
-const BOARD_SIZE = 3;
-const CELL_SIZE = 120;
 const MARGIN = 20;
-const CANVAS_WIDTH = MARGIN * 2 + CELL_SIZE * BOARD_SIZE;
-const CANVAS_HEIGHT = MARGIN * 2 + CELL_SIZE * BOARD_SIZE;
+const BOARD_PX = 360;
+const CANVAS_WIDTH = MARGIN * 2 + BOARD_PX;
+const CANVAS_HEIGHT = MARGIN * 2 + BOARD_PX;
+const X_COLOR = '#7DE5FF';
+const O_COLOR = '#FFB86B';
+
+type Mode = TttGame['mode'];
+
+function newGame(mode: Mode, size: number, k: number): TttGame {
+  return mode === 'grid' ? { mode, state: initialGrid(size, k) } : { mode, state: initialUltimate() };
+}
+
+function drawMark(ctx: CanvasRenderingContext2D, mark: Mark, cx: number, cy: number, cell: number) {
+  const size = cell * 0.3;
+  ctx.save();
+  ctx.lineWidth = Math.max(2, cell / 20);
+  ctx.lineCap = 'round';
+  if (mark === 'X') {
+    ctx.strokeStyle = X_COLOR;
+    ctx.beginPath();
+    ctx.moveTo(cx - size, cy - size);
+    ctx.lineTo(cx + size, cy + size);
+    ctx.moveTo(cx + size, cy - size);
+    ctx.lineTo(cx - size, cy + size);
+    ctx.stroke();
+  } else {
+    ctx.strokeStyle = O_COLOR;
+    ctx.beginPath();
+    ctx.arc(cx, cy, size, 0, Math.PI * 2);
+    ctx.stroke();
+  }
+  ctx.restore();
+}
+
+function drawGridLines(ctx: CanvasRenderingContext2D, x: number, y: number, px: number, n: number) {
+  const cell = px / n;
+  ctx.beginPath();
+  for (let i = 1; i < n; i++) {
+    ctx.moveTo(x + i * cell, y);
+    ctx.lineTo(x + i * cell, y + px);
+    ctx.moveTo(x, y + i * cell);
+    ctx.lineTo(x + px, y + i * cell);
+  }
+  ctx.stroke();
+}
 
 export default function TicTacToeCanvas() {
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  
-  const [board, setBoard] = useState<Board>(Array(9).fill(null));
-  const [currentPlayer, setCurrentPlayer] = useState<'X' | 'O'>('X');
-  const [winner, setWinner] = useState<'X' | 'O' | 'Draw' | null>(null);
-  const [gameOver, setGameOver] = useState(false);
-
-  // 승리 조건 체크
-  const checkWinner = (board: Board): 'X' | 'O' | 'Draw' | null => {
-    const winPatterns = [
-      [0, 1, 2], [3, 4, 5], [6, 7, 8], // 가로
-      [0, 3, 6], [1, 4, 7], [2, 5, 8], // 세로
-      [0, 4, 8], [2, 4, 6]             // 대각선
-    ];
-
-    for (const pattern of winPatterns) {
-      const [a, b, c] = pattern;
-      if (board[a] && board[a] === board[b] && board[a] === board[c]) {
-        return board[a] as 'X' | 'O';
-      }
-    }
-
-    // 무승부 체크 (모든 칸이 찬 경우)
-    if (board.every(cell => cell !== null)) {
-      return 'Draw';
-    }
 
-    return null;
-  };
-
-  // 게임 리셋
-  const resetGame = () => {
-    setBoard(Array(9).fill(null));
-    setCurrentPlayer('X');
-    setWinner(null);
-    setGameOver(false);
-  };
+  const [mode, setMode] = useState<Mode>('grid');
+  const [size, setSize] = useState(3);
+  const [k, setK] = useState(3);
+  // AI 상대 레벨 (TTT_AI_LEVELS 인덱스), null이면 2인 플레이
+  const [aiLevel, setAiLevel] = useState<number | null>(1);
+  const [playerMark, setPlayerMark] = useState<Mark>('X');
+  // 전용 AI 대신 범용 MCTS로 둘지 (레이팅에는 넣지 않음)
+  const [mcts, setMcts] = useState(false);
+  const aiMark: Mark | null = aiLevel === null ? null : playerMark === 'X' ? 'O' : 'X';
+
+  const search = useAiWorker<TttAiRequest, TttAiResponse>(
+    () => new Worker(new URL('./workers/tictactoeAi.worker.ts', import.meta.url), { type: 'module' })
+  );
+  const mctsSearch = useMctsSearch<TttGame, number>('tictactoe');
+  const ai = useMemo<TurnBasedAi<TttGame, number> | null>(
+    () =>
+      aiLevel === null
+        ? null
+        : {
+            isAiTurn: g => g.state.turn === aiMark,
+            search: g => (mcts ? mctsSearch(g, MCTS_DEFAULT_LEVEL) : search({ game: g, level: aiLevel }).then(res => res.move)),
+          },
+    [aiLevel, aiMark, mcts, search, mctsSearch]
+  );
+  const session = useTurnBasedGame(tttGame, () => newGame('grid', 3, 3), { ai });
+  const { state: game, legalMoves: moves, terminal: gameOver, thinking, canPlay, play, reset } = session;
+
+  const result = useMemo(() => gameResult(game), [game]);
+  // 모드/크기와 상관없이 틱택토 레이팅 하나로 센다
+  const rating = useAiRating('tictactoe', session, TTT_AI_LEVELS, mcts ? null : aiLevel, g => {
+    const outcome = gameResult(g)?.outcome;
+    return outcome === playerMark ? 1 : outcome === 'draw' ? 0.5 : 0;
+  });
+  const winner = result?.outcome ?? null;
+  const turn = game.state.turn;
+
+  // 게임 리셋 (모드/크기 변경도 여기로)
+  const startGame = useCallback(
+    (nextMode: Mode, nextSize: number, nextK: number) => reset(newGame(nextMode, nextSize, nextK)),
+    [reset]
+  );
+  const resetGame = useCallback(() => startGame(mode, size, k), [startGame, mode, size, k]);
 
   // 키보드 입력 처리
   useEffect(() => {
@@ -68,12 +132,12 @@ export default function TicTacToeCanvas() {
     };
 
     window.addEventListener('keydown', handleKeyDown, { capture: true });
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, []);
+    return () => window.removeEventListener('keydown', handleKeyDown, { capture: true });
+  }, [resetGame]);
 
   // 클릭 처리
   const handleClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
-    if (gameOver) return;
+    if (!canPlay) return;
 
     const canvas = canvasRef.current;
     if (!canvas) return;
@@ -82,38 +146,34 @@ export default function TicTacToeCanvas() {
     // CSS 크기 기준으로 좌표 계산 (DPR 보정)
     const scaleX = CANVAS_WIDTH / rect.width;
     const scaleY = CANVAS_HEIGHT / rect.height;
-    const x = (e.clientX - rect.left) * scaleX;
-    const y = (e.clientY - rect.top) * scaleY;
-
-    // 클릭한 셀 계산
-    const col = Math.floor((x - MARGIN) / CELL_SIZE);
-    const row = Math.floor((y - MARGIN) / CELL_SIZE);
-    const index = row * BOARD_SIZE + col;
-
-    // 유효한 클릭인지 확인
-    if (row < 0 || row >= BOARD_SIZE || col < 0 || col >= BOARD_SIZE) return;
-    if (board[index] !== null) return;
-
-    // 새로운 보드 상태
-    const newBoard = [...board];
-    newBoard[index] = currentPlayer;
-    setBoard(newBoard);
-
-    // 승리 체크
-    const result = checkWinner(newBoard);
-    if (result) {
-      setWinner(result);
-      setGameOver(true);
+    const x = (e.clientX - rect.left) * scaleX - MARGIN;
+    const y = (e.clientY - rect.top) * scaleY - MARGIN;
+
+    let index: number;
+    if (game.mode === 'grid') {
+      const n = game.state.size;
+      const col = Math.floor(x / (BOARD_PX / n));
+      const row = Math.floor(y / (BOARD_PX / n));
+      if (row < 0 || row >= n || col < 0 || col >= n) return;
+      index = row * n + col;
     } else {
-      setCurrentPlayer(currentPlayer === 'X' ? 'O' : 'X');
+      // 81칸 좌표 → 작은 보드 b, 그 안의 칸 c
+      const col = Math.floor(x / (BOARD_PX / 9));
+      const row = Math.floor(y / (BOARD_PX / 9));
+      if (row < 0 || row >= 9 || col < 0 || col >= 9) return;
+      const b = Math.floor(row / 3) * 3 + Math.floor(col / 3);
+      const c = (row % 3) * 3 + (col % 3);
+      index = b * 9 + c;
     }
+    if (!moves.includes(index)) return;
+    play(index);
   };
 
   // 그리기
   useEffect(() => {
     const canvas = canvasRef.current;
     if (!canvas) return;
-    
+
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
 
@@ -137,64 +197,65 @@ export default function TicTacToeCanvas() {
     ctx.save();
     ctx.strokeStyle = 'rgba(255,255,255,.06)';
     ctx.lineWidth = 2;
-    ctx.roundRect(MARGIN - 8, MARGIN - 8, CELL_SIZE * BOARD_SIZE + 16, CELL_SIZE * BOARD_SIZE + 16, 12);
+    ctx.roundRect(MARGIN - 8, MARGIN - 8, BOARD_PX + 16, BOARD_PX + 16, 12);
     ctx.stroke();
     ctx.restore();
 
-    // 격자 그리기
-    ctx.strokeStyle = 'rgba(255,255,255,0.12)';
-    ctx.lineWidth = 3;
-    
-    // 세로선
-    for (let i = 1; i < BOARD_SIZE; i++) {
-      const x = MARGIN + i * CELL_SIZE;
-      ctx.beginPath();
-      ctx.moveTo(x, MARGIN);
-      ctx.lineTo(x, MARGIN + CELL_SIZE * BOARD_SIZE);
-      ctx.stroke();
-    }
-
-    // 가로선
-    for (let i = 1; i < BOARD_SIZE; i++) {
-      const y = MARGIN + i * CELL_SIZE;
-      ctx.beginPath();
-      ctx.moveTo(MARGIN, y);
-      ctx.lineTo(MARGIN + CELL_SIZE * BOARD_SIZE, y);
-      ctx.stroke();
-    }
-
-    // X, O 그리기
-    for (let i = 0; i < board.length; i++) {
-      const player = board[i];
-      if (!player) continue;
-
-      const row = Math.floor(i / BOARD_SIZE);
-      const col = i % BOARD_SIZE;
-      const centerX = MARGIN + col * CELL_SIZE + CELL_SIZE / 2;
-      const centerY = MARGIN + row * CELL_SIZE + CELL_SIZE / 2;
-
-      ctx.save();
-      ctx.lineWidth = 6;
-      ctx.lineCap = 'round';
-
-      if (player === 'X') {
-        // X 그리기
-        ctx.strokeStyle = '#7DE5FF';
-        const size = 35;
-        ctx.beginPath();
-        ctx.moveTo(centerX - size, centerY - size);
-        ctx.lineTo(centerX + size, centerY + size);
-        ctx.moveTo(centerX + size, centerY - size);
-        ctx.lineTo(centerX - size, centerY + size);
-        ctx.stroke();
-      } else if (player === 'O') {
-        // O 그리기
-        ctx.strokeStyle = '#FFB86B';
+    if (game.mode === 'grid') {
+      const { size: n, cells } = game.state;
+      const cell = BOARD_PX / n;
+      ctx.strokeStyle = 'rgba(255,255,255,0.12)';
+      ctx.lineWidth = 3;
+      drawGridLines(ctx, MARGIN, MARGIN, BOARD_PX, n);
+      cells.forEach((mark, i) => {
+        if (!mark) return;
+        drawMark(ctx, mark, MARGIN + (i % n) * cell + cell / 2, MARGIN + Math.floor(i / n) * cell + cell / 2, cell);
+      });
+      // 이긴 줄
+      if (result && result.line.length) {
+        const first = result.line[0];
+        const last = result.line[result.line.length - 1];
+        ctx.save();
+        ctx.strokeStyle = 'rgba(255,255,255,0.8)';
+        ctx.lineWidth = 5;
+        ctx.lineCap = 'round';
         ctx.beginPath();
-        ctx.arc(centerX, centerY, 35, 0, Math.PI * 2);
+        ctx.moveTo(MARGIN + (first % n) * cell + cell / 2, MARGIN + Math.floor(first / n) * cell + cell / 2);
+        ctx.lineTo(MARGIN + (last % n) * cell + cell / 2, MARGIN + Math.floor(last / n) * cell + cell / 2);
         ctx.stroke();
+        ctx.restore();
       }
-      ctx.restore();
+    } else {
+      const { cells, boards, forced } = game.state;
+      const sub = BOARD_PX / 3;
+      const cell = sub / 3;
+      for (let b = 0; b < 9; b++) {
+        const bx = MARGIN + (b % 3) * sub;
+        const by = MARGIN + Math.floor(b / 3) * sub;
+        // 둘 수 있는 작은 보드 강조
+        if (!gameOver && !boards[b] && (forced === null || forced === b)) {
+          ctx.fillStyle = turn === 'X' ? 'rgba(125,229,255,0.08)' : 'rgba(255,184,107,0.08)';
+          ctx.fillRect(bx + 4, by + 4, sub - 8, sub - 8);
+        }
+        ctx.strokeStyle = 'rgba(255,255,255,0.1)';
+        ctx.lineWidth = 1.5;
+        drawGridLines(ctx, bx + 6, by + 6, sub - 12, 3);
+        for (let c = 0; c < 9; c++) {
+          const mark = cells[b * 9 + c];
+          if (!mark) continue;
+          drawMark(ctx, mark, bx + 6 + (c % 3) * ((sub - 12) / 3) + (sub - 12) / 6, by + 6 + Math.floor(c / 3) * ((sub - 12) / 3) + (sub - 12) / 6, cell);
+        }
+        // 끝난 작은 보드는 큰 표시로 덮기
+        const outcome = boards[b];
+        if (outcome) {
+          ctx.fillStyle = 'rgba(15,15,18,0.55)';
+          ctx.fillRect(bx + 4, by + 4, sub - 8, sub - 8);
+          if (outcome !== 'draw') drawMark(ctx, outcome, bx + sub / 2, by + sub / 2, sub);
+        }
+      }
+      ctx.strokeStyle = 'rgba(255,255,255,0.3)';
+      ctx.lineWidth = 3;
+      drawGridLines(ctx, MARGIN, MARGIN, BOARD_PX, 3);
     }
 
     // 게임 상태 표시
@@ -202,34 +263,75 @@ export default function TicTacToeCanvas() {
       ctx.save();
       ctx.fillStyle = 'rgba(15,15,18,0.7)';
       ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
-      
+
       ctx.fillStyle = '#ffffff';
       ctx.font = '600 32px "Segoe UI", system-ui';
       ctx.textAlign = 'center';
       ctx.textBaseline = 'middle';
-      
-      if (winner === 'Draw') {
+
+      if (winner === 'draw') {
         ctx.fillText('무승부!', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 15);
       } else {
         ctx.fillText(`${winner} 승리!`, CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 - 15);
       }
-      
+
       ctx.font = '500 18px "Segoe UI", system-ui';
       ctx.fillStyle = '#cfcfd4';
       ctx.fillText('R: 재시작', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2 + 25);
       ctx.restore();
     }
 
-  }, [board, gameOver, winner]);
+  }, [game, result, gameOver, winner, turn]);
+
+  const resultText = () => {
+    if (winner === 'draw') return '무승부 — 게임 오버';
+    if (aiMark === null) return `${winner} 승리!`;
+    return winner === playerMark ? '승리!' : '패배 — 게임 오버';
+  };
 
   const getStatusText = () => {
-    if (gameOver) {
-      if (winner === 'Draw') return '무승부!';
-      return `${winner} 승리!`;
-    }
-    return `${currentPlayer} 차례`;
+    if (gameOver) return resultText();
+    return `${turn} 차례${thinking ? ' (AI 생각 중…)' : ''}`;
   };
 
+  const goalText =
+    game.mode === 'ultimate'
+      ? '작은 보드 셋을 한 줄로 먼저 차지하세요! 방금 둔 칸 위치의 작은 보드가 상대가 둘 곳입니다.'
+      : `가로·세로·대각선으로 ${game.state.k}개를 먼저 연결하세요!`;
+
+  // 모드/크기/상대/기호를 바꾸면 새 판
+  const chooseMode = (next: Mode) => {
+    setMode(next);
+    startGame(next, size, k);
+  };
+  const chooseSize = (next: number) => {
+    const nextK = Math.min(k, next, MAX_K);
+    setSize(next);
+    setK(nextK);
+    startGame('grid', next, nextK);
+  };
+  const chooseK = (next: number) => {
+    setK(next);
+    startGame('grid', size, next);
+  };
+  const chooseOpponent = (level: number | null) => {
+    setMcts(false);
+    setAiLevel(level);
+    resetGame();
+  };
+  const chooseMcts = () => {
+    setMcts(true);
+    setAiLevel(level => level ?? 1);
+    resetGame();
+  };
+  const chooseMark = (mark: Mark) => {
+    setPlayerMark(mark);
+    resetGame();
+  };
+
+  const buttonRow: React.CSSProperties = { display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'center' };
+  const smallButton: React.CSSProperties = { padding: '4px 10px', fontSize: 13 };
+
   // 상단 정보 (게임 목표/상태)
   const topInfo = (
     <div style={{ textAlign: 'center' }}>
@@ -244,23 +346,69 @@ export default function TicTacToeCanvas() {
         fontSize: 14,
         color: '#bcbcbe'
       }}>
-        가로·세로·대각선으로 3개를 먼저 연결하세요!
+        {goalText}
       </div>
     </div>
   );
 
+  const actionButtons = (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8, alignItems: 'center' }}>
+      <div style={buttonRow}>
+        <GameButton variant={mode === 'grid' ? 'primary' : 'secondary'} onClick={() => chooseMode('grid')}>N×N</GameButton>
+        <GameButton variant={mode === 'ultimate' ? 'primary' : 'secondary'} onClick={() => chooseMode('ultimate')}>얼티밋</GameButton>
+      </div>
+      {mode === 'grid' && (
+        <div style={buttonRow}>
+          {GRID_SIZES.map(n => (
+            <GameButton key={n} variant={size === n ? 'primary' : 'secondary'} onClick={() => chooseSize(n)} style={smallButton}>
+              {n}×{n}
+            </GameButton>
+          ))}
+          {Array.from({ length: Math.min(size, MAX_K) - 2 }, (_, i) => i + 3).map(n => (
+            <GameButton key={`k${n}`} variant={k === n ? 'primary' : 'secondary'} onClick={() => chooseK(n)} style={smallButton}>
+              {n}목
+            </GameButton>
+          ))}
+        </div>
+      )}
+      <div style={buttonRow}>
+        <GameButton variant={aiLevel === null ? 'primary' : 'secondary'} onClick={() => chooseOpponent(null)}>
+          2인
+        </GameButton>
+        {TTT_AI_LEVELS.map((level, i) => (
+          <GameButton key={level.label} variant={aiLevel === i && !mcts ? 'primary' : 'secondary'} onClick={() => chooseOpponent(i)}>
+            AI {level.label}
+          </GameButton>
+        ))}
+        <GameButton variant={mcts ? 'primary' : 'secondary'} onClick={chooseMcts}>
+          AI MCTS
+        </GameButton>
+      </div>
+      {aiLevel !== null && (
+        <div style={buttonRow}>
+          {(['X', 'O'] as Mark[]).map(mark => (
+            <GameButton key={mark} variant={playerMark === mark ? 'primary' : 'secondary'} onClick={() => chooseMark(mark)}>
+              {mark}로 두기
+            </GameButton>
+          ))}
+        </div>
+      )}
+      <RatingPanel rating={rating} levels={TTT_AI_LEVELS} currentLevel={mcts ? null : aiLevel} onChooseLevel={chooseOpponent} />
+    </div>
+  );
+
   // 하단 정보 (조작법)
   const bottomInfo = (
     <div>
       <div style={{ marginBottom: spacing.xs }}>
-        <strong>조작법:</strong> 마우스로 빈 칸을 클릭하여 X 또는 O를 배치하세요
+        <strong>조작법:</strong> 마우스로 빈 칸을 클릭하여 X 또는 O를 배치하세요 (X가 먼저)
       </div>
       <div>
-        <strong>단축키:</strong> R키 = 새 게임, Escape = 메뉴로 돌아가기
+        <strong>단축키:</strong> R키 = 새 게임, Ctrl+Z/Y = 무르기/다시, Escape = 메뉴로 돌아가기
       </div>
       {gameOver && (
         <div style={{ marginTop: spacing.sm }}>
-          <GameButton 
+          <GameButton
             onClick={resetGame}
             variant="primary"
             size="large"
@@ -275,21 +423,25 @@ export default function TicTacToeCanvas() {
 
   return (
     <GameLayout
-      gameStatus={winner ? (winner === 'Draw' ? '게임 오버' : '승리!') : undefined} 
+      gameStatus={gameOver ? resultText() : undefined}
       title="⭕ 틱택토"
       topInfo={topInfo}
       bottomInfo={bottomInfo}
+      actionButtons={actionButtons}
     >
-      <GameCanvas
-        ref={canvasRef}
-        width={CANVAS_WIDTH}
-        height={CANVAS_HEIGHT}
-        onClick={handleClick}
-        gameTitle="Tic-Tac-Toe"
-        style={{
-          cursor: gameOver ? "default" : "pointer"
-        }}
-      />
+      <div style={{ display: 'flex', gap: 12, flexWrap: 'wrap', justifyContent: 'center', alignItems: 'stretch' }}>
+        <GameCanvas
+          ref={canvasRef}
+          width={CANVAS_WIDTH}
+          height={CANVAS_HEIGHT}
+          onClick={handleClick}
+          gameTitle="Tic-Tac-Toe"
+          style={{
+            cursor: canPlay ? "pointer" : "default"
+          }}
+        />
+        <TurnHistoryPanel game={session} />
+      </div>
     </GameLayout>
   );
-}
\ No newline at end of file
+}
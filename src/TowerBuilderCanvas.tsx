@@ -133,6 +133,8 @@ const TowerBuilderCanvas: React.FC<{ width?: number; height?: number }> = ({ wid
   return (
     <GameManager
       title="Tower Builder"
+      gameId="tower"
+      score={score}
       gameIcon="🏗️"
       gameStats={gameStats}
       gameStatus={status || undefined}
@@ -3,6 +3,7 @@ import GameManager from './components/GameManager';
 import GameCanvas from './components/GameCanvas';
 import GameButton from './components/GameButton';
 import { layout } from './theme/gameTheme';
+import { useGameLoop } from './hooks/useGameLoop';
 
 interface Fruit {
   x: number;
@@ -40,7 +41,6 @@ const createFruit = (x = CANVAS_WIDTH / 2) => {
 
 const WatermelonCanvas: React.FC = () => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const animationRef = useRef<number>();
   const fruitsRef = useRef<Fruit[]>([]);
   const currentRef = useRef<Fruit>(createFruit());
   const keys = useRef({ left: false, right: false });
@@ -67,61 +67,6 @@ const WatermelonCanvas: React.FC = () => {
     currentRef.current = createFruit(lastX);
   }, [gameOver]);
 
-  const handleKeyDown = useCallback(
-    (e: KeyboardEvent) => {
-      if (['a', 'd', 'ArrowLeft', 'ArrowRight', ' ', 'r'].includes(e.key)) {
-        e.preventDefault();
-        e.stopPropagation();
-      }
-      switch (e.key) {
-        case 'a':
-        case 'ArrowLeft':
-          keys.current.left = true;
-          break;
-        case 'd':
-        case 'ArrowRight':
-          keys.current.right = true;
-          break;
-        case ' ': // drop
-          dropCurrent();
-          break;
-        case 'r':
-          reset();
-          break;
-      }
-    },
-    [dropCurrent, reset]
-  );
-
-  const handleKeyUp = useCallback((e: KeyboardEvent) => {
-    if (['a', 'd', 'ArrowLeft', 'ArrowRight'].includes(e.key)) {
-      e.preventDefault();
-      e.stopPropagation();
-    }
-    switch (e.key) {
-      case 'a':
-      case 'ArrowLeft':
-        keys.current.left = false;
-        break;
-      case 'd':
-      case 'ArrowRight':
-        keys.current.right = false;
-        break;
-    }
-  }, []);
-
-  useEffect(() => {
-    const canvas = canvasRef.current;
-    canvas?.addEventListener('click', dropCurrent);
-    window.addEventListener('keydown', handleKeyDown);
-    window.addEventListener('keyup', handleKeyUp);
-    return () => {
-      canvas?.removeEventListener('click', dropCurrent);
-      window.removeEventListener('keydown', handleKeyDown);
-      window.removeEventListener('keyup', handleKeyUp);
-    };
-  }, [dropCurrent, handleKeyDown, handleKeyUp]);
-
   const update = useCallback(
     (dt: number) => {
       const current = currentRef.current;
@@ -252,29 +197,104 @@ const WatermelonCanvas: React.FC = () => {
     }
   }, []);
 
-  useEffect(() => {
-    const ctx = canvasRef.current?.getContext('2d');
-    if (!ctx) return;
-    let last = performance.now();
-
-    const loop = (time: number) => {
-      const dt = (time - last) / 1000;
-      last = time;
-      if (!gameOver) update(dt);
+  // 합쳐지는 물리라 보간 없이 현재 상태를 그린다
+  const { paused, resume, togglePause } = useGameLoop({
+    update: (stepMs) => update(stepMs / 1000),
+    render: () => {
+      const ctx = canvasRef.current?.getContext('2d');
+      if (!ctx) return;
       draw(ctx);
-      animationRef.current = requestAnimationFrame(loop);
+      if (paused) {
+        ctx.fillStyle = 'rgba(0,0,0,0.5)';
+        ctx.fillRect(0, 0, CANVAS_WIDTH, CANVAS_HEIGHT);
+        ctx.fillStyle = '#fff';
+        ctx.font = 'bold 32px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        ctx.fillText('일시정지 (P)', CANVAS_WIDTH / 2, CANVAS_HEIGHT / 2);
+      }
+    },
+    running: !gameOver,
+    canvas: { ref: canvasRef, width: CANVAS_WIDTH, height: CANVAS_HEIGHT },
+  });
+
+  const restart = useCallback(() => {
+    resume();
+    reset();
+  }, [reset, resume]);
+
+  const handleKeyDown = useCallback(
+    (e: KeyboardEvent) => {
+      if (['a', 'd', 'ArrowLeft', 'ArrowRight', ' ', 'r', 'p'].includes(e.key)) {
+        e.preventDefault();
+        e.stopPropagation();
+      }
+      if (e.key === 'r') {
+        restart();
+        return;
+      }
+      if (e.key === 'p') {
+        if (!gameOver) togglePause();
+        return;
+      }
+      if (paused) return;
+      switch (e.key) {
+        case 'a':
+        case 'ArrowLeft':
+          keys.current.left = true;
+          break;
+        case 'd':
+        case 'ArrowRight':
+          keys.current.right = true;
+          break;
+        case ' ': // drop
+          dropCurrent();
+          break;
+      }
+    },
+    [dropCurrent, gameOver, paused, restart, togglePause]
+  );
+
+  const handleKeyUp = useCallback((e: KeyboardEvent) => {
+    if (['a', 'd', 'ArrowLeft', 'ArrowRight'].includes(e.key)) {
+      e.preventDefault();
+      e.stopPropagation();
+    }
+    switch (e.key) {
+      case 'a':
+      case 'ArrowLeft':
+        keys.current.left = false;
+        break;
+      case 'd':
+      case 'ArrowRight':
+        keys.current.right = false;
+        break;
+    }
+  }, []);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const handleClick = () => {
+      if (!paused) dropCurrent();
+    };
+    canvas?.addEventListener('click', handleClick);
+    window.addEventListener('keydown', handleKeyDown);
+    window.addEventListener('keyup', handleKeyUp);
+    return () => {
+      canvas?.removeEventListener('click', handleClick);
+      window.removeEventListener('keydown', handleKeyDown);
+      window.removeEventListener('keyup', handleKeyUp);
     };
-    animationRef.current = requestAnimationFrame(loop);
-    return () => cancelAnimationFrame(animationRef.current!);
-  }, [update, draw, gameOver]);
+  }, [dropCurrent, handleKeyDown, handleKeyUp, paused]);
+
 
   const gameStats = (
     <div style={{ textAlign: 'center' }}>점수: {score}</div>
   );
   const instructions =
-    'A/D 또는 ←→로 이동, Space/클릭으로 과일을 떨어뜨리세요. 같은 과일을 합쳐 더 큰 수박을 만드세요. R로 재시작.';
+    'A/D 또는 ←→로 이동, Space/클릭으로 과일을 떨어뜨리세요. 같은 과일을 합쳐 더 큰 수박을 만드세요. P로 일시정지, R로 재시작.';
   const actionButtons = (
-    <GameButton onClick={reset} variant="primary" size="large">
+    <GameButton onClick={restart} variant="primary" size="large">
       다시 시작
     </GameButton>
   );
@@ -282,6 +302,8 @@ const WatermelonCanvas: React.FC = () => {
   return (
     <GameManager
       title="Watermelon Game"
+      gameId="watermelon"
+      score={score}
       gameIcon="🍉"
       gameStats={gameStats}
       gameStatus={gameOver ? '게임 오버' : undefined}
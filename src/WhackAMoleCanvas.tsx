@@ -106,6 +106,8 @@ const WhackAMoleCanvas: React.FC = () => {
   return (
     <GameManager
       title="Whack-a-Mole"
+      gameId="whack"
+      score={score}
       gameIcon="🐹"
       gameStats={gameStats}
       gameStatus={!running ? '게임 오버' : undefined}
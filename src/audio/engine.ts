@@ -0,0 +1,204 @@
+/**
+ * 공용 오디오 엔진 — Web Audio로 효과음을 즉석 합성하고 배경음 버스를 둔다
+ *
+ *   master ─┬─ sfx   (효과음)
+ *           └─ music (배경음)
+ *
+ * AudioContext는 브라우저 자동재생 정책 때문에 첫 재생(사용자 입력) 시점에 만든다.
+ * 볼륨 설정은 localStorage에 저장되어 모든 게임에 공통으로 적용된다.
+ */
+
+export type SfxName = 'hit' | 'score' | 'lineClear' | 'gameOver' | 'victory';
+export type AudioBus = 'sfx' | 'music';
+
+export interface AudioSettings {
+  // 0~1
+  master: number;
+  sfx: number;
+  music: number;
+  muted: boolean;
+}
+
+export interface ToneOptions {
+  type?: OscillatorType;
+  // 시작 음량 (버스 볼륨 적용 전)
+  gain?: number;
+  // 지금부터 몇 초 뒤에 울릴지
+  delay?: number;
+  // 끝 주파수 (주면 지수 곡선으로 미끄러짐)
+  slideTo?: number;
+  bus?: AudioBus;
+}
+
+export interface MusicNote {
+  // 0이면 쉼표
+  freq: number;
+  // 박 단위 길이
+  beats: number;
+}
+
+const STORAGE_KEY = 'audio_settings';
+const DEFAULT_SETTINGS: AudioSettings = { master: 0.8, sfx: 0.8, music: 0.5, muted: false };
+
+let settings: AudioSettings = loadSettings();
+const listeners = new Set<(settings: AudioSettings) => void>();
+
+let ctx: AudioContext | null = null;
+let masterGain: GainNode | null = null;
+const busGains: Partial<Record<AudioBus, GainNode>> = {};
+
+function loadSettings(): AudioSettings {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}') as Partial<AudioSettings>;
+    return { ...DEFAULT_SETTINGS, ...saved };
+  } catch {
+    return { ...DEFAULT_SETTINGS };
+  }
+}
+
+function applyVolumes() {
+  if (!ctx || !masterGain) return;
+  const now = ctx.currentTime;
+  masterGain.gain.setTargetAtTime(settings.muted ? 0 : settings.master, now, 0.01);
+  busGains.sfx?.gain.setTargetAtTime(settings.sfx, now, 0.01);
+  busGains.music?.gain.setTargetAtTime(settings.music, now, 0.01);
+}
+
+/** 컨텍스트 준비 — 지원하지 않는 환경이면 null */
+function ensureContext(): AudioContext | null {
+  if (!ctx) {
+    const Ctor = window.AudioContext ?? (window as unknown as { webkitAudioContext?: typeof AudioContext }).webkitAudioContext;
+    if (!Ctor) return null;
+    ctx = new Ctor();
+    masterGain = ctx.createGain();
+    masterGain.connect(ctx.destination);
+    for (const bus of ['sfx', 'music'] as const) {
+      const gain = ctx.createGain();
+      gain.connect(masterGain);
+      busGains[bus] = gain;
+    }
+    applyVolumes();
+  }
+  // 탭 전환 등으로 멈춘 컨텍스트 재개
+  if (ctx.state === 'suspended') void ctx.resume();
+  return ctx;
+}
+
+export const getAudioSettings = () => settings;
+
+export function setAudioSettings(patch: Partial<AudioSettings>) {
+  settings = { ...settings, ...patch };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  applyVolumes();
+  listeners.forEach((listener) => listener(settings));
+}
+
+export function subscribeAudioSettings(listener: (settings: AudioSettings) => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/** 음 하나 — 짧은 어택 뒤 지수 감쇠 */
+export function playTone(freq: number, durationMs: number, options: ToneOptions = {}) {
+  const audio = ensureContext();
+  const out = busGains[options.bus ?? 'sfx'];
+  if (!audio || !out || settings.muted) return;
+  const { type = 'sine', gain = 0.2, delay = 0, slideTo } = options;
+  const start = audio.currentTime + delay;
+  const end = start + durationMs / 1000;
+
+  const osc = audio.createOscillator();
+  const env = audio.createGain();
+  osc.type = type;
+  osc.frequency.setValueAtTime(freq, start);
+  if (slideTo) osc.frequency.exponentialRampToValueAtTime(slideTo, end);
+  env.gain.setValueAtTime(0.0001, start);
+  env.gain.exponentialRampToValueAtTime(gain, start + 0.01);
+  env.gain.exponentialRampToValueAtTime(0.0001, end);
+  osc.connect(env);
+  env.connect(out);
+  osc.start(start);
+  osc.stop(end + 0.02);
+}
+
+/** 화이트 노이즈 버스트 (타격/폭발 질감) */
+function playNoise(durationMs: number, gain: number, delay = 0) {
+  const audio = ensureContext();
+  const out = busGains.sfx;
+  if (!audio || !out || settings.muted) return;
+  const length = Math.ceil((audio.sampleRate * durationMs) / 1000);
+  const buffer = audio.createBuffer(1, length, audio.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < length; i++) data[i] = (Math.random() * 2 - 1) * (1 - i / length);
+  const src = audio.createBufferSource();
+  const env = audio.createGain();
+  src.buffer = buffer;
+  env.gain.value = gain;
+  src.connect(env);
+  env.connect(out);
+  src.start(audio.currentTime + delay);
+}
+
+// 효과음 레시피
+const SFX: Record<SfxName, () => void> = {
+  hit: () => {
+    playTone(220, 70, { type: 'square', gain: 0.12, slideTo: 140 });
+    playNoise(40, 0.08);
+  },
+  score: () => {
+    playTone(880, 80, { type: 'triangle', gain: 0.18 });
+    playTone(1320, 120, { type: 'triangle', gain: 0.18, delay: 0.07 });
+  },
+  lineClear: () => {
+    [523, 659, 784, 1047].forEach((f, i) => playTone(f, 110, { type: 'square', gain: 0.1, delay: i * 0.05 }));
+  },
+  gameOver: () => {
+    [392, 330, 262].forEach((f, i) => playTone(f, 260, { type: 'sawtooth', gain: 0.1, delay: i * 0.22 }));
+    playTone(196, 600, { type: 'sawtooth', gain: 0.1, delay: 0.66, slideTo: 98 });
+  },
+  victory: () => {
+    [523, 659, 784].forEach((f, i) => playTone(f, 140, { type: 'triangle', gain: 0.18, delay: i * 0.12 }));
+    playTone(1047, 500, { type: 'triangle', gain: 0.2, delay: 0.36 });
+  },
+};
+
+export function playSfx(name: SfxName) {
+  SFX[name]();
+}
+
+/* ───── 배경음 버스 ───── */
+
+let musicTimer: ReturnType<typeof setInterval> | null = null;
+
+// 미리 예약해 두는 구간 (setInterval 지터 흡수)
+const LOOKAHEAD_S = 0.2;
+const SCHEDULE_INTERVAL_MS = 50;
+
+/** 음 목록을 music 버스로 반복 재생 — 다시 부르면 이전 곡은 멈춘다 */
+export function playMusic(notes: MusicNote[], { bpm = 120, type = 'triangle' as OscillatorType, gain = 0.12 } = {}) {
+  stopMusic();
+  const audio = ensureContext();
+  if (!audio || !notes.length) return;
+  const beat = 60 / bpm;
+  let index = 0;
+  let nextAt = audio.currentTime + 0.05;
+  const schedule = () => {
+    while (nextAt < audio.currentTime + LOOKAHEAD_S) {
+      const note = notes[index];
+      if (note.freq > 0) {
+        playTone(note.freq, note.beats * beat * 900, { type, gain, bus: 'music', delay: nextAt - audio.currentTime });
+      }
+      nextAt += note.beats * beat;
+      index = (index + 1) % notes.length;
+    }
+  };
+  schedule();
+  musicTimer = setInterval(schedule, SCHEDULE_INTERVAL_MS);
+}
+
+export function stopMusic() {
+  if (musicTimer) clearInterval(musicTimer);
+  musicTimer = null;
+}
@@ -0,0 +1,146 @@
+import GameButton from './GameButton';
+import type { GameAnalysis } from '../hooks/useGameAnalysis';
+import { GRADE_COLOR, GRADE_LABEL, GRADE_SYMBOL, MoveGrade } from '../shared/analysis';
+import { colors, spacing } from '../theme/gameTheme';
+
+interface AnalysisPanelProps<Move> {
+  analysis: GameAnalysis<Move>;
+  // 수순 표기 (history.labels)
+  labels: string[];
+  // 보고 있는 위치
+  ply: number;
+  onSelect: (ply: number) => void;
+  // [기준 쪽, 상대] 이름 (예: ['백', '흑'])
+  sideNames: [string, string];
+  // 기준 쪽 점수 표기
+  formatScore: (score: number) => string;
+}
+
+const CHART_W = 360;
+const CHART_H = 120;
+const PAD = 6;
+// 요약과 그래프 점에 보이는 등급
+const COUNTED: MoveGrade[] = ['inaccuracy', 'mistake', 'blunder'];
+
+/**
+ * 대국 후 분석 — 승률 그래프(위쪽이 기준 쪽 우세), 쪽별 실수 요약, 보고 있는 수의 평가와 최선수
+ *
+ * 그래프나 실수 목록을 누르면 그 수로 이동한다.
+ */
+function AnalysisPanel<Move>({ analysis, labels, ply, onSelect, sideNames, formatScore }: AnalysisPanelProps<Move>) {
+  const { evals, reviews, total } = analysis;
+  const last = Math.max(total - 1, 1);
+  const x = (i: number) => PAD + (i / last) * (CHART_W - PAD * 2);
+  const y = (chance: number) => PAD + (1 - chance) * (CHART_H - PAD * 2);
+  const line = evals.map((e, i) => `${x(i)},${y(e.winChance)}`).join(' ');
+  const area = evals.length ? `${x(0)},${y(0.5)} ${line} ${x(evals.length - 1)},${y(0.5)}` : '';
+
+  const selectAt = (e: React.MouseEvent<SVGSVGElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    const px = ((e.clientX - rect.left) / rect.width) * CHART_W;
+    onSelect(Math.round(((px - PAD) / (CHART_W - PAD * 2)) * last));
+  };
+
+  const counts = (byReference: boolean) =>
+    COUNTED.map(grade => `${GRADE_LABEL[grade]} ${reviews.filter(r => r.byReference === byReference && r.grade === grade).length}`).join(' · ');
+  const notable = reviews.map((r, i) => ({ ...r, ply: i + 1 })).filter(r => r.grade === 'mistake' || r.grade === 'blunder');
+
+  const current = ply > 0 ? reviews[ply - 1] : undefined;
+  const here = evals[ply];
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: spacing.sm,
+        alignItems: 'center',
+        width: '100%',
+        maxWidth: CHART_W + 24,
+        padding: spacing.sm,
+        boxSizing: 'border-box',
+        background: colors.panelBackground,
+        border: `2px solid ${colors.canvasBorder}`,
+        borderRadius: 8,
+        color: colors.textPrimary,
+        fontSize: 14,
+      }}
+    >
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center' }}>
+        <strong>🔍 대국 분석</strong>
+        {evals.length < total && (
+          <span style={{ color: colors.muted }}>
+            분석 중 {evals.length}/{total}
+          </span>
+        )}
+        <GameButton variant="secondary" onClick={analysis.stop}>
+          닫기
+        </GameButton>
+      </div>
+      <svg
+        width={CHART_W}
+        height={CHART_H}
+        onClick={selectAt}
+        style={{ maxWidth: '100%', background: 'rgba(255,255,255,0.5)', borderRadius: 6, cursor: 'pointer' }}
+      >
+        <line x1={0} x2={CHART_W} y1={y(0.5)} y2={y(0.5)} stroke={colors.canvasBorder} strokeDasharray="4 3" />
+        {area && <polygon points={area} fill="rgba(217, 120, 69, 0.18)" />}
+        {line && <polyline points={line} fill="none" stroke={colors.accent} strokeWidth={2} />}
+        {reviews.map((r, i) =>
+          COUNTED.includes(r.grade) ? (
+            <circle key={i} cx={x(i + 1)} cy={y(evals[i + 1].winChance)} r={4} fill={GRADE_COLOR[r.grade]}>
+              <title>
+                {i + 1}수 {labels[i]}
+                {GRADE_SYMBOL[r.grade]} — {GRADE_LABEL[r.grade]}
+              </title>
+            </circle>
+          ) : null
+        )}
+        <line x1={x(ply)} x2={x(ply)} y1={0} y2={CHART_H} stroke={colors.textPrimary} strokeWidth={1} />
+        <text x={4} y={12} fontSize={10} fill={colors.muted}>
+          {sideNames[0]} 우세
+        </text>
+        <text x={4} y={CHART_H - 4} fontSize={10} fill={colors.muted}>
+          {sideNames[1]} 우세
+        </text>
+      </svg>
+      <div style={{ textAlign: 'center', lineHeight: 1.6 }}>
+        <div>
+          {sideNames[0]}: {counts(true)}
+        </div>
+        <div>
+          {sideNames[1]}: {counts(false)}
+        </div>
+      </div>
+      <div style={{ textAlign: 'center', minHeight: 42 }}>
+        {here && <div>평가 {formatScore(here.score)} ({sideNames[0]} 기준)</div>}
+        {current && (
+          <div>
+            {ply}수 {labels[ply - 1]}
+            <span style={{ color: GRADE_COLOR[current.grade], fontWeight: 'bold' }}>
+              {GRADE_SYMBOL[current.grade]} {GRADE_LABEL[current.grade]}
+            </span>
+            {current.grade !== 'best' && current.best && <> — 최선: {current.best}</>}
+          </div>
+        )}
+      </div>
+      {notable.length > 0 && (
+        <div style={{ display: 'flex', gap: 4, flexWrap: 'wrap', justifyContent: 'center' }}>
+          {notable.map(r => (
+            <GameButton
+              key={r.ply}
+              variant={r.ply === ply ? 'primary' : 'secondary'}
+              onClick={() => onSelect(r.ply)}
+              style={{ padding: '2px 8px', fontSize: 12 }}
+            >
+              {r.ply}수 {labels[r.ply - 1]}
+              {GRADE_SYMBOL[r.grade]}
+            </GameButton>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default AnalysisPanel;
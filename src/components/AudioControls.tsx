@@ -0,0 +1,81 @@
+import React from 'react';
+import { colors, spacing } from '../theme/gameTheme';
+import { AudioSettings, getAudioSettings, setAudioSettings, subscribeAudioSettings } from '../audio/engine';
+
+const SLIDERS: { key: keyof Omit<AudioSettings, 'muted'>; label: string }[] = [
+  { key: 'master', label: '전체' },
+  { key: 'sfx', label: '효과음' },
+  { key: 'music', label: '배경음' },
+];
+
+/**
+ * 음소거 버튼 + 볼륨 팝오버 (전체/효과음/배경음)
+ */
+const AudioControls: React.FC<{ buttonStyle: React.CSSProperties }> = ({ buttonStyle }) => {
+  const [settings, setSettings] = React.useState(getAudioSettings);
+  const [open, setOpen] = React.useState(false);
+
+  React.useEffect(() => subscribeAudioSettings(setSettings), []);
+
+  const silent = settings.muted || settings.master === 0;
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <button
+        onClick={(e) => {
+          e.currentTarget.blur();
+          setOpen(!open);
+        }}
+        aria-label="소리 설정"
+        style={buttonStyle}
+      >
+        {silent ? '🔇' : '🔊'}
+      </button>
+      {open && (
+        <div
+          style={{
+            position: 'absolute',
+            top: 'calc(100% + 8px)',
+            right: 0,
+            width: 220,
+            background: 'linear-gradient(180deg, rgba(255,250,236,0.98), rgba(251,239,214,0.98))',
+            border: `2px solid ${colors.canvasBorder}`,
+            borderRadius: 12,
+            padding: spacing.md,
+            boxShadow: '0 10px 30px rgba(80,50,20,0.3)',
+            color: colors.textPrimary,
+            fontSize: 13,
+            display: 'flex',
+            flexDirection: 'column',
+            gap: spacing.sm,
+          }}
+        >
+          <label style={{ display: 'flex', alignItems: 'center', gap: spacing.sm, fontWeight: 600 }}>
+            <input
+              type="checkbox"
+              checked={settings.muted}
+              onChange={(e) => setAudioSettings({ muted: e.target.checked })}
+            />
+            음소거
+          </label>
+          {SLIDERS.map(({ key, label }) => (
+            <label key={key} style={{ display: 'grid', gridTemplateColumns: '48px 1fr 32px', alignItems: 'center', gap: spacing.xs }}>
+              <span>{label}</span>
+              <input
+                type="range"
+                min={0}
+                max={100}
+                value={Math.round(settings[key] * 100)}
+                disabled={settings.muted}
+                onChange={(e) => setAudioSettings({ [key]: Number(e.target.value) / 100 })}
+              />
+              <span style={{ textAlign: 'right', color: colors.textSecondary }}>{Math.round(settings[key] * 100)}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AudioControls;
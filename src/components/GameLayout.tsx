@@ -1,15 +1,21 @@
 import React from 'react';
 import GameManager from './GameManager';
+import { GameId } from '../games';
+import { Replay } from '../shared/replay/core';
 
 interface GameLayoutProps {
   title: string;
+  gameId?: GameId;
   children: React.ReactNode;
   topInfo?: React.ReactNode;
   bottomInfo?: React.ReactNode;
   onBackToMenu?: () => void;
+  actionButtons?: React.ReactNode;
   // 게임오버/승리 배너 오버레이용 (GameManager로 전달)
   gameStatus?: string;
   score?: number;
+  replay?: Replay;
+  overlayAction?: { label: string; onClick: () => void };
 }
 
 /**
@@ -17,21 +23,29 @@ interface GameLayoutProps {
  */
 const GameLayout: React.FC<GameLayoutProps> = ({
   title,
+  gameId,
   children,
   topInfo,
   bottomInfo,
   onBackToMenu,
+  actionButtons,
   gameStatus,
   score,
+  replay,
+  overlayAction,
 }) => {
   return (
     <GameManager
       title={title}
+      gameId={gameId}
       gameStats={topInfo}
       instructions={bottomInfo}
       onBackToMenu={onBackToMenu}
+      actionButtons={actionButtons}
       gameStatus={gameStatus}
       score={score}
+      replay={replay}
+      overlayAction={overlayAction}
     >
       {children}
     </GameManager>
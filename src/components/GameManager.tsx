@@ -1,10 +1,20 @@
 import React from 'react';
 import { spacing, typography, colors, layout } from '../theme/gameTheme';
+import { GameId, getInputActions, getLeaderboardConfig } from '../games';
+import { Replay } from '../shared/replay/core';
+import { formatScore, isBetterScore } from '../utils/scoreFormat';
+import LeaderboardPanel from './LeaderboardPanel';
+import InputSettingsPanel from './InputSettingsPanel';
+import AudioControls from './AudioControls';
+import GameButton from './GameButton';
+import { playSfx } from '../audio/engine';
 
 interface GameManagerProps {
   // 게임 식별 정보
   title: string;
   gameIcon?: string;
+  // games.tsx id — 리더보드 설정이 있으면 종료 시 LeaderboardPanel 표시
+  gameId?: GameId;
 
   // 상단 정보 (게임 상태/점수)
   gameStats?: React.ReactNode;
@@ -22,6 +32,10 @@ interface GameManagerProps {
   onBackToMenu?: () => void;
   // 신기록 배지용 (선택)
   score?: number;
+  // 리플레이 검증 게임의 입력 기록 (shared/replay)
+  replay?: Replay;
+  // 승리/게임오버 카드 아래 버튼 (예: 대국 분석)
+  overlayAction?: { label: string; onClick: () => void };
 }
 
 /**
@@ -41,12 +55,25 @@ const SafeImg: React.FC<React.ImgHTMLAttributes<HTMLImageElement>> = ({ style, .
   );
 };
 
+// 상단 우측 소리/조작 버튼
+const headerButtonStyle: React.CSSProperties = {
+  background: colors.buttonSecondary,
+  color: colors.textPrimary,
+  border: 'none',
+  borderRadius: 12,
+  padding: `${spacing.sm}px ${spacing.md}px`,
+  fontSize: 14,
+  fontWeight: 600,
+  cursor: 'pointer',
+};
+
 /**
  * 통합 게임 매니저 컴포넌트
  */
 const GameManager: React.FC<GameManagerProps> = ({
   title,
   gameIcon,
+  gameId,
   gameStats,
   gameStatus,
   children,
@@ -55,12 +82,52 @@ const GameManager: React.FC<GameManagerProps> = ({
   actionButtons,
   onBackToMenu,
   score,
+  replay,
+  overlayAction,
 }) => {
   const [isNewRecord, setIsNewRecord] = React.useState(false);
+  const [showInputSettings, setShowInputSettings] = React.useState(false);
+  const closeInputSettings = React.useCallback(() => setShowInputSettings(false), []);
+  const hasInputSettings = !!gameId && !!getInputActions(gameId);
 
   const isGameOver = !!gameStatus && /오버|패배|실패|game[\s\-]?over/i.test(gameStatus);
   const isVictory  = !!gameStatus && /승리|클리어|완료|이겼|victory|win/i.test(gameStatus);
   const showOverlay = isGameOver || isVictory;
+  const leaderboard = gameId ? getLeaderboardConfig(gameId) : null;
+  const order = leaderboard?.order ?? 'desc';
+
+  // 플레이 시작 토큰: 게임 화면을 열 때 한 번, 그 토큰으로 점수를 저장한 뒤 다시 받는다.
+  // 서버는 토큰 발급 시각부터 제출까지를 플레이 시간으로 보므로, 판 중간(레벨 클리어 오버레이 등)에
+  // 새로 받으면 정상 기록이 너무 짧다고 거부될 수 있다 — 오버레이 변화와는 묶지 않는다
+  const [playToken, setPlayToken] = React.useState<string | null>(null);
+  const [tokenRound, setTokenRound] = React.useState(0);
+  const scoreId = leaderboard?.scoreId;
+  React.useEffect(() => {
+    if (!scoreId) return;
+    let cancelled = false;
+    setPlayToken(null);
+    fetch('/api/scores/start', {
+      method: 'POST',
+      headers: { 'content-type': 'application/json' },
+      body: JSON.stringify({ game_id: scoreId }),
+    })
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!cancelled) setPlayToken(typeof data?.token === 'string' ? data.token : null);
+      })
+      .catch(() => {
+        // 토큰이 없으면 제출 때 서버가 거부한다 (오프라인 플레이는 그대로 가능)
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [scoreId, tokenRound]);
+  const renewPlayToken = React.useCallback(() => setTokenRound((n) => n + 1), []);
+
+  // 종료 효과음
+  React.useEffect(() => {
+    if (showOverlay) playSfx(isVictory ? 'victory' : 'gameOver');
+  }, [showOverlay, isVictory]);
 
   React.useEffect(() => {
     if (!showOverlay || score === undefined || score <= 0) {
@@ -69,13 +136,13 @@ const GameManager: React.FC<GameManagerProps> = ({
     }
     const key = 'hs_' + title.replace(/[^a-z0-9]/gi, '_').toLowerCase();
     const prev = Number(localStorage.getItem(key) ?? 0);
-    if (score > prev) {
+    if (isBetterScore(score, prev, { order })) {
       localStorage.setItem(key, String(score));
       setIsNewRecord(true);
     } else {
       setIsNewRecord(false);
     }
-  }, [showOverlay, score, title]);
+  }, [showOverlay, score, title, order]);
 
   // 점수 카운트업 애니메이션
   const [displayScore, setDisplayScore] = React.useState(0);
@@ -149,6 +216,36 @@ const GameManager: React.FC<GameManagerProps> = ({
         ← 메뉴로
       </button>
 
+      {/* 소리 / 조작 설정 */}
+      <div
+        style={{
+          position: 'fixed',
+          top: 'clamp(12px, 3vw, 24px)',
+          right: 'clamp(12px, 3vw, 24px)',
+          display: 'flex',
+          gap: spacing.sm,
+          zIndex: 1000
+        }}
+      >
+        <AudioControls buttonStyle={headerButtonStyle} />
+        {/* 통합 입력을 쓰는 게임만 */}
+        {hasInputSettings && (
+          <button
+            onClick={(e) => {
+              // 닫은 뒤 Space 등 게임 키가 이 버튼을 다시 누르지 않게
+              e.currentTarget.blur();
+              setShowInputSettings(true);
+            }}
+            style={headerButtonStyle}
+          >
+            ⌨️ 조작
+          </button>
+        )}
+      </div>
+      {showInputSettings && gameId && (
+        <InputSettingsPanel gameId={gameId} onClose={closeInputSettings} />
+      )}
+
       {/* 메인 게임 영역 */}
       <div
         style={{
@@ -452,10 +549,19 @@ const GameManager: React.FC<GameManagerProps> = ({
                           : { color: colors.accent }),
                       }}
                     >
-                      {displayScore.toLocaleString()}
+                      {leaderboard
+                        ? formatScore(displayScore, leaderboard.format)
+                        : displayScore.toLocaleString()}
                     </span>
                   </div>
                 )}
+
+                {/* 오버레이는 클릭을 통과시키므로 버튼만 다시 받는다 */}
+                {overlayAction && (
+                  <div style={{ pointerEvents: 'auto', animation: 'gmRise 0.4s ease-out 0.25s both' }}>
+                    <GameButton onClick={overlayAction.onClick}>{overlayAction.label}</GameButton>
+                  </div>
+                )}
               </div>
             </div>
           )}
@@ -506,6 +612,19 @@ const GameManager: React.FC<GameManagerProps> = ({
               {actionButtons}
             </div>
           )}
+
+          {/* 게임 종료 시 리더보드 (점수 제출 + 순위표) */}
+          {gameId && leaderboard && showOverlay && (
+            <div style={{ marginTop: actionButtons ? spacing.md : 0 }}>
+              <LeaderboardPanel
+                gameId={gameId}
+                finalScore={score !== undefined && score > 0 ? score : null}
+                playToken={playToken}
+                onPlayTokenUsed={renewPlayToken}
+                replay={replay}
+              />
+            </div>
+          )}
         </div>
       </div>
     </div>
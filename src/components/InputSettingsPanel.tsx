@@ -0,0 +1,149 @@
+import React from 'react';
+import { colors, spacing } from '../theme/gameTheme';
+import { GameId, getInputActions } from '../games';
+import {
+  gamepadLabel,
+  gestureLabel,
+  keyLabel,
+  loadBindings,
+  rebindKey,
+  resetBindings,
+  saveBindings,
+  setInputSuspended,
+} from '../input/bindings';
+import GameButton from './GameButton';
+
+interface InputSettingsPanelProps {
+  gameId: GameId;
+  onClose: () => void;
+}
+
+const chipStyle: React.CSSProperties = {
+  display: 'inline-block',
+  minWidth: 28,
+  padding: '2px 8px',
+  borderRadius: 6,
+  background: colors.buttonSecondary,
+  border: `1px solid ${colors.buttonBorder}`,
+  fontSize: 13,
+  fontWeight: 700,
+  textAlign: 'center',
+};
+
+/**
+ * 게임별 조작 설정 — 액션을 고르고 새 키를 누르면 바로 저장된다
+ * (게임패드/제스처는 기본 배치를 안내만 한다)
+ */
+const InputSettingsPanel: React.FC<InputSettingsPanelProps> = ({ gameId, onClose }) => {
+  const actions = getInputActions(gameId) ?? {};
+  const [bindings, setBindings] = React.useState(() => loadBindings(gameId, actions));
+  // 새 키를 기다리는 액션
+  const [listening, setListening] = React.useState<string | null>(null);
+
+  // 열려 있는 동안 게임 입력 정지
+  React.useEffect(() => {
+    setInputSuspended(true);
+    return () => setInputSuspended(false);
+  }, []);
+
+  React.useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      // 메뉴로 돌아가기(Esc) 등 바깥 단축키로 새지 않게
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (e.key === 'Escape') {
+        if (listening) setListening(null);
+        else onClose();
+        return;
+      }
+      if (!listening || ['Shift', 'Control', 'Alt', 'Meta'].includes(e.key)) return;
+      const next = rebindKey(bindings, listening, e.key);
+      setBindings(next);
+      saveBindings(gameId, next);
+      setListening(null);
+    };
+    window.addEventListener('keydown', onKeyDown, { capture: true });
+    return () => window.removeEventListener('keydown', onKeyDown, { capture: true });
+  }, [bindings, gameId, listening, onClose]);
+
+  const handleReset = () => {
+    resetBindings(gameId);
+    setBindings(loadBindings(gameId, actions));
+    setListening(null);
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-label="조작 설정"
+      onClick={onClose}
+      style={{
+        position: 'fixed',
+        inset: 0,
+        background: 'rgba(40, 24, 10, 0.45)',
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        padding: spacing.lg,
+        zIndex: 2000,
+      }}
+    >
+      <div
+        onClick={(e) => e.stopPropagation()}
+        style={{
+          background: 'linear-gradient(180deg, rgba(255,250,236,0.98), rgba(251,239,214,0.98))',
+          border: `2px solid ${colors.canvasBorder}`,
+          borderRadius: 16,
+          padding: 'clamp(16px, 4vw, 24px)',
+          width: 'min(520px, 100%)',
+          maxHeight: '85vh',
+          overflowY: 'auto',
+          color: colors.textPrimary,
+          boxShadow: '0 18px 50px rgba(80,50,20,0.35)',
+        }}
+      >
+        <h2 style={{ margin: 0, marginBottom: spacing.md, fontSize: 20, color: colors.accent }}>⌨️ 조작 설정</h2>
+        <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: 14 }}>
+          <tbody>
+            {Object.entries(actions).map(([name, action]) => (
+              <tr key={name} style={{ borderTop: `1px solid ${colors.canvasBorder}` }}>
+                <td style={{ padding: `${spacing.sm}px 0`, fontWeight: 600 }}>{action.label}</td>
+                <td style={{ padding: spacing.sm }}>
+                  {listening === name ? (
+                    <span style={{ color: colors.accent, fontWeight: 700 }}>새 키를 누르세요 (Esc: 취소)</span>
+                  ) : (
+                    <span style={{ display: 'inline-flex', gap: spacing.xs, flexWrap: 'wrap' }}>
+                      {bindings[name]?.length ? (
+                        bindings[name].map((k) => <span key={k} style={chipStyle}>{keyLabel(k)}</span>)
+                      ) : (
+                        <span style={{ color: colors.muted }}>없음</span>
+                      )}
+                    </span>
+                  )}
+                  <div style={{ fontSize: 12, color: colors.muted, marginTop: 2 }}>
+                    {[...(action.gamepad ?? []).map(gamepadLabel), ...(action.gestures ?? []).map(gestureLabel)].join(' · ')}
+                  </div>
+                </td>
+                <td style={{ textAlign: 'right' }}>
+                  <GameButton
+                    variant="secondary"
+                    onClick={() => setListening(listening === name ? null : name)}
+                    style={{ padding: '4px 12px', fontSize: 13 }}
+                  >
+                    {listening === name ? '취소' : '변경'}
+                  </GameButton>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: spacing.sm, marginTop: spacing.lg }}>
+          <GameButton variant="secondary" onClick={handleReset}>기본값</GameButton>
+          <GameButton onClick={onClose}>닫기</GameButton>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default InputSettingsPanel;
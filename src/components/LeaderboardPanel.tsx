@@ -1,9 +1,32 @@
 import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { GameId, getLeaderboardConfig, LeaderboardConfig } from '../games';
+import { Replay } from '../shared/replay/core';
+import { ScoreErrorCode } from '../shared/scoreRules';
 import { getAnonymousUserId } from '../utils/anonymousUser';
+import { formatScore } from '../utils/scoreFormat';
 
-const GAME_ID = 'noah-ping-pong-garden';
 const TURNSTILE_SITE_KEY = import.meta.env.VITE_TURNSTILE_SITE_KEY || '';
 
+// /api/scores 거부 코드 → 안내 문구
+const SUBMIT_ERROR_MESSAGES: Record<ScoreErrorCode, string> = {
+  INVALID_JSON: '요청 형식이 올바르지 않습니다.',
+  BODY_TOO_LARGE: '플레이 기록이 너무 커서 저장할 수 없습니다.',
+  UNKNOWN_GAME: '이 게임은 리더보드를 지원하지 않습니다.',
+  NICKNAME_REQUIRED: '닉네임을 입력해 주세요.',
+  INVALID_SCORE: '점수 형식이 올바르지 않습니다.',
+  SCORE_OUT_OF_RANGE: '이 게임에서 나올 수 없는 점수라 저장하지 않았습니다.',
+  PLAY_TOO_SHORT: '플레이 시간이 너무 짧아 기록으로 인정되지 않습니다.',
+  PLAY_TOKEN_INVALID: '플레이 시작 기록을 확인할 수 없습니다. 새 판을 시작한 뒤 다시 제출해 주세요.',
+  PLAY_TOKEN_USED: '이 판의 점수는 이미 저장되었습니다.',
+  REPLAY_REQUIRED: '이 게임은 플레이 기록(리플레이)이 있어야 점수를 저장할 수 있습니다.',
+  REPLAY_INVALID: '플레이 기록(리플레이)이 올바르지 않습니다.',
+  REPLAY_MISMATCH: '플레이 기록으로 점수를 재현할 수 없어 저장하지 않았습니다.',
+  ANONYMOUS_ID_REQUIRED: '사용자 식별값을 만들 수 없습니다. 브라우저 저장소를 확인하세요.',
+  TURNSTILE_REQUIRED: 'Turnstile 확인을 먼저 완료해 주세요.',
+  TURNSTILE_FAILED: 'Turnstile 확인에 실패했습니다. 다시 시도해 주세요.',
+  RATE_LIMITED: '제출이 너무 잦습니다. 잠시 후 다시 시도해 주세요.',
+};
+
 type ScoreEntry = {
   id: number;
   nickname: string;
@@ -18,10 +41,15 @@ type LeaderboardResponse = {
 };
 
 type Props = {
-  finalScore: {
-    player: number;
-    ai: number;
-  } | null;
+  gameId: GameId;
+  // 게임 종료 시 제출할 점수 (null이면 순위표만 표시)
+  finalScore: number | null;
+  // 판을 시작할 때 받은 토큰 (서버가 이걸로 최소 플레이 시간을 검증)
+  playToken: string | null;
+  // 토큰으로 점수를 저장했거나 이미 쓴 토큰이라 거부됐을 때 — 다음 판을 위해 새 토큰을 받는다
+  onPlayTokenUsed?: () => void;
+  // 리플레이 검증 게임이면 함께 제출
+  replay?: Replay;
 };
 
 declare global {
@@ -70,7 +98,15 @@ function loadTurnstileScript() {
   });
 }
 
-function ScoreList({ title, scores }: { title: string; scores: ScoreEntry[] }) {
+function ScoreList({
+  title,
+  scores,
+  config,
+}: {
+  title: string;
+  scores: ScoreEntry[];
+  config: LeaderboardConfig;
+}) {
   return (
     <div
       style={{
@@ -87,7 +123,7 @@ function ScoreList({ title, scores }: { title: string; scores: ScoreEntry[] }) {
           {scores.map((entry) => (
             <li key={`${title}-${entry.id}`}>
               <span style={{ fontWeight: 800 }}>{entry.nickname}</span>
-              <span> · {entry.score}점</span>
+              <span> · {formatScore(entry.score, config.format)}</span>
             </li>
           ))}
         </ol>
@@ -96,7 +132,8 @@ function ScoreList({ title, scores }: { title: string; scores: ScoreEntry[] }) {
   );
 }
 
-export default function LeaderboardPanel({ finalScore }: Props) {
+export default function LeaderboardPanel({ gameId, finalScore, playToken, onPlayTokenUsed, replay }: Props) {
+  const config = getLeaderboardConfig(gameId);
   const [leaderboard, setLeaderboard] = useState<LeaderboardResponse>({
     today: [],
     all_time: [],
@@ -109,16 +146,16 @@ export default function LeaderboardPanel({ finalScore }: Props) {
   const widgetRef = useRef<HTMLDivElement | null>(null);
   const widgetIdRef = useRef<string | null>(null);
 
-  const score = finalScore?.player ?? 0;
   const canSubmit = useMemo(
     () => Boolean(finalScore && nickname.trim() && turnstileToken && TURNSTILE_SITE_KEY),
     [finalScore, nickname, turnstileToken]
   );
 
   const refreshLeaderboard = async () => {
+    if (!config) return;
     setIsLoading(true);
     try {
-      const response = await fetch(`/api/leaderboard?game_id=${encodeURIComponent(GAME_ID)}`);
+      const response = await fetch(`/api/leaderboard?game_id=${encodeURIComponent(config.scoreId)}`);
       if (!response.ok) throw new Error('Leaderboard request failed.');
       const data = (await response.json()) as LeaderboardResponse;
       setLeaderboard({
@@ -134,7 +171,7 @@ export default function LeaderboardPanel({ finalScore }: Props) {
 
   useEffect(() => {
     refreshLeaderboard();
-  }, []);
+  }, [gameId]);
 
   useEffect(() => {
     if (!finalScore || !TURNSTILE_SITE_KEY || !widgetRef.current) return;
@@ -168,7 +205,7 @@ export default function LeaderboardPanel({ finalScore }: Props) {
   }, [finalScore]);
 
   const submitScore = async () => {
-    if (!finalScore) return;
+    if (!finalScore || !config) return;
 
     setIsSubmitting(true);
     setMessage('');
@@ -179,8 +216,10 @@ export default function LeaderboardPanel({ finalScore }: Props) {
         headers: { 'content-type': 'application/json' },
         body: JSON.stringify({
           nickname,
-          score,
-          game_id: GAME_ID,
+          score: finalScore,
+          game_id: config.scoreId,
+          play_token: playToken,
+          replay,
           anonymous_user_id: getAnonymousUserId(),
           turnstile_token: turnstileToken,
         }),
@@ -188,10 +227,13 @@ export default function LeaderboardPanel({ finalScore }: Props) {
 
       const data = await response.json().catch(() => ({}));
       if (!response.ok) {
-        throw new Error(data.error || 'Score submission failed.');
+        const code = data.code as ScoreErrorCode | undefined;
+        if (code === 'PLAY_TOKEN_USED') onPlayTokenUsed?.();
+        throw new Error((code && SUBMIT_ERROR_MESSAGES[code]) || data.error || 'Score submission failed.');
       }
 
       setMessage('점수를 저장했습니다.');
+      onPlayTokenUsed?.();
       setTurnstileToken('');
       if (widgetIdRef.current) window.turnstile?.reset(widgetIdRef.current);
       await refreshLeaderboard();
@@ -204,6 +246,8 @@ export default function LeaderboardPanel({ finalScore }: Props) {
     }
   };
 
+  if (!config) return null;
+
   return (
     <div
       style={{
@@ -225,7 +269,7 @@ export default function LeaderboardPanel({ finalScore }: Props) {
             border: '1px solid rgba(107, 67, 40, 0.16)',
           }}
         >
-          <strong>리더보드에 점수 남기기</strong>
+          <strong>리더보드에 {formatScore(finalScore, config.format)} 남기기</strong>
           <input
             value={nickname}
             onChange={(event) => setNickname(event.target.value)}
@@ -278,8 +322,8 @@ export default function LeaderboardPanel({ finalScore }: Props) {
           border: '1px solid rgba(107, 67, 40, 0.14)',
         }}
       >
-        <ScoreList title="Today TOP 10" scores={leaderboard.today} />
-        <ScoreList title="All-time TOP 10" scores={leaderboard.all_time} />
+        <ScoreList title="Today TOP 10" scores={leaderboard.today} config={config} />
+        <ScoreList title="All-time TOP 10" scores={leaderboard.all_time} config={config} />
       </div>
 
       <button onClick={refreshLeaderboard} disabled={isLoading} style={buttonStyle('secondary')}>
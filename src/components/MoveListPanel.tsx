@@ -0,0 +1,109 @@
+import React, { useEffect, useRef } from 'react';
+import GameButton from './GameButton';
+import { colors, spacing } from '../theme/gameTheme';
+
+interface MoveListPanelProps {
+  // 표기된 수 목록 (예: SAN)
+  moves: string[];
+  // 현재 보고 있는 위치 — 0은 시작 포지션, moves.length는 최신
+  ply: number;
+  onSelect: (ply: number) => void;
+  // 첫 줄 번호
+  firstNumber?: number;
+  // 첫 줄에서 비워 둘 칸 수 (흑부터 시작한 체스 기보는 1)
+  offset?: number;
+  // 한 줄에 들어가는 수 (체스는 백/흑 2)
+  perRow?: number;
+  title?: string;
+  // 수 뒤에 붙일 표시 (분석 기호 등) — moves와 같은 순서
+  marks?: ({ text: string; color: string } | null)[];
+}
+
+/**
+ * 수순 목록 + 처음/이전/다음/마지막 이동 버튼
+ */
+const MoveListPanel: React.FC<MoveListPanelProps> = ({
+  moves,
+  ply,
+  onSelect,
+  firstNumber = 1,
+  offset = 0,
+  perRow = 2,
+  title = '기보',
+  marks,
+}) => {
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // 현재 수가 보이도록 스크롤
+  useEffect(() => {
+    const active = listRef.current?.querySelector('[data-active="true"]');
+    active?.scrollIntoView({ block: 'nearest' });
+  }, [ply, moves.length]);
+
+  const rows: { number: number; cells: ({ san: string; ply: number } | null)[] }[] = [];
+  const slots: ({ san: string; ply: number } | null)[] = [
+    ...Array(offset).fill(null),
+    ...moves.map((san, i) => ({ san, ply: i + 1 })),
+  ];
+  for (let i = 0; i < slots.length; i += perRow) {
+    rows.push({ number: firstNumber + i / perRow, cells: slots.slice(i, i + perRow) });
+  }
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: spacing.sm,
+        width: 200,
+        background: colors.panelBackground,
+        border: `2px solid ${colors.canvasBorder}`,
+        borderRadius: 8,
+        padding: spacing.sm,
+        boxSizing: 'border-box',
+      }}
+    >
+      <div style={{ fontWeight: 'bold', color: colors.textPrimary, textAlign: 'center' }}>{title}</div>
+      <div
+        ref={listRef}
+        style={{ flex: 1, minHeight: 160, maxHeight: 360, overflowY: 'auto', fontSize: 14, fontFamily: 'monospace' }}
+      >
+        {rows.length === 0 && <div style={{ color: colors.muted, textAlign: 'center' }}>아직 둔 수가 없습니다</div>}
+        {rows.map(row => (
+          <div key={row.number} style={{ display: 'flex', gap: 4 }}>
+            <span style={{ width: 32, color: colors.muted, textAlign: 'right' }}>{row.number}.</span>
+            {row.cells.map((cell, i) => {
+              const mark = cell ? marks?.[cell.ply - 1] : null;
+              return (
+                <span
+                  key={i}
+                  data-active={cell?.ply === ply}
+                  onClick={cell ? () => onSelect(cell.ply) : undefined}
+                  style={{
+                    flex: 1,
+                    padding: '0 4px',
+                    borderRadius: 4,
+                    cursor: cell ? 'pointer' : 'default',
+                    color: colors.textPrimary,
+                    background: cell?.ply === ply ? 'rgba(217, 120, 69, 0.25)' : 'transparent',
+                  }}
+                >
+                  {cell ? cell.san : '…'}
+                  {mark && <span style={{ color: mark.color, fontWeight: 'bold' }}>{mark.text}</span>}
+                </span>
+              );
+            })}
+          </div>
+        ))}
+      </div>
+      <div style={{ display: 'flex', gap: 4, justifyContent: 'center' }}>
+        <GameButton variant="secondary" disabled={ply === 0} onClick={() => onSelect(0)}>⏮</GameButton>
+        <GameButton variant="secondary" disabled={ply === 0} onClick={() => onSelect(ply - 1)}>◀</GameButton>
+        <GameButton variant="secondary" disabled={ply === moves.length} onClick={() => onSelect(ply + 1)}>▶</GameButton>
+        <GameButton variant="secondary" disabled={ply === moves.length} onClick={() => onSelect(moves.length)}>⏭</GameButton>
+      </div>
+    </div>
+  );
+};
+
+export default MoveListPanel;
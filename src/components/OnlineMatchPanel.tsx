@@ -0,0 +1,86 @@
+import React, { useState } from 'react';
+import GameButton from './GameButton';
+import { OnlineMatch } from '../hooks/useOnlineMatch';
+import { Seat } from '../shared/matches';
+import { colors, spacing } from '../theme/gameTheme';
+
+interface OnlineMatchPanelProps {
+  match: OnlineMatch;
+  // 자리 이름 (예: ['백', '흑']) — 0이 먼저 둔다
+  seatNames: [string, string];
+  // 옵션이 있는 게임(오목 룰)은 만들 때 직접 넘긴다
+  onCreate?: (seat: Seat) => void;
+}
+
+/**
+ * 온라인 대전 만들기 / 링크 복사 / 진행 상황
+ */
+const OnlineMatchPanel: React.FC<OnlineMatchPanelProps> = ({ match, seatNames, onCreate }) => {
+  const { view, seat, myTurn, busy, error, link } = match;
+  const [copied, setCopied] = useState(false);
+
+  const copyLink = () => {
+    if (!link) return;
+    navigator.clipboard
+      ?.writeText(link)
+      .then(() => {
+        setCopied(true);
+        window.setTimeout(() => setCopied(false), 1500);
+      })
+      .catch(() => setCopied(false));
+  };
+
+  let status: string;
+  if (!link) status = '내 자리를 골라 대전을 만들고, 링크를 상대에게 보내세요.';
+  else if (!view) status = '대전을 불러오는 중…';
+  else if (view.status === 'waiting') status = '상대가 링크로 들어오기를 기다리는 중…';
+  else if (view.status === 'finished') status = '대전이 끝났습니다.';
+  else if (seat === null) status = '관전 중 (3초마다 새 수 확인)';
+  else status = myTurn ? '내 차례입니다.' : '상대 차례 — 3초마다 새 수를 확인합니다.';
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: spacing.sm,
+        alignItems: 'center',
+        maxWidth: 480,
+        padding: spacing.sm,
+        background: colors.panelBackground,
+        border: `2px solid ${colors.canvasBorder}`,
+        borderRadius: 8,
+        color: colors.textPrimary,
+        fontSize: 14,
+      }}
+    >
+      {seat !== null && <div style={{ fontWeight: 'bold' }}>내 자리: {seatNames[seat]}</div>}
+      <div>{status}</div>
+      {!link && (
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'center' }}>
+          {([0, 1] as Seat[]).map(s => (
+            <GameButton key={s} disabled={busy} onClick={() => (onCreate ? onCreate(s) : match.create(s))}>
+              {seatNames[s]}{s === 0 ? '(선)' : '(후)'}으로 대전 만들기
+            </GameButton>
+          ))}
+        </div>
+      )}
+      {link && (
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center', width: '100%' }}>
+          <input
+            readOnly
+            value={link}
+            onFocus={e => e.currentTarget.select()}
+            style={{ flex: 1, minWidth: 0, padding: '4px 6px', fontSize: 12, fontFamily: 'monospace' }}
+          />
+          <GameButton variant="secondary" onClick={copyLink}>
+            {copied ? '복사됨' : '링크 복사'}
+          </GameButton>
+        </div>
+      )}
+      {error && <div style={{ color: colors.error }}>{error}</div>}
+    </div>
+  );
+};
+
+export default OnlineMatchPanel;
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import GameButton from './GameButton';
+import { MAX_NAME_BYTES } from '../shared/picross/code';
+import { PICROSS_SIZES, PicrossSize } from '../shared/picross/library';
+import type { PicrossCheckResponse } from '../workers/picrossSolver.worker';
+import { colors, spacing } from '../theme/gameTheme';
+
+interface PicrossEditorPanelProps {
+  size: PicrossSize;
+  onSize: (size: PicrossSize) => void;
+  name: string;
+  onName: (name: string) => void;
+  // 지금 그림의 유일해 검사 결과 (검사 중이면 null)
+  check: PicrossCheckResponse | null;
+  // 해가 하나뿐일 때만 — 공유 링크
+  link: string | null;
+  onPlay: () => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+/**
+ * 피크로스 에디터 — 크기/이름, 유일해 검사 결과, 공유 링크 복사
+ */
+const PicrossEditorPanel: React.FC<PicrossEditorPanelProps> = ({
+  size,
+  onSize,
+  name,
+  onName,
+  check,
+  link,
+  onPlay,
+  onClear,
+  onClose,
+}) => {
+  const [copied, setCopied] = useState(false);
+
+  const copyLink = () => {
+    if (!link) return;
+    navigator.clipboard
+      ?.writeText(link)
+      .then(() => {
+        setCopied(true);
+        window.setTimeout(() => setCopied(false), 1500);
+      })
+      .catch(() => setCopied(false));
+  };
+
+  let status: string;
+  if (!check) status = '검사 중…';
+  else if (check.exhausted) status = '⚠️ 너무 복잡해 해가 하나뿐인지 확인하지 못했습니다. 칸을 더 채워 보세요.';
+  else if (check.count === 0) status = '⚠️ 해가 없습니다.';
+  else if (check.count > 1) status = '⚠️ 해가 여러 개입니다 — 힌트만으로 그림이 정해지지 않아요.';
+  else if (check.lineSolvable) status = '✔ 해가 하나뿐이고 논리만으로 풀립니다.';
+  else status = '✔ 해가 하나뿐입니다 (중간에 가정이 필요한 어려운 퍼즐).';
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: spacing.sm,
+        alignItems: 'center',
+        maxWidth: 480,
+        padding: spacing.sm,
+        background: colors.panelBackground,
+        border: `2px solid ${colors.canvasBorder}`,
+        borderRadius: 8,
+        color: colors.textPrimary,
+        fontSize: 14,
+      }}
+    >
+      <strong>✏️ 퍼즐 만들기</strong>
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'center' }}>
+        {PICROSS_SIZES.map(s => (
+          <GameButton key={s} variant={size === s ? 'primary' : 'secondary'} onClick={() => onSize(s)}>
+            {s}×{s}
+          </GameButton>
+        ))}
+      </div>
+      <label style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+        이름
+        <input
+          type="text"
+          value={name}
+          maxLength={MAX_NAME_BYTES / 3}
+          placeholder="풀면 공개됩니다"
+          onChange={e => onName(e.target.value)}
+          style={{ padding: '4px 8px', borderRadius: 6, border: '1px solid #888', width: 180 }}
+        />
+      </label>
+      <div style={{ textAlign: 'center' }}>{status}</div>
+      {link && (
+        <div style={{ display: 'flex', gap: 8, alignItems: 'center', width: '100%' }}>
+          <input
+            readOnly
+            value={link}
+            onFocus={e => e.currentTarget.select()}
+            style={{ flex: 1, minWidth: 0, padding: '4px 6px', fontSize: 12, fontFamily: 'monospace' }}
+          />
+          <GameButton variant="secondary" onClick={copyLink}>
+            {copied ? '복사됨' : '링크 복사'}
+          </GameButton>
+        </div>
+      )}
+      <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', justifyContent: 'center' }}>
+        <GameButton variant="secondary" onClick={onPlay} disabled={!link}>
+          ▶ 풀어 보기
+        </GameButton>
+        <GameButton variant="secondary" onClick={onClear}>
+          지우기
+        </GameButton>
+        <GameButton variant="secondary" onClick={onClose}>
+          닫기
+        </GameButton>
+      </div>
+    </div>
+  );
+};
+
+export default PicrossEditorPanel;
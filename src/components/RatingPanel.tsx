@@ -0,0 +1,102 @@
+import React from 'react';
+import GameButton from './GameButton';
+import { AiRating, AiRatingLevel } from '../hooks/useAiRating';
+import { colors, spacing } from '../theme/gameTheme';
+
+interface RatingPanelProps {
+  rating: AiRating;
+  levels: AiRatingLevel[];
+  // 지금 고른 AI 레벨 (2인/온라인이면 null)
+  currentLevel: number | null;
+  onChooseLevel?: (level: number) => void;
+}
+
+const CHART_W = 300;
+const CHART_H = 120;
+const PAD = 6;
+const SCORE_COLORS: Record<number, string> = { 1: colors.success, 0.5: colors.neutral, 0: colors.error };
+
+/**
+ * AI 대전 레이팅 — 현재 레이팅, 전적, 추천 난이도, 레이팅 추이 그래프 (띠는 ±RD)
+ */
+const RatingPanel: React.FC<RatingPanelProps> = ({ rating, levels, currentLevel, onChooseLevel }) => {
+  const { record, suggested, unrated } = rating;
+  const { history } = record;
+  const games = record.wins + record.draws + record.losses;
+
+  // 세로 범위: 기록 ±RD와 레벨 레이팅이 모두 들어가게
+  const values = [...history.flatMap(p => [p.rating - p.rd, p.rating + p.rd]), ...levels.map(l => l.rating)];
+  const lo = Math.min(...values) - 50;
+  const hi = Math.max(...values) + 50;
+  const x = (i: number) => PAD + (history.length > 1 ? (i / (history.length - 1)) * (CHART_W - PAD * 2) : (CHART_W - PAD * 2) / 2);
+  const y = (r: number) => PAD + ((hi - r) / (hi - lo)) * (CHART_H - PAD * 2);
+  const band = [
+    ...history.map((p, i) => `${x(i)},${y(p.rating + p.rd)}`),
+    ...history.map((p, i) => `${x(i)},${y(p.rating - p.rd)}`).reverse(),
+  ].join(' ');
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: spacing.sm,
+        alignItems: 'center',
+        padding: spacing.sm,
+        background: colors.panelBackground,
+        border: `2px solid ${colors.canvasBorder}`,
+        borderRadius: 8,
+        color: colors.textPrimary,
+        fontSize: 14,
+      }}
+    >
+      <div style={{ fontWeight: 'bold' }}>
+        📈 내 레이팅 {Math.round(record.rating)} ± {Math.round(record.rd)}
+      </div>
+      <div style={{ color: colors.muted }}>
+        {games === 0
+          ? 'AI와 한 판을 끝내면 레이팅이 매겨집니다 (시작 1500)'
+          : `AI 상대 ${games}판 — ${record.wins}승 ${record.draws}무 ${record.losses}패`}
+      </div>
+      {unrated && <div style={{ color: colors.error, fontSize: 12 }}>무르기를 써서 이번 판은 레이팅에 들어가지 않습니다</div>}
+      <div style={{ display: 'flex', gap: 8, alignItems: 'center', flexWrap: 'wrap', justifyContent: 'center' }}>
+        <span>
+          추천 난이도: <strong>{levels[suggested].label}</strong> ({levels[suggested].rating})
+        </span>
+        {onChooseLevel && currentLevel !== suggested && (
+          <GameButton variant="secondary" onClick={() => onChooseLevel(suggested)}>
+            추천 난이도로
+          </GameButton>
+        )}
+      </div>
+      {history.length > 0 && (
+        <svg width={CHART_W} height={CHART_H} style={{ maxWidth: '100%', background: 'rgba(255,255,255,0.5)', borderRadius: 6 }}>
+          {levels.map(l => (
+            <g key={l.label}>
+              <line x1={0} x2={CHART_W} y1={y(l.rating)} y2={y(l.rating)} stroke={colors.canvasBorder} strokeDasharray="4 3" />
+              <text x={CHART_W - 2} y={y(l.rating) - 2} fontSize={10} textAnchor="end" fill={colors.muted}>
+                {l.label}
+              </text>
+            </g>
+          ))}
+          <polygon points={band} fill="rgba(217, 120, 69, 0.15)" />
+          <polyline
+            points={history.map((p, i) => `${x(i)},${y(p.rating)}`).join(' ')}
+            fill="none"
+            stroke={colors.accent}
+            strokeWidth={2}
+          />
+          {history.map((p, i) => (
+            <circle key={p.at + ':' + i} cx={x(i)} cy={y(p.rating)} r={3} fill={SCORE_COLORS[p.score] ?? colors.neutral}>
+              <title>
+                {Math.round(p.rating)} ± {Math.round(p.rd)} — 상대 {p.opponent} {p.score === 1 ? '승' : p.score === 0 ? '패' : '무'}
+              </title>
+            </circle>
+          ))}
+        </svg>
+      )}
+    </div>
+  );
+};
+
+export default RatingPanel;
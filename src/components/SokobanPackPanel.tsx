@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import GameButton from './GameButton';
+import type { SokobanPack } from '../shared/sokoban/xsb';
+import { colors, spacing } from '../theme/gameTheme';
+
+interface SokobanPackPanelProps {
+  packs: SokobanPack[];
+  currentId: string;
+  // 팩별 푼 레벨 수
+  solvedCount: (pack: SokobanPack) => number;
+  onSelect: (pack: SokobanPack) => void;
+  // 붙여 넣은 XSB/SOK 텍스트 — 읽을 수 없으면 이유를 돌려준다
+  onImport: (text: string) => string | null;
+}
+
+/**
+ * 소코반 레벨 팩 선택 — 번들 팩 버튼과 XSB/SOK 붙여넣기·파일 불러오기
+ */
+const SokobanPackPanel: React.FC<SokobanPackPanelProps> = ({ packs, currentId, solvedCount, onSelect, onImport }) => {
+  const [open, setOpen] = useState(false);
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const current = packs.find(p => p.id === currentId);
+
+  const submit = (value: string) => {
+    const result = onImport(value);
+    setError(result);
+    if (!result) {
+      setText('');
+      setOpen(false);
+    }
+  };
+
+  const readFile = (file: File | undefined) => {
+    if (!file) return;
+    file
+      .text()
+      .then(submit)
+      .catch(() => setError('파일을 읽지 못했습니다'));
+  };
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: spacing.xs,
+        alignItems: 'center',
+        color: colors.textPrimary,
+        fontSize: 14,
+      }}
+    >
+      <div style={{ display: 'flex', gap: spacing.xs, flexWrap: 'wrap', justifyContent: 'center' }}>
+        {packs.map(pack => (
+          <GameButton key={pack.id} variant={pack.id === currentId ? 'primary' : 'secondary'} onClick={() => onSelect(pack)}>
+            {pack.title} ({solvedCount(pack)}/{pack.levels.length})
+          </GameButton>
+        ))}
+        <GameButton variant="secondary" onClick={() => setOpen(o => !o)}>
+          📥 팩 불러오기
+        </GameButton>
+      </div>
+      {current && (current.author || current.description) && (
+        <div style={{ fontSize: 12, color: colors.textSecondary }}>
+          {[current.author && `by ${current.author}`, current.description].filter(Boolean).join(' · ')}
+        </div>
+      )}
+      {current && current.skipped.length > 0 && (
+        <div style={{ fontSize: 12, color: '#f0a030' }}>
+          ⚠️ 규칙에 맞지 않아 뺀 레벨 {current.skipped.length}개:{' '}
+          {current.skipped.map(s => `${s.index}번 "${s.title}" (${s.error})`).join(', ')}
+        </div>
+      )}
+      {open && (
+        <div
+          style={{
+            display: 'flex',
+            flexDirection: 'column',
+            gap: spacing.xs,
+            width: '100%',
+            maxWidth: 480,
+            padding: spacing.sm,
+            background: colors.panelBackground,
+            border: `2px solid ${colors.canvasBorder}`,
+            borderRadius: 8,
+          }}
+        >
+          <div style={{ fontSize: 12 }}>
+            표준 XSB/SOK 형식 (# 벽, . 목표, $ 상자, * 목표 위 상자, @ 플레이어, + 목표 위 플레이어, RLE 가능)
+          </div>
+          <textarea
+            value={text}
+            onChange={e => setText(e.target.value)}
+            rows={8}
+            placeholder={'Title: 내 팩\n\n#####\n#@$.#\n#####\nTitle: 첫 레벨'}
+            style={{ fontFamily: 'monospace', fontSize: 13, padding: 6, borderRadius: 6, resize: 'vertical' }}
+          />
+          <div style={{ display: 'flex', gap: spacing.xs, alignItems: 'center', flexWrap: 'wrap' }}>
+            <GameButton onClick={() => submit(text)} disabled={!text.trim()}>
+              불러오기
+            </GameButton>
+            <input type="file" accept=".xsb,.sok,.txt" onChange={e => readFile(e.target.files?.[0])} style={{ fontSize: 12 }} />
+          </div>
+          {error && <div style={{ color: '#ff6b6b', fontSize: 12 }}>{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SokobanPackPanel;
@@ -0,0 +1,61 @@
+import { useEffect } from 'react';
+import GameButton from './GameButton';
+import MoveListPanel from './MoveListPanel';
+import type { TurnBasedController } from '../hooks/useTurnBasedGame';
+
+interface TurnHistoryPanelProps<State, Move> {
+  game: TurnBasedController<State, Move>;
+  firstNumber?: number;
+  offset?: number;
+  perRow?: number;
+  title?: string;
+  marks?: ({ text: string; color: string } | null)[];
+}
+
+/**
+ * useTurnBasedGame용 수순 목록 + 무르기/다시 버튼
+ *
+ * Ctrl/Cmd+Z로 무르기, Ctrl/Cmd+Y 또는 Shift+Ctrl/Cmd+Z로 다시 하기.
+ */
+function TurnHistoryPanel<State, Move>({ game, firstNumber, offset, perRow, title = '수순', marks }: TurnHistoryPanelProps<State, Move>) {
+  const { undo, redo } = game;
+
+  useEffect(() => {
+    const handler = (e: KeyboardEvent) => {
+      // 입력칸에 타이핑할 때는 단축키 무시
+      if (e.target instanceof HTMLTextAreaElement || e.target instanceof HTMLInputElement) return;
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const k = e.key.toLowerCase();
+      if (k === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if (k === 'y' || (k === 'z' && e.shiftKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handler);
+    return () => window.removeEventListener('keydown', handler);
+  }, [undo, redo]);
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+      <MoveListPanel
+        moves={game.history.labels}
+        ply={game.ply}
+        onSelect={game.goTo}
+        firstNumber={firstNumber}
+        offset={offset}
+        perRow={perRow}
+        title={title}
+        marks={marks}
+      />
+      <div style={{ display: 'flex', gap: 4, justifyContent: 'center' }}>
+        <GameButton variant="secondary" disabled={!game.canUndo} onClick={undo}>↶ 무르기</GameButton>
+        <GameButton variant="secondary" disabled={!game.canRedo} onClick={redo}>↷ 다시</GameButton>
+      </div>
+    </div>
+  );
+}
+
+export default TurnHistoryPanel;
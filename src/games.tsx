@@ -1,4 +1,6 @@
 import React from 'react';
+import { SCORE_RULES, ScoreRule } from './shared/scoreRules';
+import type { InputActionMap } from './input/bindings';
 
 // Lazy-loaded game canvases (code splitting)
 const PingPongCanvas     = React.lazy(() => import('./PingPongCanvas'));
@@ -59,6 +61,11 @@ export interface GameInfo {
   note?: string;
 }
 
+export type { ScoreOrder, ScoreFormat } from './shared/scoreRules';
+
+/** D1 리더보드 설정 — shared/scoreRules 레지스트리 항목 (서버 검증과 같은 규칙) */
+export type LeaderboardConfig = ScoreRule;
+
 export const GAME_CATEGORIES: GameCategory[] = ['Arcade', 'Puzzle', 'Strategy', 'Reflex', 'Rhythm', 'Casual'];
 
 export const games = [
@@ -69,6 +76,7 @@ export const games = [
     category: 'Casual' as GameCategory,
     description: 'AI와 탁구 대결! 공이 점점 빨라집니다.',
     hotkey: '1',
+    leaderboard: SCORE_RULES['noah-ping-pong-garden'] as LeaderboardConfig | null,
     info: {
       goal: 'Score 7 points before the AI does.',
       controls: ['Mouse or touch: move paddle up and down', 'Ball speeds up each rally'],
@@ -86,6 +94,7 @@ export const games = [
     category: 'Casual' as GameCategory,
     description: '떨어지는 블록을 쌓아 가로줄을 완성하세요. 오리지널 블록 퍼즐!',
     hotkey: '2',
+    leaderboard: SCORE_RULES.tetris as LeaderboardConfig | null,
     info: {
       goal: 'Fill complete horizontal rows to clear them and survive.',
       controls: ['Arrow keys: move and rotate', 'Space: hard drop', 'C: hold piece', 'P: pause'],
@@ -94,6 +103,17 @@ export const games = [
       tips: 'Keep the stack flat. Avoid isolated gaps. Use hold for awkward pieces.',
       note: 'An original block-stacking puzzle. All code and visuals by Noah Studio.',
     } as GameInfo,
+    input: {
+      left: { label: '왼쪽 이동', keys: ['ArrowLeft'], gamepad: ['left', 'lsLeft'], gestures: ['swipeLeft'], repeat: true },
+      right: { label: '오른쪽 이동', keys: ['ArrowRight'], gamepad: ['right', 'lsRight'], gestures: ['swipeRight'], repeat: true },
+      softDrop: { label: '소프트 드롭', keys: ['ArrowDown'], gamepad: ['down', 'lsDown'], repeat: true },
+      hardDrop: { label: '하드 드롭', keys: [' '], gamepad: ['up'], gestures: ['swipeDown'] },
+      rotateCW: { label: '시계 방향 회전', keys: ['ArrowUp', 'x'], gamepad: ['a'], gestures: ['tap'] },
+      rotateCCW: { label: '반시계 방향 회전', keys: ['z'], gamepad: ['b'] },
+      hold: { label: '홀드', keys: ['c'], gamepad: ['lb', 'rb'], gestures: ['swipeUp'] },
+      pause: { label: '일시정지', keys: ['p'], gamepad: ['start'] },
+      restart: { label: '재시작', keys: ['r'], gamepad: ['select'] },
+    } as InputActionMap,
     render: () => <TetrisCanvas />,
   },
   {
@@ -103,6 +123,7 @@ export const games = [
     category: 'Arcade' as GameCategory,
     description: '먹이를 먹고 길어지세요. 벽이나 몸에 부딪히면 게임 오버!',
     hotkey: '3',
+    leaderboard: SCORE_RULES.snake as LeaderboardConfig | null,
     info: {
       goal: 'Eat food items to grow your snake and score points.',
       controls: ['Arrow keys or WASD: change direction', 'P/Space: pause', 'R: restart'],
@@ -111,6 +132,14 @@ export const games = [
       tips: 'Hug walls to leave open space in the center for longer snakes.',
       note: 'Classic snake reimagined with Noah Studio warm aesthetic.',
     } as GameInfo,
+    input: {
+      up: { label: '위', keys: ['ArrowUp', 'w'], gamepad: ['up', 'lsUp'], gestures: ['swipeUp'] },
+      down: { label: '아래', keys: ['ArrowDown', 's'], gamepad: ['down', 'lsDown'], gestures: ['swipeDown'] },
+      left: { label: '왼쪽', keys: ['ArrowLeft', 'a'], gamepad: ['left', 'lsLeft'], gestures: ['swipeLeft'] },
+      right: { label: '오른쪽', keys: ['ArrowRight', 'd'], gamepad: ['right', 'lsRight'], gestures: ['swipeRight'] },
+      pause: { label: '일시정지', keys: [' ', 'p'], gamepad: ['start'] },
+      restart: { label: '재시작', keys: ['r'], gamepad: ['select'] },
+    } as InputActionMap,
     render: () => <SnakeCanvas />,
   },
   {
@@ -120,13 +149,14 @@ export const games = [
     category: 'Strategy' as GameCategory,
     description: '15x15 바둑판에서 다섯 줄을 먼저 만드세요. AI와 대전!',
     hotkey: '4',
+    leaderboard: null as LeaderboardConfig | null,
     info: {
-      goal: 'Place 5 stones in a row before your opponent.',
-      controls: ['Click intersection to place stone', 'R: reset'],
+      goal: 'Place exactly 5 stones in a row before your opponent (six or more does not count).',
+      controls: ['Click intersection to place stone', 'Choose Freestyle or Renju rules', 'Choose 2P, an AI level or the generic MCTS AI', 'Ctrl+Z / Ctrl+Y: undo / redo (move list beside the board)', 'Online: create a match and send the link — your opponent moves whenever they like', 'R: reset'],
       mobileControls: 'Tap the intersection to place your stone.',
-      scoring: 'Win by completing 5 in a row.',
-      tips: 'Play center early. Watch for double-open threes.',
-      note: 'Traditional East Asian strategy game. Player vs AI.',
+      scoring: 'Win by completing exactly 5 in a row. Games vs AI update your local Glicko-2 rating, which suggests an AI level.',
+      tips: 'Play center early. A four plus an open three wins. Under Renju, Black may not play 3-3, 4-4 or overlines (marked ✕).',
+      note: 'Traditional East Asian strategy game. 2P or vs AI (5 levels, threat-space search).',
     } as GameInfo,
     render: () => <OmokCanvas />,
   },
@@ -137,6 +167,7 @@ export const games = [
     category: 'Puzzle' as GameCategory,
     description: '모든 불을 끄세요! 클릭하면 해당 칸과 상하좌우가 토글됩니다.',
     hotkey: '5',
+    leaderboard: SCORE_RULES.lightsout as LeaderboardConfig | null,
     info: {
       goal: 'Turn off all lights. Every click toggles a cell and its 4 neighbors.',
       controls: ['Click cell to toggle it and neighbors', 'R: new puzzle'],
@@ -154,6 +185,7 @@ export const games = [
     category: 'Reflex' as GameCategory,
     description: '점점 길어지는 색상 패턴을 기억해 따라하세요!',
     hotkey: '6',
+    leaderboard: SCORE_RULES.simon as LeaderboardConfig | null,
     info: {
       goal: 'Reproduce an ever-lengthening color sequence from memory.',
       controls: ['Watch the sequence, then click colors in order'],
@@ -171,6 +203,7 @@ export const games = [
     category: 'Reflex' as GameCategory,
     description: '화면이 초록색으로 바뀌는 순간 클릭! 반응 속도를 ms 단위로 측정합니다.',
     hotkey: '7',
+    leaderboard: SCORE_RULES.reaction as LeaderboardConfig | null,
     info: {
       goal: 'Click the instant the screen turns green.',
       controls: ['Click/tap as soon as the screen turns green'],
@@ -188,6 +221,7 @@ export const games = [
     category: 'Reflex' as GameCategory,
     description: '나타나는 원을 빠르게 정확히 클릭하세요. 마우스 조준 훈련!',
     hotkey: '8',
+    leaderboard: SCORE_RULES.aim as LeaderboardConfig | null,
     info: {
       goal: 'Click each target circle as fast and accurately as possible.',
       controls: ['Move mouse and click circles as they appear'],
@@ -205,6 +239,7 @@ export const games = [
     category: 'Arcade' as GameCategory,
     description: '패들로 공을 튕겨 모든 벽돌을 부수세요. 물리 기반 반사!',
     hotkey: '9',
+    leaderboard: SCORE_RULES.breakout as LeaderboardConfig | null,
     info: {
       goal: 'Destroy all bricks without letting the ball fall below the paddle.',
       controls: ['Mouse or arrow keys: move paddle', 'Space: launch', 'R: restart'],
@@ -213,6 +248,11 @@ export const games = [
       tips: 'Aim for corners to create angled multi-row shots.',
       note: 'Original ball-and-paddle physics game. Noah Studio.',
     } as GameInfo,
+    input: {
+      left: { label: '왼쪽 이동', keys: ['ArrowLeft', 'a'], gamepad: ['left', 'lsLeft'] },
+      right: { label: '오른쪽 이동', keys: ['ArrowRight', 'd'], gamepad: ['right', 'lsRight'] },
+      launch: { label: '시작/일시정지', keys: [' '], gamepad: ['a', 'start'], gestures: ['tap'] },
+    } as InputActionMap,
     render: () => <BreakoutCanvas />,
   },
   {
@@ -222,6 +262,7 @@ export const games = [
     category: 'Arcade' as GameCategory,
     description: '탭으로 날아올라 파이프 사이를 통과하세요!',
     hotkey: '0',
+    leaderboard: SCORE_RULES.flappy as LeaderboardConfig | null,
     info: {
       goal: 'Fly through as many pipe gaps as possible.',
       controls: ['Space/click/tap: flap upward', 'R: restart'],
@@ -239,6 +280,7 @@ export const games = [
     category: 'Puzzle' as GameCategory,
     description: '같은 그림의 카드 두 장을 찾아 매칭하세요.',
     hotkey: 'm',
+    leaderboard: SCORE_RULES.memory as LeaderboardConfig | null,
     info: {
       goal: 'Find all matching card pairs by flipping two at a time.',
       controls: ['Click a card to flip it'],
@@ -256,6 +298,7 @@ export const games = [
     category: 'Arcade' as GameCategory,
     description: 'WASD로 움직이며 쏟아지는 블록을 피하세요!',
     hotkey: 'd',
+    leaderboard: SCORE_RULES.dodge as LeaderboardConfig | null,
     info: {
       goal: 'Survive as long as possible while dodging falling blocks.',
       controls: ['WASD or arrow keys: move', 'R: restart'],
@@ -273,6 +316,7 @@ export const games = [
     category: 'Puzzle' as GameCategory,
     description: '같은 숫자 타일을 슬라이드로 합쳐 2048 타일을 만드세요!',
     hotkey: '-',
+    leaderboard: SCORE_RULES['2048'] as LeaderboardConfig | null,
     info: {
       goal: 'Combine matching tiles to reach the 2048 tile.',
       controls: ['Arrow keys or WASD: slide all tiles'],
@@ -290,6 +334,7 @@ export const games = [
     category: 'Puzzle' as GameCategory,
     description: '빈 칸 옆 타일을 밀어 1~15를 순서대로 정렬하세요.',
     hotkey: '=',
+    leaderboard: SCORE_RULES.slide as LeaderboardConfig | null,
     info: {
       goal: 'Arrange tiles 1 to 15 in order by sliding into the blank space.',
       controls: ['Click tile adjacent to blank space to slide it', 'R: shuffle new puzzle'],
@@ -307,13 +352,14 @@ export const games = [
     category: 'Puzzle' as GameCategory,
     description: '박스를 목표 지점으로 밀어 퍼즐을 해결하세요. 되돌리기 포함!',
     hotkey: 's',
+    leaderboard: null as LeaderboardConfig | null,
     info: {
       goal: 'Push all boxes onto goal squares.',
       controls: ['WASD or arrows: move', 'Z/U: undo', 'R: reset level'],
       mobileControls: 'Swipe to move.',
       scoring: 'Complete levels in fewest moves.',
       tips: 'Boxes can only be pushed, never pulled. Use undo liberally.',
-      note: 'Sokoban box-pushing puzzle. 5 hand-designed levels.',
+      note: 'Sokoban box-pushing puzzle. Bundled level packs plus standard XSB/SOK pack import (paste or file), with per-pack progress and best moves.',
     } as GameInfo,
     render: () => <SokobanCanvas />,
   },
@@ -322,15 +368,16 @@ export const games = [
     title: '🔴 Connect Four',
     tipName: 'Connect Four',
     category: 'Strategy' as GameCategory,
-    description: '6x7 격자에서 4개 칩을 연속 연결하세요. AI와 대전!',
+    description: '6x7 격자에서 4개 칩을 연속 연결하세요. 끝까지 수읽기하는 솔버 AI와 대전!',
     hotkey: 'c',
+    leaderboard: null as LeaderboardConfig | null,
     info: {
       goal: 'Connect four chips in a row before the AI does.',
-      controls: ['Click column to drop chip', 'R: restart'],
+      controls: ['Click column to drop chip', 'Easy/Medium/Hard/Expert: AI level', 'Eval toggle: show win/loss/draw per column', 'Ctrl+Z / Ctrl+Y: undo / redo (move list beside the board)', 'Online: create a match and send the link — your opponent moves whenever they like', 'R: restart'],
       mobileControls: 'Tap column to drop.',
-      scoring: 'Win by connecting 4 first.',
-      tips: 'Control center columns. Watch for diagonal threats.',
-      note: 'Classic connection strategy game. VS AI.',
+      scoring: 'Win by connecting 4 first. Games vs AI update your local Glicko-2 rating, which suggests an AI level.',
+      tips: 'Control center columns. Watch for diagonal threats. Turn on the eval toggle to see which columns are proven wins or losses.',
+      note: 'Classic connection strategy game. VS bitboard solver AI.',
     } as GameInfo,
     render: () => <ConnectFourCanvas />,
   },
@@ -341,6 +388,7 @@ export const games = [
     category: 'Casual' as GameCategory,
     description: '드래그로 파워 조절 후 놓아서 골프공을 홀에 넣으세요!',
     hotkey: 'g',
+    leaderboard: SCORE_RULES.minigolf as LeaderboardConfig | null,
     info: {
       goal: 'Get the ball into the hole in as few shots as possible.',
       controls: ['Click and drag away from ball to aim and set power, release to shoot'],
@@ -358,6 +406,7 @@ export const games = [
     category: 'Puzzle' as GameCategory,
     description: '숨겨진 4색 코드를 10번 안에 추리하세요!',
     hotkey: 'h',
+    leaderboard: SCORE_RULES.mastermind as LeaderboardConfig | null,
     info: {
       goal: 'Deduce the secret 4-color code in 10 guesses or fewer.',
       controls: ['Click color pegs to fill slots', 'Press Check to see hints'],
@@ -375,11 +424,12 @@ export const games = [
     category: 'Puzzle' as GameCategory,
     description: '지뢰를 피해 모든 칸을 열고 우클릭으로 깃발을 꽂으세요!',
     hotkey: 'b',
+    leaderboard: null as LeaderboardConfig | null,
     info: {
       goal: 'Reveal all safe cells without triggering a mine.',
-      controls: ['Left click: reveal cell', 'Right click: flag mine', 'First click is always safe'],
-      mobileControls: 'Tap to reveal. Long-press to flag.',
-      scoring: 'Complete board in fastest time.',
+      controls: ['Left click: reveal cell', 'Click a number with enough flags around it: reveal its neighbours (chord)', 'Right click: flag → ? → clear', 'Choose Beginner / Intermediate / Expert or a custom size', 'First click is always safe', '🧠 No-guess boards: every board can be solved by logic alone', '💡 Hint: highlights a provably safe cell', 'R: reset'],
+      mobileControls: 'Tap to reveal or chord. Long-press to cycle flag / ?.',
+      scoring: 'Complete board in fastest time. Best times are kept per difficulty (no-guess boards separately); games with hints are not recorded.',
       tips: 'Numbers show adjacent mines. First click opens a large safe area.',
       note: 'Full-featured Minesweeper with multiple difficulty modes.',
     } as GameInfo,
@@ -392,11 +442,12 @@ export const games = [
     category: 'Puzzle' as GameCategory,
     description: '숫자 힌트로 그림을 완성하세요. 좌클릭=채우기, 우클릭=X.',
     hotkey: 'p',
+    leaderboard: null as LeaderboardConfig | null,
     info: {
       goal: 'Fill correct cells to reveal a hidden pixel picture using row/column clues.',
-      controls: ['Left click: fill cell', 'Right click: mark empty (X)'],
+      controls: ['Left click: fill cell', 'Right click: mark empty (X)', 'Choose 5×5, 10×10, 15×15 or 20×20', 'Pick a library puzzle or 🎲 for a random one', '✏️ Make a puzzle: draw, check it has a unique solution, share the link', 'R: restart puzzle'],
       mobileControls: 'Tap to fill. Double-tap to mark empty.',
-      scoring: 'Complete puzzle correctly to win.',
+      scoring: 'Complete puzzle correctly to win. Every puzzle has exactly one solution; library puzzles reveal their name when solved and remember progress and best time.',
       tips: 'Start with largest clues. Cross out known-empty cells.',
       note: 'Hand-crafted nonogram puzzles of varying difficulty.',
     } as GameInfo,
@@ -409,6 +460,7 @@ export const games = [
     category: 'Casual' as GameCategory,
     description: '인접 보석을 교환해 3개 이상 매치하면 사라져요!',
     hotkey: 'j',
+    leaderboard: SCORE_RULES.match3 as LeaderboardConfig | null,
     info: {
       goal: 'Match 3 or more gems of the same color by swapping adjacent pieces.',
       controls: ['Click gem, then click adjacent gem to swap'],
@@ -426,6 +478,7 @@ export const games = [
     category: 'Arcade' as GameCategory,
     description: '자동차를 피해 개구리를 위쪽 안전지대로 이동시키세요!',
     hotkey: 'f',
+    leaderboard: SCORE_RULES.frogger as LeaderboardConfig | null,
     info: {
       goal: 'Guide the frog to the safe zone at the top while avoiding vehicles.',
       controls: ['Arrow keys or WASD: hop one step', 'R: restart'],
@@ -443,13 +496,14 @@ export const games = [
     category: 'Strategy' as GameCategory,
     description: 'X와 O를 번갈아 두며 3개를 먼저 연결하면 승리!',
     hotkey: 't',
+    leaderboard: null as LeaderboardConfig | null,
     info: {
       goal: 'Get three of your marks in a row horizontally, vertically, or diagonally.',
-      controls: ['Click any empty square to place your mark'],
+      controls: ['Click any empty square to place your mark', 'N×N: choose board size (3–7) and k in a row', 'Ultimate: your cell picks the sub-board your opponent must play in', 'Choose 2P, an AI level or the generic MCTS AI', 'Ctrl+Z / Ctrl+Y: undo / redo (move list beside the board)', 'R: new game'],
       mobileControls: 'Tap an empty cell.',
-      scoring: 'Win = 1 point. Tracks wins across rounds.',
-      tips: 'Center is the strongest square. Perfect play always draws.',
-      note: 'Classic 3x3 strategy game with AI opponent.',
+      scoring: 'Win = 1 point. Tracks wins across rounds. Games vs AI update your local Glicko-2 rating, which suggests an AI level.',
+      tips: 'Center is the strongest square. Perfect 3x3 play always draws — try Ultimate or 5x5 with 4 in a row.',
+      note: 'Classic 3x3, NxN k-in-a-row and Ultimate Tic-Tac-Toe with AI opponent.',
     } as GameInfo,
     render: () => <TicTacToeCanvas />,
   },
@@ -460,6 +514,7 @@ export const games = [
     category: 'Reflex' as GameCategory,
     description: '두더지가 튀어나올 때 빠르게 클릭하세요. 30초 도전!',
     hotkey: 'w',
+    leaderboard: SCORE_RULES.whack as LeaderboardConfig | null,
     info: {
       goal: 'Click moles as fast as possible. 30-second challenge.',
       controls: ['Click/tap mole the moment it appears'],
@@ -477,6 +532,7 @@ export const games = [
     category: 'Arcade' as GameCategory,
     description: '밀려드는 적 우주선을 격추하세요. A/D 이동, Space 발사!',
     hotkey: 'a',
+    leaderboard: SCORE_RULES.galaga as LeaderboardConfig | null,
     info: {
       goal: 'Shoot down all enemy ships in each wave.',
       controls: ['A/D or arrow keys: move', 'Space: fire', 'R: restart'],
@@ -494,6 +550,7 @@ export const games = [
     category: 'Arcade' as GameCategory,
     description: '외계인 침략자들이 내려오기 전에 모두 격추하세요!',
     hotkey: 'i',
+    leaderboard: SCORE_RULES.space as LeaderboardConfig | null,
     info: {
       goal: 'Destroy all alien invaders before they reach the bottom.',
       controls: ['Arrow keys or A/D: move', 'Space: shoot', 'R: restart'],
@@ -511,6 +568,7 @@ export const games = [
     category: 'Casual' as GameCategory,
     description: '육각형을 회전시켜 떨어지는 블록의 색을 맞추세요!',
     hotkey: 'x',
+    leaderboard: SCORE_RULES.hextris as LeaderboardConfig | null,
     info: {
       goal: 'Rotate the hexagon to match falling colored blocks to the same-colored side.',
       controls: ['Arrow keys or A/D: rotate hexagon'],
@@ -528,6 +586,7 @@ export const games = [
     category: 'Casual' as GameCategory,
     description: '떨어지는 2개 블롭을 조작해 4개 이상 연결하면 터져요!',
     hotkey: 'y',
+    leaderboard: SCORE_RULES.puyo as LeaderboardConfig | null,
     info: {
       goal: 'Connect 4 or more same-colored blobs to pop them. Chains score big.',
       controls: ['Arrow keys: move and rotate pair', 'Space: hard drop'],
@@ -545,6 +604,7 @@ export const games = [
     category: 'Arcade' as GameCategory,
     description: '미로에서 점을 먹고 유령을 피하세요. 파워펠릿으로 역전!',
     hotkey: 'z',
+    leaderboard: SCORE_RULES.pacman as LeaderboardConfig | null,
     info: {
       goal: 'Eat all dots without being caught. Power pellets let you eat ghosts.',
       controls: ['Arrow keys or WASD: move through maze'],
@@ -562,6 +622,7 @@ export const games = [
     category: 'Arcade' as GameCategory,
     description: '펭귄을 조작해 플랫폼을 뛰어넘고 깃발에 도달하세요!',
     hotkey: 'k',
+    leaderboard: SCORE_RULES.penguin as LeaderboardConfig | null,
     info: {
       goal: 'Jump across platforms and reach the flag to complete each level.',
       controls: ['A/D or arrows: move', 'Space or Up: jump (hold for higher)', 'R: restart'],
@@ -579,6 +640,7 @@ export const games = [
     category: 'Rhythm' as GameCategory,
     description: 'Q W E R 키로 노트를 타이밍에 맞춰 입력하는 리듬 게임!',
     hotkey: 'u',
+    leaderboard: SCORE_RULES.pumpitup as LeaderboardConfig | null,
     info: {
       goal: 'Hit each note by pressing the correct key at the exact moment.',
       controls: ['Q/W/E/R: four note lanes', 'Hit notes as they reach the target zone'],
@@ -587,6 +649,14 @@ export const games = [
       tips: 'Focus on target line, not falling notes. Listen to the beat.',
       note: "Rhythm Steps is Noah Studio's original browser rhythm game.",
     } as GameInfo,
+    input: {
+      lane1: { label: '1번 레인', keys: ['q'], gamepad: ['left', 'x'] },
+      lane2: { label: '2번 레인', keys: ['w'], gamepad: ['down', 'a'] },
+      lane3: { label: '3번 레인', keys: ['e'], gamepad: ['up', 'y'] },
+      lane4: { label: '4번 레인', keys: ['r'], gamepad: ['right', 'b'] },
+      pause: { label: '일시정지', keys: ['p'], gamepad: ['start'] },
+      restart: { label: '재시작', keys: [' '], gamepad: ['select'] },
+    } as InputActionMap,
     render: () => <PumpItUpCanvas />,
   },
   {
@@ -596,6 +666,7 @@ export const games = [
     category: 'Casual' as GameCategory,
     description: '세 가지 색 블록을 쌓아 3개 이상 연결되면 제거!',
     hotkey: 'l',
+    leaderboard: SCORE_RULES.columns as LeaderboardConfig | null,
     info: {
       goal: 'Clear by matching 3+ same-colored blocks in row, column, or diagonal.',
       controls: ['Arrow keys: move and cycle colors', 'Down: drop faster'],
@@ -613,6 +684,7 @@ export const games = [
     category: 'Casual' as GameCategory,
     description: '좌우로 움직이는 블록을 정확히 쌓아 올리세요!',
     hotkey: 'v',
+    leaderboard: SCORE_RULES.tower as LeaderboardConfig | null,
     info: {
       goal: 'Stack blocks as high as possible. Overhanging parts break off.',
       controls: ['Space or click: drop block at current position', 'R: restart'],
@@ -630,6 +702,7 @@ export const games = [
     category: 'Arcade' as GameCategory,
     description: '선을 그어 영역을 넓히세요. 75% 이상 차지하면 클리어!',
     hotkey: 'r',
+    leaderboard: SCORE_RULES.qix as LeaderboardConfig | null,
     info: {
       goal: 'Claim 75%+ of the playfield by drawing lines without being touched.',
       controls: ['Arrow keys: draw lines', 'Complete area to claim it'],
@@ -647,6 +720,7 @@ export const games = [
     category: 'Arcade' as GameCategory,
     description: '나갔다 돌아오면 경로 안 영역을 차지하세요!',
     hotkey: 'o',
+    leaderboard: SCORE_RULES.paper as LeaderboardConfig | null,
     info: {
       goal: 'Claim territory by venturing out and returning to enclose area.',
       controls: ['WASD or arrows: move', 'Return to zone to capture'],
@@ -664,6 +738,7 @@ export const games = [
     category: 'Arcade' as GameCategory,
     description: '폭탄으로 벽을 부수고 적을 제거하며 생존하세요!',
     hotkey: ';',
+    leaderboard: SCORE_RULES.bomber as LeaderboardConfig | null,
     info: {
       goal: 'Place bombs to destroy walls and enemies. Survive and clear the level.',
       controls: ['WASD: move', 'Space: place bomb', 'R: restart'],
@@ -681,6 +756,7 @@ export const games = [
     category: 'Casual' as GameCategory,
     description: '같은 과일을 합쳐 더 큰 수박을 만드는 물리 퍼즐!',
     hotkey: 'q',
+    leaderboard: SCORE_RULES.watermelon as LeaderboardConfig | null,
     info: {
       goal: 'Drop fruit into container. Same fruits merge into larger ones.',
       controls: ['Mouse left/right: aim', 'Click: drop'],
@@ -698,6 +774,7 @@ export const games = [
     category: 'Casual' as GameCategory,
     description: '같은 동물을 합쳐 더 높은 레벨의 새 동물을 발견하세요!',
     hotkey: ',',
+    leaderboard: SCORE_RULES.mergepets as LeaderboardConfig | null,
     info: {
       goal: 'Slide tiles to merge same animals into higher-level animals.',
       controls: ['WASD or arrows: slide all pets', 'R: reset'],
@@ -715,6 +792,7 @@ export const games = [
     category: 'Casual' as GameCategory,
     description: '고양이와 강아지를 각각 합치고 최고 레벨에서 하이브리드 펫 탄생!',
     hotkey: '.',
+    leaderboard: SCORE_RULES.mergecatsdogs as LeaderboardConfig | null,
     info: {
       goal: 'Level up cats and dogs. Top-level cat + top-level dog = Hybrid Pet!',
       controls: ['WASD or arrows: slide', 'R: reset'],
@@ -732,6 +810,7 @@ export const games = [
     category: 'Casual' as GameCategory,
     description: '도미노를 배치해 연쇄 반응을 만드세요!',
     hotkey: 'n',
+    leaderboard: SCORE_RULES.domino as LeaderboardConfig | null,
     info: {
       goal: 'Place dominoes to create a chain reaction that knocks over all targets.',
       controls: ['Left click: place/remove domino', 'Space or click first: start chain', 'R: reset'],
@@ -749,6 +828,7 @@ export const games = [
     category: 'Arcade' as GameCategory,
     description: '같은 색 버블 3개 이상을 맞춰 제거하세요!',
     hotkey: 'e',
+    leaderboard: SCORE_RULES.bubbleshooter as LeaderboardConfig | null,
     info: {
       goal: 'Clear the board by shooting bubbles matching 3+ of the same color.',
       controls: ['Aim with mouse', 'Click to shoot', 'Bubbles bounce off walls'],
@@ -766,6 +846,7 @@ export const games = [
     category: 'Arcade' as GameCategory,
     description: '무한 도로를 건너세요. 차를 피해 앞으로 전진!',
     hotkey: '`',
+    leaderboard: SCORE_RULES.crossy as LeaderboardConfig | null,
     info: {
       goal: 'Cross infinite lanes of traffic without getting hit.',
       controls: ['WASD or arrows: hop one step', 'R: restart'],
@@ -783,9 +864,10 @@ export const games = [
     category: 'Strategy' as GameCategory,
     description: '대각선으로 이동해 상대 말을 점프해서 잡으세요!',
     hotkey: '[',
+    leaderboard: null as LeaderboardConfig | null,
     info: {
       goal: 'Capture all opponent pieces or block them from moving.',
-      controls: ['Click piece to select, click highlighted square to move', 'R: reset'],
+      controls: ['Click piece to select, click highlighted square to move', 'Choose 2P or an MCTS AI level (AI plays blue)', 'Ctrl+Z / Ctrl+Y: undo / redo (move list beside the board)', 'R: reset'],
       mobileControls: 'Tap piece then tap destination.',
       scoring: 'Win by capturing all opponent pieces.',
       tips: 'Control center. King pieces early. Force multi-jumps.',
@@ -800,13 +882,14 @@ export const games = [
     category: 'Strategy' as GameCategory,
     description: '돌을 놓아 상대 돌을 뒤집으세요. 많이 가진 쪽이 승리!',
     hotkey: ']',
+    leaderboard: null as LeaderboardConfig | null,
     info: {
       goal: 'Have more pieces than opponent when board is full.',
-      controls: ['Click valid square to place and flip opponent pieces', 'R: reset'],
+      controls: ['Click valid square to place and flip opponent pieces', 'Choose 2P or an AI level', 'Hint: show legal squares and flip counts', 'Ctrl+Z / Ctrl+Y: undo / redo (move list beside the board)', '🔍 Game review (end-of-game card): engine marks inaccuracies/mistakes/blunders, shows the best alternative and an evaluation graph', 'Online: create a match and send the link — your opponent moves whenever they like', 'R: reset'],
       mobileControls: 'Tap highlighted square.',
-      scoring: 'Count pieces at game end. Most wins.',
-      tips: 'Corners are permanent. Fight for them. Fewer pieces mid-game can be stronger.',
-      note: 'Othello/Reversi classic strategy game. VS AI.',
+      scoring: 'Count pieces at game end. Most wins. Games vs AI update your local Glicko-2 rating, which suggests an AI level.',
+      tips: 'Corners are permanent. Fight for them. Fewer pieces mid-game can be stronger. A side with no legal move passes automatically.',
+      note: 'Othello/Reversi classic strategy game. 2P or vs AI (5 levels).',
     } as GameInfo,
     render: () => <OthelloCanvas />,
   },
@@ -817,11 +900,12 @@ export const games = [
     category: 'Strategy' as GameCategory,
     description: '정통 8x8 체스. 킹을 체크메이트하면 승리!',
     hotkey: '\\',
+    leaderboard: null as LeaderboardConfig | null,
     info: {
       goal: "Checkmate your opponent's king.",
-      controls: ['Click piece to select, click destination to move', 'R: reset'],
+      controls: ['Click piece to select, click destination to move', 'Ctrl+Z / Ctrl+Y: undo / redo (move list beside the board)', '🔍 Game review (end-of-game card): engine marks inaccuracies/mistakes/blunders, shows the best alternative and an evaluation graph', 'Online: create a match and send the link — your opponent moves whenever they like', 'R: reset'],
       mobileControls: 'Tap piece then tap destination.',
-      scoring: 'Win by checkmate. Draws: stalemate, 50-move rule.',
+      scoring: 'Win by checkmate. Draws: stalemate, 50-move rule. Games vs AI update your local Glicko-2 rating, which suggests an AI level.',
       tips: 'Control center early. Develop pieces before queen. Castle early.',
       note: 'Full chess with castling, en passant, and pawn promotion.',
     } as GameInfo,
@@ -834,13 +918,14 @@ export const games = [
     category: 'Strategy' as GameCategory,
     description: '돌을 옮겨 내 창고에 더 많이 모으세요. 전통 보드 게임!',
     hotkey: '/',
+    leaderboard: null as LeaderboardConfig | null,
     info: {
       goal: 'Collect more stones in your Mancala store than your opponent.',
-      controls: ['Click your pit (bottom row) to distribute stones', 'Last stone in your Mancala = extra turn', 'R: reset'],
+      controls: ['Click your pit (bottom row) to distribute stones', 'Kalah: last stone in your Mancala = extra turn', 'Choose Kalah(6,3/4/6) or Oware, 2P, an AI level or the generic MCTS AI', 'Ctrl+Z / Ctrl+Y: undo / redo (move list beside the board)', 'R: reset'],
       mobileControls: 'Tap a pit in your row.',
-      scoring: 'Count stones at end. Most wins.',
-      tips: 'Calculate which pit ends in your Mancala for extra turns.',
-      note: "Mancala Kalah variant. One of the world's oldest board games.",
+      scoring: 'Count stones at end. Most wins. Games vs AI update your local Glicko-2 rating, which suggests an AI level.',
+      tips: 'Kalah: calculate which pit ends in your Mancala for extra turns. Oware: make opponent pits hold 2 or 3 to capture.',
+      note: "Kalah and Oware/Awalé rulesets with AI. One of the world's oldest board games.",
     } as GameInfo,
     render: () => <MancalaCanvas />,
   },
@@ -848,3 +933,13 @@ export const games = [
 
 export type GameDefinition = typeof games[number];
 export type GameId = GameDefinition['id'];
+
+export function getLeaderboardConfig(id: GameId): LeaderboardConfig | null {
+  return games.find((g) => g.id === id)?.leaderboard ?? null;
+}
+
+/** 통합 입력(useGameInput)을 쓰는 게임의 논리 액션 선언 */
+export function getInputActions(id: GameId): InputActionMap | null {
+  const game = games.find((g) => g.id === id);
+  return game && 'input' in game ? game.input : null;
+}
@@ -0,0 +1,166 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { GameId } from '../games';
+import { DEFAULT_RATING, Glicko2Rating, updateRating } from '../shared/glicko2';
+import type { TurnBasedController } from './useTurnBasedGame';
+
+/**
+ * AI 대전 레이팅 (게임별 Glicko-2, localStorage)
+ *
+ * AI 레벨마다 고정 레이팅(*_AI_LEVELS의 rating)을 두고, AI와 한 판이 끝날 때마다 사람 레이팅을 갱신한다.
+ * 같은 판(시작 상태가 같은 수순)은 무르기/다시 하기로 여러 번 끝나도 처음 한 번만 센다.
+ * 끝나기 전에 무르기(이전 수로 돌아가기)를 한 판은 레이팅에 넣지 않는다 — 버려도 패배로 세지 않는다.
+ * 사람이 한 수라도 둔 판을 끝내지 않고 새 판/레벨 변경/화면 이탈로 버리면 패배로 센다 —
+ * 진행 중 표시를 localStorage에 남겨 두므로 창을 닫아도 다음에 열 때 정산된다.
+ */
+export interface AiRatingLevel {
+  label: string;
+  rating: number;
+}
+
+export interface RatingPoint {
+  // 기록 시각 (ms)
+  at: number;
+  rating: number;
+  rd: number;
+  // 상대한 AI 레벨의 레이팅
+  opponent: number;
+  // 1: 승, 0.5: 무, 0: 패
+  score: number;
+}
+
+export interface RatingRecord extends Glicko2Rating {
+  wins: number;
+  draws: number;
+  losses: number;
+  history: RatingPoint[];
+}
+
+export interface AiRating {
+  record: RatingRecord;
+  // 지금 레이팅에 가장 가까운 레벨 (기대 승률이 50%에 가장 가까움)
+  suggested: number;
+  // 이번 판은 무르기를 써서 레이팅에 들어가지 않는다
+  unrated: boolean;
+}
+
+const STORAGE_PREFIX = 'rating_';
+// 진행 중인 레이팅 판 { opponent } — 끝나기 전에 버려지면 패배로 정산
+const PENDING_PREFIX = 'rating_pending_';
+const MAX_HISTORY = 200;
+// AI 레이팅은 고정값이라 편차를 작게 둔다
+const AI_RD = 50;
+
+const emptyRecord = (): RatingRecord => ({ ...DEFAULT_RATING, wins: 0, draws: 0, losses: 0, history: [] });
+
+function loadRecord(gameId: GameId): RatingRecord {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_PREFIX + gameId) ?? 'null');
+    return saved && typeof saved.rating === 'number' ? { ...emptyRecord(), ...saved } : emptyRecord();
+  } catch {
+    return emptyRecord();
+  }
+}
+
+function applyResult(record: RatingRecord, opponent: number, score: number): RatingRecord {
+  const next = updateRating(record, [{ opponent: { rating: opponent, rd: AI_RD }, score }]);
+  const point: RatingPoint = { at: Date.now(), rating: next.rating, rd: next.rd, opponent, score };
+  return {
+    ...next,
+    wins: record.wins + (score === 1 ? 1 : 0),
+    draws: record.draws + (score === 0.5 ? 1 : 0),
+    losses: record.losses + (score === 0 ? 1 : 0),
+    history: [...record.history, point].slice(-MAX_HISTORY),
+  };
+}
+
+/** 끝내지 않고 버린 판을 패배로 기록 — 정산할 판이 없으면 null */
+function settleAbandoned(gameId: GameId): RatingRecord | null {
+  const saved = localStorage.getItem(PENDING_PREFIX + gameId);
+  if (saved === null) return null;
+  localStorage.removeItem(PENDING_PREFIX + gameId);
+  try {
+    const { opponent } = JSON.parse(saved);
+    if (typeof opponent !== 'number') return null;
+    const next = applyResult(loadRecord(gameId), opponent, 0);
+    localStorage.setItem(STORAGE_PREFIX + gameId, JSON.stringify(next));
+    return next;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * @param level 이번 판의 AI 레벨 인덱스 — null이면(2인/온라인) 기록하지 않는다
+ * @param outcome 끝난 상태에서 사람의 점수 (1/0.5/0)
+ */
+export function useAiRating<State, Move>(
+  gameId: GameId,
+  session: TurnBasedController<State, Move>,
+  levels: AiRatingLevel[],
+  level: number | null,
+  outcome: (state: State) => number
+): AiRating {
+  const [record, setRecord] = useState(() => settleAbandoned(gameId) ?? loadRecord(gameId));
+  // 이미 정산했거나 무르기로 빠진 판의 시작 상태 — 다시 세지 않는다
+  const recordedStartRef = useRef<State | null>(null);
+  const [unratedStart, setUnratedStart] = useState<State | null>(null);
+  // 진행 중인 레이팅 판 (시작 상태와 레벨)
+  const pendingRef = useRef<{ start: State; level: number } | null>(null);
+  const outcomeRef = useRef(outcome);
+  outcomeRef.current = outcome;
+
+  const { terminal, atLatest, state, history } = session;
+  const start = history.states[0];
+  const moveCount = history.moves.length;
+  useEffect(() => {
+    if (!terminal || !atLatest || level === null || recordedStartRef.current === start) return;
+    recordedStartRef.current = start;
+    pendingRef.current = null;
+    localStorage.removeItem(PENDING_PREFIX + gameId);
+    const next = applyResult(loadRecord(gameId), levels[level].rating, outcomeRef.current(state));
+    localStorage.setItem(STORAGE_PREFIX + gameId, JSON.stringify(next));
+    setRecord(next);
+  }, [terminal, atLatest, level, start, state, gameId, levels]);
+
+  useEffect(() => {
+    const pending = pendingRef.current;
+    if (pending && (pending.start !== start || pending.level !== level)) {
+      // 새 판을 시작했거나 레벨을 바꿨다 — 버린 판은 패배, 같은 판을 이어 둬도 다시 세지 않는다
+      pendingRef.current = null;
+      recordedStartRef.current = pending.start;
+      const next = settleAbandoned(gameId);
+      if (next) setRecord(next);
+    }
+    // 두 수 이상 — AI가 먼저 두는 판에서도 사람이 한 수는 둔 뒤부터
+    if (pendingRef.current || level === null || terminal || moveCount < 2 || recordedStartRef.current === start) return;
+    pendingRef.current = { start, level };
+    localStorage.setItem(PENDING_PREFIX + gameId, JSON.stringify({ opponent: levels[level].rating }));
+  }, [start, level, terminal, moveCount, gameId, levels]);
+
+  // 끝나기 전에 이전 수로 돌아갔다 — 이 판은 레이팅에서 뺀다
+  useEffect(() => {
+    if (atLatest || level === null || recordedStartRef.current === start) return;
+    recordedStartRef.current = start;
+    pendingRef.current = null;
+    localStorage.removeItem(PENDING_PREFIX + gameId);
+    setUnratedStart(start);
+  }, [atLatest, level, start, gameId]);
+
+  // 화면을 떠나면 진행 중인 판은 패배
+  useEffect(
+    () => () => {
+      if (pendingRef.current) settleAbandoned(gameId);
+    },
+    [gameId]
+  );
+
+  const suggested = useMemo(() => {
+    let best = 0;
+    levels.forEach((l, i) => {
+      if (Math.abs(l.rating - record.rating) < Math.abs(levels[best].rating - record.rating)) best = i;
+    });
+    return best;
+  }, [levels, record.rating]);
+
+  return { record, suggested, unrated: level !== null && unratedStart === start };
+}
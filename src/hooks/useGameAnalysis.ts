@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { MoveReview, PositionEval, reviewMove } from '../shared/analysis';
+import type { TurnBasedGame, TurnPlayer } from '../shared/turnBased';
+import type { TurnBasedController } from './useTurnBasedGame';
+
+/**
+ * 대국 후 분석 — 수순의 모든 국면을 워커로 하나씩 평가하고 수마다 등급을 매긴다
+ *
+ * 앞 국면부터 차례로 채워 가므로 분석 중에도 그래프와 앞쪽 수의 등급을 볼 수 있다.
+ * 수순이 바뀌면(새 수, 불러오기, 리셋) 처음부터 다시 분석한다.
+ */
+export interface GameAnalysis<Move> {
+  active: boolean;
+  // states[0]부터 분석이 끝난 국면들
+  evals: PositionEval<Move>[];
+  // moves[i]의 평가 — 앞뒤 국면이 모두 분석된 수까지
+  reviews: MoveReview[];
+  // 분석할 국면 수
+  total: number;
+  start: () => void;
+  stop: () => void;
+}
+
+/**
+ * @param reference 평가의 기준 쪽 (game.turn 값 — 체스 'w', 오델로 흑)
+ * @param analyze 국면 하나를 기준 쪽 시점으로 평가 (useAiWorker로 만든 워커 요청)
+ */
+export function useGameAnalysis<State, Move>(
+  game: TurnBasedGame<State, Move>,
+  session: TurnBasedController<State, Move>,
+  reference: TurnPlayer,
+  analyze: (state: State) => Promise<PositionEval<Move>>
+): GameAnalysis<Move> {
+  const [active, setActive] = useState(false);
+  // 어느 수순의 분석인지 같이 둔다 — 수순이 바뀐 직후 렌더에서 옛 결과를 섞지 않게
+  const [analyzed, setAnalyzed] = useState<{ states: State[]; evals: PositionEval<Move>[] } | null>(null);
+  const { states, labels } = session.history;
+  const evals = useMemo(() => (analyzed?.states === states ? analyzed.evals : []), [analyzed, states]);
+
+  // 끝난 판만 분석한다 — 새 판을 시작하면 분석을 닫는다
+  const finished = game.isTerminal(states[states.length - 1]);
+  useEffect(() => {
+    if (!finished) {
+      setActive(false);
+      setAnalyzed(null);
+    }
+  }, [finished]);
+
+  // 정리 함수가 돌면(수순 변경/분석 종료) 남은 응답은 버린다
+  useEffect(() => {
+    if (!active || !finished) return;
+    let cancelled = false;
+    const results: PositionEval<Move>[] = [];
+    const next = () => {
+      if (cancelled || results.length >= states.length) return;
+      analyze(states[results.length]).then(result => {
+        if (cancelled) return;
+        results.push(result);
+        setAnalyzed({ states, evals: [...results] });
+        next();
+      });
+    };
+    next();
+    return () => {
+      cancelled = true;
+    };
+  }, [active, finished, states, analyze]);
+
+  const reviews = useMemo(
+    () =>
+      evals.slice(1).map((after, i) => {
+        const before = evals[i];
+        // 수 객체는 매번 새로 만들어지므로 수순 표기로 비교한다
+        const best = before.best === null ? null : game.formatMove(states[i], before.best);
+        return reviewMove(before, after, game.turn(states[i]) === reference, labels[i], best);
+      }),
+    [evals, states, labels, game, reference]
+  );
+
+  const start = useCallback(() => setActive(true), []);
+  const stop = useCallback(() => {
+    setActive(false);
+    setAnalyzed(null);
+  }, []);
+
+  return { active, evals, reviews, total: states.length, start, stop };
+}
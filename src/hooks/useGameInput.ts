@@ -0,0 +1,201 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { GameId, getInputActions } from '../games';
+import {
+  GAMEPAD_BUTTON_INDEX,
+  GamepadButton,
+  Gesture,
+  InputActionMap,
+  isInputSuspended,
+  KeyBindings,
+  loadBindings,
+  normalizeKey,
+  subscribeBindings,
+} from '../input/bindings';
+
+/**
+ * 통합 입력 — 키보드/게임패드/스와이프·탭을 games.tsx에 선언된 논리 액션으로 바꿔 준다
+ *
+ * onPress는 액션이 눌린 순간(repeat 액션은 자동 반복 때도), onRelease는
+ * 그 액션을 누르던 입력이 모두 떨어진 순간 호출된다.
+ */
+export interface GameInputOptions {
+  onPress: (action: string) => void;
+  onRelease?: (action: string) => void;
+  // 제스처를 받을 요소 (보통 캔버스)
+  gestureTarget?: React.RefObject<HTMLElement>;
+  enabled?: boolean;
+}
+
+export interface GameInputControls {
+  isHeld: (action: string) => boolean;
+  // 현재 바인딩 (화면 안내용)
+  bindings: KeyBindings;
+}
+
+const STICK_THRESHOLD = 0.5;
+// 게임패드 자동 반복 (키보드 자동 반복과 비슷한 간격)
+const REPEAT_DELAY_MS = 220;
+const REPEAT_INTERVAL_MS = 60;
+const SWIPE_MIN_PX = 24;
+const TAP_MAX_MS = 300;
+
+function isGamepadButtonDown(pad: Gamepad, button: GamepadButton): boolean {
+  const index = GAMEPAD_BUTTON_INDEX[button];
+  if (index !== undefined) return !!pad.buttons[index]?.pressed;
+  const [x = 0, y = 0] = pad.axes;
+  switch (button) {
+    case 'lsLeft': return x < -STICK_THRESHOLD;
+    case 'lsRight': return x > STICK_THRESHOLD;
+    case 'lsUp': return y < -STICK_THRESHOLD;
+    case 'lsDown': return y > STICK_THRESHOLD;
+    default: return false;
+  }
+}
+
+const isTextField = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || /^(INPUT|TEXTAREA|SELECT)$/.test(target.tagName));
+
+export function useGameInput(gameId: GameId, options: GameInputOptions): GameInputControls {
+  const actions: InputActionMap = getInputActions(gameId) ?? {};
+  const [bindings, setBindings] = useState<KeyBindings>(() => loadBindings(gameId, actions));
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+  const bindingsRef = useRef(bindings);
+  bindingsRef.current = bindings;
+  // 액션별로 지금 누르고 있는 입력 (여러 입력이 같은 액션을 눌러도 한 번만 press)
+  const heldRef = useRef(new Map<string, Set<string>>());
+
+  useEffect(() => {
+    setBindings(loadBindings(gameId, actionsRef.current));
+    return subscribeBindings((changed) => {
+      if (changed === gameId) setBindings(loadBindings(gameId, actionsRef.current));
+    });
+  }, [gameId]);
+
+  const isHeld = useCallback((action: string) => (heldRef.current.get(action)?.size ?? 0) > 0, []);
+
+  useEffect(() => {
+    const held = heldRef.current;
+    const active = () => optionsRef.current.enabled !== false && !isInputSuspended();
+
+    const press = (action: string, source: string) => {
+      let sources = held.get(action);
+      if (!sources) held.set(action, (sources = new Set()));
+      const first = sources.size === 0;
+      sources.add(source);
+      if (first) optionsRef.current.onPress(action);
+    };
+    const release = (action: string, source: string) => {
+      const sources = held.get(action);
+      if (!sources?.delete(source) || sources.size) return;
+      optionsRef.current.onRelease?.(action);
+    };
+    const releaseAll = () => {
+      for (const [action, sources] of held) {
+        if (!sources.size) continue;
+        sources.clear();
+        optionsRef.current.onRelease?.(action);
+      }
+    };
+
+    const actionsForKey = (key: string) =>
+      Object.keys(bindingsRef.current).filter((name) => bindingsRef.current[name].includes(key));
+
+    /* ── 키보드 ── */
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!active() || isTextField(e.target)) return;
+      const key = normalizeKey(e.key);
+      // 바인딩은 수정키 없는 단일 키 — Ctrl+R·Cmd+W 같은 브라우저 단축키는 그대로 둔다
+      if ((e.ctrlKey && key !== 'Control') || (e.metaKey && key !== 'Meta') || (e.altKey && key !== 'Alt')) return;
+      const matched = actionsForKey(key);
+      if (!matched.length) return;
+      // 메뉴 단축키 등 다른 리스너로 새지 않게
+      e.preventDefault();
+      e.stopPropagation();
+      for (const action of matched) {
+        if (e.repeat) {
+          if (actionsRef.current[action]?.repeat) optionsRef.current.onPress(action);
+        } else {
+          press(action, `key:${key}`);
+        }
+      }
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      const key = normalizeKey(e.key);
+      for (const action of actionsForKey(key)) release(action, `key:${key}`);
+    };
+    window.addEventListener('keydown', onKeyDown, { capture: true });
+    window.addEventListener('keyup', onKeyUp, { capture: true });
+    window.addEventListener('blur', releaseAll);
+
+    /* ── 게임패드 (폴링) ── */
+    let rafId = 0;
+    const repeatAt = new Map<string, number>();
+    const pollGamepads = (now: number) => {
+      const pads = navigator.getGamepads?.() ?? [];
+      for (const [action, def] of Object.entries(actionsRef.current)) {
+        for (const button of def.gamepad ?? []) {
+          for (const pad of pads) {
+            if (!pad) continue;
+            const source = `pad:${pad.index}:${button}`;
+            const down = active() && isGamepadButtonDown(pad, button);
+            const wasDown = held.get(action)?.has(source) ?? false;
+            if (down && !wasDown) {
+              press(action, source);
+              repeatAt.set(source, now + REPEAT_DELAY_MS);
+            } else if (down && def.repeat && now >= (repeatAt.get(source) ?? Infinity)) {
+              optionsRef.current.onPress(action);
+              repeatAt.set(source, now + REPEAT_INTERVAL_MS);
+            } else if (!down && wasDown) {
+              release(action, source);
+            }
+          }
+        }
+      }
+      rafId = requestAnimationFrame(pollGamepads);
+    };
+    if (typeof navigator.getGamepads === 'function') rafId = requestAnimationFrame(pollGamepads);
+
+    /* ── 터치 제스처 ── */
+    const target = optionsRef.current.gestureTarget?.current;
+    let touchStart: { x: number; y: number; t: number } | null = null;
+    const onTouchStart = (e: TouchEvent) => {
+      touchStart = { x: e.touches[0].clientX, y: e.touches[0].clientY, t: performance.now() };
+    };
+    const onTouchEnd = (e: TouchEvent) => {
+      if (!touchStart || !active()) return;
+      const dx = e.changedTouches[0].clientX - touchStart.x;
+      const dy = e.changedTouches[0].clientY - touchStart.y;
+      const elapsed = performance.now() - touchStart.t;
+      touchStart = null;
+      let gesture: Gesture | null = null;
+      if (Math.max(Math.abs(dx), Math.abs(dy)) >= SWIPE_MIN_PX) {
+        gesture = Math.abs(dx) > Math.abs(dy) ? (dx > 0 ? 'swipeRight' : 'swipeLeft') : dy > 0 ? 'swipeDown' : 'swipeUp';
+      } else if (elapsed <= TAP_MAX_MS) {
+        gesture = 'tap';
+      }
+      if (!gesture) return;
+      for (const [action, def] of Object.entries(actionsRef.current)) {
+        if (!def.gestures?.includes(gesture)) continue;
+        press(action, `touch:${gesture}`);
+        release(action, `touch:${gesture}`);
+      }
+    };
+    target?.addEventListener('touchstart', onTouchStart, { passive: true });
+    target?.addEventListener('touchend', onTouchEnd);
+
+    return () => {
+      window.removeEventListener('keydown', onKeyDown, { capture: true });
+      window.removeEventListener('keyup', onKeyUp, { capture: true });
+      window.removeEventListener('blur', releaseAll);
+      cancelAnimationFrame(rafId);
+      target?.removeEventListener('touchstart', onTouchStart);
+      target?.removeEventListener('touchend', onTouchEnd);
+      held.clear();
+    };
+  }, []);
+
+  return { isHeld, bindings };
+}
@@ -0,0 +1,131 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+
+/**
+ * 고정 스텝 게임 루프
+ *
+ * update는 항상 stepMs 간격으로 호출되므로 60Hz/144Hz 화면에서 게임 속도가 같다.
+ * render는 매 프레임 한 번, 다음 스텝까지의 진행률 alpha(0~1)와 함께 호출된다 —
+ * 직전/현재 상태를 alpha로 보간해 그리면 고주사율 화면에서도 부드럽다.
+ */
+export interface GameLoopOptions {
+  // 한 스텝의 고정 시간 (ms)
+  update: (stepMs: number) => void;
+  render: (alpha: number) => void;
+  stepMs?: number;
+  // false면 update를 멈추고 render만 (준비/게임 오버 화면 등)
+  running?: boolean;
+  // 탭이 가려지거나 창이 포커스를 잃으면 자동 일시정지
+  autoPause?: boolean;
+  // 주면 고해상도(DPR) 화면에 맞춰 캔버스 해상도를 조정
+  canvas?: { ref: React.RefObject<HTMLCanvasElement>; width: number; height: number };
+}
+
+export interface GameLoopControls {
+  paused: boolean;
+  pause: () => void;
+  resume: () => void;
+  togglePause: () => void;
+}
+
+// 탭 복귀 직후 몰아서 따라잡는 스텝 수 제한
+const MAX_FRAME_MS = 250;
+
+export function useGameLoop({
+  update,
+  render,
+  stepMs = 1000 / 60,
+  running = true,
+  autoPause = true,
+  canvas,
+}: GameLoopOptions): GameLoopControls {
+  const [paused, setPaused] = useState(false);
+  const pausedRef = useRef(false);
+  // 콜백은 ref로 들고 있어 루프를 다시 만들지 않는다
+  const callbacksRef = useRef({ update, render, stepMs, running });
+  callbacksRef.current = { update, render, stepMs, running };
+
+  const setPausedBoth = useCallback((value: boolean) => {
+    pausedRef.current = value;
+    setPaused(value);
+  }, []);
+
+  const pause = useCallback(() => setPausedBoth(true), [setPausedBoth]);
+  const resume = useCallback(() => setPausedBoth(false), [setPausedBoth]);
+  const togglePause = useCallback(() => setPausedBoth(!pausedRef.current), [setPausedBoth]);
+
+  useEffect(() => {
+    let rafId = 0;
+    let last = performance.now();
+    let acc = 0;
+
+    const frame = (now: number) => {
+      const { update, render, stepMs, running } = callbacksRef.current;
+      const dt = Math.min(MAX_FRAME_MS, now - last);
+      last = now;
+
+      if (!running) {
+        // 멈춘 화면은 현재 상태 그대로
+        acc = 0;
+        render(1);
+      } else {
+        // 일시정지 중에는 acc를 그대로 두어 재개 시 보간이 튀지 않게
+        if (!pausedRef.current) {
+          acc += dt;
+          while (acc >= stepMs) {
+            update(stepMs);
+            acc -= stepMs;
+            if (pausedRef.current) break;
+          }
+        }
+        render(Math.min(1, acc / stepMs));
+      }
+      rafId = requestAnimationFrame(frame);
+    };
+    rafId = requestAnimationFrame(frame);
+    return () => cancelAnimationFrame(rafId);
+  }, []);
+
+  // 마운트 후 ref가 붙은 다음에 해상도 조정
+  const canvasRef = canvas?.ref;
+  const canvasWidth = canvas?.width;
+  const canvasHeight = canvas?.height;
+  useEffect(() => {
+    const el = canvasRef?.current;
+    if (el && canvasWidth && canvasHeight) scaleCanvasForDpr(el, canvasWidth, canvasHeight);
+  }, [canvasRef, canvasWidth, canvasHeight]);
+
+  useEffect(() => {
+    if (!autoPause) return;
+    const autoPauseIfRunning = () => {
+      if (callbacksRef.current.running && !pausedRef.current) setPausedBoth(true);
+    };
+    const handleVisibility = () => {
+      if (document.hidden) autoPauseIfRunning();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('blur', autoPauseIfRunning);
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('blur', autoPauseIfRunning);
+    };
+  }, [autoPause, setPausedBoth]);
+
+  return { paused, pause, resume, togglePause };
+}
+
+/** 고해상도 화면용 캔버스 크기 조정 — 그리기 좌표는 width/height 그대로 쓴다 */
+export function scaleCanvasForDpr(
+  canvas: HTMLCanvasElement,
+  width: number,
+  height: number
+): CanvasRenderingContext2D | null {
+  const dpr = window.devicePixelRatio || 1;
+  canvas.width = Math.floor(width * dpr);
+  canvas.height = Math.floor(height * dpr);
+  const ctx = canvas.getContext('2d');
+  ctx?.setTransform(dpr, 0, 0, dpr, 0, 0);
+  return ctx;
+}
+
+/** 보간용 선형 보간 */
+export const lerp = (from: number, to: number, alpha: number) => from + (to - from) * alpha;
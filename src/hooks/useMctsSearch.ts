@@ -0,0 +1,19 @@
+import { useCallback } from 'react';
+import type { MctsGameId } from '../shared/mctsGames';
+import type { MctsAiRequest, MctsAiResponse } from '../workers/mcts.worker';
+import { useAiWorker } from './useTurnBasedGame';
+
+/**
+ * 범용 MCTS 상대 — 게임 id만 주면 워커 탐색 함수를 돌려준다 (TurnBasedAi.search에 쓴다)
+ *
+ * @returns (state, level) → 고른 수 (level은 MCTS_LEVELS 인덱스)
+ */
+export function useMctsSearch<State, Move>(game: MctsGameId): (state: State, level: number) => Promise<Move | null> {
+  const search = useAiWorker<MctsAiRequest, MctsAiResponse>(
+    () => new Worker(new URL('../workers/mcts.worker.ts', import.meta.url), { type: 'module' })
+  );
+  return useCallback(
+    (state: State, level: number) => search({ game, state, level }).then(res => res.move as Move | null),
+    [game, search]
+  );
+}
@@ -0,0 +1,227 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  MatchErrorCode,
+  MatchOptions,
+  MatchRules,
+  MatchView,
+  replayMatch,
+  Seat,
+  seatToMove,
+} from '../shared/matches';
+import { getAnonymousUserId } from '../utils/anonymousUser';
+import type { TurnBasedController } from './useTurnBasedGame';
+
+/**
+ * 온라인(통신) 대전 — 판은 /api/matches에 저장되고 링크(#chess?match=…)로 공유한다
+ *
+ * 내 차례가 아니면 3초마다 폴링해 새 수를 수순에 불러온다.
+ * 내 수는 화면에 먼저 두고(session.play) 서버로 보내며, 거부되면 서버 수순으로 되돌린다.
+ */
+const POLL_INTERVAL_MS = 3000;
+
+// /api/matches 거부 코드 → 안내 문구
+const MATCH_ERROR_MESSAGES: Record<MatchErrorCode, string> = {
+  INVALID_JSON: '요청 형식이 올바르지 않습니다.',
+  UNKNOWN_GAME: '이 게임은 온라인 대전을 지원하지 않습니다.',
+  ANONYMOUS_ID_REQUIRED: '사용자 식별값을 만들 수 없습니다. 브라우저 저장소를 확인하세요.',
+  INVALID_SEAT: '자리를 다시 골라 주세요.',
+  NOT_FOUND: '대전을 찾을 수 없습니다. 링크를 확인하세요.',
+  MATCH_FULL: '두 자리가 모두 찼습니다. 관전만 할 수 있습니다.',
+  NOT_A_PLAYER: '이 대전의 참가자가 아닙니다.',
+  NOT_ACTIVE: '진행 중인 대전이 아닙니다.',
+  NOT_YOUR_TURN: '상대 차례입니다.',
+  STALE_PLY: '그 사이 판이 바뀌어 최신 수순으로 다시 불러왔습니다.',
+  ILLEGAL_MOVE: '서버에서 둘 수 없는 수로 판정했습니다.',
+  RATE_LIMITED: '대전을 너무 자주 만들었습니다. 잠시 후 다시 시도해 주세요.',
+};
+
+function readMatchId(): string | null {
+  const query = window.location.hash.split('?')[1] ?? '';
+  return new URLSearchParams(query).get('match');
+}
+
+function writeMatchId(id: string | null) {
+  const page = window.location.hash.replace(/^#\/?/, '').split('?')[0];
+  window.location.hash = id === null ? page : `${page}?match=${encodeURIComponent(id)}`;
+}
+
+async function request(path: string, init?: RequestInit): Promise<MatchView> {
+  const response = await fetch(path, init);
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    const code = data.code as MatchErrorCode | undefined;
+    // 거부 응답도 최신 판을 같이 주면 붙여 보낸다
+    throw Object.assign(new Error((code && MATCH_ERROR_MESSAGES[code]) || data.error || '대전 서버에 연결하지 못했습니다.'), {
+      match: data.match as MatchView | undefined,
+    });
+  }
+  return data.match as MatchView;
+}
+
+const post = (path: string, body: object) =>
+  request(path, {
+    method: 'POST',
+    headers: { 'content-type': 'application/json' },
+    body: JSON.stringify({ ...body, anonymous_user_id: getAnonymousUserId() }),
+  });
+
+/**
+ * 온라인 모드 여부 + 링크의 대전 id
+ *
+ * 세션의 AI 설정보다 먼저 알아야 해서 useOnlineMatch와 따로 둔다.
+ * 링크로 들어오면 처음부터 켜져 있고, 끄면 주소의 ?match=도 지운다.
+ */
+export interface OnlineMode {
+  enabled: boolean;
+  matchId: string | null;
+  enable: () => void;
+  disable: () => void;
+  setMatchId: (id: string | null) => void;
+}
+
+export function useOnlineMode(): OnlineMode {
+  const [matchId, setMatchIdState] = useState(readMatchId);
+  const [opened, setOpened] = useState(false);
+
+  useEffect(() => {
+    const onHashChange = () => setMatchIdState(readMatchId());
+    window.addEventListener('hashchange', onHashChange);
+    return () => window.removeEventListener('hashchange', onHashChange);
+  }, []);
+
+  const setMatchId = useCallback((id: string | null) => {
+    setMatchIdState(id);
+    writeMatchId(id);
+  }, []);
+  const enable = useCallback(() => setOpened(true), []);
+  const disable = useCallback(() => {
+    setOpened(false);
+    if (readMatchId() !== null) setMatchId(null);
+  }, [setMatchId]);
+
+  return { enabled: opened || matchId !== null, matchId, enable, disable, setMatchId };
+}
+
+export interface OnlineMatch {
+  view: MatchView | null;
+  // 내 자리 (관전/대전 없음이면 null)
+  seat: Seat | null;
+  // 상대가 들어와 판이 진행 중이고 내 차례
+  myTurn: boolean;
+  busy: boolean;
+  error: string;
+  // 상대에게 보낼 링크
+  link: string | null;
+  create: (seat: Seat, options?: MatchOptions) => void;
+}
+
+export function useOnlineMatch<State, Move>(
+  rules: MatchRules<State, Move>,
+  session: TurnBasedController<State, Move>,
+  { matchId, setMatchId }: OnlineMode
+): OnlineMatch {
+  const [view, setView] = useState<MatchView | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  // 서버로 보내는 중인 수의 ply — 응답 전 폴링/재전송 방지
+  const pendingRef = useRef<number | null>(null);
+  // 마지막으로 수순을 맞춘 판 — 다른 판이면 수가 없어도 시작 상태(옵션)부터 다시 맞춘다
+  const syncedIdRef = useRef<string | null>(null);
+  const sessionRef = useRef(session);
+  sessionRef.current = session;
+
+  const { history } = session;
+  const current = view?.id === matchId ? view : null;
+  const seat = current?.seat ?? null;
+  const latest = history.states[history.moves.length];
+  const myTurn =
+    current?.status === 'active' && seat !== null && !session.terminal && seatToMove(rules, latest) === seat;
+
+  const refresh = useCallback(async (id: string) => {
+    try {
+      const match = await request(`/api/matches/${encodeURIComponent(id)}`, {
+        headers: { 'x-anonymous-user-id': getAnonymousUserId() },
+      });
+      // 처음 링크로 들어온 사람은 빈 자리에 앉는다
+      const joinable = match.seat === null && match.status === 'waiting' && match.seats.includes(false);
+      setView(joinable ? await post(`/api/matches/${encodeURIComponent(id)}`, {}) : match);
+      setError('');
+    } catch (e) {
+      const rejected = (e as { match?: MatchView }).match;
+      if (rejected) setView(rejected);
+      setError(e instanceof Error ? e.message : '대전 서버에 연결하지 못했습니다.');
+    }
+  }, []);
+
+  // 링크가 바뀌면 판을 새로 불러온다 (방금 만든 판은 이미 받아 둔 것을 그대로 쓴다)
+  useEffect(() => {
+    setView(prev => (prev?.id === matchId ? prev : null));
+    setError('');
+    pendingRef.current = null;
+    if (matchId !== null) refresh(matchId);
+  }, [matchId, refresh]);
+
+  // 상대를 기다리는 동안 폴링 (탭이 가려져 있으면 건너뜀)
+  const waiting = current !== null && current.status !== 'finished' && !myTurn;
+  useEffect(() => {
+    if (matchId === null || !waiting) return;
+    const timer = window.setInterval(() => {
+      if (document.visibilityState === 'visible' && pendingRef.current === null) refresh(matchId);
+    }, POLL_INTERVAL_MS);
+    return () => window.clearInterval(timer);
+  }, [matchId, waiting, refresh]);
+
+  // 서버 수순이 화면과 다르면 서버 쪽으로 맞춘다 (상대의 새 수, 거부된 내 수)
+  useEffect(() => {
+    if (current === null) return;
+    const { history: local, load } = sessionRef.current;
+    const localCodes = local.moves.map(m => rules.encodeMove(m));
+    const same = localCodes.length === current.moves.length && localCodes.every((code, i) => code === current.moves[i]);
+    if (same && syncedIdRef.current === current.id) return;
+    syncedIdRef.current = current.id;
+    const replay = replayMatch(rules, current.options, current.moves);
+    if (replay) load(replay);
+  }, [current, rules]);
+
+  // 내 차례에 화면에서 둔 수를 서버로 보낸다
+  useEffect(() => {
+    if (current === null || seat === null || current.status !== 'active' || pendingRef.current !== null) return;
+    const ply = current.moves.length;
+    if (history.moves.length !== ply + 1 || seatToMove(rules, history.states[ply]) !== seat) return;
+    pendingRef.current = ply;
+    post(`/api/matches/${encodeURIComponent(current.id)}/moves`, { ply, move: rules.encodeMove(history.moves[ply]) })
+      .then(match => {
+        setView(match);
+        setError('');
+      })
+      .catch(e => {
+        setError(e instanceof Error ? e.message : '수를 보내지 못했습니다.');
+        // 최신 판으로 되돌린다 — 새 객체라 수순 맞추기가 다시 돈다
+        const rejected = (e as { match?: MatchView }).match;
+        setView(rejected ?? { ...current });
+      })
+      .finally(() => {
+        pendingRef.current = null;
+      });
+  }, [history, current, seat, rules]);
+
+  const create = useCallback(
+    (chosen: Seat, options: MatchOptions = {}) => {
+      setBusy(true);
+      setError('');
+      post('/api/matches', { game_id: rules.id, seat: chosen, options })
+        .then(match => {
+          setView(match);
+          setMatchId(match.id);
+        })
+        .catch(e => setError(e instanceof Error ? e.message : '대전을 만들지 못했습니다.'))
+        .finally(() => setBusy(false));
+    },
+    [rules, setMatchId]
+  );
+
+  const link =
+    matchId === null ? null : `${window.location.origin}${window.location.pathname}#${rules.id}?match=${encodeURIComponent(matchId)}`;
+
+  return { view: current, seat, myTurn, busy, error, link, create };
+}
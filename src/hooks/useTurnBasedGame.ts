@@ -0,0 +1,162 @@
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  GameHistory,
+  jumpTo,
+  pushMove,
+  redoTarget,
+  startHistory,
+  TurnBasedGame,
+  undoTarget,
+} from '../shared/turnBased';
+
+/**
+ * 턴제 게임 상태 + 수순 기록 + AI 차례 처리
+ *
+ * 보고 있는 위치(ply)가 곧 되돌리기 커서다. 되돌린 상태에서 두면 뒤 수순은 버려진다.
+ * AI는 최신 위치에서 자기 차례일 때만 탐색하고, 그 사이 상태가 바뀌면 결과를 버린다.
+ * AI 대전의 되돌리기/다시 하기는 사람 차례까지 한꺼번에 움직인다.
+ */
+export interface TurnBasedAi<State, Move> {
+  // 이 상태에서 AI가 둘 차례인지
+  isAiTurn(state: State): boolean;
+  search(state: State): Promise<Move | null>;
+}
+
+export interface TurnBasedOptions<State, Move> {
+  // 매 렌더 새로 만들면 탐색을 다시 시작하므로 useMemo로 넘긴다
+  ai?: TurnBasedAi<State, Move> | null;
+  // 주면 AI가 고른 수를 바로 두지 않고 넘긴다 (애니메이션 뒤 play 하는 게임용)
+  onAiMove?: (move: Move, state: State) => void;
+}
+
+export interface TurnBasedController<State, Move> {
+  state: State;
+  history: GameHistory<State, Move>;
+  ply: number;
+  // 보고 있는 위치로 오게 한 수
+  lastMove: Move | null;
+  legalMoves: Move[];
+  terminal: boolean;
+  atLatest: boolean;
+  thinking: boolean;
+  // 사람이 지금 둘 수 있는지 (게임 중이고 AI 차례가 아님)
+  canPlay: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
+  play: (move: Move) => void;
+  undo: () => void;
+  redo: () => void;
+  goTo: (ply: number) => void;
+  reset: (start: State) => void;
+  load: (history: GameHistory<State, Move>) => void;
+}
+
+export function useTurnBasedGame<State, Move>(
+  game: TurnBasedGame<State, Move>,
+  initial: () => State,
+  { ai = null, onAiMove }: TurnBasedOptions<State, Move> = {}
+): TurnBasedController<State, Move> {
+  const [history, setHistory] = useState<GameHistory<State, Move>>(() => startHistory(initial()));
+  const [thinking, setThinking] = useState(false);
+  const onAiMoveRef = useRef(onAiMove);
+  onAiMoveRef.current = onAiMove;
+
+  const { states, moves, ply } = history;
+  const state = states[ply];
+  const atLatest = ply === moves.length;
+  const terminal = useMemo(() => game.isTerminal(state), [game, state]);
+  const legalMoves = useMemo(() => (terminal ? [] : game.legalMoves(state)), [game, state, terminal]);
+  const aiTurn = !!ai && ai.isAiTurn(state);
+
+  // AI 대전에서 되돌리기/다시 하기가 멈추는 곳: 사람 차례이거나 끝난 상태
+  const stop = useCallback((s: State) => !ai || !ai.isAiTurn(s) || game.isTerminal(s), [ai, game]);
+  const undoPly = useMemo(() => undoTarget(history, stop), [history, stop]);
+  const redoPly = useMemo(() => redoTarget(history, stop), [history, stop]);
+
+  const play = useCallback((move: Move) => setHistory(prev => pushMove(game, prev, move)), [game]);
+  const goTo = useCallback((target: number) => setHistory(prev => jumpTo(prev, target)), []);
+  const undo = useCallback(() => {
+    if (undoPly !== null) goTo(undoPly);
+  }, [undoPly, goTo]);
+  const redo = useCallback(() => {
+    if (redoPly !== null) goTo(redoPly);
+  }, [redoPly, goTo]);
+  const reset = useCallback((start: State) => setHistory(startHistory(start)), []);
+  const load = useCallback((next: GameHistory<State, Move>) => setHistory(next), []);
+
+  // 최신 위치에서 AI 차례면 탐색 — 정리 함수가 돌면(상태 변경/리셋) 결과는 버린다
+  useEffect(() => {
+    if (!ai || !atLatest || terminal || !ai.isAiTurn(state)) return;
+    let cancelled = false;
+    setThinking(true);
+    ai.search(state).then(move => {
+      if (cancelled) return;
+      setThinking(false);
+      if (move === null) return;
+      if (onAiMoveRef.current) onAiMoveRef.current(move, state);
+      else play(move);
+    });
+    return () => {
+      cancelled = true;
+      setThinking(false);
+    };
+  }, [ai, atLatest, terminal, state, play]);
+
+  return {
+    state,
+    history,
+    ply,
+    lastMove: ply > 0 ? moves[ply - 1] : null,
+    legalMoves,
+    terminal,
+    atLatest,
+    thinking,
+    canPlay: !terminal && !aiTurn,
+    canUndo: undoPly !== null,
+    canRedo: redoPly !== null,
+    play,
+    undo,
+    redo,
+    goTo,
+    reset,
+    load,
+  };
+}
+
+/**
+ * AI 워커를 컴포넌트 수명 동안 하나 유지하고, 요청마다 id를 붙여 응답을 Promise로 돌려준다.
+ * create는 Vite가 워커를 번들하도록 호출하는 쪽에서 new Worker(new URL(...))로 만든다.
+ */
+export function useAiWorker<Request extends { id: number }, Response extends { id: number }>(
+  create: () => Worker
+): (request: Omit<Request, 'id'>) => Promise<Response> {
+  const workerRef = useRef<Worker | null>(null);
+  const pendingRef = useRef(new Map<number, (response: Response) => void>());
+  const nextIdRef = useRef(0);
+  const createRef = useRef(create);
+
+  useEffect(() => {
+    const worker = createRef.current();
+    const pending = pendingRef.current;
+    worker.onmessage = (e: MessageEvent<Response>) => {
+      const resolve = pending.get(e.data.id);
+      pending.delete(e.data.id);
+      resolve?.(e.data);
+    };
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+      // 끝나지 않은 요청은 영영 응답이 없으므로 버린다
+      pending.clear();
+    };
+  }, []);
+
+  return useCallback((request: Omit<Request, 'id'>) => {
+    const id = ++nextIdRef.current;
+    return new Promise<Response>(resolve => {
+      pendingRef.current.set(id, resolve);
+      workerRef.current?.postMessage({ ...request, id });
+    });
+  }, []);
+}
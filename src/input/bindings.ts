@@ -0,0 +1,133 @@
+/**
+ * 입력 바인딩 — 물리 입력(키보드/게임패드/제스처)과 게임별 논리 액션의 연결
+ *
+ * 각 게임의 액션과 기본 입력은 games.tsx 항목의 input에 선언하고,
+ * 플레이어가 바꾼 키는 게임별로 localStorage에 저장한다.
+ */
+
+// 표준 매핑(Standard Gamepad) 버튼 + 왼쪽 스틱 방향
+export type GamepadButton =
+  | 'a' | 'b' | 'x' | 'y'
+  | 'lb' | 'rb' | 'lt' | 'rt'
+  | 'select' | 'start'
+  | 'up' | 'down' | 'left' | 'right'
+  | 'lsUp' | 'lsDown' | 'lsLeft' | 'lsRight';
+
+export type Gesture = 'swipeUp' | 'swipeDown' | 'swipeLeft' | 'swipeRight' | 'tap';
+
+export interface InputAction {
+  label: string;
+  // KeyboardEvent.key 값 (글자 키는 소문자)
+  keys: string[];
+  gamepad?: GamepadButton[];
+  gestures?: Gesture[];
+  // 누르고 있는 동안 자동 반복 입력도 보낼지 (블록 좌우 이동 등)
+  repeat?: boolean;
+}
+
+export type InputActionMap = Record<string, InputAction>;
+
+// 액션별 키 목록 (저장/적용 단위)
+export type KeyBindings = Record<string, string[]>;
+
+export const GAMEPAD_BUTTON_INDEX: Partial<Record<GamepadButton, number>> = {
+  a: 0, b: 1, x: 2, y: 3,
+  lb: 4, rb: 5, lt: 6, rt: 7,
+  select: 8, start: 9,
+  up: 12, down: 13, left: 14, right: 15,
+};
+
+const GAMEPAD_LABELS: Record<GamepadButton, string> = {
+  a: 'A', b: 'B', x: 'X', y: 'Y',
+  lb: 'LB', rb: 'RB', lt: 'LT', rt: 'RT',
+  select: 'Select', start: 'Start',
+  up: 'D-Pad ↑', down: 'D-Pad ↓', left: 'D-Pad ←', right: 'D-Pad →',
+  lsUp: 'L스틱 ↑', lsDown: 'L스틱 ↓', lsLeft: 'L스틱 ←', lsRight: 'L스틱 →',
+};
+
+const GESTURE_LABELS: Record<Gesture, string> = {
+  swipeUp: '위로 스와이프',
+  swipeDown: '아래로 스와이프',
+  swipeLeft: '왼쪽 스와이프',
+  swipeRight: '오른쪽 스와이프',
+  tap: '탭',
+};
+
+const KEY_LABELS: Record<string, string> = {
+  ' ': 'Space',
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+};
+
+/** 바인딩 비교용 키 이름 — 글자 키는 Shift/CapsLock과 무관하게 소문자 */
+export const normalizeKey = (key: string) => (key.length === 1 ? key.toLowerCase() : key);
+
+export const keyLabel = (key: string) => KEY_LABELS[key] ?? (key.length === 1 ? key.toUpperCase() : key);
+export const gamepadLabel = (button: GamepadButton) => GAMEPAD_LABELS[button];
+export const gestureLabel = (gesture: Gesture) => GESTURE_LABELS[gesture];
+
+const storageKey = (gameId: string) => `input_${gameId}`;
+
+export function defaultBindings(actions: InputActionMap): KeyBindings {
+  const bindings: KeyBindings = {};
+  for (const [name, action] of Object.entries(actions)) bindings[name] = action.keys.map(normalizeKey);
+  return bindings;
+}
+
+/** 기본값 위에 저장된 키를 덮어쓴 현재 바인딩 */
+export function loadBindings(gameId: string, actions: InputActionMap): KeyBindings {
+  const bindings = defaultBindings(actions);
+  try {
+    const saved = JSON.parse(localStorage.getItem(storageKey(gameId)) ?? '{}') as KeyBindings;
+    for (const name of Object.keys(bindings)) {
+      if (Array.isArray(saved[name])) bindings[name] = saved[name].filter((k) => typeof k === 'string');
+    }
+  } catch {
+    // 손상된 값은 무시하고 기본값
+  }
+  return bindings;
+}
+
+export function saveBindings(gameId: string, bindings: KeyBindings) {
+  localStorage.setItem(storageKey(gameId), JSON.stringify(bindings));
+  notify(gameId);
+}
+
+export function resetBindings(gameId: string) {
+  localStorage.removeItem(storageKey(gameId));
+  notify(gameId);
+}
+
+/** action에 key 하나만 배정 — 다른 액션이 쓰던 키면 거기서는 뺀다 */
+export function rebindKey(bindings: KeyBindings, action: string, key: string): KeyBindings {
+  const k = normalizeKey(key);
+  const next: KeyBindings = {};
+  for (const [name, keys] of Object.entries(bindings)) {
+    next[name] = name === action ? [k] : keys.filter((other) => other !== k);
+  }
+  return next;
+}
+
+// 바인딩 변경 구독 (설정 화면 → 실행 중인 게임)
+const listeners = new Set<(gameId: string) => void>();
+
+export function subscribeBindings(listener: (gameId: string) => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+function notify(gameId: string) {
+  listeners.forEach((listener) => listener(gameId));
+}
+
+// 조작 설정 화면이 열려 있는 동안에는 게임으로 입력을 보내지 않는다
+let suspended = false;
+export const setInputSuspended = (value: boolean) => {
+  suspended = value;
+};
+export const isInputSuspended = () => suspended;
@@ -0,0 +1,90 @@
+/**
+ * 대국 후 분석 공통 — 국면 평가를 승률로 바꿔 수마다 손실을 매긴다
+ *
+ * 엔진 점수는 게임마다 척도가 달라서(체스 센티폰, 오델로 평가값) 로지스틱 승률로 맞춘 뒤,
+ * 둔 쪽 기준 승률이 얼마나 떨어졌는지로 부정확/실수/블런더를 가른다.
+ * 평가는 늘 기준 쪽(체스 백, 오델로 흑) 시점으로 저장한다.
+ */
+
+export type MoveGrade = 'best' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface PositionEval<Move> {
+  // 기준 쪽 점수 (게임 고유 척도 — 표시용)
+  score: number;
+  // 기준 쪽 승률 (0~1)
+  winChance: number;
+  // 이 국면의 최선수 (끝난 국면이면 null)
+  best: Move | null;
+}
+
+export interface MoveReview {
+  grade: MoveGrade;
+  // 둔 쪽 기준 승률 손실 (0~1)
+  loss: number;
+  // 기준 쪽이 둔 수인지
+  byReference: boolean;
+  // 엔진이 고른 수의 수순 표기
+  best: string | null;
+}
+
+// 승률 손실 하한 — 이 이상이면 해당 등급
+const GRADE_THRESHOLDS: [MoveGrade, number][] = [
+  ['blunder', 0.3],
+  ['mistake', 0.15],
+  ['inaccuracy', 0.07],
+];
+
+export const GRADE_LABEL: Record<MoveGrade, string> = {
+  best: '최선',
+  good: '좋음',
+  inaccuracy: '부정확',
+  mistake: '실수',
+  blunder: '블런더',
+};
+
+// 기보식 기호 (최선/좋음은 표시 없음)
+export const GRADE_SYMBOL: Record<MoveGrade, string> = {
+  best: '',
+  good: '',
+  inaccuracy: '?!',
+  mistake: '?',
+  blunder: '??',
+};
+
+export const GRADE_COLOR: Record<MoveGrade, string> = {
+  best: '#2f9e44',
+  good: '#868e96',
+  inaccuracy: '#e6a700',
+  mistake: '#e8590c',
+  blunder: '#c92a2a',
+};
+
+/** 점수 → 승률 (로지스틱) — scale만큼 앞서면 약 73% */
+export function winChance(score: number, scale: number): number {
+  return 1 / (1 + Math.exp(-score / scale));
+}
+
+/**
+ * before → after로 가는 한 수를 평가한다. 같은 수인지는 수순 표기로 비교한다.
+ * @param byReference 기준 쪽이 둔 수인지
+ * @param played 둔 수의 표기
+ * @param best before의 최선수 표기
+ */
+export function reviewMove<Move>(
+  before: PositionEval<Move>,
+  after: PositionEval<Move>,
+  byReference: boolean,
+  played: string,
+  best: string | null
+): MoveReview {
+  const isBest = best === played;
+  const drop = byReference ? before.winChance - after.winChance : after.winChance - before.winChance;
+  const loss = isBest ? 0 : Math.max(0, drop);
+  const grade = isBest ? 'best' : GRADE_THRESHOLDS.find(([, min]) => loss >= min)?.[0] ?? 'good';
+  return { grade, loss, byReference, best };
+}
+
+/** 수순 목록에 붙일 기호 (부정확/실수/블런더만) */
+export function reviewMarks(reviews: MoveReview[]): ({ text: string; color: string } | null)[] {
+  return reviews.map(r => (GRADE_SYMBOL[r.grade] ? { text: GRADE_SYMBOL[r.grade], color: GRADE_COLOR[r.grade] } : null));
+}
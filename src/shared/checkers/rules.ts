@@ -0,0 +1,245 @@
+/**
+ * 체커 규칙 — 미국식(8x8)과 국제식(10x10)
+ *
+ * 보드는 size*size 배열, sq = row * size + col. 칸 값의 부호가 편(1: 빨강, -1: 파랑),
+ * 절댓값 2가 킹이다. 빨강은 아래쪽에서 출발해 row 0 방향으로 전진한다.
+ * 연속 잡기는 한 번의 Move(path)로 표현한다.
+ */
+import type { TurnBasedGame } from '../turnBased';
+
+export type CheckersVariantId = 'american' | 'international';
+export type Side = 1 | -1;
+
+export interface CheckersVariant {
+  id: CheckersVariantId;
+  label: string;
+  size: number;
+  // 편마다 채우는 줄 수
+  rows: number;
+  // 일반 말도 뒤로 잡을 수 있는지
+  menCaptureBackward: boolean;
+  // 킹이 여러 칸 이동/원거리 잡기를 하는지
+  flyingKings: boolean;
+  // 가장 많이 잡는 수만 허용하는지
+  maxCapture: boolean;
+  // 잡기/일반 말 이동 없이 이만큼 반수가 지나면 무승부
+  drawPlies: number;
+}
+
+export const CHECKERS_VARIANTS: Record<CheckersVariantId, CheckersVariant> = {
+  american: {
+    id: 'american',
+    label: '미국식 8x8',
+    size: 8,
+    rows: 3,
+    menCaptureBackward: false,
+    flyingKings: false,
+    maxCapture: false,
+    drawPlies: 80,
+  },
+  international: {
+    id: 'international',
+    label: '국제식 10x10',
+    size: 10,
+    rows: 4,
+    menCaptureBackward: true,
+    flyingKings: true,
+    maxCapture: true,
+    drawPlies: 50,
+  },
+};
+
+export interface CheckersMove {
+  // 출발 칸부터 거쳐 가는 착지 칸들
+  path: number[];
+  // 잡은 말의 칸 (잡기가 아니면 빈 배열)
+  captures: number[];
+}
+
+export interface CheckersState {
+  variant: CheckersVariantId;
+  board: number[];
+  turn: Side;
+  // 마지막 잡기/일반 말 이동 이후 반수
+  quietPlies: number;
+  // 반복 판정용 포지션 키
+  history: string[];
+}
+
+export type CheckersResult =
+  | { kind: 'win'; winner: Side }
+  | { kind: 'draw'; reason: 'repetition' | 'no-progress' };
+
+const DIRS = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+
+const positionKey = (board: number[], turn: Side) => `${board.join(',')}|${turn}`;
+
+export const isKing = (piece: number) => Math.abs(piece) === 2;
+export const sideOf = (piece: number): Side | 0 => (piece > 0 ? 1 : piece < 0 ? -1 : 0);
+
+export function initialState(variantId: CheckersVariantId = 'american'): CheckersState {
+  const { size, rows } = CHECKERS_VARIANTS[variantId];
+  const board = Array(size * size).fill(0);
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      if ((r + c) % 2 === 0) continue;
+      if (r < rows) board[r * size + c] = -1;
+      else if (r >= size - rows) board[r * size + c] = 1;
+    }
+  }
+  return { variant: variantId, board, turn: 1, quietPlies: 0, history: [positionKey(board, 1)] };
+}
+
+/** 한 말의 연속 잡기 수순 — 잡힌 말은 수순이 끝날 때까지 보드에 남아 길을 막는다 */
+function captureSequences(state: CheckersState, from: number): CheckersMove[] {
+  const rules = CHECKERS_VARIANTS[state.variant];
+  const { size } = rules;
+  const board = state.board.slice();
+  const piece = board[from];
+  const side = sideOf(piece) as Side;
+  const forward = side === 1 ? -1 : 1;
+  const lastRow = side === 1 ? 0 : size - 1;
+  board[from] = 0;
+  const results: CheckersMove[] = [];
+  const inside = (r: number, c: number) => r >= 0 && r < size && c >= 0 && c < size;
+
+  const search = (sq: number, king: boolean, path: number[], captures: number[]) => {
+    const r = Math.floor(sq / size);
+    const c = sq % size;
+    let extended = false;
+
+    for (const [dr, dc] of DIRS) {
+      if (!king && !rules.menCaptureBackward && dr !== forward) continue;
+      // 잡을 말까지 이동 (원거리 킹은 빈 칸을 건너뛸 수 있음)
+      let rr = r + dr;
+      let cc = c + dc;
+      if (king && rules.flyingKings) {
+        while (inside(rr, cc) && board[rr * size + cc] === 0) {
+          rr += dr;
+          cc += dc;
+        }
+      }
+      if (!inside(rr, cc)) continue;
+      const victim = rr * size + cc;
+      if (sideOf(board[victim]) !== -side || captures.includes(victim)) continue;
+
+      // 착지 칸들 (원거리 킹은 잡은 말 뒤 빈 칸 어디든)
+      let lr = rr + dr;
+      let lc = cc + dc;
+      while (inside(lr, lc) && board[lr * size + lc] === 0) {
+        const land = lr * size + lc;
+        extended = true;
+        const nextPath = [...path, land];
+        const nextCaptures = [...captures, victim];
+        // 미국식: 잡기 도중 끝줄에 닿아 킹이 되면 거기서 멈춤
+        if (!king && lr === lastRow && !rules.menCaptureBackward) {
+          results.push({ path: nextPath, captures: nextCaptures });
+        } else {
+          search(land, king, nextPath, nextCaptures);
+        }
+        if (!(king && rules.flyingKings)) break;
+        lr += dr;
+        lc += dc;
+      }
+    }
+
+    if (!extended && captures.length) results.push({ path, captures });
+  };
+
+  search(from, isKing(piece), [from], []);
+  return results;
+}
+
+function simpleMoves(state: CheckersState, from: number): CheckersMove[] {
+  const rules = CHECKERS_VARIANTS[state.variant];
+  const { size } = rules;
+  const piece = state.board[from];
+  const king = isKing(piece);
+  const forward = piece > 0 ? -1 : 1;
+  const moves: CheckersMove[] = [];
+  const r = Math.floor(from / size);
+  const c = from % size;
+
+  for (const [dr, dc] of DIRS) {
+    if (!king && dr !== forward) continue;
+    let rr = r + dr;
+    let cc = c + dc;
+    while (rr >= 0 && rr < size && cc >= 0 && cc < size && state.board[rr * size + cc] === 0) {
+      moves.push({ path: [from, rr * size + cc], captures: [] });
+      if (!(king && rules.flyingKings)) break;
+      rr += dr;
+      cc += dc;
+    }
+  }
+  return moves;
+}
+
+/** 현재 차례의 합법 수 — 잡을 수 있으면 잡기만, 국제식은 최다 잡기만 */
+export function legalMoves(state: CheckersState): CheckersMove[] {
+  const captures: CheckersMove[] = [];
+  const simple: CheckersMove[] = [];
+  state.board.forEach((piece, sq) => {
+    if (sideOf(piece) !== state.turn) return;
+    captures.push(...captureSequences(state, sq));
+    simple.push(...simpleMoves(state, sq));
+  });
+  if (!captures.length) return simple;
+  if (!CHECKERS_VARIANTS[state.variant].maxCapture) return captures;
+  const most = Math.max(...captures.map((m) => m.captures.length));
+  return captures.filter((m) => m.captures.length === most);
+}
+
+export function applyMove(state: CheckersState, move: CheckersMove): CheckersState {
+  const { size } = CHECKERS_VARIANTS[state.variant];
+  const board = state.board.slice();
+  const from = move.path[0];
+  const to = move.path[move.path.length - 1];
+  let piece = board[from];
+  board[from] = 0;
+  for (const sq of move.captures) board[sq] = 0;
+
+  // 끝줄에서 수를 마치면 킹
+  const lastRow = piece > 0 ? 0 : size - 1;
+  const manMove = !isKing(piece);
+  if (manMove && Math.floor(to / size) === lastRow) piece *= 2;
+  board[to] = piece;
+
+  const turn = -state.turn as Side;
+  const quiet = !move.captures.length && !manMove;
+  return {
+    variant: state.variant,
+    board,
+    turn,
+    quietPlies: quiet ? state.quietPlies + 1 : 0,
+    history: [...state.history, positionKey(board, turn)],
+  };
+}
+
+/** 종국이면 결과, 진행 중이면 null */
+export function getResult(state: CheckersState): CheckersResult | null {
+  // 둘 수가 없으면(말이 없거나 모두 막힘) 패배
+  if (!legalMoves(state).length) return { kind: 'win', winner: -state.turn as Side };
+  if (state.quietPlies >= CHECKERS_VARIANTS[state.variant].drawPlies) return { kind: 'draw', reason: 'no-progress' };
+  const current = state.history[state.history.length - 1];
+  if (state.history.filter((k) => k === current).length >= 3) return { kind: 'draw', reason: 'repetition' };
+  return null;
+}
+
+/** 표준 기보 번호 — 어두운 칸을 위쪽 줄부터 1번으로 센다 */
+export function squareNumber(sq: number, size: number): number {
+  return Math.floor(sq / size) * (size / 2) + Math.floor((sq % size) / 2) + 1;
+}
+
+/** 기보 표기 — 일반 이동 11-15, 잡기는 거쳐 간 칸까지 x로 이어서 (예: 22x15x8) */
+export function formatMove(state: CheckersState, move: CheckersMove): string {
+  const { size } = CHECKERS_VARIANTS[state.variant];
+  return move.path.map((sq) => squareNumber(sq, size)).join(move.captures.length ? 'x' : '-');
+}
+
+export const checkersGame: TurnBasedGame<CheckersState, CheckersMove> = {
+  legalMoves,
+  applyMove,
+  isTerminal: (state) => getResult(state) !== null,
+  turn: (state) => state.turn,
+  formatMove,
+};
@@ -0,0 +1,248 @@
+/**
+ * 체스 AI — 알파베타 네가맥스 + 정지 탐색(quiescence), 기물-칸 점수표 평가
+ *
+ * 반복 심화로 깊이를 늘려가며 시간 제한에 걸리면 직전 깊이의 최선수를 돌려준다.
+ * 순수 함수라 워커(src/workers/chessAi.worker.ts)에서 돌려 캔버스가 멈추지 않게 한다.
+ */
+import { applyMove, Color, inCheck, legalMoves, Move, PieceType, Position, rowOf, colOf, sameMove } from './rules';
+
+export interface AiLevel {
+  label: string;
+  // 사람 레이팅(Glicko-2) 계산에 쓰는 이 레벨의 고정 레이팅
+  rating: number;
+  // 최대 탐색 깊이 (반수)
+  depth: number;
+  // 한 수 생각 시간 상한
+  timeMs: number;
+  // 루트 수 점수에 더하는 무작위 흔들림 (센티폰) — 낮은 레벨의 실수 연출
+  noise: number;
+}
+
+export const AI_LEVELS: AiLevel[] = [
+  { label: '입문', rating: 700, depth: 1, timeMs: 300, noise: 200 },
+  { label: '초급', rating: 1000, depth: 2, timeMs: 600, noise: 60 },
+  { label: '중급', rating: 1300, depth: 3, timeMs: 1500, noise: 15 },
+  { label: '상급', rating: 1600, depth: 4, timeMs: 3000, noise: 0 },
+  { label: '마스터', rating: 1900, depth: 8, timeMs: 5000, noise: 0 },
+];
+
+export interface SearchOptions {
+  depth: number;
+  timeMs: number;
+  noise?: number;
+  random?: () => number;
+}
+
+export interface SearchResult {
+  move: Move | null;
+  // 두는 쪽 기준 평가 (센티폰, 메이트는 ±MATE_SCORE 근처)
+  score: number;
+  // 끝까지 마친 탐색 깊이
+  depth: number;
+  nodes: number;
+}
+
+export const MATE_SCORE = 100_000;
+const QUIESCE_MAX_PLY = 8;
+
+export const PIECE_VALUES: Record<PieceType, number> = { p: 100, n: 320, b: 330, r: 500, q: 900, k: 0 };
+
+// 백 기준 점수표 (row 0 = 8랭크). 흑은 행을 뒤집어 읽는다.
+const PST: Record<PieceType, number[]> = {
+  p: [
+     0,  0,  0,  0,  0,  0,  0,  0,
+    50, 50, 50, 50, 50, 50, 50, 50,
+    10, 10, 20, 30, 30, 20, 10, 10,
+     5,  5, 10, 25, 25, 10,  5,  5,
+     0,  0,  0, 20, 20,  0,  0,  0,
+     5, -5,-10,  0,  0,-10, -5,  5,
+     5, 10, 10,-20,-20, 10, 10,  5,
+     0,  0,  0,  0,  0,  0,  0,  0,
+  ],
+  n: [
+    -50,-40,-30,-30,-30,-30,-40,-50,
+    -40,-20,  0,  0,  0,  0,-20,-40,
+    -30,  0, 10, 15, 15, 10,  0,-30,
+    -30,  5, 15, 20, 20, 15,  5,-30,
+    -30,  0, 15, 20, 20, 15,  0,-30,
+    -30,  5, 10, 15, 15, 10,  5,-30,
+    -40,-20,  0,  5,  5,  0,-20,-40,
+    -50,-40,-30,-30,-30,-30,-40,-50,
+  ],
+  b: [
+    -20,-10,-10,-10,-10,-10,-10,-20,
+    -10,  0,  0,  0,  0,  0,  0,-10,
+    -10,  0,  5, 10, 10,  5,  0,-10,
+    -10,  5,  5, 10, 10,  5,  5,-10,
+    -10,  0, 10, 10, 10, 10,  0,-10,
+    -10, 10, 10, 10, 10, 10, 10,-10,
+    -10,  5,  0,  0,  0,  0,  5,-10,
+    -20,-10,-10,-10,-10,-10,-10,-20,
+  ],
+  r: [
+     0,  0,  0,  0,  0,  0,  0,  0,
+     5, 10, 10, 10, 10, 10, 10,  5,
+    -5,  0,  0,  0,  0,  0,  0, -5,
+    -5,  0,  0,  0,  0,  0,  0, -5,
+    -5,  0,  0,  0,  0,  0,  0, -5,
+    -5,  0,  0,  0,  0,  0,  0, -5,
+    -5,  0,  0,  0,  0,  0,  0, -5,
+     0,  0,  0,  5,  5,  0,  0,  0,
+  ],
+  q: [
+    -20,-10,-10, -5, -5,-10,-10,-20,
+    -10,  0,  0,  0,  0,  0,  0,-10,
+    -10,  0,  5,  5,  5,  5,  0,-10,
+     -5,  0,  5,  5,  5,  5,  0, -5,
+      0,  0,  5,  5,  5,  5,  0, -5,
+    -10,  5,  5,  5,  5,  5,  0,-10,
+    -10,  0,  5,  0,  0,  0,  0,-10,
+    -20,-10,-10, -5, -5,-10,-10,-20,
+  ],
+  k: [
+    -30,-40,-40,-50,-50,-40,-40,-30,
+    -30,-40,-40,-50,-50,-40,-40,-30,
+    -30,-40,-40,-50,-50,-40,-40,-30,
+    -30,-40,-40,-50,-50,-40,-40,-30,
+    -20,-30,-30,-40,-40,-30,-30,-20,
+    -10,-20,-20,-20,-20,-20,-20,-10,
+     20, 20,  0,  0,  0,  0, 20, 20,
+     20, 30, 10,  0,  0, 10, 30, 20,
+  ],
+};
+
+// 엔드게임 왕은 중앙으로
+const KING_ENDGAME = [
+  -50,-40,-30,-20,-20,-30,-40,-50,
+  -30,-20,-10,  0,  0,-10,-20,-30,
+  -30,-10, 20, 30, 30, 20,-10,-30,
+  -30,-10, 30, 40, 40, 30,-10,-30,
+  -30,-10, 30, 40, 40, 30,-10,-30,
+  -30,-10, 20, 30, 30, 20,-10,-30,
+  -30,-30,  0,  0,  0,  0,-30,-30,
+  -50,-30,-30,-30,-30,-30,-30,-50,
+];
+
+const tableIndex = (sq: number, color: Color) => (color === 'w' ? sq : (7 - rowOf(sq)) * 8 + colOf(sq));
+
+/** 정적 평가 — 백 기준 센티폰 */
+export function evaluateWhite(pos: Position): number {
+  let score = 0;
+  let nonPawnMaterial = 0;
+  for (const p of pos.board) {
+    if (p && p.type !== 'p' && p.type !== 'k') nonPawnMaterial += PIECE_VALUES[p.type];
+  }
+  const endgame = nonPawnMaterial <= 2 * (PIECE_VALUES.r + PIECE_VALUES.n);
+
+  pos.board.forEach((p, sq) => {
+    if (!p) return;
+    const idx = tableIndex(sq, p.color);
+    const table = p.type === 'k' && endgame ? KING_ENDGAME : PST[p.type];
+    const value = PIECE_VALUES[p.type] + table[idx];
+    score += p.color === 'w' ? value : -value;
+  });
+  return score;
+}
+
+/** 두는 쪽 기준 정적 평가 */
+export function evaluate(pos: Position): number {
+  const s = evaluateWhite(pos);
+  return pos.turn === 'w' ? s : -s;
+}
+
+class SearchAborted extends Error {}
+
+// MVV-LVA: 싼 기물로 비싼 기물을 잡는 수를 먼저
+function captureScore(m: Move): number {
+  let s = 0;
+  if (m.captured) s += 10 * PIECE_VALUES[m.captured] - PIECE_VALUES[m.piece];
+  if (m.promotion) s += PIECE_VALUES[m.promotion];
+  return s;
+}
+
+export function searchBestMove(root: Position, options: SearchOptions): SearchResult {
+  const { depth: maxDepth, timeMs, noise = 0, random = Math.random } = options;
+  const deadline = Date.now() + timeMs;
+  const killers: (Move | undefined)[] = [];
+  let nodes = 0;
+
+  const checkTime = () => {
+    if ((++nodes & 1023) === 0 && Date.now() > deadline) throw new SearchAborted();
+  };
+
+  const order = (moves: Move[], ply: number, first?: Move) => {
+    const killer = killers[ply];
+    const key = (m: Move) =>
+      (first && sameMove(m, first) ? 1e6 : 0) +
+      captureScore(m) +
+      (killer && sameMove(m, killer) ? 50 : 0);
+    return moves.map((m) => ({ m, k: key(m) })).sort((a, b) => b.k - a.k).map((x) => x.m);
+  };
+
+  const quiesce = (pos: Position, alpha: number, beta: number, ply: number): number => {
+    checkTime();
+    const stand = evaluate(pos);
+    if (stand >= beta) return stand;
+    if (stand > alpha) alpha = stand;
+    if (ply >= QUIESCE_MAX_PLY) return alpha;
+
+    const tactical = legalMoves(pos).filter((m) => m.captured || m.promotion);
+    for (const m of order(tactical, ply)) {
+      const score = -quiesce(applyMove(pos, m), -beta, -alpha, ply + 1);
+      if (score >= beta) return score;
+      if (score > alpha) alpha = score;
+    }
+    return alpha;
+  };
+
+  const negamax = (pos: Position, depth: number, alpha: number, beta: number, ply: number): number => {
+    checkTime();
+    const moves = legalMoves(pos);
+    if (moves.length === 0) return inCheck(pos) ? -MATE_SCORE + ply : 0;
+    if (pos.halfmove >= 100) return 0;
+    if (depth <= 0) return quiesce(pos, alpha, beta, ply);
+
+    let best = -Infinity;
+    for (const m of order(moves, ply)) {
+      const score = -negamax(applyMove(pos, m), depth - 1, -beta, -alpha, ply + 1);
+      if (score > best) best = score;
+      if (score > alpha) alpha = score;
+      if (alpha >= beta) {
+        if (!m.captured) killers[ply] = m;
+        break;
+      }
+    }
+    return best;
+  };
+
+  const rootMoves = legalMoves(root);
+  if (rootMoves.length === 0) {
+    return { move: null, score: inCheck(root) ? -MATE_SCORE : 0, depth: 0, nodes: 0 };
+  }
+  // 낮은 레벨용 흔들림은 한 번 정해 두고 깊이마다 같은 값을 쓴다
+  const jitter = rootMoves.map(() => (noise ? (random() * 2 - 1) * noise : 0));
+
+  let result: SearchResult = { move: rootMoves[0], score: 0, depth: 0, nodes: 0 };
+  for (let depth = 1; depth <= maxDepth; depth++) {
+    try {
+      let bestMove = rootMoves[0];
+      let alpha = -Infinity;
+      for (const m of order(rootMoves, 0, result.move ?? undefined)) {
+        const i = rootMoves.indexOf(m);
+        // 창을 흔들림만큼 옮겨야 실패한 수의 상한값이 잘못 채택되지 않는다
+        const score = -negamax(applyMove(root, m), depth - 1, -Infinity, -(alpha - jitter[i]), 1) + jitter[i];
+        if (score > alpha) {
+          alpha = score;
+          bestMove = m;
+        }
+      }
+      result = { move: bestMove, score: Math.round(alpha), depth, nodes };
+      // 메이트를 찾았으면 더 깊이 볼 필요 없음
+      if (Math.abs(alpha) > MATE_SCORE - 1000) break;
+    } catch (e) {
+      if (e instanceof SearchAborted) break;
+      throw e;
+    }
+  }
+  return { ...result, nodes };
+}
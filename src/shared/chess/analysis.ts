@@ -0,0 +1,35 @@
+/**
+ * 체스 대국 후 분석 — 국면마다 고정 깊이로 탐색해 백 기준 평가와 최선수를 낸다
+ *
+ * 워커(src/workers/chessAnalysis.worker.ts)에서 국면 하나씩 돌린다.
+ */
+import { MATE_SCORE, searchBestMove, SearchOptions } from './ai';
+import { ChessGame, getResult, Move } from './rules';
+import { PositionEval, winChance } from '../analysis';
+
+// 한 국면 분석 — 한 판(수십 국면)을 수십 초 안에 끝내는 정도
+export const ANALYSIS_SEARCH: SearchOptions = { depth: 4, timeMs: 400 };
+
+// 센티폰 → 승률: 400cp 앞서면 약 73%
+const WIN_CHANCE_SCALE = 400;
+
+export function analyzePosition(game: ChessGame): PositionEval<Move> {
+  const result = getResult(game);
+  if (result) {
+    const score = result.kind !== 'checkmate' ? 0 : result.winner === 'w' ? MATE_SCORE : -MATE_SCORE;
+    return { score, winChance: winChance(score, WIN_CHANCE_SCALE), best: null };
+  }
+  const { move, score } = searchBestMove(game.position, ANALYSIS_SEARCH);
+  const white = game.position.turn === 'w' ? score : -score;
+  return { score: white, winChance: winChance(white, WIN_CHANCE_SCALE), best: move };
+}
+
+/** 백 기준 점수 표기 — +1.25, 메이트는 #3 / #-2, 끝난 판은 1-0 / 0-1 */
+export function formatChessScore(score: number): string {
+  if (Math.abs(score) > MATE_SCORE - 1000) {
+    const plies = MATE_SCORE - Math.abs(score);
+    if (plies === 0) return score > 0 ? '1-0' : '0-1';
+    return `#${score < 0 ? '-' : ''}${Math.ceil(plies / 2)}`;
+  }
+  return `${score > 0 ? '+' : ''}${(score / 100).toFixed(2)}`;
+}
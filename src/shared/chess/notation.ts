@@ -0,0 +1,279 @@
+/**
+ * 체스 기보 표기 — FEN(포지션)과 PGN/SAN(수순) 변환
+ */
+import {
+  applyMove,
+  Board,
+  ChessGame,
+  Color,
+  getResult,
+  inCheck,
+  initialPosition,
+  legalMoves,
+  Move,
+  newGame,
+  parseSquare,
+  PieceType,
+  playMove,
+  Position,
+  positionsOf,
+  rowOf,
+  colOf,
+  squareName,
+  toSquare,
+} from './rules';
+import type { TurnBasedGame } from '../turnBased';
+
+export type ParseResult<T> = { ok: true; value: T } | { ok: false; error: string };
+
+const PIECE_TYPES = 'pnbrqk';
+
+// ───────────── FEN ─────────────
+
+export function toFen(pos: Position): string {
+  const ranks: string[] = [];
+  for (let r = 0; r < 8; r++) {
+    let rank = '';
+    let empty = 0;
+    for (let c = 0; c < 8; c++) {
+      const p = pos.board[toSquare(r, c)];
+      if (!p) {
+        empty++;
+        continue;
+      }
+      if (empty) rank += empty;
+      empty = 0;
+      rank += p.color === 'w' ? p.type.toUpperCase() : p.type;
+    }
+    ranks.push(empty ? rank + empty : rank);
+  }
+  return [
+    ranks.join('/'),
+    pos.turn,
+    pos.castling || '-',
+    pos.ep === null ? '-' : squareName(pos.ep),
+    pos.halfmove,
+    pos.fullmove,
+  ].join(' ');
+}
+
+export function parseFen(fen: string): ParseResult<Position> {
+  const fields = fen.trim().split(/\s+/);
+  if (fields.length < 4 || fields.length > 6) return { ok: false, error: 'FEN 필드 수가 올바르지 않습니다.' };
+  const [placement, turn, castling, ep, halfmove = '0', fullmove = '1'] = fields;
+
+  const ranks = placement.split('/');
+  if (ranks.length !== 8) return { ok: false, error: 'FEN 보드는 8줄이어야 합니다.' };
+  const board: Board = [];
+  for (const rank of ranks) {
+    let width = 0;
+    for (const ch of rank) {
+      if (/[1-8]/.test(ch)) {
+        for (let i = 0; i < Number(ch); i++) board.push(null);
+        width += Number(ch);
+      } else if (PIECE_TYPES.includes(ch.toLowerCase())) {
+        board.push({ type: ch.toLowerCase() as PieceType, color: ch === ch.toUpperCase() ? 'w' : 'b' });
+        width++;
+      } else {
+        return { ok: false, error: `FEN에 알 수 없는 기물 '${ch}'이 있습니다.` };
+      }
+    }
+    if (width !== 8) return { ok: false, error: 'FEN의 각 줄은 8칸이어야 합니다.' };
+  }
+
+  for (const color of ['w', 'b'] as Color[]) {
+    if (board.filter((p) => p?.type === 'k' && p.color === color).length !== 1) {
+      return { ok: false, error: '양쪽 모두 왕이 하나씩 있어야 합니다.' };
+    }
+  }
+  if (board.some((p, sq) => p?.type === 'p' && (rowOf(sq) === 0 || rowOf(sq) === 7))) {
+    return { ok: false, error: '첫째/마지막 줄에는 폰이 있을 수 없습니다.' };
+  }
+  if (turn !== 'w' && turn !== 'b') return { ok: false, error: '차례는 w 또는 b여야 합니다.' };
+  if (!/^(-|K?Q?k?q?)$/.test(castling) || castling === '') {
+    return { ok: false, error: '캐슬링 권리 표기가 올바르지 않습니다.' };
+  }
+  const epSquare = ep === '-' ? null : parseSquare(ep);
+  if (ep !== '-' && (epSquare === null || (rowOf(epSquare) !== 2 && rowOf(epSquare) !== 5))) {
+    return { ok: false, error: '앙파상 칸이 올바르지 않습니다.' };
+  }
+  if (!/^\d+$/.test(halfmove) || !/^\d+$/.test(fullmove) || Number(fullmove) < 1) {
+    return { ok: false, error: '수 카운터가 올바르지 않습니다.' };
+  }
+
+  const pos: Position = {
+    board,
+    turn,
+    castling: castling === '-' ? '' : castling,
+    ep: epSquare,
+    halfmove: Number(halfmove),
+    fullmove: Number(fullmove),
+  };
+  // 차례가 아닌 쪽 왕이 체크 상태면 불가능한 포지션
+  if (inCheck(pos, turn === 'w' ? 'b' : 'w')) return { ok: false, error: '차례가 아닌 쪽 왕이 체크 상태입니다.' };
+  return { ok: true, value: pos };
+}
+
+// ───────────── SAN ─────────────
+
+/** pos에서 move를 둔 SAN 표기 (체크/메이트 기호 포함) */
+export function toSan(pos: Position, move: Move): string {
+  let san: string;
+  if (move.castle) {
+    san = move.castle === 'k' ? 'O-O' : 'O-O-O';
+  } else if (move.piece === 'p') {
+    san = move.captured ? `${'abcdefgh'[colOf(move.from)]}x${squareName(move.to)}` : squareName(move.to);
+    if (move.promotion) san += `=${move.promotion.toUpperCase()}`;
+  } else {
+    // 같은 종류 기물이 같은 칸으로 갈 수 있으면 출발 파일/랭크로 구분
+    const rivals = legalMoves(pos).filter(
+      (m) => m.piece === move.piece && m.to === move.to && m.from !== move.from
+    );
+    let from = '';
+    if (rivals.length) {
+      const sameFile = rivals.some((m) => colOf(m.from) === colOf(move.from));
+      const sameRank = rivals.some((m) => rowOf(m.from) === rowOf(move.from));
+      if (!sameFile) from = squareName(move.from)[0];
+      else if (!sameRank) from = squareName(move.from)[1];
+      else from = squareName(move.from);
+    }
+    san = move.piece.toUpperCase() + from + (move.captured ? 'x' : '') + squareName(move.to);
+  }
+
+  const next = applyMove(pos, move);
+  if (inCheck(next)) san += legalMoves(next).length === 0 ? '#' : '+';
+  return san;
+}
+
+const stripSan = (san: string) =>
+  san
+    .replace(/[+#!?]+$/, '')
+    .replace(/e\.p\.$/, '')
+    .replace(/0/g, 'O')
+    // 'e8Q'처럼 '=' 없이 쓴 승격 허용
+    .replace(/^([a-h](?:x[a-h])?[18])([QRBN])$/, '$1=$2');
+
+export function parseSan(pos: Position, san: string): Move | null {
+  const wanted = stripSan(san.trim());
+  return legalMoves(pos).find((m) => stripSan(toSan(pos, m)) === wanted) ?? null;
+}
+
+// ───────────── PGN ─────────────
+
+export type PgnHeaders = Record<string, string>;
+
+export function resultTag(game: ChessGame): string {
+  const result = getResult(game);
+  if (!result) return '*';
+  if (result.kind === 'checkmate') return result.winner === 'w' ? '1-0' : '0-1';
+  return '1/2-1/2';
+}
+
+/** 각 수의 SAN 목록 */
+export function sanList(game: ChessGame): string[] {
+  const positions = positionsOf(game);
+  return game.moves.map((m, i) => toSan(positions[i], m));
+}
+
+export function toPgn(game: ChessGame, headers: PgnHeaders = {}): string {
+  const today = new Date();
+  const pad = (n: number) => String(n).padStart(2, '0');
+  // 끝나지 않은 판은 불러온 기보의 결과(합의 무승부 등)를 유지
+  const computed = resultTag(game);
+  const result = computed === '*' && headers.Result ? headers.Result : computed;
+  const tags: PgnHeaders = {
+    Event: 'Casual Game',
+    Site: 'Noah Studio Mini Games',
+    Date: `${today.getFullYear()}.${pad(today.getMonth() + 1)}.${pad(today.getDate())}`,
+    White: '?',
+    Black: '?',
+    ...headers,
+    Result: result,
+  };
+  const startFen = toFen(game.start);
+  if (startFen !== toFen(initialPosition())) {
+    tags.SetUp = '1';
+    tags.FEN = startFen;
+  }
+
+  // 수 번호는 시작 포지션의 fullmove부터
+  const tokens: string[] = [];
+  let number = game.start.fullmove;
+  let color = game.start.turn;
+  sanList(game).forEach((san, i) => {
+    // 수 번호와 수는 한 토큰으로 묶어 줄바꿈에 갈라지지 않게
+    if (color === 'w') tokens.push(`${number}. ${san}`);
+    else tokens.push(i === 0 ? `${number}... ${san}` : san);
+    if (color === 'b') number++;
+    color = color === 'w' ? 'b' : 'w';
+  });
+  tokens.push(result);
+
+  // 80자 줄바꿈
+  const lines: string[] = [];
+  let line = '';
+  for (const token of tokens) {
+    if (line && line.length + 1 + token.length > 80) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  }
+  if (line) lines.push(line);
+
+  const header = Object.entries(tags)
+    .map(([k, v]) => `[${k} "${v.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`)
+    .join('\n');
+  return `${header}\n\n${lines.join('\n')}\n`;
+}
+
+/** PGN 한 판을 읽는다. 주석, 변화수, NAG는 무시 */
+export function parsePgn(pgn: string): ParseResult<{ game: ChessGame; headers: PgnHeaders }> {
+  const headers: PgnHeaders = {};
+  const body = pgn.replace(/^\s*\[(\w+)\s+"((?:[^"\\]|\\.)*)"\]\s*$/gm, (_, key: string, value: string) => {
+    headers[key] = value.replace(/\\(.)/g, '$1');
+    return '';
+  });
+
+  let start = initialPosition();
+  if (headers.FEN) {
+    const parsed = parseFen(headers.FEN);
+    if (!parsed.ok) return parsed;
+    start = parsed.value;
+  }
+
+  // 주석 { } 과 ; 줄 주석, 중첩 가능한 변화수 ( ) 제거
+  let text = body.replace(/\{[^}]*\}/g, ' ').replace(/;[^\n]*/g, ' ');
+  let prev: string;
+  do {
+    prev = text;
+    text = text.replace(/\([^()]*\)/g, ' ');
+  } while (text !== prev);
+
+  const tokens = text
+    .replace(/\$\d+/g, ' ')
+    .replace(/\d+\.(\.\.)?/g, ' ')
+    .split(/\s+/)
+    .filter((t) => t && !/^(1-0|0-1|1\/2-1\/2|\*)$/.test(t));
+
+  let game = newGame(start);
+  for (const token of tokens) {
+    const move = parseSan(game.position, token);
+    if (!move) {
+      const number = game.position.fullmove + (game.position.turn === 'w' ? '.' : '...');
+      return { ok: false, error: `${number} ${token}: 둘 수 없는 수입니다.` };
+    }
+    game = playMove(game, move);
+  }
+  return { ok: true, value: { game, headers } };
+}
+
+/** 턴제 공통 코어용 — 상태는 반복 판정 키까지 담은 ChessGame, 수순 표기는 SAN */
+export const chessGame: TurnBasedGame<ChessGame, Move> = {
+  legalMoves: (game) => legalMoves(game.position),
+  applyMove: playMove,
+  isTerminal: (game) => getResult(game) !== null,
+  turn: (game) => game.position.turn,
+  formatMove: (game, move) => toSan(game.position, move),
+};
@@ -0,0 +1,320 @@
+/**
+ * 체스 규칙 — 합법 수 생성과 종국 판정
+ *
+ * 보드는 64칸 배열이고 sq = row * 8 + col, row 0이 8랭크(흑 진영)다.
+ * React/DOM에 의존하지 않으므로 캔버스, AI 워커, 서버 검증에서 함께 쓸 수 있다.
+ */
+
+export type Color = 'w' | 'b';
+export type PieceType = 'p' | 'n' | 'b' | 'r' | 'q' | 'k';
+export type Square = number;
+
+export interface Piece {
+  type: PieceType;
+  color: Color;
+}
+
+export type Board = (Piece | null)[];
+
+export interface Position {
+  board: Board;
+  turn: Color;
+  // FEN 표기와 같은 'KQkq' 부분 문자열 (권리 없으면 '')
+  castling: string;
+  // 앙파상으로 잡을 수 있는 칸 (직전 수가 폰 두 칸 전진일 때만)
+  ep: Square | null;
+  // 50수 규칙용 — 마지막 폰 이동/잡기 이후 반수
+  halfmove: number;
+  fullmove: number;
+}
+
+export interface Move {
+  from: Square;
+  to: Square;
+  piece: PieceType;
+  captured?: PieceType;
+  promotion?: PieceType;
+  castle?: 'k' | 'q';
+  enPassant?: boolean;
+}
+
+export type ChessResult =
+  | { kind: 'checkmate'; winner: Color }
+  | { kind: 'stalemate' | 'fifty-move' | 'threefold' | 'insufficient' };
+
+export const PROMOTION_PIECES: PieceType[] = ['q', 'r', 'b', 'n'];
+
+const KNIGHT_STEPS = [[-2, -1], [-2, 1], [-1, -2], [-1, 2], [1, -2], [1, 2], [2, -1], [2, 1]];
+const KING_STEPS = [[-1, -1], [-1, 0], [-1, 1], [0, -1], [0, 1], [1, -1], [1, 0], [1, 1]];
+const ROOK_DIRS = [[-1, 0], [1, 0], [0, -1], [0, 1]];
+const BISHOP_DIRS = [[-1, -1], [-1, 1], [1, -1], [1, 1]];
+
+// 룩 처음 자리 → 잃게 되는 캐슬링 권리
+const ROOK_CORNERS: Record<number, string> = { 0: 'q', 7: 'k', 56: 'Q', 63: 'K' };
+
+export const rowOf = (sq: Square) => sq >> 3;
+export const colOf = (sq: Square) => sq & 7;
+export const toSquare = (row: number, col: number): Square => row * 8 + col;
+const onBoard = (row: number, col: number) => row >= 0 && row < 8 && col >= 0 && col < 8;
+export const opponent = (color: Color): Color => (color === 'w' ? 'b' : 'w');
+
+/** 'e4' 형식 칸 이름 */
+export function squareName(sq: Square): string {
+  return 'abcdefgh'[colOf(sq)] + (8 - rowOf(sq));
+}
+
+export function parseSquare(name: string): Square | null {
+  if (!/^[a-h][1-8]$/.test(name)) return null;
+  return toSquare(8 - Number(name[1]), name.charCodeAt(0) - 97);
+}
+
+export function initialPosition(): Position {
+  const board: Board = Array(64).fill(null);
+  const back: PieceType[] = ['r', 'n', 'b', 'q', 'k', 'b', 'n', 'r'];
+  for (let c = 0; c < 8; c++) {
+    board[toSquare(0, c)] = { type: back[c], color: 'b' };
+    board[toSquare(1, c)] = { type: 'p', color: 'b' };
+    board[toSquare(6, c)] = { type: 'p', color: 'w' };
+    board[toSquare(7, c)] = { type: back[c], color: 'w' };
+  }
+  return { board, turn: 'w', castling: 'KQkq', ep: null, halfmove: 0, fullmove: 1 };
+}
+
+export function findKing(board: Board, color: Color): Square {
+  return board.findIndex((p) => p?.type === 'k' && p.color === color);
+}
+
+/** by 색 기물이 sq를 공격하는지 */
+export function isAttacked(board: Board, sq: Square, by: Color): boolean {
+  const r = rowOf(sq);
+  const c = colOf(sq);
+  const at = (row: number, col: number) => (onBoard(row, col) ? board[toSquare(row, col)] : null);
+  const is = (p: Piece | null, ...types: PieceType[]) => !!p && p.color === by && types.includes(p.type);
+
+  // 폰: 공격하는 쪽 기준으로 한 줄 뒤 대각선
+  const pawnRow = by === 'w' ? r + 1 : r - 1;
+  if (is(at(pawnRow, c - 1), 'p') || is(at(pawnRow, c + 1), 'p')) return true;
+
+  for (const [dr, dc] of KNIGHT_STEPS) if (is(at(r + dr, c + dc), 'n')) return true;
+  for (const [dr, dc] of KING_STEPS) if (is(at(r + dr, c + dc), 'k')) return true;
+
+  const slides = (dirs: number[][], types: PieceType[]) =>
+    dirs.some(([dr, dc]) => {
+      for (let row = r + dr, col = c + dc; onBoard(row, col); row += dr, col += dc) {
+        const p = board[toSquare(row, col)];
+        if (p) return is(p, ...types);
+      }
+      return false;
+    });
+  return slides(ROOK_DIRS, ['r', 'q']) || slides(BISHOP_DIRS, ['b', 'q']);
+}
+
+export function inCheck(pos: Position, color: Color = pos.turn): boolean {
+  const king = findKing(pos.board, color);
+  return king >= 0 && isAttacked(pos.board, king, opponent(color));
+}
+
+/** 자기 왕이 체크에 남는지 확인하지 않은 후보 수 */
+function pseudoMoves(pos: Position): Move[] {
+  const { board, turn } = pos;
+  const moves: Move[] = [];
+
+  const add = (from: Square, to: Square, piece: PieceType, extra: Partial<Move> = {}) => {
+    const target = board[to];
+    moves.push({ from, to, piece, ...(target ? { captured: target.type } : {}), ...extra });
+  };
+
+  for (let from = 0; from < 64; from++) {
+    const piece = board[from];
+    if (!piece || piece.color !== turn) continue;
+    const r = rowOf(from);
+    const c = colOf(from);
+
+    switch (piece.type) {
+      case 'p': {
+        const dir = turn === 'w' ? -1 : 1;
+        const startRow = turn === 'w' ? 6 : 1;
+        const lastRow = turn === 'w' ? 0 : 7;
+        const pushPawn = (to: Square, extra: Partial<Move> = {}) => {
+          if (rowOf(to) === lastRow) {
+            for (const promotion of PROMOTION_PIECES) add(from, to, 'p', { ...extra, promotion });
+          } else {
+            add(from, to, 'p', extra);
+          }
+        };
+
+        const one = toSquare(r + dir, c);
+        if (!board[one]) {
+          pushPawn(one);
+          const two = toSquare(r + 2 * dir, c);
+          if (r === startRow && !board[two]) add(from, two, 'p');
+        }
+        for (const dc of [-1, 1]) {
+          if (!onBoard(r + dir, c + dc)) continue;
+          const to = toSquare(r + dir, c + dc);
+          const target = board[to];
+          if (target && target.color !== turn) pushPawn(to);
+          else if (to === pos.ep) add(from, to, 'p', { captured: 'p', enPassant: true });
+        }
+        break;
+      }
+      case 'n':
+      case 'k':
+        for (const [dr, dc] of piece.type === 'n' ? KNIGHT_STEPS : KING_STEPS) {
+          if (!onBoard(r + dr, c + dc)) continue;
+          const to = toSquare(r + dr, c + dc);
+          if (board[to]?.color !== turn) add(from, to, piece.type);
+        }
+        break;
+      default: {
+        const dirs =
+          piece.type === 'r' ? ROOK_DIRS : piece.type === 'b' ? BISHOP_DIRS : [...ROOK_DIRS, ...BISHOP_DIRS];
+        for (const [dr, dc] of dirs) {
+          for (let row = r + dr, col = c + dc; onBoard(row, col); row += dr, col += dc) {
+            const to = toSquare(row, col);
+            const target = board[to];
+            if (target?.color === turn) break;
+            add(from, to, piece.type);
+            if (target) break;
+          }
+        }
+      }
+    }
+  }
+
+  // 캐슬링: 권리가 남아 있고, 사이 칸이 비어 있으며, 왕이 지나는 칸이 공격받지 않아야 함
+  const homeRow = turn === 'w' ? 7 : 0;
+  const king = toSquare(homeRow, 4);
+  if (board[king]?.type === 'k' && board[king]?.color === turn) {
+    const enemy = opponent(turn);
+    const rights = turn === 'w' ? ['K', 'Q'] : ['k', 'q'];
+    for (const right of rights) {
+      if (!pos.castling.includes(right)) continue;
+      const side = right.toLowerCase() as 'k' | 'q';
+      const rookCol = side === 'k' ? 7 : 0;
+      const rook = board[toSquare(homeRow, rookCol)];
+      if (rook?.type !== 'r' || rook.color !== turn) continue;
+      const between = side === 'k' ? [5, 6] : [1, 2, 3];
+      if (between.some((col) => board[toSquare(homeRow, col)])) continue;
+      const path = side === 'k' ? [4, 5, 6] : [4, 3, 2];
+      if (path.some((col) => isAttacked(board, toSquare(homeRow, col), enemy))) continue;
+      moves.push({ from: king, to: toSquare(homeRow, side === 'k' ? 6 : 2), piece: 'k', castle: side });
+    }
+  }
+
+  return moves;
+}
+
+/** 수를 둔 새 Position (원본은 변경하지 않음) */
+export function applyMove(pos: Position, move: Move): Position {
+  const board = pos.board.slice();
+  const piece = board[move.from]!;
+  board[move.from] = null;
+  board[move.to] = move.promotion ? { type: move.promotion, color: piece.color } : piece;
+
+  if (move.enPassant) {
+    board[toSquare(rowOf(move.from), colOf(move.to))] = null;
+  }
+  if (move.castle) {
+    const row = rowOf(move.from);
+    const [rookFrom, rookTo] = move.castle === 'k' ? [7, 5] : [0, 3];
+    board[toSquare(row, rookTo)] = board[toSquare(row, rookFrom)];
+    board[toSquare(row, rookFrom)] = null;
+  }
+
+  let castling = pos.castling;
+  if (piece.type === 'k') castling = castling.replace(piece.color === 'w' ? /[KQ]/g : /[kq]/g, '');
+  for (const sq of [move.from, move.to]) {
+    if (ROOK_CORNERS[sq]) castling = castling.replace(ROOK_CORNERS[sq], '');
+  }
+
+  const double = piece.type === 'p' && Math.abs(rowOf(move.to) - rowOf(move.from)) === 2;
+  return {
+    board,
+    turn: opponent(pos.turn),
+    castling,
+    ep: double ? (move.from + move.to) / 2 : null,
+    halfmove: piece.type === 'p' || move.captured ? 0 : pos.halfmove + 1,
+    fullmove: pos.turn === 'b' ? pos.fullmove + 1 : pos.fullmove,
+  };
+}
+
+/** 현재 차례의 합법 수 */
+export function legalMoves(pos: Position): Move[] {
+  return pseudoMoves(pos).filter((m) => !inCheck(applyMove(pos, m), pos.turn));
+}
+
+/** from→to(승급) 수가 합법이면 그 수 — 전체 합법 수 대신 그 후보 하나만 자기 왕 체크를 확인한다 */
+export function findLegalMove(pos: Position, from: Square, to: Square, promotion?: PieceType): Move | null {
+  const move = pseudoMoves(pos).find((m) => m.from === from && m.to === to && m.promotion === promotion);
+  return move && !inCheck(applyMove(pos, move), pos.turn) ? move : null;
+}
+
+export function sameMove(a: Move, b: Move): boolean {
+  return a.from === b.from && a.to === b.to && a.promotion === b.promotion;
+}
+
+/** 반복 판정용 키 — 실제로 앙파상이 가능할 때만 ep 칸을 포함 */
+export function positionKey(pos: Position): string {
+  let key = '';
+  for (const p of pos.board) key += p ? (p.color === 'w' ? p.type.toUpperCase() : p.type) : '.';
+  const epCapturable =
+    pos.ep !== null && pseudoMoves(pos).some((m) => m.enPassant);
+  return `${key} ${pos.turn} ${pos.castling || '-'} ${epCapturable ? pos.ep : '-'}`;
+}
+
+/** 기물 부족 무승부: K vs K, K+경기물 vs K, 같은 색 칸 비숍끼리 */
+export function insufficientMaterial(board: Board): boolean {
+  const minors: { type: PieceType; shade: number }[] = [];
+  for (let sq = 0; sq < 64; sq++) {
+    const p = board[sq];
+    if (!p || p.type === 'k') continue;
+    if (p.type !== 'n' && p.type !== 'b') return false;
+    minors.push({ type: p.type, shade: (rowOf(sq) + colOf(sq)) % 2 });
+  }
+  if (minors.length <= 1) return true;
+  return minors.every((m) => m.type === 'b' && m.shade === minors[0].shade);
+}
+
+/** 한 판의 진행 — 반복 판정을 위해 지나온 포지션 키를 함께 들고 다님 */
+export interface ChessGame {
+  // 시작 포지션 (FEN으로 불러온 판이면 표준 배치가 아닐 수 있음)
+  start: Position;
+  position: Position;
+  moves: Move[];
+  keys: string[];
+}
+
+export function newGame(position: Position = initialPosition()): ChessGame {
+  return { start: position, position, moves: [], keys: [positionKey(position)] };
+}
+
+export function playMove(game: ChessGame, move: Move): ChessGame {
+  const position = applyMove(game.position, move);
+  return { ...game, position, moves: [...game.moves, move], keys: [...game.keys, positionKey(position)] };
+}
+
+/** 시작부터 각 수 이후까지의 포지션 목록 (길이 = 수 + 1) */
+export function positionsOf(game: ChessGame): Position[] {
+  const positions = [game.start];
+  for (const move of game.moves) positions.push(applyMove(positions[positions.length - 1], move));
+  return positions;
+}
+
+/** ply수까지만 남긴 판 — 과거 수에서 다른 수를 둘 때 사용 */
+export function truncateGame(game: ChessGame, ply: number): ChessGame {
+  return game.moves.slice(0, ply).reduce(playMove, newGame(game.start));
+}
+
+/** 종국이면 결과, 진행 중이면 null */
+export function getResult(game: ChessGame): ChessResult | null {
+  const pos = game.position;
+  if (legalMoves(pos).length === 0) {
+    return inCheck(pos) ? { kind: 'checkmate', winner: opponent(pos.turn) } : { kind: 'stalemate' };
+  }
+  if (insufficientMaterial(pos.board)) return { kind: 'insufficient' };
+  if (pos.halfmove >= 100) return { kind: 'fifty-move' };
+  const current = game.keys[game.keys.length - 1];
+  if (game.keys.filter((k) => k === current).length >= 3) return { kind: 'threefold' };
+  return null;
+}
@@ -0,0 +1,86 @@
+/**
+ * 커넥트 포 규칙 — 화면/서버 검증용 2차원 보드 (탐색은 solver.ts의 비트보드)
+ *
+ * board[row][col], row 0이 맨 위. 0=빈칸, 1=먼저 두는 쪽, 2=나중에 두는 쪽.
+ * 수는 열 번호(0~6)이고, moves는 둔 열 순서 그대로라 솔버에 바로 넘길 수 있다.
+ */
+import type { TurnBasedGame } from '../turnBased';
+import { COLS, ROWS } from './solver';
+
+export interface C4State {
+  board: number[][];
+  turn: number;
+  moves: number[];
+}
+
+export interface C4Cell {
+  row: number;
+  col: number;
+}
+
+// winner가 null이면 판이 가득 찬 무승부
+export interface C4Result {
+  winner: number | null;
+  cells: C4Cell[];
+}
+
+const DIRECTIONS = [
+  [0, 1], // 수평
+  [1, 0], // 수직
+  [1, 1], // 대각선 \
+  [1, -1], // 대각선 /
+];
+
+export function initialState(): C4State {
+  return { board: Array.from({ length: ROWS }, () => Array(COLS).fill(0)), turn: 1, moves: [] };
+}
+
+/** 맨 위가 비어 있으면 둘 수 있는 열 */
+export const canDrop = (board: number[][], col: number) => col >= 0 && col < COLS && board[0][col] === 0;
+
+/** 칩이 떨어질 가장 아래 빈 행 (가득 찼으면 -1) */
+export function dropRow(board: number[][], col: number): number {
+  for (let row = ROWS - 1; row >= 0; row--) {
+    if (board[row][col] === 0) return row;
+  }
+  return -1;
+}
+
+export function playColumn(state: C4State, col: number): C4State {
+  const board = state.board.map(row => [...row]);
+  board[dropRow(board, col)][col] = state.turn;
+  return { board, turn: 3 - state.turn, moves: [...state.moves, col] };
+}
+
+/** (row, col)의 칩을 지나는 4연속 — 없으면 null */
+export function winningCells(board: number[][], row: number, col: number): C4Cell[] | null {
+  const player = board[row][col];
+  const same = (r: number, c: number) => r >= 0 && r < ROWS && c >= 0 && c < COLS && board[r][c] === player;
+  for (const [dRow, dCol] of DIRECTIONS) {
+    const cells: C4Cell[] = [{ row, col }];
+    for (let i = 1; i < 4 && same(row + dRow * i, col + dCol * i); i++) cells.push({ row: row + dRow * i, col: col + dCol * i });
+    for (let i = 1; i < 4 && same(row - dRow * i, col - dCol * i); i++) cells.unshift({ row: row - dRow * i, col: col - dCol * i });
+    if (cells.length >= 4) return cells.slice(0, 4);
+  }
+  return null;
+}
+
+/** 마지막 수 기준 종국 판정 */
+export function getResult(state: C4State): C4Result | null {
+  const col = state.moves[state.moves.length - 1];
+  if (col === undefined) return null;
+  const row = dropRow(state.board, col) + 1;
+  const cells = winningCells(state.board, row, col);
+  if (cells) return { winner: state.board[row][col], cells };
+  if (state.moves.length === ROWS * COLS) return { winner: null, cells: [] };
+  return null;
+}
+
+export const connectFourGame: TurnBasedGame<C4State, number> = {
+  legalMoves: state => Array.from({ length: COLS }, (_, col) => col).filter(col => canDrop(state.board, col)),
+  applyMove: playColumn,
+  isTerminal: state => getResult(state) !== null,
+  turn: state => state.turn,
+  // 열 번호는 숫자키와 같은 1~7
+  formatMove: (_, col) => String(col + 1),
+};
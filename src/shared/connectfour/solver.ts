@@ -0,0 +1,325 @@
+/**
+ * 커넥트 포 솔버 — 비트보드 네가맥스 + 치환표 (Pascal Pons 방식)
+ *
+ * 비트 배치: 열 c의 행 r(아래가 0) = 비트 c * 7 + r, 각 열 맨 위 한 칸은 보초.
+ * 49비트라 JS 32비트 연산에 맞게 0~3열(lo, 28비트)과 4~6열(hi, 21비트)로 나눠 들고 다닌다.
+ *
+ * 점수: 두는 쪽 기준, 이기면 (남은 자기 수 + 1), 지면 음수, 무승부 0 — 빨리 이길수록 크다.
+ * 깊이 제한 탐색은 지평선 너머를 0(모름)으로 보므로 결과가 0이면 무승부가 아니라 "모름"일 수 있다.
+ */
+
+export const COLS = 7;
+export const ROWS = 6;
+const H1 = ROWS + 1;
+const CELLS = COLS * ROWS;
+
+const LO_BITS = 28;
+const LO_MASK = 0x0fffffff;
+const HI_MASK = 0x1fffff;
+const SPLIT = 2 ** LO_BITS;
+// 가운데 열부터
+const COLUMN_ORDER = [3, 2, 4, 1, 5, 0, 6];
+
+export const MIN_SCORE = -CELLS / 2 + 3;
+export const MAX_SCORE = (CELLS + 1) / 2 - 3;
+
+export interface C4AiLevel {
+  label: string;
+  // 사람 레이팅(Glicko-2) 계산에 쓰는 이 레벨의 고정 레이팅
+  rating: number;
+  // 최대 탐색 깊이 (반수), Infinity면 끝까지
+  depth: number;
+  timeMs: number;
+  // 루트 점수에 더하는 무작위 흔들림
+  noise: number;
+}
+
+export const C4_AI_LEVELS: C4AiLevel[] = [
+  { label: 'Easy', rating: 900, depth: 2, timeMs: 300, noise: 3 },
+  { label: 'Medium', rating: 1300, depth: 6, timeMs: 800, noise: 1 },
+  { label: 'Hard', rating: 1800, depth: 12, timeMs: 2000, noise: 0 },
+  // 끝까지 읽기를 시도하지만 초반에는 시간 안에 끝나지 않아 깊이 8 결과 + 위협 수 비교로 둔다 — 완벽한 수가 아니다
+  { label: 'Expert', rating: 2300, depth: Infinity, timeMs: 8000, noise: 0 },
+];
+
+export interface ColumnScore {
+  col: number;
+  // 두는 쪽 기준 점수 (둘 수 없는 열은 null)
+  score: number | null;
+  // 끝까지 읽어 확정된 점수인지
+  exact: boolean;
+}
+
+export interface C4SearchResult {
+  col: number;
+  columns: ColumnScore[];
+  nodes: number;
+}
+
+class SearchAborted extends Error {}
+
+/* ───── 비트 마스크 ───── */
+
+// 열별 (lo, hi) 마스크
+const colLo = (c: number, bits: number) => (c < 4 ? bits * 2 ** (c * H1) : 0);
+const colHi = (c: number, bits: number) => (c >= 4 ? bits * 2 ** ((c - 4) * H1) : 0);
+const COLUMN_BITS = (1 << ROWS) - 1;
+const BOTTOM_LO = [0, 1, 2, 3].reduce((m, c) => m | colLo(c, 1), 0);
+const BOTTOM_HI = [4, 5, 6].reduce((m, c) => m | colHi(c, 1), 0);
+const BOARD_LO = [0, 1, 2, 3].reduce((m, c) => m | colLo(c, COLUMN_BITS), 0);
+const BOARD_HI = [4, 5, 6].reduce((m, c) => m | colHi(c, COLUMN_BITS), 0);
+
+function popcount(x: number): number {
+  x -= (x >>> 1) & 0x55555555;
+  x = (x & 0x33333333) + ((x >>> 2) & 0x33333333);
+  return (((x + (x >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+// 쌍 시프트 결과 레지스터 (할당을 피하려고 모듈 변수로 돌려준다)
+let rl = 0;
+let rh = 0;
+
+function shl(lo: number, hi: number, s: number) {
+  rl = (lo << s) & LO_MASK;
+  rh = ((hi << s) | (lo >>> (LO_BITS - s))) & HI_MASK;
+}
+
+function shr(lo: number, hi: number, s: number) {
+  rl = ((lo >>> s) | (hi << (LO_BITS - s))) & LO_MASK;
+  rh = hi >>> s;
+}
+
+/** p의 돌로 한 수만 더 두면 4목이 되는 빈칸 — 결과는 rl/rh */
+function winningSpots(pl: number, ph: number, ml: number, mh: number) {
+  // 세로
+  shl(pl, ph, 1);
+  let al = rl;
+  let ah = rh;
+  shl(pl, ph, 2);
+  al &= rl;
+  ah &= rh;
+  shl(pl, ph, 3);
+  let outL = al & rl;
+  let outH = ah & rh;
+  // 가로, 두 대각선
+  for (const s of [H1 - 1, H1, H1 + 1]) {
+    shl(pl, ph, s);
+    let p2l = rl;
+    let p2h = rh;
+    shl(pl, ph, 2 * s);
+    p2l &= rl;
+    p2h &= rh;
+    shl(pl, ph, 3 * s);
+    outL |= p2l & rl;
+    outH |= p2h & rh;
+    shr(pl, ph, s);
+    outL |= p2l & rl;
+    outH |= p2h & rh;
+
+    shr(pl, ph, s);
+    p2l = rl;
+    p2h = rh;
+    shr(pl, ph, 2 * s);
+    p2l &= rl;
+    p2h &= rh;
+    shl(pl, ph, s);
+    outL |= p2l & rl;
+    outH |= p2h & rh;
+    shr(pl, ph, 3 * s);
+    outL |= p2l & rl;
+    outH |= p2h & rh;
+  }
+  rl = outL & BOARD_LO & ~ml;
+  rh = outH & BOARD_HI & ~mh;
+}
+
+/* ───── 국면 ───── */
+
+// cur: 두는 쪽 돌, mask: 모든 돌
+interface Bits {
+  cl: number;
+  ch: number;
+  ml: number;
+  mh: number;
+  moves: number;
+}
+
+/** 열 번호 수순 → 비트 국면 (둘 수 없는 수가 있으면 null) */
+function fromMoves(moves: number[]): Bits | null {
+  const b: Bits = { cl: 0, ch: 0, ml: 0, mh: 0, moves: 0 };
+  for (const c of moves) {
+    if (c < 0 || c >= COLS || !canPlay(b, c)) return null;
+    playColumn(b, c);
+  }
+  return b;
+}
+
+const canPlay = (b: Bits, c: number) => ((c < 4 ? b.ml & colLo(c, 1 << (ROWS - 1)) : b.mh & colHi(c, 1 << (ROWS - 1))) === 0);
+
+function playColumn(b: Bits, c: number) {
+  b.cl ^= b.ml;
+  b.ch ^= b.mh;
+  if (c < 4) b.ml |= b.ml + colLo(c, 1);
+  else b.mh |= b.mh + colHi(c, 1);
+  b.moves++;
+}
+
+/** 열 c에 두면 이기는지 */
+function isWinningColumn(b: Bits, c: number): boolean {
+  winningSpots(b.cl, b.ch, b.ml, b.mh);
+  const pl = (b.ml + BOTTOM_LO) & BOARD_LO;
+  const ph = (b.mh + BOTTOM_HI) & BOARD_HI;
+  return ((rl & pl & colLo(c, COLUMN_BITS)) | (rh & ph & colHi(c, COLUMN_BITS))) !== 0;
+}
+
+/** 열 c에 둔 뒤 (두는 쪽 승리 칸 수 - 상대 승리 칸 수) — 깊이 제한 탐색이 모름(0)을 낸 수끼리 비교용 */
+function threatBalance(b: Bits, c: number): number {
+  const child = { ...b };
+  playColumn(child, c);
+  // child.cl은 이제 상대(다음에 둘 쪽) 돌
+  winningSpots(child.cl, child.ch, child.ml, child.mh);
+  const theirs = popcount(rl) + popcount(rh);
+  winningSpots(child.cl ^ child.ml, child.ch ^ child.mh, child.ml, child.mh);
+  return popcount(rl) + popcount(rh) - theirs;
+}
+
+/* ───── 탐색 ───── */
+
+// 치환표: 소수 크기, 키는 cur + mask (49비트라 double로 정확)
+const TT_SIZE = 1_048_573;
+const ttKeys = new Float64Array(TT_SIZE);
+const ttValues = new Int8Array(TT_SIZE);
+
+export function searchBestColumn(history: number[], level: C4AiLevel, random: () => number = Math.random): C4SearchResult {
+  const root = fromMoves(history);
+  const deadline = Date.now() + level.timeMs;
+  let nodes = 0;
+  if (!root) return { col: -1, columns: [], nodes };
+
+  // 끝까지 읽는 탐색에서만 치환표를 쓴다 (깊이 제한 값은 상한이 아니다)
+  const negamax = (cl: number, ch: number, ml: number, mh: number, moves: number, alpha: number, beta: number, depth: number): number => {
+    if ((++nodes & 4095) === 0 && Date.now() > deadline) throw new SearchAborted();
+
+    // 둘 수 있는 칸 중 바로 지지 않는 수
+    let pl = (ml + BOTTOM_LO) & BOARD_LO;
+    let ph = (mh + BOTTOM_HI) & BOARD_HI;
+    winningSpots(cl ^ ml, ch ^ mh, ml, mh);
+    const oppL = rl;
+    const oppH = rh;
+    const forcedL = pl & oppL;
+    const forcedH = ph & oppH;
+    if (forcedL || forcedH) {
+      // 막을 곳이 둘 이상이면 진다
+      if (popcount(forcedL) + popcount(forcedH) > 1) return -Math.trunc((CELLS - moves) / 2);
+      pl = forcedL;
+      ph = forcedH;
+    }
+    // 상대 승리 칸 바로 아래는 두면 안 된다
+    shr(oppL, oppH, 1);
+    pl &= ~rl;
+    ph &= ~rh;
+    if (!pl && !ph) return -Math.trunc((CELLS - moves) / 2);
+    if (moves >= CELLS - 2) return 0;
+
+    const min = -Math.trunc((CELLS - 2 - moves) / 2);
+    if (alpha < min) {
+      alpha = min;
+      if (alpha >= beta) return alpha;
+    }
+    let max = Math.trunc((CELLS - 1 - moves) / 2);
+    const exact = depth === Infinity;
+    const key = cl + ml + (ch + mh) * SPLIT;
+    const slot = key % TT_SIZE;
+    if (exact && ttKeys[slot] === key) max = ttValues[slot] + MIN_SCORE - 1;
+    if (beta > max) {
+      beta = max;
+      if (alpha >= beta) return beta;
+    }
+    if (depth <= 0) return 0;
+
+    // 수 정렬: 둔 뒤 내 승리 칸이 많은 수부터, 같으면 가운데부터
+    const children: { l: number; h: number; score: number }[] = [];
+    for (const c of COLUMN_ORDER) {
+      const l = pl & colLo(c, COLUMN_BITS);
+      const h = ph & colHi(c, COLUMN_BITS);
+      if (!l && !h) continue;
+      winningSpots(cl | l, ch | h, ml, mh);
+      const score = popcount(rl) + popcount(rh);
+      let i = children.length;
+      while (i > 0 && children[i - 1].score < score) i--;
+      children.splice(i, 0, { l, h, score });
+    }
+
+    for (const { l, h } of children) {
+      // 차례 넘기기: 상대 돌 = cur ^ mask
+      const score = -negamax(cl ^ ml, ch ^ mh, ml | l, mh | h, moves + 1, -beta, -alpha, depth - 1);
+      if (score >= beta) return score;
+      if (score > alpha) alpha = score;
+    }
+    if (exact) {
+      ttKeys[slot] = key;
+      ttValues[slot] = alpha - MIN_SCORE + 1;
+    }
+    return alpha;
+  };
+
+  /** 두는 쪽 기준 값 — 널 윈도우 이분 탐색 (negamax는 바로 이기는 수가 없는 국면만 받는다) */
+  const solve = (b: Bits, depth: number): number => {
+    for (let c = 0; c < COLS; c++) {
+      if (canPlay(b, c) && isWinningColumn(b, c)) return Math.trunc((CELLS + 1 - b.moves) / 2);
+    }
+    let min = -Math.trunc((CELLS - b.moves) / 2);
+    let max = Math.trunc((CELLS + 1 - b.moves) / 2);
+    while (min < max) {
+      let med = min + Math.trunc((max - min) / 2);
+      if (med <= 0 && Math.trunc(min / 2) < med) med = Math.trunc(min / 2);
+      else if (med >= 0 && Math.trunc(max / 2) > med) med = Math.trunc(max / 2);
+      const r = negamax(b.cl, b.ch, b.ml, b.mh, b.moves, med, med + 1, depth);
+      if (r <= med) max = r;
+      else min = r;
+    }
+    return min;
+  };
+
+  /** 열별 점수 — 깊이 제한 안에서 */
+  const scoreColumns = (depth: number): ColumnScore[] =>
+    Array.from({ length: COLS }, (_, col) => {
+      if (!canPlay(root, col)) return { col, score: null, exact: true };
+      if (isWinningColumn(root, col)) return { col, score: Math.trunc((CELLS + 1 - root.moves) / 2), exact: true };
+      const child = { ...root };
+      playColumn(child, col);
+      // 둔 뒤 판이 가득 차면 무승부
+      if (child.moves === CELLS) return { col, score: 0, exact: true };
+      const score = -solve(child, depth - 1);
+      return { col, score, exact: depth === Infinity || score !== 0 };
+    });
+
+  // 얕은 깊이부터 늘려 가고, 시간이 다 되면 직전 깊이 결과를 쓴다
+  let columns: ColumnScore[] = [];
+  const depths = level.depth === Infinity ? [2, 8, Infinity] : [Math.min(2, level.depth), level.depth];
+  for (const depth of [...new Set(depths)]) {
+    try {
+      columns = scoreColumns(depth);
+      if (columns.every((c) => c.exact)) break;
+    } catch (e) {
+      if (e instanceof SearchAborted) break;
+      throw e;
+    }
+  }
+
+  // 최선 점수 + 흔들림. 다 읽지 못한 0점(모름)끼리는 둔 뒤 위협 칸 수(내 것 - 상대 것)로 가른다
+  let best = -1;
+  let bestValue = -Infinity;
+  for (const c of COLUMN_ORDER) {
+    const s = columns[c]?.score;
+    if (s === null || s === undefined) continue;
+    let value = s + (level.noise ? (random() * 2 - 1) * level.noise : 0);
+    if (!columns[c].exact) value += threatBalance(root, c) / (CELLS + 1);
+    if (value > bestValue) {
+      bestValue = value;
+      best = c;
+    }
+  }
+  if (best < 0) best = COLUMN_ORDER.find((c) => canPlay(root, c)) ?? -1;
+  return { col: best, columns, nodes };
+}
@@ -0,0 +1,99 @@
+/**
+ * Glicko-2 레이팅 (Glickman, "Example of the Glicko-2 system")
+ *
+ * 화면 표시는 Glicko 척도(1500 기준, RD)로 하고, 계산은 Glicko-2 척도(μ, φ)로 바꿔서 한다.
+ * AI 대전은 한 판이 끝날 때마다 그 한 판을 하나의 레이팅 기간으로 보고 갱신한다.
+ */
+
+export interface Glicko2Rating {
+  rating: number;
+  // 레이팅 편차 — 작을수록 확실한 레이팅
+  rd: number;
+  volatility: number;
+}
+
+export interface Glicko2Result {
+  opponent: { rating: number; rd: number };
+  // 1: 승, 0.5: 무, 0: 패
+  score: number;
+}
+
+export const DEFAULT_RATING: Glicko2Rating = { rating: 1500, rd: 350, volatility: 0.06 };
+
+// 변동성 변화 제한 (작을수록 급변 억제) — 논문 권장 범위 0.3~1.2
+const TAU = 0.5;
+const SCALE = 173.7178;
+const EPSILON = 0.000001;
+
+const g = (phi: number) => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+const expected = (mu: number, muJ: number, phiJ: number) => 1 / (1 + Math.exp(-g(phiJ) * (mu - muJ)));
+
+/** 상대에게 이길 기대 점수 (0~1) */
+export function expectedScore(player: Glicko2Rating, opponent: { rating: number; rd: number }): number {
+  return expected((player.rating - 1500) / SCALE, (opponent.rating - 1500) / SCALE, opponent.rd / SCALE);
+}
+
+/** 한 레이팅 기간의 결과로 갱신 — 결과가 없으면 RD만 늘어난다 */
+export function updateRating(player: Glicko2Rating, results: Glicko2Result[]): Glicko2Rating {
+  const mu = (player.rating - 1500) / SCALE;
+  const phi = player.rd / SCALE;
+  const sigma = player.volatility;
+
+  if (results.length === 0) {
+    const grown = Math.sqrt(phi * phi + sigma * sigma) * SCALE;
+    return { ...player, rd: Math.min(grown, DEFAULT_RATING.rd) };
+  }
+
+  let vInv = 0;
+  let sum = 0;
+  for (const { opponent, score } of results) {
+    const muJ = (opponent.rating - 1500) / SCALE;
+    const phiJ = opponent.rd / SCALE;
+    const e = expected(mu, muJ, phiJ);
+    vInv += g(phiJ) * g(phiJ) * e * (1 - e);
+    sum += g(phiJ) * (score - e);
+  }
+  const v = 1 / vInv;
+  const delta = v * sum;
+
+  // 새 변동성: f(x) = 0의 해를 Illinois 방식(regula falsi 변형)으로 찾는다
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const d = phi * phi + v + ex;
+    return (ex * (delta * delta - phi * phi - v - ex)) / (2 * d * d) - (x - a) / (TAU * TAU);
+  };
+  let lo = a;
+  let hi: number;
+  if (delta * delta > phi * phi + v) {
+    hi = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    hi = a - k * TAU;
+  }
+  let fLo = f(lo);
+  let fHi = f(hi);
+  while (Math.abs(hi - lo) > EPSILON) {
+    const c = lo + ((lo - hi) * fLo) / (fHi - fLo);
+    const fC = f(c);
+    if (fC * fHi <= 0) {
+      lo = hi;
+      fLo = fHi;
+    } else {
+      fLo /= 2;
+    }
+    hi = c;
+    fHi = fC;
+  }
+  const volatility = Math.exp(lo / 2);
+
+  const phiStar = Math.sqrt(phi * phi + volatility * volatility);
+  const phiNew = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+  const muNew = mu + phiNew * phiNew * sum;
+  return {
+    rating: muNew * SCALE + 1500,
+    rd: Math.min(phiNew * SCALE, DEFAULT_RATING.rd),
+    volatility,
+  };
+}
@@ -0,0 +1,114 @@
+/**
+ * 만칼라 AI — 반복 심화 알파베타 (한 번 더 두기는 같은 쪽 노드로 이어진다)
+ *
+ * 평가: 창고 차이 + 내 진영에 남은 씨앗 조금. 끝난 판은 확정 점수.
+ * 워커(src/workers/mancalaAi.worker.ts)에서 돈다.
+ */
+import { isGameOver, legalMoves, MancalaState, pitsOf, Side, sow, STORE, VARIANTS } from './rules';
+
+export interface MancalaAiLevel {
+  label: string;
+  // 사람 레이팅(Glicko-2) 계산에 쓰는 이 레벨의 고정 레이팅
+  rating: number;
+  // 최대 탐색 깊이 (수 단위, 한 번 더 두기도 한 수)
+  depth: number;
+  timeMs: number;
+  // 루트 수 점수에 더하는 무작위 흔들림 — 낮은 레벨의 실수 연출
+  noise: number;
+}
+
+export const MANCALA_AI_LEVELS: MancalaAiLevel[] = [
+  { label: '입문', rating: 800, depth: 1, timeMs: 200, noise: 6 },
+  { label: '초급', rating: 1100, depth: 3, timeMs: 400, noise: 2 },
+  { label: '중급', rating: 1400, depth: 6, timeMs: 800, noise: 0.5 },
+  { label: '상급', rating: 1700, depth: 10, timeMs: 1500, noise: 0 },
+  { label: '마스터', rating: 2000, depth: 16, timeMs: 3000, noise: 0 },
+];
+
+export interface MancalaSearchResult {
+  move: number | null;
+  score: number;
+  depth: number;
+  nodes: number;
+}
+
+const WIN_SCORE = 1000;
+
+class SearchAborted extends Error {}
+
+/** 두는 쪽(state.turn) 기준 평가 */
+export function evaluate(state: MancalaState): number {
+  const { board, turn } = state;
+  const other = (1 - turn) as Side;
+  const diff = board[STORE[turn]] - board[STORE[other]];
+  if (isGameOver(state)) return Math.sign(diff) * WIN_SCORE + diff;
+  // Kalah는 끝날 때 내 진영 씨앗이 내 몫이 되므로 조금 쳐준다
+  const onSide = (side: Side) => pitsOf(side).reduce((sum, p) => sum + board[p], 0);
+  const sideWeight = VARIANTS[state.variant].kind === 'kalah' ? 0.25 : 0.1;
+  return diff + sideWeight * (onSide(turn) - onSide(other));
+}
+
+export function searchBestMove(
+  root: MancalaState,
+  level: MancalaAiLevel,
+  random: () => number = Math.random
+): MancalaSearchResult {
+  const deadline = Date.now() + level.timeMs;
+  let nodes = 0;
+
+  const checkTime = () => {
+    if ((++nodes & 1023) === 0 && Date.now() > deadline) throw new SearchAborted();
+  };
+
+  const negamax = (state: MancalaState, depth: number, alpha: number, beta: number): number => {
+    checkTime();
+    const moves = legalMoves(state);
+    if (depth <= 0 || !moves.length) return evaluate(state);
+    let best = -Infinity;
+    for (const m of moves) {
+      const next = sow(state, m).state;
+      // 같은 쪽이 또 두면 부호를 뒤집지 않는다
+      const score =
+        next.turn === state.turn
+          ? negamax(next, depth - 1, alpha, beta)
+          : -negamax(next, depth - 1, -beta, -alpha);
+      if (score > best) best = score;
+      if (score > alpha) alpha = score;
+      if (alpha >= beta) break;
+    }
+    return best;
+  };
+
+  const rootMoves = legalMoves(root);
+  if (!rootMoves.length) return { move: null, score: 0, depth: 0, nodes: 0 };
+  const jitter = rootMoves.map(() => (level.noise ? (random() * 2 - 1) * level.noise : 0));
+
+  let result: MancalaSearchResult = { move: rootMoves[0], score: 0, depth: 0, nodes: 0 };
+  for (let depth = 1; depth <= level.depth; depth++) {
+    try {
+      // 직전 깊이의 최선수부터
+      const ordered = [...rootMoves].sort((a, b) => (b === result.move ? 1 : 0) - (a === result.move ? 1 : 0));
+      let bestMove = ordered[0];
+      let alpha = -Infinity;
+      for (const m of ordered) {
+        const j = jitter[rootMoves.indexOf(m)];
+        const next = sow(root, m).state;
+        // 창을 흔들림만큼 옮겨야 실패한 수의 상한값이 잘못 채택되지 않는다
+        const score =
+          (next.turn === root.turn
+            ? negamax(next, depth - 1, alpha - j, Infinity)
+            : -negamax(next, depth - 1, -Infinity, -(alpha - j))) + j;
+        if (score > alpha) {
+          alpha = score;
+          bestMove = m;
+        }
+      }
+      result = { move: bestMove, score: Math.round(alpha), depth, nodes };
+      if (Math.abs(alpha) > WIN_SCORE / 2) break;
+    } catch (e) {
+      if (e instanceof SearchAborted) break;
+      throw e;
+    }
+  }
+  return { ...result, nodes };
+}
@@ -0,0 +1,170 @@
+/**
+ * 만칼라 규칙 — Kalah(6,n)과 Oware(Awalé)
+ *
+ * 보드는 길이 14 배열: 0~5 아래(플레이어 0) 구멍, 6 플레이어 0 창고,
+ * 7~12 위(플레이어 1) 구멍, 13 플레이어 1 창고. 반시계 방향(idx 증가)으로 뿌린다.
+ * Oware엔 창고가 없지만 잡은 씨앗을 6/13에 모아 같은 화면으로 그린다.
+ */
+import type { TurnBasedGame } from '../turnBased';
+
+export const PITS = 6;
+export const SLOTS = 14;
+export const STORE: Record<Side, number> = { 0: 6, 1: 13 };
+
+export type Side = 0 | 1;
+export type MancalaVariant = 'kalah3' | 'kalah4' | 'kalah6' | 'oware';
+
+export interface VariantInfo {
+  label: string;
+  kind: 'kalah' | 'oware';
+  seeds: number;
+}
+
+export const VARIANTS: Record<MancalaVariant, VariantInfo> = {
+  kalah3: { label: 'Kalah(6,3)', kind: 'kalah', seeds: 3 },
+  kalah4: { label: 'Kalah(6,4)', kind: 'kalah', seeds: 4 },
+  kalah6: { label: 'Kalah(6,6)', kind: 'kalah', seeds: 6 },
+  oware: { label: 'Oware', kind: 'oware', seeds: 4 },
+};
+
+// Oware: 한쪽이 이만큼 넘게 잡으면 승리 (48알의 절반)
+const OWARE_WIN = 24;
+// Oware: 이만큼 잡기 없이 두면 끝없는 반복으로 보고 각자 제 진영 씨앗을 가져간다
+export const OWARE_QUIET_LIMIT = 100;
+
+export interface MancalaState {
+  variant: MancalaVariant;
+  board: number[];
+  turn: Side;
+  // 마지막 잡기 뒤로 둔 수 (Oware 반복 종료용, Kalah는 늘 0)
+  quiet: number;
+}
+
+export interface SowResult {
+  state: MancalaState;
+  // 씨앗이 하나씩 떨어진 칸 순서 (애니메이션용)
+  path: number[];
+  // 잡힌 구멍들
+  captured: number[];
+  // 같은 쪽이 한 번 더 두는지 (Kalah 창고에 끝남)
+  extraTurn: boolean;
+}
+
+export const pitsOf = (side: Side) => Array.from({ length: PITS }, (_, i) => side * 7 + i);
+export const sideOf = (slot: number): Side => (slot < 7 ? 0 : 1);
+export const isStore = (slot: number) => slot === 6 || slot === 13;
+export const opposite = (pit: number) => 12 - pit;
+const sideSeeds = (board: number[], side: Side) => pitsOf(side).reduce((sum, p) => sum + board[p], 0);
+
+export function initialState(variant: MancalaVariant = 'kalah4'): MancalaState {
+  const board = Array(SLOTS).fill(VARIANTS[variant].seeds);
+  board[6] = board[13] = 0;
+  return { variant, board, turn: 0, quiet: 0 };
+}
+
+/** 씨앗만 뿌린 결과 — 잡기/종료 처리 전 */
+function sowSeeds(board: number[], pit: number, kind: VariantInfo['kind']): number[] {
+  const side = sideOf(pit);
+  const path: number[] = [];
+  let seeds = board[pit];
+  board[pit] = 0;
+  let i = pit;
+  while (seeds > 0) {
+    i = (i + 1) % SLOTS;
+    // Kalah는 상대 창고를, Oware는 창고와 출발 구멍(12알 이상일 때)을 건너뛴다
+    if (kind === 'kalah' && i === STORE[(1 - side) as Side]) continue;
+    if (kind === 'oware' && (isStore(i) || i === pit)) continue;
+    board[i]++;
+    path.push(i);
+    seeds--;
+  }
+  return path;
+}
+
+/** 두는 쪽이 고를 수 있는 구멍 — Oware는 상대가 비었으면 씨앗을 넘겨 주는 수만 */
+export function legalMoves(state: MancalaState): number[] {
+  const { board, turn, variant } = state;
+  const moves = pitsOf(turn).filter((p) => board[p] > 0);
+  if (VARIANTS[variant].kind !== 'oware' || sideSeeds(board, (1 - turn) as Side) > 0) return moves;
+  // 씨앗 수가 상대 진영까지 닿는 구멍
+  return moves.filter((p) => board[p] >= 7 * (turn + 1) - 1 - p);
+}
+
+export function isGameOver(state: MancalaState): boolean {
+  return pitsOf(0).every((p) => state.board[p] === 0) && pitsOf(1).every((p) => state.board[p] === 0);
+}
+
+/** 끝난 판의 승자 (무승부면 null) */
+export function winner(state: MancalaState): Side | null {
+  const { board } = state;
+  return board[6] === board[13] ? null : board[6] > board[13] ? 0 : 1;
+}
+
+export function sow(state: MancalaState, pit: number): SowResult {
+  const info = VARIANTS[state.variant];
+  const board = state.board.slice();
+  const side = state.turn;
+  const other = (1 - side) as Side;
+  const path = sowSeeds(board, pit, info.kind);
+  const last = path[path.length - 1];
+  const captured: number[] = [];
+  let extraTurn = false;
+
+  if (info.kind === 'kalah') {
+    if (last === STORE[side]) {
+      extraTurn = true;
+    } else if (sideOf(last) === side && board[last] === 1 && board[opposite(last)] > 0) {
+      // 내 빈 구멍에 끝나면 그 씨앗과 맞은편 씨앗을 잡는다
+      board[STORE[side]] += board[last] + board[opposite(last)];
+      captured.push(last, opposite(last));
+      board[last] = board[opposite(last)] = 0;
+    }
+  } else if (sideOf(last) === other) {
+    // 상대 구멍을 2~3알로 만들면 잡고, 거슬러 올라가며 이어진 2~3알 구멍도 잡는다
+    const taken: number[] = [];
+    for (let p = last; p >= other * 7 && (board[p] === 2 || board[p] === 3); p--) taken.push(p);
+    // 상대 씨앗을 모두 잡는 수(그랜드 슬램)는 뿌리기만 하고 잡지 않는다
+    const remaining = sideSeeds(board, other) - taken.reduce((sum, p) => sum + board[p], 0);
+    if (taken.length && remaining > 0) {
+      for (const p of taken) {
+        board[STORE[side]] += board[p];
+        board[p] = 0;
+      }
+      captured.push(...taken);
+    }
+  }
+
+  const quiet = info.kind === 'oware' && !captured.length ? state.quiet + 1 : 0;
+  let next: MancalaState = { variant: state.variant, board, turn: extraTurn ? side : other, quiet };
+  // Kalah는 한쪽 구멍이 모두 비면, Oware는 과반을 잡거나 잡기 없이 오래 돌면 끝
+  const decided =
+    info.kind === 'kalah'
+      ? sideSeeds(board, 0) === 0 || sideSeeds(board, 1) === 0
+      : board[6] > OWARE_WIN || board[13] > OWARE_WIN || quiet >= OWARE_QUIET_LIMIT;
+  if (decided || !legalMoves(next).length) {
+    // 끝: 남은 씨앗은 각 진영 주인 몫
+    for (const s of [0, 1] as Side[]) {
+      for (const p of pitsOf(s)) {
+        board[STORE[s]] += board[p];
+        board[p] = 0;
+      }
+    }
+    next = { ...next, board };
+  }
+  return { state: next, path, captured, extraTurn };
+}
+
+/** 수 표기 — 아래쪽 구멍 A1~A6, 위쪽 B1~B6 (뿌리는 방향 순). 한 번 더 두면 +, 잡으면 x */
+export function formatMove(state: MancalaState, pit: number): string {
+  const { captured, extraTurn } = sow(state, pit);
+  const name = `${sideOf(pit) === 0 ? 'A' : 'B'}${(pit % 7) + 1}`;
+  return `${name}${captured.length ? 'x' : ''}${extraTurn ? '+' : ''}`;
+}
+
+export const mancalaGame: TurnBasedGame<MancalaState, number> = {
+  legalMoves,
+  applyMove: (state, pit) => sow(state, pit).state,
+  isTerminal: isGameOver,
+  turn: (state) => state.turn,
+  formatMove,
+};
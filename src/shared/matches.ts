@@ -0,0 +1,197 @@
+/**
+ * 온라인 대전(통신 대국) 규칙 레지스트리
+ *
+ * 클라이언트 훅(useOnlineMatch)과 Pages Functions(functions/api/matches)가 같은 모듈을 import한다.
+ * 서버는 저장된 수 코드를 시작 상태부터 다시 적용해 현재 국면을 만들고, 새 수가 그 국면의
+ * 합법 수인지 이 모듈로 검사한다. 수는 게임별 짧은 문자열 코드로 저장한다 (체스 UCI, 칸 번호 등).
+ */
+import { getResult as chessResult, ChessGame, findLegalMove, Move as ChessMove, newGame, parseSquare, PieceType, squareName } from './chess/rules';
+import { chessGame } from './chess/notation';
+import { BLACK, countDiscs, flipsAt, initialState as othelloInitial, othelloGame, OthelloMove, OthelloState, WHITE } from './othello/rules';
+import { C4State, canDrop, connectFourGame, getResult as c4Result, initialState as c4Initial } from './connectfour/rules';
+import { getResult as omokResult, initialState as omokInitial, isLegal as omokIsLegal, omokGame, OmokRules, OmokState, RULE_LABELS } from './omok/rules';
+import { GameHistory, pushMove, startHistory, TurnBasedGame, TurnPlayer } from './turnBased';
+
+export type MatchGameId = 'chess' | 'othello' | 'connect4' | 'omok';
+// 0: 먼저 두는 쪽, 1: 나중에 두는 쪽
+export type Seat = 0 | 1;
+export type MatchStatus = 'waiting' | 'active' | 'finished';
+export type MatchResult = Seat | 'draw' | null;
+export type MatchOptions = Record<string, string>;
+
+export interface MatchRules<State, Move> {
+  id: MatchGameId;
+  game: TurnBasedGame<State, Move>;
+  // 자리별 game.turn 값
+  seats: [TurnPlayer, TurnPlayer];
+  seatNames: [string, string];
+  // 만들 때 받은 옵션을 허용된 값만 남겨 정규화
+  parseOptions(raw: unknown): MatchOptions;
+  initial(options: MatchOptions): State;
+  encodeMove(move: Move): string;
+  // 코드가 가리키는 수가 이 국면에서 합법이면 그 수 — 합법 수 전체를 만들지 않고 그 수 하나만 검사한다
+  decodeMove(state: State, code: string): Move | null;
+  // 끝난 판의 승자 (game.turn 값) 또는 무승부
+  winner(state: State): TurnPlayer | 'draw';
+}
+
+/** GET /api/matches/:id 응답의 match */
+export interface MatchView {
+  id: string;
+  game_id: MatchGameId;
+  options: MatchOptions;
+  status: MatchStatus;
+  result: MatchResult;
+  moves: string[];
+  // 자리가 찼는지
+  seats: [boolean, boolean];
+  // 요청한 사용자의 자리 (관전자면 null)
+  seat: Seat | null;
+}
+
+/** 서버가 돌려주는 거부 코드 */
+export type MatchErrorCode =
+  | 'INVALID_JSON'
+  | 'UNKNOWN_GAME'
+  | 'ANONYMOUS_ID_REQUIRED'
+  | 'INVALID_SEAT'
+  | 'NOT_FOUND'
+  | 'MATCH_FULL'
+  | 'NOT_A_PLAYER'
+  | 'NOT_ACTIVE'
+  | 'NOT_YOUR_TURN'
+  | 'STALE_PLY'
+  | 'ILLEGAL_MOVE'
+  | 'RATE_LIMITED';
+
+const noOptions = (): MatchOptions => ({});
+
+/** 칸/열 번호 코드 — 앞자리 0 같은 다른 표기는 받지 않는다 */
+const parseIndex = (code: string): number => (/^(0|[1-9]\d{0,2})$/.test(code) ? Number(code) : -1);
+
+export const chessMatch: MatchRules<ChessGame, ChessMove> = {
+  id: 'chess',
+  game: chessGame,
+  seats: ['w', 'b'],
+  seatNames: ['백', '흑'],
+  parseOptions: noOptions,
+  initial: () => newGame(),
+  encodeMove: (m) => `${squareName(m.from)}${squareName(m.to)}${m.promotion ?? ''}`,
+  decodeMove: (g, code) => {
+    const match = /^([a-h][1-8])([a-h][1-8])([qrbn]?)$/.exec(code);
+    if (!match) return null;
+    const promotion = (match[3] || undefined) as PieceType | undefined;
+    return findLegalMove(g.position, parseSquare(match[1])!, parseSquare(match[2])!, promotion);
+  },
+  winner: (g) => {
+    const result = chessResult(g);
+    return result?.kind === 'checkmate' ? result.winner : 'draw';
+  },
+};
+
+export const othelloMatch: MatchRules<OthelloState, OthelloMove> = {
+  id: 'othello',
+  game: othelloGame,
+  seats: [BLACK, WHITE],
+  seatNames: ['흑', '백'],
+  parseOptions: noOptions,
+  initial: othelloInitial,
+  encodeMove: (m) => String(m.idx),
+  decodeMove: (s, code) => {
+    const idx = parseIndex(code);
+    const flips = idx >= 0 && idx < s.board.length ? flipsAt(s.board, idx, s.turn) : [];
+    return flips.length ? { idx, flips } : null;
+  },
+  winner: (s) => {
+    const { black, white } = countDiscs(s.board);
+    return black === white ? 'draw' : black > white ? BLACK : WHITE;
+  },
+};
+
+export const connectFourMatch: MatchRules<C4State, number> = {
+  id: 'connect4',
+  game: connectFourGame,
+  seats: [1, 2],
+  seatNames: ['빨강', '파랑'],
+  parseOptions: noOptions,
+  initial: c4Initial,
+  encodeMove: String,
+  decodeMove: (s, code) => {
+    const col = parseIndex(code);
+    return canDrop(s.board, col) ? col : null;
+  },
+  winner: (s) => c4Result(s)?.winner ?? 'draw',
+};
+
+export const omokMatch: MatchRules<OmokState, number> = {
+  id: 'omok',
+  game: omokGame,
+  seats: [1, 2],
+  seatNames: ['흑', '백'],
+  parseOptions: (raw) => {
+    const rules = (raw as { rules?: unknown } | null)?.rules;
+    const known = typeof rules === 'string' && Object.prototype.hasOwnProperty.call(RULE_LABELS, rules);
+    return { rules: known ? rules : 'freestyle' };
+  },
+  initial: (options) => omokInitial(options.rules as OmokRules),
+  encodeMove: String,
+  decodeMove: (s, code) => {
+    const idx = parseIndex(code);
+    return omokIsLegal(s, idx) ? idx : null;
+  },
+  winner: (s) => {
+    const result = omokResult(s);
+    return result?.kind === 'win' ? result.winner : 'draw';
+  },
+};
+
+interface MatchRulesById {
+  chess: MatchRules<ChessGame, ChessMove>;
+  othello: MatchRules<OthelloState, OthelloMove>;
+  connect4: MatchRules<C4State, number>;
+  omok: MatchRules<OmokState, number>;
+}
+
+const MATCH_RULES: { [Id in MatchGameId]: MatchRulesById[Id] } = {
+  chess: chessMatch,
+  othello: othelloMatch,
+  connect4: connectFourMatch,
+  omok: omokMatch,
+};
+
+export function getMatchRules(gameId: string): MatchRules<unknown, unknown> | null {
+  return Object.prototype.hasOwnProperty.call(MATCH_RULES, gameId) ? MATCH_RULES[gameId as MatchGameId] : null;
+}
+
+/** 코드와 같은 합법 수 — 없으면(불법/끝난 판) null */
+export function decodeMove<State, Move>(rules: MatchRules<State, Move>, state: State, code: string): Move | null {
+  if (rules.game.isTerminal(state)) return null;
+  return rules.decodeMove(state, code);
+}
+
+/** 저장된 수 코드를 시작 상태부터 적용 — 중간에 불법 수가 있으면 null */
+export function replayMatch<State, Move>(
+  rules: MatchRules<State, Move>,
+  options: MatchOptions,
+  codes: string[]
+): GameHistory<State, Move> | null {
+  let history = startHistory<State, Move>(rules.initial(options));
+  for (const code of codes) {
+    const move = decodeMove(rules, history.states[history.ply], code);
+    if (move === null) return null;
+    history = pushMove(rules.game, history, move);
+  }
+  return history;
+}
+
+/** 이 상태에서 둘 자리 */
+export function seatToMove<State, Move>(rules: MatchRules<State, Move>, state: State): Seat {
+  return rules.seats[0] === rules.game.turn(state) ? 0 : 1;
+}
+
+/** 끝난 판이면 결과, 진행 중이면 null */
+export function matchResult<State, Move>(rules: MatchRules<State, Move>, state: State): MatchResult {
+  if (!rules.game.isTerminal(state)) return null;
+  const winner = rules.winner(state);
+  return winner === 'draw' ? 'draw' : winner === rules.seats[0] ? 0 : 1;
+}
@@ -0,0 +1,157 @@
+/**
+ * 범용 몬테카를로 트리 탐색(MCTS/UCT) — 규칙 모듈에 승자 판정만 더하면 어떤 턴제 게임이든 AI가 생긴다
+ *
+ * 선택(UCB1) → 확장(안 가 본 수 하나) → 무작위 플레이아웃 → 역전파를 시간 예산 동안 반복하고,
+ * 가장 많이 방문한 수를 고른다. 각 노드에는 "그 노드로 오는 수를 둔 쪽" 기준 점수(승 1, 무 0.5, 패 0)를 쌓는다.
+ * 누가 뒀는지는 turn()으로 보므로 추가 턴(만칼라)처럼 같은 쪽이 연달아 두는 게임도 그대로 맞는다.
+ * 워커(src/workers/mcts.worker.ts)에서 돈다.
+ */
+import type { TurnBasedGame, TurnPlayer } from './turnBased';
+
+export interface MctsGame<State, Move>
+  extends Pick<TurnBasedGame<State, Move>, 'legalMoves' | 'applyMove' | 'isTerminal' | 'turn'> {
+  // 끝난 상태의 승자 (무승부면 null)
+  winner(state: State): TurnPlayer | null;
+  // 탐색할 후보 수 — 넓은 판에서 돌 근처만 보는 식으로 줄일 때. 없으면 legalMoves
+  candidateMoves?(state: State): Move[];
+}
+
+export interface MctsLevel {
+  label: string;
+  // 한 수 생각 시간
+  timeMs: number;
+}
+
+export const MCTS_LEVELS: MctsLevel[] = [
+  { label: '입문', timeMs: 200 },
+  { label: '중급', timeMs: 1000 },
+  { label: '상급', timeMs: 3000 },
+];
+
+// 전용 AI가 있는 게임에서 "MCTS" 상대로 고를 때 쓰는 레벨
+export const MCTS_DEFAULT_LEVEL = 1;
+
+export interface MctsOptions {
+  timeMs: number;
+  // 반복 횟수 상한 (시간보다 먼저 멈출 때)
+  maxIterations?: number;
+  // UCB1 탐험 상수 — 클수록 덜 가 본 수를 더 본다
+  exploration?: number;
+  // 플레이아웃이 이만큼 길어지면 무승부로 친다
+  maxPlayoutPlies?: number;
+  random?: () => number;
+}
+
+export interface MctsResult<Move> {
+  // 둘 수가 없으면 null
+  move: Move | null;
+  iterations: number;
+  // 고른 수의 방문 수와 (두는 쪽 기준) 승률
+  visits: number;
+  winRate: number;
+}
+
+interface MctsNode<State, Move> {
+  state: State;
+  move: Move | null;
+  parent: MctsNode<State, Move> | null;
+  children: MctsNode<State, Move>[];
+  // 아직 확장하지 않은 수
+  untried: Move[];
+  visits: number;
+  // 이 노드로 오는 수를 둔 쪽 기준 점수 합
+  score: number;
+  mover: TurnPlayer | null;
+}
+
+const DEFAULT_EXPLORATION = Math.SQRT2;
+const DEFAULT_MAX_PLAYOUT_PLIES = 400;
+
+export function searchMcts<State, Move>(
+  game: MctsGame<State, Move>,
+  root: State,
+  options: MctsOptions
+): MctsResult<Move> {
+  const {
+    timeMs,
+    maxIterations = Infinity,
+    exploration = DEFAULT_EXPLORATION,
+    maxPlayoutPlies = DEFAULT_MAX_PLAYOUT_PLIES,
+    random = Math.random,
+  } = options;
+  const movesOf = (state: State) => (game.candidateMoves ? game.candidateMoves(state) : game.legalMoves(state));
+  const pick = <T>(items: T[]) => items[Math.floor(random() * items.length)];
+
+  const rootMoves = game.isTerminal(root) ? [] : movesOf(root);
+  if (rootMoves.length === 0) return { move: null, iterations: 0, visits: 0, winRate: 0 };
+  if (rootMoves.length === 1) return { move: rootMoves[0], iterations: 0, visits: 0, winRate: 0.5 };
+
+  const tree: MctsNode<State, Move> = {
+    state: root,
+    move: null,
+    parent: null,
+    children: [],
+    untried: rootMoves.slice(),
+    visits: 0,
+    score: 0,
+    mover: null,
+  };
+
+  const uct = (child: MctsNode<State, Move>, parentVisits: number) =>
+    child.score / child.visits + exploration * Math.sqrt(Math.log(parentVisits) / child.visits);
+
+  const deadline = Date.now() + timeMs;
+  let iterations = 0;
+  // 시계는 64번에 한 번만 본다 (첫 반복은 항상 돈다)
+  while (iterations < maxIterations && ((iterations & 63) !== 0 || iterations === 0 || Date.now() < deadline)) {
+    iterations++;
+
+    // 선택: 다 펼친 노드는 UCB1이 가장 큰 자식으로 내려간다
+    let node = tree;
+    while (node.untried.length === 0 && node.children.length > 0) {
+      const parentVisits = node.visits;
+      node = node.children.reduce((best, c) => (uct(c, parentVisits) > uct(best, parentVisits) ? c : best));
+    }
+
+    // 확장: 안 가 본 수 하나
+    if (node.untried.length > 0) {
+      const i = Math.floor(random() * node.untried.length);
+      const [move] = node.untried.splice(i, 1);
+      const state = game.applyMove(node.state, move);
+      const child: MctsNode<State, Move> = {
+        state,
+        move,
+        parent: node,
+        children: [],
+        untried: game.isTerminal(state) ? [] : movesOf(state),
+        visits: 0,
+        score: 0,
+        mover: game.turn(node.state),
+      };
+      node.children.push(child);
+      node = child;
+    }
+
+    // 플레이아웃: 끝날 때까지 무작위로 둔다
+    let state = node.state;
+    let winner: TurnPlayer | null = null;
+    for (let ply = 0; ply < maxPlayoutPlies; ply++) {
+      if (game.isTerminal(state)) {
+        winner = game.winner(state);
+        break;
+      }
+      const moves = movesOf(state);
+      if (moves.length === 0) break;
+      state = game.applyMove(state, pick(moves));
+    }
+
+    // 역전파
+    for (let n: MctsNode<State, Move> | null = node; n; n = n.parent) {
+      n.visits++;
+      if (n.mover !== null) n.score += winner === null ? 0.5 : winner === n.mover ? 1 : 0;
+    }
+  }
+
+  const best = tree.children.reduce((a, b) => (b.visits > a.visits ? b : a));
+  return { move: best.move, iterations, visits: best.visits, winRate: best.score / best.visits };
+}
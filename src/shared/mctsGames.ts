@@ -0,0 +1,68 @@
+/**
+ * MCTS로 AI를 붙인 게임들 — 규칙 모듈의 TurnBasedGame에 승자 판정(과 필요하면 후보 수 줄이기)만 더한다
+ *
+ * 워커에는 함수를 보낼 수 없으므로 요청은 id로 게임을 고른다. 새 게임은 여기에 한 줄 더하면 된다.
+ */
+import type { MctsGame } from './mcts';
+import { checkersGame, CheckersMove, CheckersState, getResult as checkersResult } from './checkers/rules';
+import { mancalaGame, MancalaState, winner as mancalaWinner } from './mancala/rules';
+import { EMPTY, getResult as omokResult, isLegal, omokGame, OmokState, SIZE as OMOK_SIZE } from './omok/rules';
+import { gameResult, tttGame, TttGame } from './tictactoe/rules';
+
+// 오목은 225칸을 다 보면 플레이아웃이 엉뚱해지므로 이미 둔 돌에서 두 칸 안쪽만 본다
+const OMOK_REACH = 2;
+
+function omokCandidates(state: OmokState): number[] {
+  const { board } = state;
+  if (board.every(stone => stone === EMPTY)) return [Math.floor((OMOK_SIZE * OMOK_SIZE) / 2)];
+  const near = new Set<number>();
+  board.forEach((stone, idx) => {
+    if (stone === EMPTY) return;
+    const x = idx % OMOK_SIZE;
+    const y = Math.floor(idx / OMOK_SIZE);
+    for (let dy = -OMOK_REACH; dy <= OMOK_REACH; dy++) {
+      for (let dx = -OMOK_REACH; dx <= OMOK_REACH; dx++) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (nx >= 0 && nx < OMOK_SIZE && ny >= 0 && ny < OMOK_SIZE) near.add(ny * OMOK_SIZE + nx);
+      }
+    }
+  });
+  return [...near].filter(idx => isLegal(state, idx));
+}
+
+const mancalaMcts: MctsGame<MancalaState, number> = { ...mancalaGame, winner: mancalaWinner };
+
+const tttMcts: MctsGame<TttGame, number> = {
+  ...tttGame,
+  winner: game => {
+    const outcome = gameResult(game)?.outcome;
+    return outcome === undefined || outcome === 'draw' ? null : outcome;
+  },
+};
+
+const checkersMcts: MctsGame<CheckersState, CheckersMove> = {
+  ...checkersGame,
+  winner: state => {
+    const result = checkersResult(state);
+    return result?.kind === 'win' ? result.winner : null;
+  },
+};
+
+const omokMcts: MctsGame<OmokState, number> = {
+  ...omokGame,
+  winner: state => {
+    const result = omokResult(state);
+    return result?.kind === 'win' ? result.winner : null;
+  },
+  candidateMoves: omokCandidates,
+};
+
+export const MCTS_GAMES = {
+  mancala: mancalaMcts,
+  tictactoe: tttMcts,
+  checkers: checkersMcts,
+  omok: omokMcts,
+};
+
+export type MctsGameId = keyof typeof MCTS_GAMES;
@@ -0,0 +1,174 @@
+/**
+ * 지뢰찾기 규칙 — 판 만들기, 첫 클릭 뒤 지뢰 배치, 열기/화음(코드) 열기, 깃발 표시
+ *
+ * 지뢰는 첫 칸을 열 때 그 칸과 주변 8칸을 빼고 놓으므로 첫 클릭은 늘 빈 칸(0)으로 열린다.
+ * 판은 바꾸지 않고 새 판을 돌려준다.
+ */
+
+export type Difficulty = 'beginner' | 'intermediate' | 'expert' | 'custom';
+
+export interface BoardConfig {
+  rows: number;
+  cols: number;
+  mines: number;
+}
+
+// 칸 표시: 없음 → 깃발 → 물음표 → 없음
+export type CellMark = 'none' | 'flag' | 'question';
+
+export interface Cell {
+  mine: boolean;
+  revealed: boolean;
+  mark: CellMark;
+  // 주변 지뢰 수
+  adjacent: number;
+}
+
+export interface Board extends BoardConfig {
+  cells: Cell[][];
+  // 지뢰를 놓았는지 (첫 칸을 열기 전엔 false)
+  placed: boolean;
+}
+
+export const PRESETS: Record<Exclude<Difficulty, 'custom'>, BoardConfig & { label: string }> = {
+  beginner: { label: '초급', rows: 9, cols: 9, mines: 10 },
+  intermediate: { label: '중급', rows: 16, cols: 16, mines: 40 },
+  expert: { label: '고급', rows: 16, cols: 30, mines: 99 },
+};
+
+export const CUSTOM_LIMITS = { minSize: 5, maxRows: 24, maxCols: 30, minMines: 1 };
+
+/** 사용자 지정 크기를 허용 범위로 맞춘다 — 첫 클릭 안전 구역(3×3)은 늘 남긴다 */
+export function clampConfig(config: BoardConfig): BoardConfig {
+  const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, Math.round(v) || min));
+  const rows = clamp(config.rows, CUSTOM_LIMITS.minSize, CUSTOM_LIMITS.maxRows);
+  const cols = clamp(config.cols, CUSTOM_LIMITS.minSize, CUSTOM_LIMITS.maxCols);
+  const mines = clamp(config.mines, CUSTOM_LIMITS.minMines, rows * cols - 9);
+  return { rows, cols, mines };
+}
+
+export function createBoard({ rows, cols, mines }: BoardConfig): Board {
+  const cells = Array.from({ length: rows }, () =>
+    Array.from({ length: cols }, (): Cell => ({ mine: false, revealed: false, mark: 'none', adjacent: 0 }))
+  );
+  return { rows, cols, mines, cells, placed: false };
+}
+
+export function neighbors(board: BoardConfig, r: number, c: number): [number, number][] {
+  const result: [number, number][] = [];
+  for (let dr = -1; dr <= 1; dr++) {
+    for (let dc = -1; dc <= 1; dc++) {
+      const nr = r + dr;
+      const nc = c + dc;
+      if ((dr || dc) && nr >= 0 && nr < board.rows && nc >= 0 && nc < board.cols) result.push([nr, nc]);
+    }
+  }
+  return result;
+}
+
+function cloneBoard(board: Board): Board {
+  return { ...board, cells: board.cells.map(row => row.map(cell => ({ ...cell }))) };
+}
+
+/** 지뢰 위치 목록으로 판을 채운다 (표시는 그대로 둔다) */
+export function withMines(board: Board, mines: [number, number][]): Board {
+  const next = cloneBoard(board);
+  for (const row of next.cells) for (const cell of row) cell.mine = false;
+  for (const [r, c] of mines) next.cells[r][c].mine = true;
+  for (let r = 0; r < next.rows; r++) {
+    for (let c = 0; c < next.cols; c++) {
+      next.cells[r][c].adjacent = neighbors(next, r, c).filter(([nr, nc]) => next.cells[nr][nc].mine).length;
+    }
+  }
+  return { ...next, mines: mines.length, placed: true };
+}
+
+/** (safeR, safeC)와 그 주변을 빼고 무작위로 지뢰를 고른다 */
+export function randomMines(config: BoardConfig, safeR: number, safeC: number, random = Math.random): [number, number][] {
+  const free: [number, number][] = [];
+  for (let r = 0; r < config.rows; r++) {
+    for (let c = 0; c < config.cols; c++) {
+      if (Math.abs(r - safeR) > 1 || Math.abs(c - safeC) > 1) free.push([r, c]);
+    }
+  }
+  // 부분 피셔-예이츠
+  const count = Math.min(config.mines, free.length);
+  for (let i = 0; i < count; i++) {
+    const j = i + Math.floor(random() * (free.length - i));
+    [free[i], free[j]] = [free[j], free[i]];
+  }
+  return free.slice(0, count);
+}
+
+export interface RevealResult {
+  board: Board;
+  // 지뢰를 열었으면 그 칸
+  exploded: [number, number] | null;
+}
+
+/** 칸들을 연다 — 0인 칸은 주변으로 번진다. 표시된 칸은 건너뛴다 */
+function openCells(board: Board, start: [number, number][]): RevealResult {
+  const next = cloneBoard(board);
+  const stack = start.slice();
+  let exploded: [number, number] | null = null;
+  while (stack.length) {
+    const [r, c] = stack.pop()!;
+    const cell = next.cells[r][c];
+    if (cell.revealed || cell.mark === 'flag') continue;
+    cell.revealed = true;
+    cell.mark = 'none';
+    if (cell.mine) {
+      exploded ??= [r, c];
+      continue;
+    }
+    if (cell.adjacent === 0) stack.push(...neighbors(next, r, c));
+  }
+  return { board: next, exploded };
+}
+
+/**
+ * 칸 하나를 연다. 첫 열기면 먼저 지뢰를 놓는다
+ * @param placeMines 첫 열기 때 지뢰 위치를 고르는 함수 (기본: 무작위)
+ */
+export function reveal(
+  board: Board,
+  r: number,
+  c: number,
+  placeMines: (config: BoardConfig, r: number, c: number) => [number, number][] = randomMines
+): RevealResult {
+  const cell = board.cells[r][c];
+  if (cell.revealed || cell.mark === 'flag') return { board, exploded: null };
+  const ready = board.placed ? board : withMines(board, placeMines(board, r, c));
+  return openCells(ready, [[r, c]]);
+}
+
+/** 숫자 칸 주변의 깃발 수가 숫자와 같으면 나머지 이웃을 모두 연다 */
+export function chord(board: Board, r: number, c: number): RevealResult {
+  const cell = board.cells[r][c];
+  if (!cell.revealed || cell.adjacent === 0) return { board, exploded: null };
+  const around = neighbors(board, r, c);
+  const flags = around.filter(([nr, nc]) => board.cells[nr][nc].mark === 'flag').length;
+  if (flags !== cell.adjacent) return { board, exploded: null };
+  const hidden = around.filter(([nr, nc]) => !board.cells[nr][nc].revealed && board.cells[nr][nc].mark !== 'flag');
+  if (hidden.length === 0) return { board, exploded: null };
+  return openCells(board, hidden);
+}
+
+const NEXT_MARK: Record<CellMark, CellMark> = { none: 'flag', flag: 'question', question: 'none' };
+
+/** 닫힌 칸의 표시를 깃발 → 물음표 → 없음 순으로 바꾼다 */
+export function cycleMark(board: Board, r: number, c: number): Board {
+  if (board.cells[r][c].revealed) return board;
+  const next = cloneBoard(board);
+  next.cells[r][c].mark = NEXT_MARK[next.cells[r][c].mark];
+  return next;
+}
+
+export function countFlags(board: Board): number {
+  return board.cells.reduce((sum, row) => sum + row.filter(cell => cell.mark === 'flag').length, 0);
+}
+
+/** 지뢰 아닌 칸을 모두 열었는지 */
+export function isCleared(board: Board): boolean {
+  return board.placed && board.cells.every(row => row.every(cell => cell.revealed || cell.mine));
+}
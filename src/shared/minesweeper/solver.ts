@@ -0,0 +1,170 @@
+/**
+ * 지뢰찾기 논리 풀이 — 보이는 숫자만으로 확실히 안전한 칸/지뢰 칸을 찾는다
+ *
+ * 숫자 칸마다 "이 이웃들 중 지뢰 n개"라는 제약을 세우고,
+ * 자명한 규칙(0개/전부) · 부분집합 규칙(A ⊂ B면 B−A에 n_B−n_A개) · 남은 지뢰 수를
+ * 더 이상 바뀌지 않을 때까지 되풀이해 적용한다(제약 전파).
+ * 이 풀이로 첫 클릭부터 끝까지 열리는 판만 받으면 "찍기 없는" 판이 된다.
+ */
+import { Board, BoardConfig, neighbors, randomMines } from './rules';
+
+export interface Deduction {
+  safe: [number, number][];
+  mines: [number, number][];
+}
+
+interface Knowledge {
+  config: BoardConfig;
+  // 칸 번호(r * cols + c)별 열림 여부와 열린 칸의 숫자
+  revealed: boolean[];
+  numbers: number[];
+}
+
+interface Constraint {
+  cells: number[];
+  count: number;
+}
+
+function neighborIndices(config: BoardConfig, i: number): number[] {
+  return neighbors(config, Math.floor(i / config.cols), i % config.cols).map(([r, c]) => r * config.cols + c);
+}
+
+/** 확실한 칸을 찾는다 — knownMines/knownSafe에 이어서 채운다 */
+function propagate(k: Knowledge, knownMines: Set<number>, knownSafe: Set<number>): void {
+  const { config, revealed, numbers } = k;
+  const total = config.rows * config.cols;
+  let changed = true;
+  const markMine = (i: number) => {
+    if (knownMines.has(i)) return;
+    knownMines.add(i);
+    changed = true;
+  };
+  const markSafe = (i: number) => {
+    if (revealed[i] || knownSafe.has(i)) return;
+    knownSafe.add(i);
+    changed = true;
+  };
+
+  while (changed) {
+    changed = false;
+    // 현재 지식으로 제약을 다시 세운다
+    const constraints: Constraint[] = [];
+    for (let i = 0; i < total; i++) {
+      if (!revealed[i]) continue;
+      const around = neighborIndices(config, i);
+      const cells = around.filter(n => !revealed[n] && !knownMines.has(n) && !knownSafe.has(n));
+      if (cells.length === 0) continue;
+      const count = numbers[i] - around.filter(n => knownMines.has(n)).length;
+      constraints.push({ cells, count });
+    }
+
+    // 자명한 규칙
+    for (const { cells, count } of constraints) {
+      if (count === 0) cells.forEach(markSafe);
+      else if (count === cells.length) cells.forEach(markMine);
+    }
+    if (changed) continue;
+
+    // 부분집합 규칙 — 칸을 함께 쓰는 제약끼리만 비교한다
+    const byCell = new Map<number, number[]>();
+    constraints.forEach((con, ci) => con.cells.forEach(cell => byCell.set(cell, [...(byCell.get(cell) ?? []), ci])));
+    for (let a = 0; a < constraints.length && !changed; a++) {
+      const small = constraints[a];
+      const others = new Set(small.cells.flatMap(cell => byCell.get(cell) ?? []));
+      for (const b of others) {
+        const big = constraints[b];
+        if (b === a || big.cells.length <= small.cells.length) continue;
+        if (!small.cells.every(cell => big.cells.includes(cell))) continue;
+        const rest = big.cells.filter(cell => !small.cells.includes(cell));
+        const count = big.count - small.count;
+        if (count === 0) rest.forEach(markSafe);
+        else if (count === rest.length) rest.forEach(markMine);
+      }
+    }
+    if (changed) continue;
+
+    // 남은 지뢰 수 — 0개면 나머지 전부 안전, 남은 칸 수와 같으면 전부 지뢰
+    const unknown: number[] = [];
+    for (let i = 0; i < total; i++) if (!revealed[i] && !knownMines.has(i) && !knownSafe.has(i)) unknown.push(i);
+    const remaining = config.mines - knownMines.size;
+    if (unknown.length > 0 && remaining === 0) unknown.forEach(markSafe);
+    else if (unknown.length > 0 && remaining === unknown.length) unknown.forEach(markMine);
+  }
+}
+
+function knowledgeOf(board: Board): Knowledge {
+  const cells = board.cells.flat();
+  return { config: board, revealed: cells.map(c => c.revealed), numbers: cells.map(c => c.adjacent) };
+}
+
+const toPosition = (cols: number) => (i: number): [number, number] => [Math.floor(i / cols), i % cols];
+
+/** 플레이어가 보는 정보(열린 숫자)만으로 확실한 칸을 찾는다 — 깃발은 틀릴 수 있으니 보지 않는다 */
+export function deduce(board: Board): Deduction {
+  const knownMines = new Set<number>();
+  const knownSafe = new Set<number>();
+  if (board.placed) propagate(knowledgeOf(board), knownMines, knownSafe);
+  return { safe: [...knownSafe].map(toPosition(board.cols)), mines: [...knownMines].map(toPosition(board.cols)) };
+}
+
+/** 힌트 — 논리로 확실히 안전한 닫힌 칸 하나 (첫 클릭 전엔 가운데, 없으면 null) */
+export function findSafeHint(board: Board): [number, number] | null {
+  if (!board.placed) return [Math.floor(board.rows / 2), Math.floor(board.cols / 2)];
+  return deduce(board).safe[0] ?? null;
+}
+
+/** (r, c)를 처음 열고 논리만으로 끝까지 풀리는 지뢰 배치인지 */
+export function isNoGuess(config: BoardConfig, mines: [number, number][], r: number, c: number): boolean {
+  const total = config.rows * config.cols;
+  const isMine = new Array<boolean>(total).fill(false);
+  for (const [mr, mc] of mines) isMine[mr * config.cols + mc] = true;
+  const numbers = Array.from({ length: total }, (_, i) => neighborIndices(config, i).filter(n => isMine[n]).length);
+  const k: Knowledge = { config: { ...config, mines: mines.length }, revealed: new Array<boolean>(total).fill(false), numbers };
+
+  const open = (start: number[]) => {
+    const stack = start.slice();
+    while (stack.length) {
+      const i = stack.pop()!;
+      if (k.revealed[i] || isMine[i]) continue;
+      k.revealed[i] = true;
+      if (numbers[i] === 0) stack.push(...neighborIndices(config, i));
+    }
+  };
+
+  open([r * config.cols + c]);
+  const knownMines = new Set<number>();
+  for (;;) {
+    const knownSafe = new Set<number>();
+    propagate(k, knownMines, knownSafe);
+    if (knownSafe.size === 0) break;
+    open([...knownSafe]);
+  }
+  return k.revealed.every((open, i) => open || isMine[i]);
+}
+
+export interface NoGuessOptions {
+  // 시도할 배치 수 상한
+  maxAttempts?: number;
+  // 이 시간을 넘기면 마지막 배치로 포기한다
+  timeMs?: number;
+  random?: () => number;
+}
+
+/**
+ * 찍기 없는 지뢰 배치를 찾는다 — 무작위 배치를 풀어 보고 풀리는 것만 받는다
+ * @returns 찾았으면 noGuess true, 시간/횟수를 넘기면 마지막 배치와 false
+ */
+export function noGuessMines(
+  config: BoardConfig,
+  r: number,
+  c: number,
+  { maxAttempts = 5000, timeMs = 3000, random = Math.random }: NoGuessOptions = {}
+): { mines: [number, number][]; noGuess: boolean; attempts: number } {
+  const deadline = Date.now() + timeMs;
+  let mines = randomMines(config, r, c, random);
+  for (let attempts = 1; ; attempts++) {
+    if (isNoGuess(config, mines, r, c)) return { mines, noGuess: true, attempts };
+    if (attempts >= maxAttempts || Date.now() >= deadline) return { mines, noGuess: false, attempts };
+    mines = randomMines(config, r, c, random);
+  }
+}
@@ -0,0 +1,381 @@
+/**
+ * 오목 AI — 패턴 점수 + 위협 공간 탐색(VCF/VCT)
+ *
+ * 1) 바로 5목이면 두고, 상대 5목 자리는 막는다.
+ * 2) VCF(연속 4로 이기는 수순), 높은 레벨은 VCT(4와 열린 3을 섞은 수순)를 찾는다.
+ * 3) 상대에게 VCF가 있으면 그걸 끊는 수를 고른다.
+ * 4) 나머지는 공격/수비 패턴 점수가 가장 높은 수.
+ * 순수 함수라 워커(src/workers/omokAi.worker.ts)에서 돌린다.
+ */
+import {
+  BLACK,
+  CENTER,
+  DIRS,
+  EMPTY,
+  forbiddenKind,
+  fourCount,
+  idxOf,
+  isOpenThree,
+  lineAt,
+  makesFive,
+  needsExactFive,
+  OmokRules,
+  OmokState,
+  other,
+  Player,
+  runLength,
+  SIZE,
+  Stone,
+} from './rules';
+
+export interface OmokAiLevel {
+  label: string;
+  // 사람 레이팅(Glicko-2) 계산에 쓰는 이 레벨의 고정 레이팅
+  rating: number;
+  // VCF 최대 수 (0이면 찾지 않음)
+  vcfDepth: number;
+  // VCT 최대 수 (0이면 찾지 않음)
+  vctDepth: number;
+  // 상대 VCF를 미리 끊는지
+  defend: boolean;
+  // 후보 점수에 곱하는 무작위 흔들림 (0~1)
+  noise: number;
+  // 위협 탐색 시간 상한
+  timeMs: number;
+}
+
+export const OMOK_AI_LEVELS: OmokAiLevel[] = [
+  { label: '입문', rating: 800, vcfDepth: 0, vctDepth: 0, defend: false, noise: 0.6, timeMs: 0 },
+  { label: '초급', rating: 1100, vcfDepth: 0, vctDepth: 0, defend: false, noise: 0.2, timeMs: 0 },
+  { label: '중급', rating: 1450, vcfDepth: 8, vctDepth: 0, defend: false, noise: 0.05, timeMs: 500 },
+  { label: '상급', rating: 1800, vcfDepth: 12, vctDepth: 3, defend: true, noise: 0, timeMs: 1500 },
+  { label: '마스터', rating: 2100, vcfDepth: 16, vctDepth: 5, defend: true, noise: 0, timeMs: 3000 },
+];
+
+export interface OmokAiResult {
+  move: number;
+  // 찾은 필승 수순 (없으면 빈 배열) — 화면 안내용
+  winningLine: number[];
+  reason: 'five' | 'block' | 'vcf' | 'vct' | 'defend' | 'pattern';
+}
+
+// 한 수가 만드는 형태 점수
+const SHAPE = {
+  five: 1_000_000,
+  openFour: 100_000,
+  four: 6_000,
+  openThree: 5_000,
+  // 5칸 창(window) 안의 내 돌 수별 점수
+  window: [0, 1, 12, 120, 600, 0],
+};
+const DEFENSE_WEIGHT = 0.85;
+const DEFEND_CANDIDATES = 12;
+
+interface Ctx {
+  board: Stone[];
+  rules: OmokRules;
+  // 위협 탐색을 그만두는 시각 (performance.now 기준)
+  deadline: number;
+}
+
+const inside = (x: number, y: number) => x >= 0 && x < SIZE && y >= 0 && y < SIZE;
+const timeUp = (c: Ctx) => performance.now() > c.deadline;
+
+/** idx에 두었을 때 상대 돌이 없는 5칸 창 안의 내 돌 최대 수 — 형태 판정 전 값싼 거름망 */
+function maxWindow(c: Ctx, idx: number, color: Player): number {
+  const x = idx % SIZE;
+  const y = Math.floor(idx / SIZE);
+  const opp = other(color);
+  let best = 1;
+  for (const [dx, dy] of DIRS) {
+    for (let start = -4; start <= 0; start++) {
+      let mine = 1;
+      for (let k = start; k < start + 5; k++) {
+        if (k === 0) continue;
+        const nx = x + dx * k;
+        const ny = y + dy * k;
+        const v = inside(nx, ny) ? c.board[idxOf(nx, ny)] : opp;
+        if (v === opp) {
+          mine = 0;
+          break;
+        }
+        if (v === color) mine++;
+      }
+      if (mine > best) best = mine;
+    }
+  }
+  return best;
+}
+
+// 금수는 3이 둘 이상이거나 4/장목이라 창에 흑돌이 3개 미만이면 볼 필요 없음
+const isForbidden = (c: Ctx, idx: number, color: Player) =>
+  c.rules === 'renju' && color === BLACK && maxWindow(c, idx, BLACK) >= 3 && forbiddenKind(c.board, idx) !== null;
+
+/** 돌에서 2칸 안의 빈칸 (판이 비었으면 천원) */
+function candidates(board: Stone[]): number[] {
+  const mark = new Uint8Array(SIZE * SIZE);
+  const result: number[] = [];
+  let any = false;
+  for (let i = 0; i < board.length; i++) {
+    if (board[i] === EMPTY) continue;
+    any = true;
+    const x = i % SIZE;
+    const y = Math.floor(i / SIZE);
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        const nx = x + dx;
+        const ny = y + dy;
+        if (!inside(nx, ny)) continue;
+        const j = idxOf(nx, ny);
+        if (board[j] === EMPTY && !mark[j]) {
+          mark[j] = 1;
+          result.push(j);
+        }
+      }
+    }
+  }
+  return any ? result : [idxOf(SIZE >> 1, SIZE >> 1)];
+}
+
+/** idx를 지나는 네 줄 위 ±4칸에서 color가 5목을 만드는 빈칸 */
+function fivePointsThrough(c: Ctx, idx: number, color: Player): number[] {
+  const x = idx % SIZE;
+  const y = Math.floor(idx / SIZE);
+  const points: number[] = [];
+  for (const [dx, dy] of DIRS) {
+    for (let k = -4; k <= 4; k++) {
+      const nx = x + dx * k;
+      const ny = y + dy * k;
+      if (!inside(nx, ny)) continue;
+      const j = idxOf(nx, ny);
+      if (c.board[j] === EMPTY && !points.includes(j) && makesFive(c.board, j, color, c.rules)) points.push(j);
+    }
+  }
+  return points;
+}
+
+function allFivePoints(c: Ctx, color: Player): number[] {
+  return candidates(c.board).filter((j) => maxWindow(c, j, color) >= 5 && makesFive(c.board, j, color, c.rules));
+}
+
+/** color가 idx에 두었을 때의 형태 — 4의 개수, 열린 4/3 여부 */
+function shapeAt(c: Ctx, idx: number, color: Player) {
+  const x = idx % SIZE;
+  const y = Math.floor(idx / SIZE);
+  const exact = needsExactFive(c.rules, color);
+  let fours = 0;
+  let openFour = false;
+  let openThrees = 0;
+  let five = false;
+  for (const [dx, dy] of DIRS) {
+    const line = lineAt(c.board, x, y, dx, dy);
+    line[CENTER] = color;
+    const len = runLength(line, color);
+    if (exact ? len === 5 : len >= 5) five = true;
+    const four = fourCount(line, color, exact);
+    fours += four.count;
+    openFour ||= four.open;
+    if (!four.count && isOpenThree(line, color, exact)) openThrees++;
+  }
+  return { five, fours, openFour, openThrees };
+}
+
+/** 5칸 창 점수 + 형태 점수 */
+function patternScore(c: Ctx, idx: number, color: Player): number {
+  const x = idx % SIZE;
+  const y = Math.floor(idx / SIZE);
+  const opp = other(color);
+  let score = 0;
+  for (const [dx, dy] of DIRS) {
+    for (let start = -4; start <= 0; start++) {
+      let mine = 1;
+      let blocked = false;
+      for (let k = start; k < start + 5; k++) {
+        if (k === 0) continue;
+        const nx = x + dx * k;
+        const ny = y + dy * k;
+        const v = inside(nx, ny) ? c.board[idxOf(nx, ny)] : opp;
+        if (v === opp) {
+          blocked = true;
+          break;
+        }
+        if (v === color) mine++;
+      }
+      if (!blocked) score += SHAPE.window[Math.min(mine, 5)];
+    }
+  }
+  const shape = shapeAt(c, idx, color);
+  if (shape.five) score += SHAPE.five;
+  if (shape.openFour || shape.fours >= 2) score += SHAPE.openFour;
+  else if (shape.fours && shape.openThrees) score += SHAPE.openFour / 2;
+  else if (shape.openThrees >= 2) score += SHAPE.openFour / 4;
+  score += shape.fours * SHAPE.four + shape.openThrees * SHAPE.openThree;
+  return score;
+}
+
+function scoreMove(c: Ctx, idx: number, me: Player): number {
+  const opp = other(me);
+  const attack = patternScore(c, idx, me);
+  // 렌주: 흑이 못 두는 자리는 막을 필요 없음
+  const defense = isForbidden(c, idx, opp) ? 0 : patternScore(c, idx, opp);
+  const x = idx % SIZE;
+  const y = Math.floor(idx / SIZE);
+  const centerBias = (SIZE - Math.abs(x - (SIZE >> 1)) - Math.abs(y - (SIZE >> 1))) * 0.1;
+  return attack + defense * DEFENSE_WEIGHT + centerBias;
+}
+
+/* ───── VCF: 4만 연속으로 두어 이기는 수순 ───── */
+
+function searchVcf(c: Ctx, attacker: Player, depth: number, threats: number[]): number[] | null {
+  if (depth <= 0 || timeUp(c)) return null;
+  const defender = other(attacker);
+  // 수비 쪽에 5목 자리가 있으면 4는 강제가 아니다 — 5목으로 끝낼 때만 성공
+  for (const j of candidates(c.board)) {
+    if (maxWindow(c, j, attacker) < (threats.length ? 5 : 4)) continue;
+    const shape = shapeAt(c, j, attacker);
+    if (shape.five) return [j];
+    if (threats.length || !shape.fours || isForbidden(c, j, attacker)) continue;
+    c.board[j] = attacker;
+    const blocks = fivePointsThrough(c, j, attacker);
+    let line: number[] | null = null;
+    if (blocks.length >= 2 || (blocks.length === 1 && isForbidden(c, blocks[0], defender))) {
+      // 막을 곳이 둘 이상(열린 4/쌍사)이거나 막는 자리가 상대 금수
+      line = [j];
+    } else if (blocks.length === 1) {
+      const block = blocks[0];
+      const counterFive = makesFive(c.board, block, defender, c.rules);
+      if (!counterFive) {
+        c.board[block] = defender;
+        const next = searchVcf(c, attacker, depth - 1, fivePointsThrough(c, block, defender));
+        c.board[block] = EMPTY;
+        if (next) line = [j, block, ...next];
+      }
+    }
+    c.board[j] = EMPTY;
+    if (line) return line;
+  }
+  return null;
+}
+
+/* ───── VCT: 4와 열린 3으로 몰아붙이는 수순 ───── */
+
+/** attacker가 idx에 둔 열린 3을 막는 빈칸들 (해당 줄에서 3이 더는 열린 3이 아니게 되는 곳) */
+function threeDefenses(c: Ctx, idx: number, attacker: Player): number[] {
+  const x = idx % SIZE;
+  const y = Math.floor(idx / SIZE);
+  const exact = needsExactFive(c.rules, attacker);
+  const defender = other(attacker);
+  const result: number[] = [];
+  for (const [dx, dy] of DIRS) {
+    const line = lineAt(c.board, x, y, dx, dy);
+    if (fourCount(line, attacker, exact).count || !isOpenThree(line, attacker, exact)) continue;
+    for (let j = CENTER - 4; j <= CENTER + 4; j++) {
+      if (line[j] !== EMPTY) continue;
+      line[j] = defender;
+      if (!isOpenThree(line, attacker, exact)) {
+        const cell = idxOf(x + dx * (j - CENTER), y + dy * (j - CENTER));
+        if (!result.includes(cell)) result.push(cell);
+      }
+      line[j] = EMPTY;
+    }
+  }
+  return result;
+}
+
+function searchVct(c: Ctx, attacker: Player, depth: number, vcfDepth: number): number[] | null {
+  const defender = other(attacker);
+  const threats = allFivePoints(c, defender);
+  const vcf = searchVcf(c, attacker, vcfDepth, threats);
+  if (vcf) return vcf;
+  if (depth <= 0 || timeUp(c) || threats.length > 1) return null;
+
+  // 상대 4가 있으면 막는 수뿐 — 그 수가 다시 위협(4/열린 3)이어야 수순이 이어진다
+  for (const j of threats.length ? threats : candidates(c.board)) {
+    if (maxWindow(c, j, attacker) < 3) continue;
+    const shape = shapeAt(c, j, attacker);
+    if ((!shape.openThrees && !shape.fours) || isForbidden(c, j, attacker)) continue;
+    c.board[j] = attacker;
+    let defenses: number[];
+    if (shape.fours) {
+      defenses = fivePointsThrough(c, j, attacker);
+    } else {
+      // 수비 후보: 3을 막는 자리 + 수비 쪽의 4 (반격)
+      defenses = threeDefenses(c, j, attacker);
+      for (const k of candidates(c.board)) {
+        if (defenses.includes(k) || maxWindow(c, k, defender) < 4) continue;
+        if (shapeAt(c, k, defender).fours && !isForbidden(c, k, defender)) defenses.push(k);
+      }
+    }
+    // 4를 막을 곳이 둘 이상이면 이미 이김
+    let allRefuted = defenses.length > 0 && !(shape.fours && defenses.length > 1);
+    if (shape.fours && defenses.length > 1) defenses = [];
+    for (const d of defenses) {
+      if (isForbidden(c, d, defender)) continue;
+      if (makesFive(c.board, d, defender, c.rules)) {
+        allRefuted = false;
+        break;
+      }
+      c.board[d] = defender;
+      const next = searchVct(c, attacker, depth - 1, vcfDepth);
+      c.board[d] = EMPTY;
+      if (!next) {
+        allRefuted = false;
+        break;
+      }
+    }
+    c.board[j] = EMPTY;
+    if (allRefuted || (shape.fours && !defenses.length)) return [j];
+    if (timeUp(c)) return null;
+  }
+  return null;
+}
+
+/** 현재 차례(state.turn)의 수 */
+export function chooseMove(state: OmokState, level: OmokAiLevel, random: () => number = Math.random): OmokAiResult {
+  const me = state.turn;
+  const opp = other(me);
+  const start = performance.now();
+  const c: Ctx = { board: state.board.slice(), rules: state.rules, deadline: Infinity };
+  const legal = candidates(c.board).filter((j) => !isForbidden(c, j, me));
+  if (!legal.length) {
+    const any = c.board.findIndex((v, j) => v === EMPTY && !isForbidden(c, j, me));
+    return { move: any, winningLine: [], reason: 'pattern' };
+  }
+
+  const win = legal.find((j) => makesFive(c.board, j, me, c.rules));
+  if (win !== undefined) return { move: win, winningLine: [win], reason: 'five' };
+  const block = allFivePoints(c, opp).find((j) => !isForbidden(c, j, me));
+  if (block !== undefined) return { move: block, winningLine: [], reason: 'block' };
+
+  // 시간 배분: VCF 30%, VCT 40%, 수비 30%
+  if (level.vcfDepth) {
+    c.deadline = start + level.timeMs * 0.3;
+    const vcf = searchVcf(c, me, level.vcfDepth, []);
+    if (vcf) return { move: vcf[0], winningLine: vcf, reason: 'vcf' };
+  }
+  if (level.vctDepth) {
+    c.deadline = start + level.timeMs * 0.7;
+    const vct = searchVct(c, me, level.vctDepth, level.vcfDepth);
+    if (vct) return { move: vct[0], winningLine: vct, reason: 'vct' };
+  }
+
+  const ranked = legal
+    .map((j) => ({ j, score: scoreMove(c, j, me) * (1 - level.noise * random()) }))
+    .sort((a, b) => b.score - a.score);
+
+  // 상대 VCF가 있으면 그걸 끊는 후보 중 점수 높은 수
+  if (level.defend) {
+    c.deadline = start + level.timeMs;
+    if (searchVcf(c, opp, level.vcfDepth, [])) {
+      for (const { j } of ranked.slice(0, DEFEND_CANDIDATES)) {
+        c.board[j] = me;
+        const refuted = !searchVcf(c, opp, level.vcfDepth, fivePointsThrough(c, j, me));
+        c.board[j] = EMPTY;
+        if (timeUp(c)) break;
+        if (refuted) return { move: j, winningLine: [], reason: 'defend' };
+      }
+    }
+  }
+
+  return { move: ranked[0].j, winningLine: [], reason: 'pattern' };
+}
@@ -0,0 +1,212 @@
+/**
+ * 오목 규칙 — 자유룰(정확히 5목)과 렌주룰(흑 3-3/4-4/장목 금수)
+ *
+ * 보드는 SIZE*SIZE 배열, idx = y * SIZE + x. 0=빈칸, 1=흑, 2=백. 흑이 먼저 둔다.
+ * 한 점을 지나는 한 방향의 형태는 그 점을 가운데로 한 11칸 줄(lineAt)로 판정한다.
+ */
+import type { TurnBasedGame } from '../turnBased';
+
+export const SIZE = 15;
+export const EMPTY = 0;
+export const BLACK = 1;
+export const WHITE = 2;
+// 줄 배열에서 보드 밖
+const WALL = -1;
+
+export type Stone = 0 | 1 | 2;
+export type Player = 1 | 2;
+export type OmokRules = 'freestyle' | 'renju';
+
+export const RULE_LABELS: Record<OmokRules, string> = {
+  freestyle: '자유룰',
+  renju: '렌주룰',
+};
+
+export interface OmokState {
+  rules: OmokRules;
+  board: Stone[];
+  turn: Player;
+  // 둔 순서대로의 idx
+  moves: number[];
+}
+
+export type OmokResult = { kind: 'win'; winner: Player; line: number[] } | { kind: 'draw' };
+
+export type Forbidden = 'double-three' | 'double-four' | 'overline';
+
+export const DIRS: [number, number][] = [[1, 0], [0, 1], [1, 1], [1, -1]];
+// 줄 배열의 가운데(판정 대상 점)와 반경
+export const CENTER = 5;
+const RADIUS = 5;
+
+export const idxOf = (x: number, y: number) => y * SIZE + x;
+export const other = (p: Player): Player => (p === BLACK ? WHITE : BLACK);
+
+export function initialState(rules: OmokRules = 'freestyle'): OmokState {
+  return { rules, board: Array<Stone>(SIZE * SIZE).fill(EMPTY), turn: BLACK, moves: [] };
+}
+
+/** 이 색이 정확히 5목이어야 이기는지 (장목 불인정) — 렌주 백만 장목도 승리 */
+export const needsExactFive = (rules: OmokRules, color: Player) => rules === 'freestyle' || color === BLACK;
+
+/** (x, y)를 가운데로 한 방향 (dx, dy)의 11칸 — 보드 밖은 WALL */
+export function lineAt(board: ArrayLike<number>, x: number, y: number, dx: number, dy: number): number[] {
+  const line: number[] = [];
+  for (let k = -RADIUS; k <= RADIUS; k++) {
+    const nx = x + dx * k;
+    const ny = y + dy * k;
+    line.push(nx >= 0 && nx < SIZE && ny >= 0 && ny < SIZE ? board[ny * SIZE + nx] : WALL);
+  }
+  return line;
+}
+
+/** j를 지나는 color 연속 구간 [lo, hi] */
+function runAt(line: number[], j: number, color: number): [number, number] {
+  let lo = j;
+  let hi = j;
+  while (lo > 0 && line[lo - 1] === color) lo--;
+  while (hi < line.length - 1 && line[hi + 1] === color) hi++;
+  return [lo, hi];
+}
+
+/** 가운데를 포함한 연속 구간 길이 */
+export function runLength(line: number[], color: number): number {
+  const [lo, hi] = runAt(line, CENTER, color);
+  return hi - lo + 1;
+}
+
+const isFiveLength = (len: number, exact: boolean) => (exact ? len === 5 : len >= 5);
+
+/** 가운데 돌이 놓인 줄에서, 하나 더 두면 가운데를 포함한 5목이 되는 빈칸들 */
+export function winningPoints(line: number[], color: number, exact: boolean): number[] {
+  const points: number[] = [];
+  for (let j = CENTER - 4; j <= CENTER + 4; j++) {
+    if (line[j] !== EMPTY) continue;
+    line[j] = color;
+    const [lo, hi] = runAt(line, j, color);
+    if (lo <= CENTER && CENTER <= hi && isFiveLength(hi - lo + 1, exact)) points.push(j);
+    line[j] = EMPTY;
+  }
+  return points;
+}
+
+/** 줄 하나의 4 개수 — 열린 4(.XXXX.)는 하나, 한 줄 안의 쌍사(X.XXX.X)는 둘 */
+export function fourCount(line: number[], color: number, exact: boolean): { count: number; open: boolean } {
+  const points = winningPoints(line, color, exact);
+  if (points.length === 2 && points[1] - points[0] === 5) return { count: 1, open: true };
+  return { count: Math.min(points.length, 2), open: false };
+}
+
+/**
+ * 줄 하나가 열린 3인지 — 한 수 더 두어 가운데를 포함한 열린 4를 만들 수 있으면 3이다.
+ * allowed로 그 수가 금수인지 걸러낸다 (렌주 흑).
+ */
+export function isOpenThree(
+  line: number[],
+  color: number,
+  exact: boolean,
+  allowed: (j: number) => boolean = () => true
+): boolean {
+  for (let j = CENTER - 4; j <= CENTER + 4; j++) {
+    if (line[j] !== EMPTY) continue;
+    line[j] = color;
+    const four = fourCount(line, color, exact);
+    line[j] = EMPTY;
+    if (four.open && allowed(j)) return true;
+  }
+  return false;
+}
+
+/** 이 자리에 두면 만들어지는 5목 (없으면 null) — board는 잠깐 바꿨다가 되돌린다 */
+function fiveLineAt(board: Stone[], x: number, y: number, color: Player, exact: boolean): number[] | null {
+  for (const [dx, dy] of DIRS) {
+    const line = lineAt(board, x, y, dx, dy);
+    line[CENTER] = color;
+    const [lo, hi] = runAt(line, CENTER, color);
+    if (isFiveLength(hi - lo + 1, exact)) {
+      const cells: number[] = [];
+      for (let j = lo; j <= hi; j++) cells.push(idxOf(x + dx * (j - CENTER), y + dy * (j - CENTER)));
+      return cells;
+    }
+  }
+  return null;
+}
+
+export function makesFive(board: Stone[], idx: number, color: Player, rules: OmokRules): boolean {
+  return fiveLineAt(board, idx % SIZE, Math.floor(idx / SIZE), color, needsExactFive(rules, color)) !== null;
+}
+
+// 금수 판정 안의 3 재귀 깊이 (3을 4로 만드는 수가 다시 금수인지)
+const FORBIDDEN_DEPTH = 2;
+
+/** 렌주 흑 금수 — 5목을 만드는 수는 금수가 아니다 */
+export function forbiddenKind(board: Stone[], idx: number, depth = 0): Forbidden | null {
+  if (board[idx] !== EMPTY) return null;
+  const x = idx % SIZE;
+  const y = Math.floor(idx / SIZE);
+  board[idx] = BLACK;
+  try {
+    const lines = DIRS.map(([dx, dy]) => lineAt(board, x, y, dx, dy));
+    if (lines.some((line) => runLength(line, BLACK) === 5)) return null;
+    if (lines.some((line) => runLength(line, BLACK) >= 6)) return 'overline';
+
+    let fours = 0;
+    let threes = 0;
+    lines.forEach((line, d) => {
+      const four = fourCount(line, BLACK, true);
+      if (four.count) {
+        fours += four.count;
+        return;
+      }
+      const [dx, dy] = DIRS[d];
+      const allowed = (j: number) => {
+        if (depth >= FORBIDDEN_DEPTH) return true;
+        const k = j - CENTER;
+        return forbiddenKind(board, idxOf(x + dx * k, y + dy * k), depth + 1) === null;
+      };
+      if (isOpenThree(line, BLACK, true, allowed)) threes++;
+    });
+    if (fours >= 2) return 'double-four';
+    if (threes >= 2) return 'double-three';
+    return null;
+  } finally {
+    board[idx] = EMPTY;
+  }
+}
+
+export function isLegal(state: OmokState, idx: number): boolean {
+  if (idx < 0 || idx >= SIZE * SIZE || state.board[idx] !== EMPTY) return false;
+  return !(state.rules === 'renju' && state.turn === BLACK && forbiddenKind(state.board, idx));
+}
+
+export function applyMove(state: OmokState, idx: number): OmokState {
+  const board = state.board.slice();
+  board[idx] = state.turn;
+  return { rules: state.rules, board, turn: other(state.turn), moves: [...state.moves, idx] };
+}
+
+/** 마지막 수 기준 종국 판정 — 승리 줄 또는 판이 가득 차면 무승부 */
+export function getResult(state: OmokState): OmokResult | null {
+  const last = state.moves[state.moves.length - 1];
+  if (last === undefined) return null;
+  const color = state.board[last] as Player;
+  const board = state.board.slice();
+  board[last] = EMPTY;
+  const line = fiveLineAt(board, last % SIZE, Math.floor(last / SIZE), color, needsExactFive(state.rules, color));
+  if (line) return { kind: 'win', winner: color, line };
+  if (state.moves.length === SIZE * SIZE) return { kind: 'draw' };
+  return null;
+}
+
+/** 좌표 표기 — 열 A~O, 행은 아래에서부터 1~15 (예: H8) */
+export function pointName(idx: number): string {
+  return `${String.fromCharCode(65 + (idx % SIZE))}${SIZE - Math.floor(idx / SIZE)}`;
+}
+
+export const omokGame: TurnBasedGame<OmokState, number> = {
+  legalMoves: state => state.board.flatMap((_, idx) => (isLegal(state, idx) ? [idx] : [])),
+  applyMove,
+  isTerminal: state => getResult(state) !== null,
+  turn: state => state.turn,
+  formatMove: (_, idx) => pointName(idx),
+};
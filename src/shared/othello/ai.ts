@@ -0,0 +1,209 @@
+/**
+ * 오델로 AI — 반복 심화 알파베타 네가맥스
+ *
+ * 평가: 모빌리티(둘 수 있는 곳 수), 모서리, 안정 돌(모서리에서 변을 따라 이어진 돌),
+ * X/C 칸 위험, 막판엔 돌 수. 빈칸이 적으면 끝까지 읽어 정확한 돌 차이를 낸다.
+ * 시간 제한에 걸리면 직전 깊이의 최선수를 돌려준다. 워커(src/workers/othelloAi.worker.ts)에서 돈다.
+ */
+import { Disc, legalMoves, OthelloMove, Player, SIZE } from './rules';
+
+export interface OthelloAiLevel {
+  label: string;
+  // 사람 레이팅(Glicko-2) 계산에 쓰는 이 레벨의 고정 레이팅
+  rating: number;
+  // 최대 탐색 깊이 (반수)
+  depth: number;
+  // 빈칸이 이 이하면 끝까지 읽는다 (0이면 안 함)
+  exactEmpties: number;
+  // 한 수 생각 시간 상한
+  timeMs: number;
+  // 루트 수 점수에 더하는 무작위 흔들림 — 낮은 레벨의 실수 연출
+  noise: number;
+}
+
+export const OTHELLO_AI_LEVELS: OthelloAiLevel[] = [
+  { label: '입문', rating: 800, depth: 1, exactEmpties: 0, timeMs: 200, noise: 300 },
+  { label: '초급', rating: 1100, depth: 2, exactEmpties: 0, timeMs: 400, noise: 100 },
+  { label: '중급', rating: 1450, depth: 4, exactEmpties: 8, timeMs: 1000, noise: 20 },
+  { label: '상급', rating: 1800, depth: 6, exactEmpties: 12, timeMs: 2000, noise: 0 },
+  { label: '마스터', rating: 2150, depth: 10, exactEmpties: 16, timeMs: 4000, noise: 0 },
+];
+
+// 탐색 설정만 (분석처럼 레벨 이름/레이팅이 없는 탐색용)
+export type OthelloSearchOptions = Omit<OthelloAiLevel, 'label' | 'rating'>;
+
+export interface OthelloSearchResult {
+  // 둘 곳이 없으면 null (패스)
+  move: OthelloMove | null;
+  // 두는 쪽 기준 평가 — 끝까지 읽었으면 WIN_SCORE + 돌 차이
+  score: number;
+  depth: number;
+  nodes: number;
+}
+
+export const WIN_SCORE = 10_000;
+
+const CORNERS = [0, 7, 56, 63];
+// 모서리별 [X 칸, C 칸 두 개]
+const CORNER_NEIGHBORS: Record<number, [number, number[]]> = {
+  0: [9, [1, 8]],
+  7: [14, [6, 15]],
+  56: [49, [48, 57]],
+  63: [54, [55, 62]],
+};
+// 모서리에서 뻗는 두 변의 방향
+const EDGE_STEPS: Record<number, [number, number]> = { 0: [1, 8], 7: [-1, 8], 56: [1, -8], 63: [-1, -8] };
+
+// 수 정렬용 칸 가중치 — 모서리 먼저, X 칸은 나중에
+const SQUARE_WEIGHT = [
+  100, -20, 10,  5,  5, 10, -20, 100,
+  -20, -50, -2, -2, -2, -2, -50, -20,
+   10,  -2,  1,  1,  1,  1,  -2,  10,
+    5,  -2,  1,  0,  0,  1,  -2,   5,
+    5,  -2,  1,  0,  0,  1,  -2,   5,
+   10,  -2,  1,  1,  1,  1,  -2,  10,
+  -20, -50, -2, -2, -2, -2, -50, -20,
+  100, -20, 10,  5,  5, 10, -20, 100,
+];
+
+class SearchAborted extends Error {}
+
+/** 모서리에서 변을 따라 같은 색으로 이어진 돌 (겹치는 칸은 한 번만) */
+function stableDiscs(board: Disc[], player: Player): number {
+  const stable = new Set<number>();
+  for (const corner of CORNERS) {
+    if (board[corner] !== player) continue;
+    for (const step of EDGE_STEPS[corner]) {
+      for (let k = 0, idx = corner; k < SIZE && board[idx] === player; k++, idx += step) stable.add(idx);
+    }
+  }
+  return stable.size;
+}
+
+function placeDiscs(board: Disc[], move: OthelloMove, player: Player) {
+  board[move.idx] = player;
+  for (const f of move.flips) board[f] = player;
+}
+
+function undoDiscs(board: Disc[], move: OthelloMove, player: Player) {
+  board[move.idx] = 0;
+  for (const f of move.flips) board[f] = -player as Player;
+}
+
+/** 두는 쪽(player) 기준 정적 평가 */
+export function evaluate(board: Disc[], player: Player): number {
+  const opponent = -player as Player;
+  let empties = 0;
+  let discDiff = 0;
+  for (const d of board) {
+    if (d === 0) empties++;
+    else discDiff += d * player;
+  }
+
+  const myMoves = legalMoves(board, player).length;
+  const oppMoves = legalMoves(board, opponent).length;
+  if (!myMoves && !oppMoves) return Math.sign(discDiff) * WIN_SCORE + discDiff;
+  const mobility = (100 * (myMoves - oppMoves)) / (myMoves + oppMoves);
+
+  let corners = 0;
+  let danger = 0;
+  for (const corner of CORNERS) {
+    corners += board[corner] * player;
+    // 빈 모서리 옆의 X/C 칸은 모서리를 내준다
+    if (board[corner] !== 0) continue;
+    const [x, cs] = CORNER_NEIGHBORS[corner];
+    danger += board[x] * player * 2;
+    for (const c of cs) danger += board[c] * player;
+  }
+
+  const stability = stableDiscs(board, player) - stableDiscs(board, opponent);
+  // 막판일수록 돌 수 자체가 중요
+  const discWeight = empties < 20 ? (20 - empties) * 2 : 0;
+
+  return Math.round(mobility * 4 + corners * 120 - danger * 25 + stability * 30 + discDiff * discWeight);
+}
+
+/** 끝까지 읽은 결과 — 두는 쪽 기준 */
+function finalScore(board: Disc[], player: Player): number {
+  let diff = 0;
+  for (const d of board) diff += d * player;
+  return Math.sign(diff) * WIN_SCORE + diff;
+}
+
+export function searchBestMove(
+  board: Disc[],
+  player: Player,
+  level: OthelloSearchOptions,
+  random: () => number = Math.random
+): OthelloSearchResult {
+  const deadline = Date.now() + level.timeMs;
+  const work = board.slice();
+  let nodes = 0;
+
+  const checkTime = () => {
+    if ((++nodes & 1023) === 0 && Date.now() > deadline) throw new SearchAborted();
+  };
+
+  const order = (moves: OthelloMove[], first?: number) =>
+    moves
+      .map((m) => ({ m, k: (m.idx === first ? 1e6 : 0) + SQUARE_WEIGHT[m.idx] }))
+      .sort((a, b) => b.k - a.k)
+      .map((x) => x.m);
+
+  const negamax = (turn: Player, depth: number, alpha: number, beta: number, passed: boolean): number => {
+    checkTime();
+    const moves = legalMoves(work, turn);
+    if (!moves.length) {
+      if (passed) return finalScore(work, turn);
+      return -negamax(-turn as Player, depth, -beta, -alpha, true);
+    }
+    if (depth <= 0) return evaluate(work, turn);
+    let best = -Infinity;
+    for (const m of order(moves)) {
+      placeDiscs(work, m, turn);
+      const score = -negamax(-turn as Player, depth - 1, -beta, -alpha, false);
+      undoDiscs(work, m, turn);
+      if (score > best) best = score;
+      if (score > alpha) alpha = score;
+      if (alpha >= beta) break;
+    }
+    return best;
+  };
+
+  const rootMoves = legalMoves(work, player);
+  if (!rootMoves.length) return { move: null, score: 0, depth: 0, nodes: 0 };
+  const jitter = rootMoves.map(() => (level.noise ? (random() * 2 - 1) * level.noise : 0));
+  const empties = work.filter((d) => d === 0).length;
+  // 얕은 깊이부터 — 막판이면 마지막에 끝까지 한 번 더
+  const depths: number[] = [];
+  for (let d = 1; d <= Math.min(level.depth, empties); d++) depths.push(d);
+  if (level.exactEmpties && empties <= level.exactEmpties && empties > level.depth) depths.push(empties);
+
+  let result: OthelloSearchResult = { move: rootMoves[0], score: 0, depth: 0, nodes: 0 };
+  for (const depth of depths) {
+    try {
+      let bestMove = rootMoves[0];
+      let alpha = -Infinity;
+      for (const m of order(rootMoves, result.move?.idx)) {
+        const i = rootMoves.indexOf(m);
+        placeDiscs(work, m, player);
+        try {
+          // 창을 흔들림만큼 옮겨야 실패한 수의 상한값이 잘못 채택되지 않는다
+          const score = -negamax(-player as Player, depth - 1, -Infinity, -(alpha - jitter[i]), false) + jitter[i];
+          if (score > alpha) {
+            alpha = score;
+            bestMove = m;
+          }
+        } finally {
+          undoDiscs(work, m, player);
+        }
+      }
+      result = { move: bestMove, score: Math.round(alpha), depth, nodes };
+      if (Math.abs(alpha) > WIN_SCORE / 2) break;
+    } catch (e) {
+      if (e instanceof SearchAborted) break;
+      throw e;
+    }
+  }
+  return { ...result, nodes };
+}
@@ -0,0 +1,34 @@
+/**
+ * 오델로 대국 후 분석 — 국면마다 탐색해 흑 기준 평가와 최선수를 낸다
+ *
+ * 빈칸이 적은 막판은 끝까지 읽어 정확한 돌 차이가 나온다.
+ * 워커(src/workers/othelloAnalysis.worker.ts)에서 국면 하나씩 돌린다.
+ */
+import { OthelloSearchOptions, searchBestMove, WIN_SCORE } from './ai';
+import { BLACK, countDiscs, isGameOver, OthelloMove, OthelloState } from './rules';
+import { PositionEval, winChance } from '../analysis';
+
+export const ANALYSIS_SEARCH: OthelloSearchOptions = { depth: 6, exactEmpties: 14, timeMs: 400, noise: 0 };
+
+// 평가값 → 승률: 모서리 하나 반(약 300) 앞서면 약 73%
+const WIN_CHANCE_SCALE = 300;
+
+export function analyzePosition(state: OthelloState): PositionEval<OthelloMove> {
+  if (isGameOver(state.board)) {
+    const { black, white } = countDiscs(state.board);
+    const score = Math.sign(black - white) * WIN_SCORE + (black - white);
+    return { score, winChance: winChance(score, WIN_CHANCE_SCALE), best: null };
+  }
+  const { move, score } = searchBestMove(state.board, state.turn, ANALYSIS_SEARCH);
+  const black = state.turn === BLACK ? score : -score;
+  return { score: black, winChance: winChance(black, WIN_CHANCE_SCALE), best: move };
+}
+
+/** 흑 기준 점수 표기 — 끝까지 읽었으면 돌 차이, 아니면 평가값/100 */
+export function formatOthelloScore(score: number): string {
+  if (Math.abs(score) > WIN_SCORE / 2) {
+    const discs = score - Math.sign(score) * WIN_SCORE;
+    return `돌 ${discs > 0 ? '+' : ''}${discs}`;
+  }
+  return `${score > 0 ? '+' : ''}${(score / 100).toFixed(1)}`;
+}
@@ -0,0 +1,116 @@
+/**
+ * 오델로 규칙 — 8x8 평면 배열, idx = row * 8 + col. 1=흑, -1=백, 0=빈칸. 흑이 먼저 둔다.
+ *
+ * 둘 곳이 없으면 자동으로 패스하고, 양쪽 다 둘 곳이 없으면 끝난다.
+ */
+import type { TurnBasedGame } from '../turnBased';
+
+export const SIZE = 8;
+export const BLACK = 1;
+export const WHITE = -1;
+
+export type Player = 1 | -1;
+export type Disc = 0 | Player;
+
+export interface OthelloState {
+  board: Disc[];
+  turn: Player;
+}
+
+export interface OthelloMove {
+  idx: number;
+  // 뒤집히는 돌 idx
+  flips: number[];
+}
+
+export const PLAYER_NAME: Record<Player, string> = { [BLACK]: '흑', [WHITE]: '백' };
+
+const DIRECTIONS: [number, number][] = [
+  [-1, -1], [-1, 0], [-1, 1],
+  [0, -1],          [0, 1],
+  [1, -1],  [1, 0], [1, 1],
+];
+
+export const rowOf = (idx: number) => Math.floor(idx / SIZE);
+export const colOf = (idx: number) => idx % SIZE;
+
+export function initialState(): OthelloState {
+  const board = Array<Disc>(SIZE * SIZE).fill(0);
+  board[3 * SIZE + 3] = board[4 * SIZE + 4] = WHITE;
+  board[3 * SIZE + 4] = board[4 * SIZE + 3] = BLACK;
+  return { board, turn: BLACK };
+}
+
+/** idx에 player가 두면 뒤집히는 돌 — 둘 수 없으면 빈 배열 */
+export function flipsAt(board: Disc[], idx: number, player: Player): number[] {
+  if (board[idx] !== 0) return [];
+  const r = rowOf(idx);
+  const c = colOf(idx);
+  const flips: number[] = [];
+  for (const [dr, dc] of DIRECTIONS) {
+    let nr = r + dr;
+    let nc = c + dc;
+    const line: number[] = [];
+    while (nr >= 0 && nr < SIZE && nc >= 0 && nc < SIZE && board[nr * SIZE + nc] === -player) {
+      line.push(nr * SIZE + nc);
+      nr += dr;
+      nc += dc;
+    }
+    if (line.length && nr >= 0 && nr < SIZE && nc >= 0 && nc < SIZE && board[nr * SIZE + nc] === player) {
+      flips.push(...line);
+    }
+  }
+  return flips;
+}
+
+export function legalMoves(board: Disc[], player: Player): OthelloMove[] {
+  const moves: OthelloMove[] = [];
+  for (let idx = 0; idx < SIZE * SIZE; idx++) {
+    const flips = flipsAt(board, idx, player);
+    if (flips.length) moves.push({ idx, flips });
+  }
+  return moves;
+}
+
+export function countDiscs(board: Disc[]): { black: number; white: number } {
+  let black = 0;
+  let white = 0;
+  for (const d of board) {
+    if (d === BLACK) black++;
+    else if (d === WHITE) white++;
+  }
+  return { black, white };
+}
+
+export function isGameOver(board: Disc[]): boolean {
+  return !legalMoves(board, BLACK).length && !legalMoves(board, WHITE).length;
+}
+
+/**
+ * 수를 두고 다음 차례를 정한다 — 상대가 둘 곳이 없으면 passed에 상대를 담고 차례는 그대로.
+ * 끝난 판이면 차례는 상대로 넘기고 isGameOver로 판정한다.
+ */
+export function playMove(state: OthelloState, move: OthelloMove): { state: OthelloState; passed: Player | null } {
+  const board = state.board.slice();
+  board[move.idx] = state.turn;
+  for (const f of move.flips) board[f] = state.turn;
+  const opponent = -state.turn as Player;
+  if (legalMoves(board, opponent).length || !legalMoves(board, state.turn).length) {
+    return { state: { board, turn: opponent }, passed: null };
+  }
+  return { state: { board, turn: state.turn }, passed: opponent };
+}
+
+/** 칸 표기 — 열 a~h, 행 1~8 (예: d3) */
+export function squareName(idx: number): string {
+  return `${String.fromCharCode(97 + colOf(idx))}${rowOf(idx) + 1}`;
+}
+
+export const othelloGame: TurnBasedGame<OthelloState, OthelloMove> = {
+  legalMoves: state => legalMoves(state.board, state.turn),
+  applyMove: (state, move) => playMove(state, move).state,
+  isTerminal: state => isGameOver(state.board),
+  turn: state => state.turn,
+  // 패스가 끼면 흑백이 번갈지 않으므로 둔 쪽을 함께 표시
+  formatMove: (state, move) => `${state.turn === BLACK ? '●' : '○'}${squareName(move.idx)}`,
+};
@@ -0,0 +1,63 @@
+/**
+ * 피크로스 퍼즐 코드 — 그림과 이름을 URL에 넣을 수 있는 짧은 문자열로 바꾼다
+ *
+ * 바이트: [버전, 크기, 이름 길이, 이름(UTF-8)..., 칸 비트(행 우선, 1=채움)...] → base64url(패딩 없음).
+ * 10×10 그림이면 이름 없이 20자 남짓이다. #picross?p=<코드>로 열린다.
+ */
+import { PICROSS_SIZES, PicrossSize } from './library';
+import type { Picture } from './rules';
+
+const VERSION = 1;
+export const MAX_NAME_BYTES = 60;
+
+export interface SharedPuzzle {
+  name: string;
+  picture: Picture;
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const b of bytes) binary += String.fromCharCode(b);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(code: string): Uint8Array | null {
+  if (!/^[A-Za-z0-9_-]*$/.test(code)) return null;
+  try {
+    const binary = atob(code.replace(/-/g, '+').replace(/_/g, '/'));
+    return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+  } catch {
+    return null;
+  }
+}
+
+export function encodePuzzle({ name, picture }: SharedPuzzle): string {
+  const size = picture.length;
+  let nameBytes = new TextEncoder().encode(name.trim());
+  // 긴 이름은 자른다 (글자 중간에서 잘리면 디코딩 때 빠진다)
+  if (nameBytes.length > MAX_NAME_BYTES) nameBytes = nameBytes.slice(0, MAX_NAME_BYTES);
+  const bits = new Uint8Array(Math.ceil((size * size) / 8));
+  picture.flat().forEach((filled, i) => {
+    if (filled) bits[i >> 3] |= 1 << (7 - (i & 7));
+  });
+  return toBase64Url(Uint8Array.from([VERSION, size, nameBytes.length, ...nameBytes, ...bits]));
+}
+
+/** 코드를 읽는다 — 형식이 틀리면 null */
+export function decodePuzzle(code: string): SharedPuzzle | null {
+  const bytes = fromBase64Url(code);
+  if (!bytes || bytes.length < 3 || bytes[0] !== VERSION) return null;
+  const size = bytes[1];
+  if (!PICROSS_SIZES.includes(size as PicrossSize)) return null;
+  const nameLength = bytes[2];
+  const bits = bytes.subarray(3 + nameLength);
+  if (nameLength > MAX_NAME_BYTES || bits.length !== Math.ceil((size * size) / 8)) return null;
+  const name = new TextDecoder().decode(bytes.subarray(3, 3 + nameLength));
+  const picture = Array.from({ length: size }, (_, r) =>
+    Array.from({ length: size }, (_, c) => {
+      const i = r * size + c;
+      return (bits[i >> 3] & (1 << (7 - (i & 7)))) !== 0;
+    })
+  );
+  return { name, picture };
+}
@@ -0,0 +1,197 @@
+/**
+ * 피크로스 퍼즐 모음 — 손으로 찍은 도트 그림. 이름은 풀고 나서 공개된다
+ *
+ * 모두 해가 하나뿐이고 줄 풀이만으로 풀린다 (solver.isLineSolvable로 확인해서 넣을 것).
+ */
+import { parsePicture, Picture } from './rules';
+
+export const PICROSS_SIZES = [5, 10, 15, 20] as const;
+export type PicrossSize = (typeof PICROSS_SIZES)[number];
+
+export interface LibraryPuzzle {
+  id: string;
+  name: string;
+  size: PicrossSize;
+  picture: Picture;
+}
+
+const puzzle = (id: string, name: string, art: string[]): LibraryPuzzle => ({
+  id,
+  name,
+  size: art.length as PicrossSize,
+  picture: parsePicture(art),
+});
+
+export const PICROSS_LIBRARY: LibraryPuzzle[] = [
+  puzzle('heart-5', '하트', [
+    '.#.#.',
+    '#####',
+    '#####',
+    '.###.',
+    '..#..',
+  ]),
+  puzzle('house-5', '집', [
+    '..#..',
+    '.###.',
+    '#####',
+    '.#.#.',
+    '.###.',
+  ]),
+  puzzle('tree-5', '나무', [
+    '..#..',
+    '.###.',
+    '#####',
+    '..#..',
+    '.###.',
+  ]),
+  puzzle('smile-5', '웃는 얼굴', [
+    '.#.#.',
+    '.#.#.',
+    '.....',
+    '#####',
+    '.###.',
+  ]),
+  puzzle('cat-10', '고양이', [
+    '#........#',
+    '##......##',
+    '##########',
+    '#...##...#',
+    '##.####.##',
+    '##########',
+    '####..####',
+    '##.#..#.##',
+    '.########.',
+    '..######..',
+  ]),
+  puzzle('note-10', '음표', [
+    '......##..',
+    '......###.',
+    '......#.##',
+    '......#..#',
+    '......#...',
+    '......#...',
+    '..#####...',
+    '.######...',
+    '.######...',
+    '..####....',
+  ]),
+  puzzle('umbrella-10', '우산', [
+    '....##....',
+    '..######..',
+    '.########.',
+    '##########',
+    '#.#.##.#.#',
+    '....##....',
+    '....##....',
+    '....##....',
+    '....##.##.',
+    '.....###..',
+  ]),
+  puzzle('mushroom-10', '버섯', [
+    '...####...',
+    '.########.',
+    '##..##..##',
+    '#..####..#',
+    '##########',
+    '..######..',
+    '...#..#...',
+    '...#..#...',
+    '...####...',
+    '..........',
+  ]),
+  puzzle('star-15', '별', [
+    '.......#.......',
+    '.......#.......',
+    '......###......',
+    '......###......',
+    '.....#####.....',
+    '###############',
+    '.#############.',
+    '..###########..',
+    '...#########...',
+    '....#######....',
+    '....#######....',
+    '...####.####...',
+    '...###...###...',
+    '..###.....###..',
+    '..#.........#..',
+  ]),
+  puzzle('rocket-15', '로켓', [
+    '.......#.......',
+    '......###......',
+    '.....#####.....',
+    '.....#####.....',
+    '.....##.##.....',
+    '.....#...#.....',
+    '.....##.##.....',
+    '.....#####.....',
+    '.....#####.....',
+    '....#######....',
+    '...###.#.###...',
+    '..###..#..###..',
+    '..##...#...##..',
+    '......###......',
+    '.....#.#.#.....',
+  ]),
+  puzzle('fish-15', '물고기', [
+    '...............',
+    '.....######....',
+    '...##########..',
+    '#.############.',
+    '##########.####',
+    '###############',
+    '###############',
+    '##############.',
+    '#.###########..',
+    '...#########...',
+    '.....######....',
+    '.......##......',
+    '............#..',
+    '...........#.#.',
+    '............#..',
+  ]),
+  puzzle('heart-20', '큰 하트', [
+    '....................',
+    '...######..######...',
+    '..################..',
+    '.####..############.',
+    '.###..#############.',
+    '.##..##############.',
+    '.##################.',
+    '.##################.',
+    '..################..',
+    '..################..',
+    '...##############...',
+    '....############....',
+    '.....##########.....',
+    '......########......',
+    '.......######.......',
+    '........####........',
+    '.........##.........',
+    '....................',
+    '..#..............#..',
+    '.###............###.',
+  ]),
+  puzzle('smile-20', '스마일', [
+    '.........##.........',
+    '......########......',
+    '....############....',
+    '...##############...',
+    '..################..',
+    '..####.######.####..',
+    '.####...####...####.',
+    '.####...####...####.',
+    '.#####.######.#####.',
+    '####################',
+    '####################',
+    '.##################.',
+    '.###..########..###.',
+    '.####..######..####.',
+    '..####........####..',
+    '..#####......#####..',
+    '...##############...',
+    '....############....',
+    '......########......',
+    '.........##.........',
+  ]),
+];
@@ -0,0 +1,53 @@
+/**
+ * 피크로스(노노그램) 공통 — 그림(칸 채움 여부)에서 줄 힌트를 만들고, 플레이 판이 힌트를 만족하는지 본다
+ *
+ * 그림은 '#'(채움)과 '.'(빈칸) 문자열 줄로 적는다.
+ */
+
+export type Picture = boolean[][];
+
+export interface Clues {
+  rows: number[][];
+  cols: number[][];
+}
+
+/** 한 줄의 연속 블록 길이 — 빈 줄은 [0] */
+export function lineClue(line: boolean[]): number[] {
+  const clue: number[] = [];
+  let count = 0;
+  for (const cell of line) {
+    if (cell) count++;
+    else if (count) {
+      clue.push(count);
+      count = 0;
+    }
+  }
+  if (count) clue.push(count);
+  return clue.length ? clue : [0];
+}
+
+export function computeClues(picture: Picture): Clues {
+  const width = picture[0]?.length ?? 0;
+  return {
+    rows: picture.map(lineClue),
+    cols: Array.from({ length: width }, (_, c) => lineClue(picture.map(row => row[c]))),
+  };
+}
+
+export function parsePicture(art: string[]): Picture {
+  return art.map(line => [...line].map(ch => ch === '#'));
+}
+
+export function formatPicture(picture: Picture): string[] {
+  return picture.map(row => row.map(cell => (cell ? '#' : '.')).join(''));
+}
+
+export function sameClue(a: number[], b: number[]): boolean {
+  return a.length === b.length && a.every((n, i) => n === b[i]);
+}
+
+/** 채운 칸이 모든 힌트를 만족하는지 (해가 하나뿐인 퍼즐이면 정답과 같다) */
+export function satisfiesClues(filled: Picture, clues: Clues): boolean {
+  const actual = computeClues(filled);
+  return actual.rows.every((clue, i) => sameClue(clue, clues.rows[i])) && actual.cols.every((clue, i) => sameClue(clue, clues.cols[i]));
+}
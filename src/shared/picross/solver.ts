@@ -0,0 +1,185 @@
+/**
+ * 피크로스 풀이 — 줄 단위 풀이(line solver)로 확정되는 칸을 전파하고, 막히면 칸 하나를 가정해 갈라 본다
+ *
+ * 줄 풀이는 "힌트 블록을 이 줄에 놓는 모든 방법"을 앞/뒤 도달 가능성(DP)으로 훑어
+ * 어느 배치에서든 채워지는 칸/비는 칸을 확정한다. 줄 풀이만으로 다 풀리면 논리로 풀리는 퍼즐,
+ * 가정이 필요하면 해를 2개까지 세어 유일한지 가린다.
+ */
+import { Clues, computeClues, Picture } from './rules';
+
+const UNKNOWN = -1;
+const EMPTY = 0;
+const FILLED = 1;
+
+type Line = Int8Array;
+
+/** 줄 하나를 푼다 — 확정된 칸을 채운 새 줄, 모순이면 null */
+export function solveLine(clue: number[], line: Line): Line | null {
+  const n = line.length;
+  const blocks = clue[0] === 0 ? [] : clue;
+  const k = blocks.length;
+  const idx = (i: number, j: number) => i * (k + 1) + j;
+
+  // 길이 len 블록을 start에 놓을 수 있는지 (뒤에 빈칸 하나 필요)
+  const fits = (start: number, len: number) => {
+    if (start + len > n) return false;
+    for (let i = start; i < start + len; i++) if (line[i] === EMPTY) return false;
+    return start + len === n || line[start + len] !== FILLED;
+  };
+  // 상태 (i, j): 앞 i칸을 처리했고 블록 j개를 놓았으며 i번 칸에서 새 블록을 시작할 수 있다
+  const next = (i: number, len: number) => Math.min(i + len + 1, n);
+
+  const back = new Uint8Array((n + 1) * (k + 1));
+  back[idx(n, k)] = 1;
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = k; j >= 0; j--) {
+      let ok = line[i] !== FILLED && back[idx(i + 1, j)] === 1;
+      if (!ok && j < k && fits(i, blocks[j])) ok = back[idx(next(i, blocks[j]), j + 1)] === 1;
+      back[idx(i, j)] = ok ? 1 : 0;
+    }
+  }
+  if (!back[idx(0, 0)]) return null;
+
+  const fwd = new Uint8Array((n + 1) * (k + 1));
+  fwd[idx(0, 0)] = 1;
+  const canFill = new Uint8Array(n);
+  const canEmpty = new Uint8Array(n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j <= k; j++) {
+      if (!fwd[idx(i, j)]) continue;
+      if (line[i] !== FILLED && back[idx(i + 1, j)]) {
+        fwd[idx(i + 1, j)] = 1;
+        canEmpty[i] = 1;
+      }
+      if (j < k && fits(i, blocks[j])) {
+        const to = next(i, blocks[j]);
+        if (!back[idx(to, j + 1)]) continue;
+        fwd[idx(to, j + 1)] = 1;
+        for (let c = i; c < i + blocks[j]; c++) canFill[c] = 1;
+        if (i + blocks[j] < n) canEmpty[i + blocks[j]] = 1;
+      }
+    }
+  }
+
+  const result = new Int8Array(n);
+  for (let i = 0; i < n; i++) {
+    if (canFill[i] && canEmpty[i]) result[i] = UNKNOWN;
+    else if (canFill[i]) result[i] = FILLED;
+    else if (canEmpty[i]) result[i] = EMPTY;
+    else return null;
+  }
+  return result;
+}
+
+interface Grid {
+  width: number;
+  height: number;
+  cells: Int8Array;
+}
+
+/** 줄 풀이를 더 바뀌지 않을 때까지 돌린다 — 모순이면 false */
+function propagate(clues: Clues, grid: Grid): boolean {
+  const { width, height, cells } = grid;
+  // 0..height-1은 가로줄, 그 뒤는 세로줄
+  const dirty = new Uint8Array(height + width).fill(1);
+  const queue = Array.from({ length: height + width }, (_, i) => i);
+  while (queue.length) {
+    const id = queue.shift()!;
+    dirty[id] = 0;
+    const isRow = id < height;
+    const index = isRow ? id : id - height;
+    const length = isRow ? width : height;
+    const at = (i: number) => (isRow ? index * width + i : i * width + index);
+    const line = new Int8Array(length);
+    for (let i = 0; i < length; i++) line[i] = cells[at(i)];
+    const solved = solveLine(isRow ? clues.rows[index] : clues.cols[index], line);
+    if (!solved) return false;
+    for (let i = 0; i < length; i++) {
+      if (solved[i] === line[i]) continue;
+      cells[at(i)] = solved[i];
+      // 바뀐 칸을 지나는 반대 방향 줄을 다시 본다
+      const cross = isRow ? height + i : i;
+      if (!dirty[cross]) {
+        dirty[cross] = 1;
+        queue.push(cross);
+      }
+    }
+  }
+  return true;
+}
+
+function emptyGrid(clues: Clues): Grid {
+  const width = clues.cols.length;
+  const height = clues.rows.length;
+  return { width, height, cells: new Int8Array(width * height).fill(UNKNOWN) };
+}
+
+function toPicture({ width, height, cells }: Grid): Picture {
+  return Array.from({ length: height }, (_, r) => Array.from({ length: width }, (_, c) => cells[r * width + c] === FILLED));
+}
+
+/** 줄 풀이만으로 다 풀리는지 (가정 없이 논리로 풀리는 퍼즐) */
+export function isLineSolvable(clues: Clues): boolean {
+  const grid = emptyGrid(clues);
+  return propagate(clues, grid) && !grid.cells.includes(UNKNOWN);
+}
+
+/**
+ * 해를 limit개까지 센다 (기본 2 — 유일한지만 보면 충분)
+ *
+ * 듬성듬성한 그림은 가정이 끝없이 갈라질 수 있어 maxNodes번 갈라 보면 멈춘다.
+ * @returns 찾은 해 수와 첫 해, 도중에 멈췄으면 exhausted true (그때 count는 하한)
+ */
+export function countSolutions(
+  clues: Clues,
+  limit = 2,
+  maxNodes = Infinity
+): { count: number; solution: Picture | null; exhausted: boolean } {
+  let count = 0;
+  let solution: Picture | null = null;
+  let nodes = 0;
+  let exhausted = false;
+  const search = (grid: Grid) => {
+    if (count >= limit || exhausted) return;
+    if (++nodes > maxNodes) {
+      exhausted = true;
+      return;
+    }
+    if (!propagate(clues, grid)) return;
+    const open = grid.cells.indexOf(UNKNOWN);
+    if (open < 0) {
+      count++;
+      solution ??= toPicture(grid);
+      return;
+    }
+    for (const value of [FILLED, EMPTY]) {
+      const cells = grid.cells.slice();
+      cells[open] = value;
+      search({ ...grid, cells });
+    }
+  };
+  search(emptyGrid(clues));
+  return { count, solution, exhausted: exhausted && count < limit };
+}
+
+/** 해가 하나뿐인지 — maxNodes 안에 판정하지 못하면 false */
+export function hasUniqueSolution(clues: Clues, maxNodes = Infinity): boolean {
+  const { count, exhausted } = countSolutions(clues, 2, maxNodes);
+  return count === 1 && !exhausted;
+}
+
+// 무작위 그림은 금방 판정되지 않으면 버리고 다시 뽑는다
+const RANDOM_MAX_NODES = 200;
+
+/**
+ * 해가 하나뿐인 무작위 그림 — 채움 비율이 낮으면 해가 여럿인 경우가 많아 60% 안팎으로 채우고,
+ * 실패할수록 비율을 조금씩 올린다 (attempts번 안에 못 찾으면 null — 해가 여럿인 그림은 돌려주지 않는다)
+ */
+export function randomUniquePicture(size: number, random = Math.random, density = 0.6, attempts = 200): Picture | null {
+  for (let i = 0; i < attempts; i++) {
+    const fill = Math.min(0.8, density + (0.2 * i) / attempts);
+    const picture = Array.from({ length: size }, () => Array.from({ length: size }, () => random() < fill));
+    if (hasUniqueSolution(computeClues(picture), RANDOM_MAX_NODES)) return picture;
+  }
+  return null;
+}
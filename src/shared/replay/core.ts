@@ -0,0 +1,159 @@
+/**
+ * 리플레이 검증 공통 코어
+ *
+ * 게임 시뮬레이션은 (seed, 고정 틱, 입력 로그)만으로 결과가 결정되어야 한다.
+ * - 난수는 Math.random 대신 state 안의 Rng로만 뽑는다.
+ * - 시간은 ms가 아니라 틱 수로 센다. 한 틱 = sim.stepMs.
+ * - 입력은 [틱, 액션, 값?]으로 기록되고, 해당 틱의 step 직전에 적용된다.
+ */
+
+/** [tick, action, value?] — value는 액션별 부가값 (없으면 생략) */
+export type ReplayInput = [number, number] | [number, number, number];
+
+export interface Replay {
+  seed: number;
+  // 진행한 총 틱 수
+  ticks: number;
+  inputs: ReplayInput[];
+}
+
+export interface ReplaySim<S> {
+  // 한 틱의 길이 (ms)
+  stepMs: number;
+  init(seed: number): S;
+  apply(state: S, action: number, value?: number): void;
+  step(state: S): void;
+  isOver(state: S): boolean;
+  score(state: S): number;
+}
+
+/** mulberry32 — state에 넣어 직렬화 가능한 32비트 PRNG */
+export interface Rng {
+  s: number;
+}
+
+export function createRng(seed: number): Rng {
+  return { s: seed >>> 0 };
+}
+
+/** [0, 1) 난수 */
+export function random(rng: Rng): number {
+  rng.s = (rng.s + 0x6d2b79f5) >>> 0;
+  let t = rng.s;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+export function randomInt(rng: Rng, n: number): number {
+  return Math.floor(random(rng) * n);
+}
+
+export function newSeed(): number {
+  const bytes = new Uint32Array(1);
+  crypto.getRandomValues(bytes);
+  return bytes[0];
+}
+
+/**
+ * 클라이언트용 녹화기: 게임 상태에 입력을 적용하면서 동시에 로그를 남긴다.
+ * step()은 반드시 recorder.step()을 통해 호출해 틱 수를 맞춘다.
+ */
+export interface ReplayRecorder<S> {
+  state: S;
+  replay: Replay;
+  input(action: number, value?: number): void;
+  step(): void;
+}
+
+export function createRecorder<S>(sim: ReplaySim<S>, seed = newSeed()): ReplayRecorder<S> {
+  const replay: Replay = { seed, ticks: 0, inputs: [] };
+  const recorder: ReplayRecorder<S> = {
+    state: sim.init(seed),
+    replay,
+    input(action, value) {
+      if (sim.isOver(recorder.state)) return;
+      replay.inputs.push(value === undefined ? [replay.ticks, action] : [replay.ticks, action, value]);
+      sim.apply(recorder.state, action, value);
+    },
+    step() {
+      if (sim.isOver(recorder.state)) return;
+      sim.step(recorder.state);
+      replay.ticks++;
+    },
+  };
+  return recorder;
+}
+
+/** 제출 시점의 리플레이 스냅샷 (이후 입력이 섞이지 않도록 복사) */
+export function snapshotReplay(replay: Replay): Replay {
+  return { seed: replay.seed, ticks: replay.ticks, inputs: replay.inputs.slice() };
+}
+
+// 서버 CPU 보호: 한 판 최대 60분
+const MAX_REPLAY_MS = 60 * 60 * 1000;
+// 서버 CPU 보호: 입력 로그는 틱 수에 비례해야 한다 (사람이 한 틱에 누를 수 있는 양)
+const MAX_INPUTS_PER_TICK = 8;
+const MAX_INPUTS_PER_TICK_AVG = 2;
+const INPUT_SLACK = 64;
+
+export type ReplayCheck =
+  | { ok: true; score: number }
+  | { ok: false; reason: 'malformed' | 'too_long' | 'too_fast' | 'mismatch'; score?: number };
+
+function isReplay(value: unknown): value is Replay {
+  if (!value || typeof value !== 'object') return false;
+  const r = value as Replay;
+  if (!Number.isInteger(r.seed) || r.seed < 0 || r.seed > 0xffffffff) return false;
+  if (!Number.isInteger(r.ticks) || r.ticks < 0) return false;
+  if (!Array.isArray(r.inputs)) return false;
+  if (r.inputs.length > r.ticks * MAX_INPUTS_PER_TICK_AVG + INPUT_SLACK) return false;
+  let prevTick = 0;
+  let sameTick = 0;
+  for (const input of r.inputs) {
+    if (!Array.isArray(input) || input.length < 2 || input.length > 3) return false;
+    if (!input.every((n) => Number.isFinite(n))) return false;
+    const [tick, action] = input;
+    if (!Number.isInteger(tick) || tick < prevTick || tick > r.ticks) return false;
+    if (!Number.isInteger(action)) return false;
+    sameTick = tick === prevTick ? sameTick + 1 : 1;
+    if (sameTick > MAX_INPUTS_PER_TICK) return false;
+    prevTick = tick;
+  }
+  return true;
+}
+
+/**
+ * 리플레이를 처음부터 재생해 claimedScore가 재현되는지 확인한다.
+ * durationMs는 서버가 잰 실제 경과 시간 — 고정 틱은 실시간보다 빨리 갈 수 없으므로 하한 검사에 쓴다.
+ */
+export function verifyReplay<S>(
+  sim: ReplaySim<S>,
+  replay: unknown,
+  claimedScore: number,
+  durationMs: number
+): ReplayCheck {
+  if (!isReplay(replay)) return { ok: false, reason: 'malformed' };
+  const simMs = replay.ticks * sim.stepMs;
+  if (simMs > MAX_REPLAY_MS) return { ok: false, reason: 'too_long' };
+  // 렌더 지연 여유 5%
+  if (durationMs < simMs * 0.95) return { ok: false, reason: 'too_fast' };
+
+  const state = sim.init(replay.seed);
+  let next = 0;
+  for (let tick = 0; tick < replay.ticks && !sim.isOver(state); tick++) {
+    while (next < replay.inputs.length && replay.inputs[next][0] === tick) {
+      const [, action, value] = replay.inputs[next++];
+      sim.apply(state, action, value);
+    }
+    sim.step(state);
+  }
+  // 마지막 step 이후(게임 종료 직전 등)에 들어온 입력
+  while (next < replay.inputs.length && !sim.isOver(state)) {
+    const [, action, value] = replay.inputs[next++];
+    sim.apply(state, action, value);
+  }
+
+  const score = sim.score(state);
+  return score === claimedScore ? { ok: true, score } : { ok: false, reason: 'mismatch', score };
+}
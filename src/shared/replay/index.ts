@@ -0,0 +1,24 @@
+/**
+ * 리플레이 검증 대상 게임 레지스트리
+ *
+ * 여기 등록된 scoreId는 /api/scores가 replay 없이 제출된 점수를 거부하고,
+ * 서버에서 시뮬레이션을 다시 돌려 점수가 재현될 때만 저장한다.
+ */
+import type { ReplaySim } from './core';
+import { breakoutSim } from '../sims/breakout';
+import { flappySim } from '../sims/flappy';
+import { snakeSim } from '../sims/snake';
+import { tetrisSim } from '../sims/tetris';
+
+export * from './core';
+
+const REPLAY_SIMS: Record<string, ReplaySim<unknown>> = {
+  snake: snakeSim,
+  tetris: tetrisSim,
+  breakout: breakoutSim,
+  flappy: flappySim,
+};
+
+export function getReplaySim(scoreId: string): ReplaySim<unknown> | null {
+  return Object.prototype.hasOwnProperty.call(REPLAY_SIMS, scoreId) ? REPLAY_SIMS[scoreId] : null;
+}
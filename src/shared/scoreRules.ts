@@ -0,0 +1,112 @@
+/**
+ * 리더보드 점수 규칙 레지스트리
+ *
+ * 클라이언트(src/games.tsx)와 Pages Functions(functions/api/*.js)가 같은 모듈을 import한다.
+ * 여기 없는 game_id는 서버가 거부하므로, 새 게임에 리더보드를 열려면 이 표에 먼저 추가한다.
+ * 브라우저/Workers 양쪽에서 돌아야 하므로 React나 DOM에 의존하지 않는다.
+ */
+
+export type ScoreOrder = 'desc' | 'asc';
+export type ScoreFormat = 'points' | 'ms' | 'seconds' | 'moves' | 'strokes';
+
+export interface ScoreRule {
+  // D1 scores.game_id
+  scoreId: string;
+  // desc: 높을수록 좋음, asc: 낮을수록 좋음
+  order: ScoreOrder;
+  format: ScoreFormat;
+  // 허용 점수 범위 (양 끝 포함)
+  minScore: number;
+  maxScore: number;
+  // 이보다 짧은 플레이로 얻은 점수는 거부 (서버가 시작 토큰 발급 시각부터 잰다)
+  minDurationMs: number;
+}
+
+/** 서버가 돌려주는 제출 거부 코드 */
+export type ScoreErrorCode =
+  | 'INVALID_JSON'
+  | 'BODY_TOO_LARGE'
+  | 'UNKNOWN_GAME'
+  | 'NICKNAME_REQUIRED'
+  | 'INVALID_SCORE'
+  | 'SCORE_OUT_OF_RANGE'
+  | 'PLAY_TOO_SHORT'
+  | 'PLAY_TOKEN_INVALID'
+  | 'PLAY_TOKEN_USED'
+  | 'REPLAY_REQUIRED'
+  | 'REPLAY_INVALID'
+  | 'REPLAY_MISMATCH'
+  | 'ANONYMOUS_ID_REQUIRED'
+  | 'TURNSTILE_REQUIRED'
+  | 'TURNSTILE_FAILED'
+  | 'RATE_LIMITED';
+
+const points = (scoreId: string, maxScore: number, minDurationMs: number): ScoreRule => ({
+  scoreId,
+  order: 'desc',
+  format: 'points',
+  minScore: 0,
+  maxScore,
+  minDurationMs,
+});
+
+export const SCORE_RULES = {
+  'noah-ping-pong-garden': points('noah-ping-pong-garden', 5, 15_000),
+  tetris: points('tetris', 999_999, 10_000),
+  // 22x16 보드, 먹이 하나 10점 — 길이 4로 시작하니 최대 (352 - 4) × 10
+  snake: points('snake', 3_480, 5_000),
+  lightsout: { scoreId: 'lightsout', order: 'asc', format: 'moves', minScore: 1, maxScore: 9_999, minDurationMs: 1_000 },
+  simon: points('simon', 99_999, 5_000),
+  // 5라운드 평균 — 100ms 미만은 사람이 낼 수 없는 값
+  reaction: { scoreId: 'reaction', order: 'asc', format: 'ms', minScore: 100, maxScore: 5_000, minDurationMs: 10_000 },
+  // 30초 제한
+  aim: points('aim', 300, 25_000),
+  breakout: points('breakout', 99_999, 5_000),
+  flappy: points('flappy', 9_999, 2_000),
+  memory: { scoreId: 'memory', order: 'asc', format: 'seconds', minScore: 3, maxScore: 3_600, minDurationMs: 3_000 },
+  dodge: points('dodge', 999_999, 3_000),
+  '2048': points('2048', 999_999, 10_000),
+  slide: { scoreId: 'slide', order: 'asc', format: 'moves', minScore: 1, maxScore: 99_999, minDurationMs: 5_000 },
+  minigolf: { scoreId: 'minigolf', order: 'asc', format: 'strokes', minScore: 1, maxScore: 999, minDurationMs: 3_000 },
+  // 10줄 보드
+  mastermind: { scoreId: 'mastermind', order: 'asc', format: 'moves', minScore: 1, maxScore: 10, minDurationMs: 3_000 },
+  match3: points('match3', 999_999, 5_000),
+  frogger: points('frogger', 99_999, 5_000),
+  // 30초, 0.8초 간격 스폰
+  whack: points('whack', 60, 25_000),
+  galaga: points('galaga', 999_999, 5_000),
+  space: points('space', 999_999, 5_000),
+  hextris: points('hextris', 999_999, 5_000),
+  puyo: points('puyo', 999_999, 5_000),
+  pacman: points('pacman', 999_999, 10_000),
+  penguin: points('penguin', 999_999, 3_000),
+  pumpitup: points('pumpitup', 999_999, 5_000),
+  columns: points('columns', 999_999, 5_000),
+  tower: points('tower', 9_999, 3_000),
+  // 30x20 칸
+  qix: points('qix', 600, 5_000),
+  paper: points('paper', 999_999, 5_000),
+  bomber: points('bomber', 999, 3_000),
+  watermelon: points('watermelon', 999_999, 5_000),
+  mergepets: points('mergepets', 999_999, 5_000),
+  mergecatsdogs: points('mergecatsdogs', 999_999, 5_000),
+  domino: points('domino', 99_999, 2_000),
+  bubbleshooter: points('bubbleshooter', 999_999, 5_000),
+  crossy: points('crossy', 99_999, 3_000),
+} satisfies Record<string, ScoreRule>;
+
+export type ScoreId = keyof typeof SCORE_RULES;
+
+export function getScoreRule(scoreId: string): ScoreRule | null {
+  return Object.prototype.hasOwnProperty.call(SCORE_RULES, scoreId)
+    ? SCORE_RULES[scoreId as ScoreId]
+    : null;
+}
+
+/** 규칙 위반이면 에러 코드, 통과하면 null */
+export function checkScore(rule: ScoreRule, score: number, durationMs: number): ScoreErrorCode | null {
+  if (!Number.isInteger(score)) return 'INVALID_SCORE';
+  if (score < rule.minScore || score > rule.maxScore) return 'SCORE_OUT_OF_RANGE';
+  if (!Number.isFinite(durationMs) || durationMs < rule.minDurationMs) return 'PLAY_TOO_SHORT';
+  return null;
+}
@@ -0,0 +1,240 @@
+import { createRng, random, ReplaySim, Rng } from '../replay/core';
+
+/** Breakout 시뮬레이션 — BreakoutCanvas와 /api/scores 리플레이 검증이 함께 사용 */
+
+export const BREAKOUT_WIDTH = 800;
+export const BREAKOUT_HEIGHT = 600;
+export const PADDLE_WIDTH = 100;
+export const PADDLE_HEIGHT = 15;
+export const PADDLE_Y = BREAKOUT_HEIGHT - 30;
+export const BALL_RADIUS = 8;
+
+const BALL_SPEED = 5;
+const PADDLE_SPEED = 8;
+const BRICK_WIDTH = 75;
+const BRICK_HEIGHT = 25;
+const BRICK_ROWS = 8;
+const BRICK_COLS = 10;
+const BRICK_PADDING = 5;
+const BRICK_OFFSET_TOP = 60;
+const START_LIVES = 3;
+// 벽돌 최대 내구도 (색상 단계 수)
+export const BRICK_MAX_HITS = 5;
+
+export type BreakoutPhase = 'ready' | 'playing' | 'levelComplete' | 'gameOver';
+
+export interface Ball {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+  radius: number;
+}
+
+export interface Brick {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  hits: number;
+  maxHits: number;
+}
+
+// 입력 액션 코드 (키를 누르고 뗄 때 각각 기록)
+export const BREAKOUT_ACTIONS = {
+  leftDown: 0,
+  leftUp: 1,
+  rightDown: 2,
+  rightUp: 3,
+  // ready → 시작, levelComplete → 다음 레벨
+  advance: 4,
+} as const;
+
+export interface BreakoutState {
+  rng: Rng;
+  phase: BreakoutPhase;
+  ball: Ball;
+  paddleX: number;
+  bricks: Brick[];
+  score: number;
+  level: number;
+  lives: number;
+  left: boolean;
+  right: boolean;
+}
+
+// 레벨별 벽돌 생성
+function generateBricks(levelNum: number): Brick[] {
+  const bricks: Brick[] = [];
+  const startX = (BREAKOUT_WIDTH - (BRICK_COLS * (BRICK_WIDTH + BRICK_PADDING) - BRICK_PADDING)) / 2;
+
+  for (let row = 0; row < BRICK_ROWS; row++) {
+    for (let col = 0; col < BRICK_COLS; col++) {
+      // 레벨이 높을수록 더 강한 벽돌
+      const maxHits = Math.min(1 + Math.floor((row + levelNum - 1) / 2), BRICK_MAX_HITS);
+      bricks.push({
+        x: startX + col * (BRICK_WIDTH + BRICK_PADDING),
+        y: BRICK_OFFSET_TOP + row * (BRICK_HEIGHT + BRICK_PADDING),
+        width: BRICK_WIDTH,
+        height: BRICK_HEIGHT,
+        hits: maxHits,
+        maxHits,
+      });
+    }
+  }
+  return bricks;
+}
+
+// 패들 반사 속도 [|vx|, |vy|] (BALL_SPEED 5 기준) — 중앙에서 가장자리까지 7.5도씩 최대 60도.
+// Math.sin/cos는 엔진마다 마지막 비트가 다를 수 있어 브라우저와 서버 재생이 어긋나므로 미리 계산해 둔다.
+const BOUNCE_STEPS = 8;
+const BOUNCE_VECTORS: readonly [number, number][] = [
+  [0, 5],
+  [0.6526309611002579, 4.957224306869052],
+  [1.2940952255126037, 4.8296291314453415],
+  [1.913417161825449, 4.619397662556434],
+  [2.4999999999999996, 4.330127018922194],
+  [3.043807145043603, 3.9667667014561756],
+  [3.5355339059327373, 3.5355339059327378],
+  [3.9667667014561756, 3.043807145043603],
+  [4.330127018922193, 2.5000000000000004],
+];
+
+function serveBall(rng: Rng): Ball {
+  return {
+    x: BREAKOUT_WIDTH / 2,
+    y: BREAKOUT_HEIGHT - 100,
+    vx: BALL_SPEED * (random(rng) > 0.5 ? 1 : -1),
+    vy: -BALL_SPEED,
+    radius: BALL_RADIUS,
+  };
+}
+
+// 공과 사각형의 충돌 감지 (원-사각형) — 충돌 시 법선 벡터
+function ballRectNormal(ball: Ball, rect: { x: number; y: number; width: number; height: number }) {
+  const distX = Math.abs(ball.x - rect.x - rect.width / 2);
+  const distY = Math.abs(ball.y - rect.y - rect.height / 2);
+
+  if (distX > rect.width / 2 + ball.radius || distY > rect.height / 2 + ball.radius) return null;
+  if (distX > rect.width / 2 && distY > rect.height / 2) return null;
+
+  const dx = ball.x - (rect.x + rect.width / 2);
+  const dy = ball.y - (rect.y + rect.height / 2);
+  return Math.abs(dx / rect.width) > Math.abs(dy / rect.height)
+    ? { x: dx > 0 ? 1 : -1, y: 0 }
+    : { x: 0, y: dy > 0 ? 1 : -1 };
+}
+
+function startLevel(s: BreakoutState) {
+  s.bricks = generateBricks(s.level);
+  s.ball = serveBall(s.rng);
+  s.paddleX = BREAKOUT_WIDTH / 2 - PADDLE_WIDTH / 2;
+  s.phase = 'playing';
+}
+
+export const breakoutSim: ReplaySim<BreakoutState> = {
+  stepMs: 1000 / 60,
+
+  init(seed) {
+    const rng = createRng(seed);
+    return {
+      rng,
+      phase: 'ready',
+      ball: serveBall(rng),
+      paddleX: BREAKOUT_WIDTH / 2 - PADDLE_WIDTH / 2,
+      bricks: generateBricks(1),
+      score: 0,
+      level: 1,
+      lives: START_LIVES,
+      left: false,
+      right: false,
+    };
+  },
+
+  apply(s, action) {
+    switch (action) {
+      case BREAKOUT_ACTIONS.leftDown: s.left = true; break;
+      case BREAKOUT_ACTIONS.leftUp: s.left = false; break;
+      case BREAKOUT_ACTIONS.rightDown: s.right = true; break;
+      case BREAKOUT_ACTIONS.rightUp: s.right = false; break;
+      case BREAKOUT_ACTIONS.advance:
+        if (s.phase === 'ready') startLevel(s);
+        else if (s.phase === 'levelComplete') {
+          s.level++;
+          s.phase = 'ready';
+        }
+        break;
+    }
+  },
+
+  step(s) {
+    if (s.phase !== 'playing') return;
+    const ball = s.ball;
+
+    // 공 이동
+    ball.x += ball.vx;
+    ball.y += ball.vy;
+
+    // 벽 충돌
+    if (ball.x - ball.radius <= 0 || ball.x + ball.radius >= BREAKOUT_WIDTH) {
+      ball.vx = -ball.vx;
+      ball.x = Math.max(ball.radius, Math.min(BREAKOUT_WIDTH - ball.radius, ball.x));
+    }
+    if (ball.y - ball.radius <= 0) {
+      ball.vy = -ball.vy;
+      ball.y = ball.radius;
+    }
+
+    // 바닥 충돌 (생명 잃기)
+    if (ball.y + ball.radius >= BREAKOUT_HEIGHT) {
+      s.lives--;
+      if (s.lives <= 0) {
+        s.lives = 0;
+        s.phase = 'gameOver';
+      } else {
+        s.ball = serveBall(s.rng);
+      }
+      return;
+    }
+
+    // 패들 충돌
+    const paddle = { x: s.paddleX, y: PADDLE_Y, width: PADDLE_WIDTH, height: PADDLE_HEIGHT };
+    if (ballRectNormal(ball, paddle)) {
+      const hitPos = (ball.x - (paddle.x + paddle.width / 2)) / (paddle.width / 2);
+      const step = Math.max(-BOUNCE_STEPS, Math.min(BOUNCE_STEPS, Math.round(hitPos * BOUNCE_STEPS)));
+      const [vx, vy] = BOUNCE_VECTORS[Math.abs(step)];
+      ball.vx = step < 0 ? -vx : vx;
+      ball.vy = -vy;
+      ball.y = paddle.y - ball.radius;
+    }
+
+    // 벽돌 충돌 (한 틱에 하나)
+    for (let i = 0; i < s.bricks.length; i++) {
+      const brick = s.bricks[i];
+      const normal = ballRectNormal(ball, brick);
+      if (!normal) continue;
+
+      // 속도 반사
+      const dot = ball.vx * normal.x + ball.vy * normal.y;
+      ball.vx -= 2 * dot * normal.x;
+      ball.vy -= 2 * dot * normal.y;
+
+      brick.hits--;
+      if (brick.hits <= 0) {
+        s.bricks.splice(i, 1);
+        s.score += brick.maxHits * 10;
+      }
+      break;
+    }
+
+    // 모든 벽돌 파괴 시 레벨 완료
+    if (s.bricks.length === 0) s.phase = 'levelComplete';
+
+    // 패들 이동
+    if (s.left) s.paddleX = Math.max(0, s.paddleX - PADDLE_SPEED);
+    if (s.right) s.paddleX = Math.min(BREAKOUT_WIDTH - PADDLE_WIDTH, s.paddleX + PADDLE_SPEED);
+  },
+
+  isOver: (s) => s.phase === 'gameOver',
+  score: (s) => s.score,
+};
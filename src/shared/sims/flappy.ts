@@ -0,0 +1,134 @@
+import { createRng, random, ReplaySim, Rng } from '../replay/core';
+
+/** Flappy Bird 시뮬레이션 — FlappyBirdCanvas와 /api/scores 리플레이 검증이 함께 사용 */
+
+export const FLAPPY_WIDTH = 800;
+export const FLAPPY_HEIGHT = 600;
+export const GROUND_HEIGHT = 50;
+export const BIRD_X = 150;
+export const BIRD_WIDTH = 34;
+export const BIRD_HEIGHT = 24;
+export const PIPE_WIDTH = 80;
+// 틱당 파이프 이동 거리 (렌더 보간에도 사용)
+export const PIPE_SPEED = 3;
+
+const PIPE_GAP = 200;
+const PIPE_SPAWN_TICKS = 90; // 1.5초마다 파이프 생성 (60틱/초)
+
+// 물리 상수
+const GRAVITY = 0.6;
+const JUMP_FORCE = -12;
+const MAX_FALL_SPEED = 10;
+
+export type FlappyPhase = 'ready' | 'playing' | 'gameOver';
+
+export interface Pipe {
+  x: number;
+  topHeight: number;
+  bottomY: number;
+  passed: boolean;
+}
+
+// 입력 액션 코드
+export const FLAPPY_ACTIONS = {
+  // ready 상태에서는 시작과 동시에 점프
+  flap: 0,
+} as const;
+
+export interface FlappyState {
+  rng: Rng;
+  phase: FlappyPhase;
+  birdY: number;
+  velocity: number;
+  pipes: Pipe[];
+  spawnTimer: number;
+  // 배경 스크롤 (화면 연출용)
+  backgroundX: number;
+  score: number;
+}
+
+function createPipe(rng: Rng): Pipe {
+  const minTopHeight = 50;
+  const maxTopHeight = FLAPPY_HEIGHT - PIPE_GAP - 100; // 바닥 여유공간
+  const topHeight = minTopHeight + random(rng) * (maxTopHeight - minTopHeight);
+  return { x: FLAPPY_WIDTH, topHeight, bottomY: topHeight + PIPE_GAP, passed: false };
+}
+
+// AABB 충돌 감지
+function overlaps(
+  ax: number, ay: number, aw: number, ah: number,
+  bx: number, by: number, bw: number, bh: number
+) {
+  return ax < bx + bw && ax + aw > bx && ay < by + bh && ay + ah > by;
+}
+
+function hitsPipe(birdY: number, pipe: Pipe) {
+  return (
+    overlaps(BIRD_X, birdY, BIRD_WIDTH, BIRD_HEIGHT, pipe.x, 0, PIPE_WIDTH, pipe.topHeight) ||
+    overlaps(BIRD_X, birdY, BIRD_WIDTH, BIRD_HEIGHT, pipe.x, pipe.bottomY, PIPE_WIDTH, FLAPPY_HEIGHT - pipe.bottomY)
+  );
+}
+
+export const flappySim: ReplaySim<FlappyState> = {
+  stepMs: 1000 / 60,
+
+  init(seed) {
+    return {
+      rng: createRng(seed),
+      phase: 'ready',
+      birdY: FLAPPY_HEIGHT / 2,
+      velocity: 0,
+      pipes: [],
+      spawnTimer: 0,
+      backgroundX: 0,
+      score: 0,
+    };
+  },
+
+  apply(s, action) {
+    if (action !== FLAPPY_ACTIONS.flap || s.phase === 'gameOver') return;
+    s.phase = 'playing';
+    s.velocity = JUMP_FORCE;
+  },
+
+  step(s) {
+    if (s.phase !== 'playing') return;
+
+    // 중력 적용 (최대 낙하 속도 제한)
+    s.velocity = Math.min(MAX_FALL_SPEED, s.velocity + GRAVITY);
+    const nextY = s.birdY + s.velocity;
+
+    // 바닥/천장 충돌 검사
+    if (nextY + BIRD_HEIGHT >= FLAPPY_HEIGHT - GROUND_HEIGHT || nextY <= 0) {
+      s.phase = 'gameOver';
+      return;
+    }
+    s.birdY = nextY;
+    s.backgroundX -= 1;
+
+    // 파이프 스폰
+    if (++s.spawnTimer >= PIPE_SPAWN_TICKS) {
+      s.spawnTimer = 0;
+      s.pipes.push(createPipe(s.rng));
+    }
+
+    // 파이프 이동 (화면 밖 파이프 제거)
+    for (const pipe of s.pipes) pipe.x -= PIPE_SPEED;
+    s.pipes = s.pipes.filter(pipe => pipe.x + PIPE_WIDTH > -50);
+
+    for (const pipe of s.pipes) {
+      if (hitsPipe(s.birdY, pipe)) {
+        s.phase = 'gameOver';
+        return;
+      }
+      // 점수 (파이프 통과)
+      if (!pipe.passed && BIRD_X > pipe.x + PIPE_WIDTH) {
+        pipe.passed = true;
+        s.score++;
+      }
+    }
+  },
+
+  isOver: (s) => s.phase === 'gameOver',
+  score: (s) => s.score,
+};
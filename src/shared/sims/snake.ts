@@ -0,0 +1,116 @@
+import { createRng, randomInt, ReplaySim, Rng } from '../replay/core';
+
+/** Snake 시뮬레이션 — SnakeCanvas와 /api/scores 리플레이 검증이 함께 사용 */
+
+export const SNAKE_COLS = 22;
+export const SNAKE_ROWS = 16;
+
+export const SNAKE_SPEED_START = 140; // 시작 이동 간격(ms)
+export const SNAKE_SPEED_MIN = 60;    // 최소(빠름)
+export const SNAKE_SPEED_STEP = 6;    // 먹을 때마다 가속
+
+const STEP_MS = 10;
+const START_LEN = 4;
+
+export type SnakeDir = 'L' | 'R' | 'U' | 'D';
+type Pt = { x: number; y: number };
+
+// 입력 액션 코드
+export const SNAKE_ACTIONS: Record<SnakeDir, number> = { L: 0, R: 1, U: 2, D: 3 };
+const DIRS: SnakeDir[] = ['L', 'R', 'U', 'D'];
+const OPPOSITE: Record<SnakeDir, SnakeDir> = { L: 'R', R: 'L', U: 'D', D: 'U' };
+
+export interface SnakeState {
+  rng: Rng;
+  snake: Pt[];
+  dir: SnakeDir;
+  nextDir: SnakeDir;
+  // 판이 몸으로 가득 차면 null — 그대로 끝난다
+  food: Pt | null;
+  score: number;
+  speed: number; // 낮을수록 빠름
+  acc: number;
+  over: boolean;
+}
+
+/** 빈 칸에 먹이를 놓는다 — 빈 칸이 없으면 false */
+function spawnFood(s: SnakeState): boolean {
+  if (s.snake.length >= SNAKE_COLS * SNAKE_ROWS) {
+    s.food = null;
+    return false;
+  }
+  while (true) {
+    const fx = randomInt(s.rng, SNAKE_COLS);
+    const fy = randomInt(s.rng, SNAKE_ROWS);
+    if (!s.snake.some((p) => p.x === fx && p.y === fy)) {
+      s.food = { x: fx, y: fy };
+      return true;
+    }
+  }
+}
+
+function move(s: SnakeState) {
+  // 방향 업데이트(역방향 방지)
+  if (OPPOSITE[s.dir] !== s.nextDir) s.dir = s.nextDir;
+
+  const head = { ...s.snake[0] };
+  if (s.dir === 'L') head.x--;
+  if (s.dir === 'R') head.x++;
+  if (s.dir === 'U') head.y--;
+  if (s.dir === 'D') head.y++;
+
+  // 벽 / 몸 충돌
+  if (head.x < 0 || head.x >= SNAKE_COLS || head.y < 0 || head.y >= SNAKE_ROWS ||
+      s.snake.some((p) => p.x === head.x && p.y === head.y)) {
+    s.over = true;
+    return;
+  }
+
+  s.snake.unshift(head);
+  if (s.food && head.x === s.food.x && head.y === s.food.y) {
+    s.score += 10;
+    s.speed = Math.max(SNAKE_SPEED_MIN, s.speed - SNAKE_SPEED_STEP);
+    if (!spawnFood(s)) s.over = true;
+  } else {
+    s.snake.pop(); // 성장 없으면 꼬리 제거
+  }
+}
+
+export const snakeSim: ReplaySim<SnakeState> = {
+  stepMs: STEP_MS,
+
+  init(seed) {
+    const y0 = Math.floor(SNAKE_ROWS / 2);
+    const headX = Math.floor(SNAKE_COLS / 2) + 1; // 머리 위치(오른쪽 진행에 여유)
+    const s: SnakeState = {
+      rng: createRng(seed),
+      // 머리 -> 꼬리 순 (오른쪽 진행이므로 몸통은 왼쪽)
+      snake: Array.from({ length: START_LEN }, (_, i) => ({ x: headX - i, y: y0 })),
+      dir: 'R',
+      nextDir: 'R',
+      food: { x: 0, y: 0 },
+      score: 0,
+      speed: SNAKE_SPEED_START,
+      acc: 0,
+      over: false,
+    };
+    spawnFood(s);
+    return s;
+  },
+
+  apply(s, action) {
+    const dir = DIRS[action];
+    if (dir) s.nextDir = dir;
+  },
+
+  step(s) {
+    s.acc += STEP_MS;
+    while (!s.over && s.acc >= s.speed) {
+      s.acc -= s.speed;
+      move(s);
+    }
+  },
+
+  isOver: (s) => s.over,
+  score: (s) => s.score,
+};
@@ -0,0 +1,281 @@
+import { createRng, randomInt, ReplaySim, Rng } from '../replay/core';
+
+/** Block Drop(TetrisCanvas) 시뮬레이션 — 캔버스와 /api/scores 리플레이 검증이 함께 사용 */
+
+export const TETRIS_COLS = 10;
+export const TETRIS_ROWS = 20;
+
+const STEP_MS = 10;
+const QUEUE_LEN = 5;
+
+export type PieceType = 'I' | 'O' | 'T' | 'S' | 'Z' | 'J' | 'L';
+export type Cell = 0 | PieceType;
+export type Piece = {
+  type: PieceType;
+  x: number;
+  y: number;
+  rot: number; // 0..3
+};
+
+/** ───────────── 조각 정의 ─────────────
+ * 각 조각은 4x4 매트릭스로 표현(회전은 코드로 계산).
+ */
+export const SHAPES: Record<PieceType, number[][]> = {
+  I: [
+    [0,0,0,0],
+    [1,1,1,1],
+    [0,0,0,0],
+    [0,0,0,0]
+  ],
+  O: [
+    [0,1,1,0],
+    [0,1,1,0],
+    [0,0,0,0],
+    [0,0,0,0]
+  ],
+  T: [
+    [0,1,0,0],
+    [1,1,1,0],
+    [0,0,0,0],
+    [0,0,0,0]
+  ],
+  S: [
+    [0,1,1,0],
+    [1,1,0,0],
+    [0,0,0,0],
+    [0,0,0,0]
+  ],
+  Z: [
+    [1,1,0,0],
+    [0,1,1,0],
+    [0,0,0,0],
+    [0,0,0,0]
+  ],
+  J: [
+    [1,0,0,0],
+    [1,1,1,0],
+    [0,0,0,0],
+    [0,0,0,0]
+  ],
+  L: [
+    [0,0,1,0],
+    [1,1,1,0],
+    [0,0,0,0],
+    [0,0,0,0]
+  ],
+};
+
+const BAG_TYPES: PieceType[] = ['I', 'O', 'T', 'S', 'Z', 'J', 'L'];
+
+// 입력 액션 코드
+export const TETRIS_ACTIONS = {
+  left: 0,
+  right: 1,
+  softDrop: 2,
+  hardDrop: 3,
+  rotateCW: 4,
+  rotateCCW: 5,
+  hold: 6,
+} as const;
+
+export interface TetrisState {
+  rng: Rng;
+  board: Cell[][];
+  bag: PieceType[];
+  nextQ: PieceType[];
+  cur: Piece;
+  hold: PieceType | null;
+  canHold: boolean;
+  score: number;
+  lines: number;
+  level: number;
+  dropTimer: number;
+  over: boolean;
+}
+
+export function rotateMat(m: number[][], times: number) {
+  // 4x4 행렬을 시계방향 times번 회전
+  let r = m.map(row => row.slice());
+  for (let t = 0; t < (times % 4 + 4) % 4; t++) {
+    const n = r.length;
+    const out = Array.from({ length: n }, () => Array(n).fill(0));
+    for (let y = 0; y < n; y++)
+      for (let x = 0; x < n; x++)
+        out[x][n - 1 - y] = r[y][x];
+    r = out;
+  }
+  return r;
+}
+
+export function fallIntervalMs(level: number) {
+  // 레벨에 따라 점점 빨라짐(대략 Tetris Guideline 감각)
+  // Math.pow는 엔진마다 결과가 다를 수 있어 곱셈으로 (리플레이 재생이 서버와 같아야 한다)
+  let interval = 1000;
+  for (let i = 0; i < level && interval >= 60; i++) interval *= 0.88;
+  return Math.max(60, Math.floor(interval));
+}
+
+export function cellsOfPiece(p: Piece) {
+  const mat = rotateMat(SHAPES[p.type], p.rot);
+  const cells: { x: number; y: number }[] = [];
+  for (let y = 0; y < 4; y++)
+    for (let x = 0; x < 4; x++)
+      if (mat[y][x]) cells.push({ x: p.x + x, y: p.y + y });
+  return cells;
+}
+
+function collides(s: TetrisState, p: Piece) {
+  for (const c of cellsOfPiece(p)) {
+    if (c.y < 0) continue; // 스폰 영역
+    if (c.x < 0 || c.x >= TETRIS_COLS || c.y >= TETRIS_ROWS) return true;
+    if (s.board[c.y][c.x]) return true;
+  }
+  return false;
+}
+
+export function ghostY(s: TetrisState): number {
+  let gy = s.cur.y;
+  while (!collides(s, { ...s.cur, y: gy + 1 })) gy++;
+  return gy;
+}
+
+// 7-백: 봉투가 비면 7종을 섞어 채운다
+function nextFromBag(s: TetrisState): PieceType {
+  if (s.bag.length === 0) {
+    const bag = [...BAG_TYPES];
+    while (bag.length) s.bag.push(bag.splice(randomInt(s.rng, bag.length), 1)[0]);
+  }
+  return s.bag.shift() as PieceType;
+}
+
+function spawnPiece(type: PieceType): Piece {
+  return { type, x: Math.floor(TETRIS_COLS / 2) - 2, y: -1, rot: 0 };
+}
+
+function spawn(s: TetrisState) {
+  const t = s.nextQ.shift() as PieceType;
+  s.nextQ.push(nextFromBag(s));
+  s.cur = spawnPiece(t);
+  if (collides(s, s.cur)) s.over = true;
+  s.canHold = true;
+}
+
+function clearLines(s: TetrisState) {
+  let cleared = 0;
+  for (let y = TETRIS_ROWS - 1; y >= 0; y--) {
+    if (s.board[y].every(v => v !== 0)) {
+      s.board.splice(y, 1);
+      s.board.unshift(Array(TETRIS_COLS).fill(0));
+      cleared++;
+      y++;
+    }
+  }
+  if (cleared) {
+    s.lines += cleared;
+    // 점수(레벨+1 배수)
+    const base = [0, 100, 300, 500, 800][cleared] || 0;
+    s.score += base * (s.level + 1);
+    s.level = Math.floor(s.lines / 10);
+  }
+}
+
+function lock(s: TetrisState) {
+  for (const c of cellsOfPiece(s.cur)) {
+    if (c.y >= 0 && c.y < TETRIS_ROWS && c.x >= 0 && c.x < TETRIS_COLS) {
+      s.board[c.y][c.x] = s.cur.type;
+    }
+  }
+  clearLines(s);
+  spawn(s);
+}
+
+function move(s: TetrisState, dx: number, dy: number) {
+  const np = { ...s.cur, x: s.cur.x + dx, y: s.cur.y + dy };
+  if (collides(s, np)) return false;
+  s.cur = np;
+  return true;
+}
+
+function rotate(s: TetrisState, dir: 1 | -1) {
+  const np = { ...s.cur, rot: (s.cur.rot + (dir === 1 ? 1 : 3)) % 4 };
+  // 간단 월킥: 0, ±1, ±2 시프트
+  for (const k of [0, -1, 1, -2, 2]) {
+    const test = { ...np, x: np.x + k };
+    if (!collides(s, test)) {
+      s.cur = test;
+      return;
+    }
+  }
+}
+
+function holdSwap(s: TetrisState) {
+  if (!s.canHold) return;
+  const curType = s.cur.type;
+  if (s.hold == null) {
+    s.hold = curType;
+    spawn(s);
+  } else {
+    const temp = s.hold;
+    s.hold = curType;
+    s.cur = spawnPiece(temp);
+    if (collides(s, s.cur)) s.over = true;
+  }
+  s.canHold = false;
+}
+
+export const tetrisSim: ReplaySim<TetrisState> = {
+  stepMs: STEP_MS,
+
+  init(seed) {
+    const s: TetrisState = {
+      rng: createRng(seed),
+      board: Array.from({ length: TETRIS_ROWS }, () => Array(TETRIS_COLS).fill(0)),
+      bag: [],
+      nextQ: [],
+      cur: spawnPiece('I'),
+      hold: null,
+      canHold: true,
+      score: 0,
+      lines: 0,
+      level: 0,
+      dropTimer: 0,
+      over: false,
+    };
+    while (s.nextQ.length < QUEUE_LEN) s.nextQ.push(nextFromBag(s));
+    spawn(s);
+    return s;
+  },
+
+  apply(s, action) {
+    switch (action) {
+      case TETRIS_ACTIONS.left: move(s, -1, 0); break;
+      case TETRIS_ACTIONS.right: move(s, 1, 0); break;
+      case TETRIS_ACTIONS.softDrop:
+        if (move(s, 0, 1)) s.score += 1;
+        else lock(s);
+        break;
+      case TETRIS_ACTIONS.hardDrop: {
+        let dropped = 0;
+        while (move(s, 0, 1)) dropped++;
+        s.score += dropped * 2; // 하드드랍 가산
+        lock(s);
+        break;
+      }
+      case TETRIS_ACTIONS.rotateCW: rotate(s, 1); break;
+      case TETRIS_ACTIONS.rotateCCW: rotate(s, -1); break;
+      case TETRIS_ACTIONS.hold: holdSwap(s); break;
+    }
+  },
+
+  step(s) {
+    s.dropTimer += STEP_MS;
+    const interval = fallIntervalMs(s.level);
+    while (!s.over && s.dropTimer >= interval) {
+      if (!move(s, 0, 1)) lock(s);
+      s.dropTimer -= interval;
+    }
+  },
+
+  isOver: (s) => s.over,
+  score: (s) => s.score,
+};
@@ -0,0 +1,19 @@
+/**
+ * 소코반 번들 레벨 팩 — packs/*.xsb를 그대로 읽어 파싱한다
+ */
+import classicXsb from './packs/classic.xsb?raw';
+import warehouseXsb from './packs/warehouse.xsb?raw';
+import { parsePack, SokobanPack } from './xsb';
+
+export const BUNDLED_PACKS: SokobanPack[] = [
+  parsePack(classicXsb, 'classic', '기본 레벨'),
+  parsePack(warehouseXsb, 'warehouse', '작은 창고'),
+];
+
+/** 붙여 넣은 팩의 id — 내용이 같으면 같은 id라 진행 기록이 이어진다 */
+export function customPackId(text: string): string {
+  const normalized = text.replace(/\r\n?/g, '\n').trim();
+  let hash = 5381;
+  for (let i = 0; i < normalized.length; i++) hash = ((hash << 5) + hash + normalized.charCodeAt(i)) | 0;
+  return `custom-${(hash >>> 0).toString(36)}`;
+}
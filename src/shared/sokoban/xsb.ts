@@ -0,0 +1,218 @@
+/**
+ * 소코반 XSB/SOK 레벨 팩 파서
+ *
+ * 표준 XSB 기호: '#' 벽, ' '·'-'·'_' 바닥, '.' 목표, '$' 상자, '*' 목표 위 상자, '@' 플레이어, '+' 목표 위 플레이어.
+ * 한 파일에 레벨 여러 개가 빈 줄/글로 나뉘어 들어 있고, 레벨 뒤의 "Title:"·"Author:"·"Comment:" 줄이나
+ * 판 바로 뒤 첫 글 줄(SOK), 판 바로 앞 ';' 줄(XSB)을 제목으로 읽는다.
+ * 줄 길이 부호화(RLE: "4#" = "####", "2(#$)" = "#$#$", '|' = 줄바꿈)도 푼다 — 너무 크게 풀리는 레벨은 풀지 않고 뺀다.
+ */
+
+export interface SokobanLevel {
+  title: string;
+  // XSB 판 (RLE를 풀고 '-'/'_'를 공백으로 바꾼 줄들)
+  lines: string[];
+  author?: string;
+  comment?: string;
+}
+
+export interface SokobanPack {
+  id: string;
+  title: string;
+  author?: string;
+  description?: string;
+  levels: SokobanLevel[];
+  // 검증에 걸려 뺀 레벨 (번호는 파일 안 순서, 1부터)
+  skipped: { index: number; title: string; error: string }[];
+}
+
+const BOARD_CHARS = /^[#@+$*.\-_ ]+$/;
+// RLE로 쓴 판 줄 (반복 수, 괄호, '|' 포함)
+const RLE_CHARS = /^[\d()|#@+$*.\-_ ]+$/;
+const KEY_LINE = /^(title|author|comment|comment-end|collection|set|name)\s*:(.*)$/i;
+
+// 반복 수 하나의 상한과 RLE 한 줄을 푼 길이의 상한 (100×100 판이 1만 칸)
+const MAX_RLE_COUNT = 1_000;
+const MAX_RLE_LENGTH = 10_000;
+// 팩 하나에서 RLE로 풀 수 있는 전체 길이
+const MAX_PACK_RLE_LENGTH = 200_000;
+
+/** RLE를 풀면 상한을 넘는다 */
+export class RleLimitError extends Error {}
+
+/**
+ * RLE를 푼다 — 숫자 뒤 글자(또는 괄호 묶음)를 그만큼 반복, '|'는 줄바꿈
+ * @throws RleLimitError 반복 수가 MAX_RLE_COUNT를, 푼 길이가 limit을 넘으면
+ */
+export function expandRle(text: string, limit = MAX_RLE_LENGTH): string {
+  let i = 0;
+  const group = (): string => {
+    let out = '';
+    while (i < text.length && text[i] !== ')') {
+      let count = 0;
+      let hasCount = false;
+      while (i < text.length && /\d/.test(text[i])) {
+        count = count * 10 + Number(text[i++]);
+        hasCount = true;
+        if (count > MAX_RLE_COUNT) throw new RleLimitError(`반복 수가 ${MAX_RLE_COUNT}보다 큽니다`);
+      }
+      let unit: string;
+      if (text[i] === '(') {
+        i++;
+        unit = group();
+        i++; // ')'
+      } else {
+        unit = text[i++] ?? '';
+      }
+      const length = out.length + unit.length * (hasCount ? count : 1);
+      if (length > limit) throw new RleLimitError(`RLE를 풀면 ${limit}자가 넘습니다`);
+      out += hasCount ? unit.repeat(count) : unit;
+    }
+    return out;
+  };
+  return group().replace(/\|/g, '\n');
+}
+
+/**
+ * 판 줄인지 — RLE를 풀어 판 기호만 남고 벽이 있어야 한다
+ * @param limit RLE를 풀 수 있는 길이 (RLE 판 줄이 이를 넘으면 RleLimitError)
+ */
+function boardRows(line: string, limit: number): string[] | null {
+  const trimmed = line.replace(/\s+$/, '');
+  if (!trimmed || !/[#]/.test(trimmed)) return null;
+  const rle = /\d|\|/.test(trimmed);
+  if (rle && !RLE_CHARS.test(trimmed)) return null;
+  const expanded = rle ? expandRle(trimmed, Math.min(limit, MAX_RLE_LENGTH)) : trimmed;
+  const rows = expanded.split('\n');
+  return rows.every(row => BOARD_CHARS.test(row) || row === '') ? rows.map(row => row.replace(/[-_]/g, ' ')) : null;
+}
+
+/**
+ * 레벨 하나를 검증한다 — 플레이어 1명, 상자 수 = 목표 수, 상자 1개 이상
+ * @returns 문제가 없으면 null, 있으면 이유
+ */
+export function validateLevel(level: string[]): string | null {
+  let boxes = 0,
+    targets = 0,
+    players = 0;
+  for (const row of level) {
+    for (const ch of row) {
+      if (ch === '$') boxes++;
+      if (ch === '*') {
+        boxes++;
+        targets++;
+      }
+      if (ch === '.') targets++;
+      if (ch === '+') {
+        players++;
+        targets++;
+      }
+      if (ch === '@') players++;
+    }
+  }
+  if (players !== 1) return `플레이어가 ${players}명입니다 (1명이어야 함)`;
+  if (boxes !== targets) return `상자 ${boxes}개와 목표 ${targets}개가 다릅니다`;
+  if (boxes === 0) return '상자가 없습니다';
+  return null;
+}
+
+interface RawLevel {
+  lines: string[];
+  // 판 앞 ';' 줄 (XSB식 제목 후보)
+  leading?: string;
+  trailing: string[];
+  // RLE가 상한을 넘어 풀지 않은 줄이 있으면 그 이유
+  error?: string;
+}
+
+/**
+ * 팩 텍스트를 읽는다 — 검증을 통과한 레벨만 levels에, 나머지는 skipped에
+ * @param id 진행 기록 키
+ * @param fallbackTitle 파일에 "Title:"이 없을 때 팩 이름
+ */
+export function parsePack(text: string, id: string, fallbackTitle: string): SokobanPack {
+  const header: string[] = [];
+  const raws: RawLevel[] = [];
+  let current: RawLevel | null = null;
+  // 판과 판 사이의 글 — 다음 판이 오면 마지막 ';' 줄은 그 판의 제목 후보
+  let between: string[] = header;
+  let inBoard = false;
+  let rleBudget = MAX_PACK_RLE_LENGTH;
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    let rows: string[] | null;
+    let error: string | undefined;
+    try {
+      rows = boardRows(line, rleBudget);
+      if (rows && /\d|\|/.test(line)) rleBudget -= rows.reduce((sum, row) => sum + row.length + 1, 0);
+    } catch (e) {
+      if (!(e instanceof RleLimitError)) throw e;
+      // 판 줄로 보고 풀지 않은 채 레벨을 건너뛴다
+      rows = [];
+      error = rleBudget < MAX_RLE_LENGTH ? `팩 전체의 RLE를 풀면 ${MAX_PACK_RLE_LENGTH}자가 넘습니다` : e.message;
+    }
+    if (rows) {
+      if (!inBoard) {
+        let leading: string | undefined;
+        const last = between.length ? between[between.length - 1] : undefined;
+        if (last !== undefined && last.startsWith(';')) {
+          leading = last.slice(1).trim();
+          between.pop();
+        }
+        current = { lines: [], leading, trailing: [] };
+        raws.push(current);
+        between = current.trailing;
+        inBoard = true;
+      }
+      current!.lines.push(...rows);
+      if (error) current!.error ??= error;
+      continue;
+    }
+    inBoard = false;
+    const trimmed = line.trim();
+    if (trimmed) between.push(trimmed);
+  }
+
+  const pack: SokobanPack = { id, title: fallbackTitle, levels: [], skipped: [] };
+  const description: string[] = [];
+  for (const line of header) {
+    const key = KEY_LINE.exec(line.replace(/^;\s*/, ''));
+    if (key && /title|collection|set|name/i.test(key[1])) pack.title = key[2].trim() || pack.title;
+    else if (key && /author/i.test(key[1])) pack.author = key[2].trim();
+    else if (!key) description.push(line.replace(/^;\s*/, ''));
+  }
+  if (description.length) pack.description = description.join(' ');
+
+  raws.forEach((raw, i) => {
+    const level: SokobanLevel = { title: '', lines: trimBoard(raw.lines) };
+    const comment: string[] = [];
+    let inComment = false;
+    raw.trailing.forEach((line, j) => {
+      const key = KEY_LINE.exec(line);
+      const name = key?.[1].toLowerCase();
+      if (inComment) {
+        if (name === 'comment-end') inComment = false;
+        else comment.push(line);
+      } else if (name === 'title' || name === 'name') level.title = key![2].trim();
+      else if (name === 'author') level.author = key![2].trim();
+      else if (name === 'comment') {
+        if (key![2].trim()) comment.push(key![2].trim());
+        else inComment = true;
+      } else if (j === 0 && !line.startsWith(';') && !key) level.title = line;
+      else comment.push(line.replace(/^;\s*/, ''));
+    });
+    level.title ||= raw.leading || `레벨 ${i + 1}`;
+    if (comment.length) level.comment = comment.join(' ');
+    const error = raw.error ?? validateLevel(level.lines);
+    if (error) pack.skipped.push({ index: i + 1, title: level.title, error });
+    else pack.levels.push(level);
+  });
+  return pack;
+}
+
+/** 위아래 빈 줄과 줄 끝 공백을 지운다 */
+function trimBoard(lines: string[]): string[] {
+  const rows = lines.map(row => row.replace(/\s+$/, ''));
+  while (rows.length && !rows[0]) rows.shift();
+  while (rows.length && !rows[rows.length - 1]) rows.pop();
+  return rows;
+}
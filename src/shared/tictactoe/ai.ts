@@ -0,0 +1,202 @@
+/**
+ * 틱택토 AI — 반복 심화 알파베타 네가맥스 (NxN k목 / 얼티밋 공용)
+ *
+ * NxN: 한쪽 돌만 있는 k칸 줄마다 돌 수에 따라 점수. 후보는 놓인 돌 주변 칸만.
+ * 얼티밋: 작은 보드 승패 + 큰 보드/작은 보드의 두 칸 연결. 워커(src/workers/tictactoeAi.worker.ts)에서 돈다.
+ */
+import {
+  Cell,
+  GridState,
+  gridMoves,
+  gridResult,
+  Mark,
+  playGrid,
+  playUltimate,
+  ultimateMoves,
+  ultimateResult,
+  UltimateState,
+  windowsOf,
+} from './rules';
+
+export interface TttAiLevel {
+  label: string;
+  // 사람 레이팅(Glicko-2) 계산에 쓰는 이 레벨의 고정 레이팅
+  rating: number;
+  // 최대 탐색 깊이 (반수)
+  depth: number;
+  timeMs: number;
+  // 루트 수 점수에 더하는 무작위 흔들림 — 낮은 레벨의 실수 연출
+  noise: number;
+}
+
+export const TTT_AI_LEVELS: TttAiLevel[] = [
+  { label: '쉬움', rating: 800, depth: 1, timeMs: 200, noise: 400 },
+  { label: '보통', rating: 1200, depth: 3, timeMs: 600, noise: 60 },
+  { label: '어려움', rating: 1600, depth: 12, timeMs: 2000, noise: 0 },
+];
+
+export interface TttSearchResult {
+  move: number | null;
+  score: number;
+  depth: number;
+}
+
+const WIN_SCORE = 1_000_000;
+// 한쪽 돌만 있는 줄의 돌 수별 점수
+const LINE_WEIGHT = [0, 1, 10, 100, 1000, 10000];
+
+class SearchAborted extends Error {}
+
+/** 게임 하나를 탐색기에 꽂는 어댑터 */
+interface Adapter<S> {
+  moves(state: S): number[];
+  play(state: S, move: number): S;
+  // 끝났으면 승자(무승부 'draw'), 아니면 null
+  outcome(state: S): Mark | 'draw' | null;
+  // 두는 쪽(state.turn) 기준
+  evaluate(state: S): number;
+  turn(state: S): Mark;
+}
+
+function lineScore(cells: Cell[], windows: number[][], me: Mark): number {
+  let score = 0;
+  for (const w of windows) {
+    let mine = 0;
+    let theirs = 0;
+    for (const i of w) {
+      if (cells[i] === me) mine++;
+      else if (cells[i]) theirs++;
+    }
+    if (mine && !theirs) score += LINE_WEIGHT[Math.min(mine, LINE_WEIGHT.length - 1)];
+    else if (theirs && !mine) score -= LINE_WEIGHT[Math.min(theirs, LINE_WEIGHT.length - 1)];
+  }
+  return score;
+}
+
+const gridAdapter: Adapter<GridState> = {
+  moves(state) {
+    const all = gridMoves(state);
+    if (state.size <= 4 || all.length === state.cells.length) return all;
+    // 큰 보드는 놓인 돌과 붙은 칸만 후보로
+    const { size, cells } = state;
+    return all.filter((i) => {
+      const r = Math.floor(i / size);
+      const c = i % size;
+      for (let dr = -1; dr <= 1; dr++) {
+        for (let dc = -1; dc <= 1; dc++) {
+          const nr = r + dr;
+          const nc = c + dc;
+          if (nr >= 0 && nr < size && nc >= 0 && nc < size && cells[nr * size + nc]) return true;
+        }
+      }
+      return false;
+    });
+  },
+  play: playGrid,
+  outcome: (state) => gridResult(state)?.outcome ?? null,
+  evaluate: (state) => lineScore(state.cells, windowsOf(state.size, state.k), state.turn),
+  turn: (state) => state.turn,
+};
+
+const BOARD_LINES = windowsOf(3, 3);
+
+const ultimateAdapter: Adapter<UltimateState> = {
+  moves: ultimateMoves,
+  play: playUltimate,
+  outcome: (state) => ultimateResult(state)?.outcome ?? null,
+  evaluate(state) {
+    const me = state.turn;
+    // 큰 보드: 딴 작은 보드를 돌처럼 세어 줄 점수 (무승부 보드는 양쪽 다 막힘)
+    const macro: Cell[] = state.boards.map((o) => (o === 'draw' ? null : o));
+    let score = 0;
+    for (const w of BOARD_LINES) {
+      if (w.some((b) => state.boards[b] === 'draw')) continue;
+      let mine = 0;
+      let theirs = 0;
+      for (const b of w) {
+        if (macro[b] === me) mine++;
+        else if (macro[b]) theirs++;
+      }
+      if (mine && !theirs) score += mine * mine * 200;
+      else if (theirs && !mine) score -= theirs * theirs * 200;
+    }
+    // 아직 진행 중인 작은 보드 안의 형세 (가운데 보드 가중)
+    for (let b = 0; b < 9; b++) {
+      if (state.boards[b]) continue;
+      const weight = b === 4 ? 2 : 1;
+      score += weight * lineScore(state.cells.slice(b * 9, b * 9 + 9), BOARD_LINES, me);
+    }
+    // 아무 데나 둘 수 있는 차례는 유리
+    if (state.forced === null) score += 20;
+    return score;
+  },
+  turn: (state) => state.turn,
+};
+
+function search<S>(
+  adapter: Adapter<S>,
+  root: S,
+  level: TttAiLevel,
+  random: () => number
+): TttSearchResult {
+  const deadline = Date.now() + level.timeMs;
+  let nodes = 0;
+
+  const checkTime = () => {
+    if ((++nodes & 511) === 0 && Date.now() > deadline) throw new SearchAborted();
+  };
+
+  const negamax = (state: S, depth: number, alpha: number, beta: number, ply: number): number => {
+    checkTime();
+    const outcome = adapter.outcome(state);
+    if (outcome === 'draw') return 0;
+    // 방금 둔 쪽이 이겼다 — 빨리 이길수록/늦게 질수록 좋게
+    if (outcome) return -(WIN_SCORE - ply);
+    if (depth <= 0) return adapter.evaluate(state);
+    let best = -Infinity;
+    for (const m of adapter.moves(state)) {
+      const score = -negamax(adapter.play(state, m), depth - 1, -beta, -alpha, ply + 1);
+      if (score > best) best = score;
+      if (score > alpha) alpha = score;
+      if (alpha >= beta) break;
+    }
+    return best;
+  };
+
+  const rootMoves = adapter.moves(root);
+  if (!rootMoves.length) return { move: null, score: 0, depth: 0 };
+  const jitter = rootMoves.map(() => (level.noise ? (random() * 2 - 1) * level.noise : 0));
+
+  let result: TttSearchResult = { move: rootMoves[0], score: 0, depth: 0 };
+  for (let depth = 1; depth <= level.depth; depth++) {
+    try {
+      // 직전 깊이의 최선수부터
+      const ordered = [...rootMoves].sort((a, b) => (b === result.move ? 1 : 0) - (a === result.move ? 1 : 0));
+      let bestMove = ordered[0];
+      let alpha = -Infinity;
+      for (const m of ordered) {
+        const j = jitter[rootMoves.indexOf(m)];
+        // 창을 흔들림만큼 옮겨야 실패한 수의 상한값이 잘못 채택되지 않는다
+        const score = -negamax(adapter.play(root, m), depth - 1, -Infinity, -(alpha - j), 1) + j;
+        if (score > alpha) {
+          alpha = score;
+          bestMove = m;
+        }
+      }
+      result = { move: bestMove, score: Math.round(alpha), depth };
+      if (Math.abs(alpha) > WIN_SCORE / 2) break;
+    } catch (e) {
+      if (e instanceof SearchAborted) break;
+      throw e;
+    }
+  }
+  return result;
+}
+
+export function bestGridMove(state: GridState, level: TttAiLevel, random: () => number = Math.random): TttSearchResult {
+  return search(gridAdapter, state, level, random);
+}
+
+export function bestUltimateMove(state: UltimateState, level: TttAiLevel, random: () => number = Math.random): TttSearchResult {
+  return search(ultimateAdapter, state, level, random);
+}
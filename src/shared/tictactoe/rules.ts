@@ -0,0 +1,155 @@
+/**
+ * 틱택토 규칙 — NxN 보드의 k목(k-in-a-row)과 얼티밋 틱택토
+ *
+ * 칸 idx = row * size + col. X가 먼저 둔다.
+ * 얼티밋: 작은 보드 b의 칸 c는 cells[b * 9 + c]. 방금 둔 칸 c가 다음 사람이 둘 작은 보드를 정한다
+ * (그 보드가 이미 끝났으면 아무 데나).
+ */
+import type { TurnBasedGame } from '../turnBased';
+
+export type Mark = 'X' | 'O';
+export type Cell = Mark | null;
+export type Outcome = Mark | 'draw';
+
+export const other = (m: Mark): Mark => (m === 'X' ? 'O' : 'X');
+
+export interface GridState {
+  size: number;
+  k: number;
+  cells: Cell[];
+  turn: Mark;
+}
+
+export interface UltimateState {
+  cells: Cell[];
+  // 작은 보드별 결과
+  boards: (Outcome | null)[];
+  // 다음에 둬야 하는 작은 보드 (null이면 아무 데나)
+  forced: number | null;
+  turn: Mark;
+}
+
+export interface GridResult {
+  outcome: Outcome;
+  // 이긴 줄 (무승부면 빈 배열)
+  line: number[];
+}
+
+export const GRID_SIZES = [3, 4, 5, 6, 7];
+export const MAX_K = 5;
+
+const windowCache = new Map<string, number[][]>();
+
+/** size x size 보드의 길이 k짜리 모든 줄 (가로/세로/두 대각선) */
+export function windowsOf(size: number, k: number): number[][] {
+  const key = `${size}:${k}`;
+  const cached = windowCache.get(key);
+  if (cached) return cached;
+  const windows: number[][] = [];
+  const dirs: [number, number][] = [[0, 1], [1, 0], [1, 1], [1, -1]];
+  for (let r = 0; r < size; r++) {
+    for (let c = 0; c < size; c++) {
+      for (const [dr, dc] of dirs) {
+        const er = r + dr * (k - 1);
+        const ec = c + dc * (k - 1);
+        if (er < 0 || er >= size || ec < 0 || ec >= size) continue;
+        windows.push(Array.from({ length: k }, (_, i) => (r + dr * i) * size + (c + dc * i)));
+      }
+    }
+  }
+  windowCache.set(key, windows);
+  return windows;
+}
+
+/** 줄을 완성한 쪽 또는 가득 차면 무승부 — 아직이면 null */
+export function lineResult(cells: Cell[], size: number, k: number): GridResult | null {
+  for (const w of windowsOf(size, k)) {
+    const first = cells[w[0]];
+    if (first && w.every((i) => cells[i] === first)) return { outcome: first, line: w };
+  }
+  return cells.every((c) => c !== null) ? { outcome: 'draw', line: [] } : null;
+}
+
+/* ───── NxN k목 ───── */
+
+export function initialGrid(size = 3, k = 3): GridState {
+  return { size, k: Math.min(k, size), cells: Array<Cell>(size * size).fill(null), turn: 'X' };
+}
+
+export function gridMoves(state: GridState): number[] {
+  if (lineResult(state.cells, state.size, state.k)) return [];
+  const moves: number[] = [];
+  state.cells.forEach((c, i) => c === null && moves.push(i));
+  return moves;
+}
+
+export function playGrid(state: GridState, idx: number): GridState {
+  const cells = state.cells.slice();
+  cells[idx] = state.turn;
+  return { ...state, cells, turn: other(state.turn) };
+}
+
+export const gridResult = (state: GridState) => lineResult(state.cells, state.size, state.k);
+
+/* ───── 얼티밋 ───── */
+
+export function initialUltimate(): UltimateState {
+  return { cells: Array<Cell>(81).fill(null), boards: Array<Outcome | null>(9).fill(null), forced: null, turn: 'X' };
+}
+
+export function ultimateMoves(state: UltimateState): number[] {
+  if (ultimateResult(state)) return [];
+  const moves: number[] = [];
+  for (let b = 0; b < 9; b++) {
+    if (state.boards[b] || (state.forced !== null && state.forced !== b)) continue;
+    for (let c = 0; c < 9; c++) if (state.cells[b * 9 + c] === null) moves.push(b * 9 + c);
+  }
+  return moves;
+}
+
+export function playUltimate(state: UltimateState, idx: number): UltimateState {
+  const b = Math.floor(idx / 9);
+  const cells = state.cells.slice();
+  cells[idx] = state.turn;
+  const boards = state.boards.slice();
+  boards[b] = lineResult(cells.slice(b * 9, b * 9 + 9), 3, 3)?.outcome ?? null;
+  const target = idx % 9;
+  return { cells, boards, forced: boards[target] ? null : target, turn: other(state.turn) };
+}
+
+/** 큰 보드 판정 — 작은 보드 셋을 한 줄로 이기면 승리, 모두 끝났는데 줄이 없으면 무승부 */
+export function ultimateResult(state: UltimateState): GridResult | null {
+  const won = state.boards.map((o) => (o === 'draw' ? null : o));
+  const result = lineResult(won, 3, 3);
+  if (result && result.outcome !== 'draw') return result;
+  return state.boards.every((o) => o !== null) ? { outcome: 'draw', line: [] } : null;
+}
+
+/* ───── 모드 공용 ───── */
+
+export type TttGame = { mode: 'grid'; state: GridState } | { mode: 'ultimate'; state: UltimateState };
+
+export const gameMoves = (game: TttGame) => (game.mode === 'grid' ? gridMoves(game.state) : ultimateMoves(game.state));
+
+export const gameResult = (game: TttGame) => (game.mode === 'grid' ? gridResult(game.state) : ultimateResult(game.state));
+
+export function playGame(game: TttGame, idx: number): TttGame {
+  return game.mode === 'grid'
+    ? { mode: 'grid', state: playGrid(game.state, idx) }
+    : { mode: 'ultimate', state: playUltimate(game.state, idx) };
+}
+
+/** 수 표기 — N×N은 열 a~ + 행 1~ (예: b2), 얼티밋은 작은 보드-칸 번호 1~9 (예: 5-3) */
+export function formatTttMove(game: TttGame, idx: number): string {
+  if (game.mode === 'ultimate') return `${Math.floor(idx / 9) + 1}-${(idx % 9) + 1}`;
+  const n = game.state.size;
+  return `${String.fromCharCode(97 + (idx % n))}${Math.floor(idx / n) + 1}`;
+}
+
+export const tttGame: TurnBasedGame<TttGame, number> = {
+  legalMoves: gameMoves,
+  applyMove: playGame,
+  isTerminal: game => gameResult(game) !== null,
+  turn: game => game.state.turn,
+  formatMove: formatTttMove,
+};
@@ -0,0 +1,102 @@
+/**
+ * 턴제 보드게임 공통 코어
+ *
+ * 게임마다 규칙 모듈이 TurnBasedGame을 하나씩 내보내고, 화면은 useTurnBasedGame 훅으로
+ * 수 적용 / 되돌리기 / 다시 하기 / 수순 목록 / AI 차례 처리를 공통으로 쓴다.
+ * 상태는 불변으로 다룬다 — applyMove는 새 상태를 돌려주고 이전 상태를 건드리지 않는다.
+ */
+
+export type TurnPlayer = string | number;
+
+export interface TurnBasedGame<State, Move> {
+  legalMoves(state: State): Move[];
+  applyMove(state: State, move: Move): State;
+  // 승패/무승부로 더 둘 수 없는 상태
+  isTerminal(state: State): boolean;
+  // 이 상태에서 둘 차례인 쪽 (패스/추가 턴이 있으면 같은 쪽이 연속으로 나올 수 있다)
+  turn(state: State): TurnPlayer;
+  // 수순 목록에 보일 표기 — state는 수를 두기 직전 상태
+  formatMove(state: State, move: Move): string;
+}
+
+/**
+ * 지나온 상태들과 현재 보고 있는 위치
+ *
+ * states[0]이 시작 상태, states[i + 1] = applyMove(states[i], moves[i]).
+ * ply < moves.length면 되돌린 상태 — 그 뒤 수순이 다시 하기 대상이다.
+ */
+export interface GameHistory<State, Move> {
+  states: State[];
+  moves: Move[];
+  labels: string[];
+  ply: number;
+}
+
+export function startHistory<State, Move>(start: State): GameHistory<State, Move> {
+  return { states: [start], moves: [], labels: [], ply: 0 };
+}
+
+/** 보고 있는 위치에서 한 수 둔다 — 되돌린 뒤 두면 그 뒤 수순은 버린다 */
+export function pushMove<State, Move>(
+  game: TurnBasedGame<State, Move>,
+  history: GameHistory<State, Move>,
+  move: Move
+): GameHistory<State, Move> {
+  const { ply } = history;
+  const state = history.states[ply];
+  return {
+    states: [...history.states.slice(0, ply + 1), game.applyMove(state, move)],
+    moves: [...history.moves.slice(0, ply), move],
+    labels: [...history.labels.slice(0, ply), game.formatMove(state, move)],
+    ply: ply + 1,
+  };
+}
+
+/** 시작 상태에서 수순을 차례로 적용 (불러오기용) — 규칙에 맞지 않는 수가 있으면 null */
+export function replayMoves<State, Move>(
+  game: TurnBasedGame<State, Move>,
+  start: State,
+  moves: Move[],
+  // 수가 객체면 생성 때마다 새로 만들어지므로 기본은 내용 비교
+  sameMove: (a: Move, b: Move) => boolean = (a, b) => JSON.stringify(a) === JSON.stringify(b)
+): GameHistory<State, Move> | null {
+  let history = startHistory<State, Move>(start);
+  for (const move of moves) {
+    const state = history.states[history.ply];
+    if (game.isTerminal(state) || !game.legalMoves(state).some(m => sameMove(m, move))) return null;
+    history = pushMove(game, history, move);
+  }
+  return history;
+}
+
+export function jumpTo<State, Move>(history: GameHistory<State, Move>, ply: number): GameHistory<State, Move> {
+  const clamped = Math.max(0, Math.min(ply, history.moves.length));
+  return clamped === history.ply ? history : { ...history, ply: clamped };
+}
+
+/**
+ * 되돌릴 위치 — stop(state)가 참인 가장 가까운 이전 위치.
+ * AI 대전에서는 stop을 "사람 차례"로 줘서 AI 수까지 한꺼번에 무른다. 없으면 null.
+ */
+export function undoTarget<State, Move>(
+  history: GameHistory<State, Move>,
+  stop: (state: State) => boolean = () => true
+): number | null {
+  for (let p = history.ply - 1; p >= 0; p--) {
+    if (stop(history.states[p])) return p;
+  }
+  return null;
+}
+
+/** 다시 둘 위치 — stop(state)가 참인 가장 가까운 다음 위치, 끝까지 없으면 마지막 위치 */
+export function redoTarget<State, Move>(
+  history: GameHistory<State, Move>,
+  stop: (state: State) => boolean = () => true
+): number | null {
+  const last = history.moves.length;
+  if (history.ply >= last) return null;
+  for (let p = history.ply + 1; p < last; p++) {
+    if (stop(history.states[p])) return p;
+  }
+  return last;
+}
@@ -0,0 +1,22 @@
+import type { LeaderboardConfig, ScoreFormat } from "../games";
+
+export function formatScore(value: number, format: ScoreFormat) {
+  switch (format) {
+    case "ms":
+      return `${value.toLocaleString()}ms`;
+    case "seconds":
+      return `${value.toLocaleString()}초`;
+    case "moves":
+      return `${value.toLocaleString()}수`;
+    case "strokes":
+      return `${value.toLocaleString()}타`;
+    default:
+      return `${value.toLocaleString()}점`;
+  }
+}
+
+/** 같은 게임의 두 기록 중 next가 prev보다 좋은지 (order 방향 반영) */
+export function isBetterScore(next: number, prev: number, config: Pick<LeaderboardConfig, "order">) {
+  if (prev <= 0) return next > 0;
+  return config.order === "asc" ? next < prev : next > prev;
+}
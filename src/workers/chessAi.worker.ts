@@ -0,0 +1,29 @@
+/**
+ * 체스 AI 워커 — 탐색을 메인 스레드 밖에서 돌린다.
+ * 요청: { id, position, level } → 응답: { id, move, score, depth }
+ */
+import { AI_LEVELS, searchBestMove } from '../shared/chess/ai';
+import type { Move, Position } from '../shared/chess/rules';
+
+export interface ChessAiRequest {
+  id: number;
+  position: Position;
+  // AI_LEVELS 인덱스
+  level: number;
+}
+
+export interface ChessAiResponse {
+  id: number;
+  move: Move | null;
+  score: number;
+  depth: number;
+}
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<ChessAiRequest>) => {
+  const { id, position, level } = e.data;
+  const { move, score, depth } = searchBestMove(position, AI_LEVELS[level] ?? AI_LEVELS[0]);
+  const response: ChessAiResponse = { id, move, score, depth };
+  ctx.postMessage(response);
+};
@@ -0,0 +1,24 @@
+/**
+ * 체스 분석 워커 — 대국 후 분석에서 국면 하나씩 평가한다.
+ * 요청: { id, game } → 응답: { id, score, winChance, best } (백 기준)
+ */
+import { analyzePosition } from '../shared/chess/analysis';
+import type { ChessGame, Move } from '../shared/chess/rules';
+import type { PositionEval } from '../shared/analysis';
+
+export interface ChessAnalysisRequest {
+  id: number;
+  game: ChessGame;
+}
+
+export interface ChessAnalysisResponse extends PositionEval<Move> {
+  id: number;
+}
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<ChessAnalysisRequest>) => {
+  const { id, game } = e.data;
+  const response: ChessAnalysisResponse = { id, ...analyzePosition(game) };
+  ctx.postMessage(response);
+};
@@ -0,0 +1,29 @@
+/**
+ * 커넥트 포 솔버 워커 — 탐색을 메인 스레드 밖에서 돌린다.
+ * 요청: { id, history, level } → 응답: { id, col, columns }
+ * (평가 표시도 같은 요청으로 열별 점수만 쓴다)
+ */
+import { C4_AI_LEVELS, ColumnScore, searchBestColumn } from '../shared/connectfour/solver';
+
+export interface ConnectFourAiRequest {
+  id: number;
+  // 둔 열 순서 (0부터)
+  history: number[];
+  // C4_AI_LEVELS 인덱스
+  level: number;
+}
+
+export interface ConnectFourAiResponse {
+  id: number;
+  col: number;
+  columns: ColumnScore[];
+}
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<ConnectFourAiRequest>) => {
+  const { id, history, level } = e.data;
+  const { col, columns } = searchBestColumn(history, C4_AI_LEVELS[level] ?? C4_AI_LEVELS[0]);
+  const response: ConnectFourAiResponse = { id, col, columns };
+  ctx.postMessage(response);
+};
@@ -0,0 +1,29 @@
+/**
+ * 만칼라 AI 워커 — 탐색을 메인 스레드 밖에서 돌린다.
+ * 요청: { id, state, level } → 응답: { id, move, score, depth }
+ */
+import { MANCALA_AI_LEVELS, searchBestMove } from '../shared/mancala/ai';
+import type { MancalaState } from '../shared/mancala/rules';
+
+export interface MancalaAiRequest {
+  id: number;
+  state: MancalaState;
+  // MANCALA_AI_LEVELS 인덱스
+  level: number;
+}
+
+export interface MancalaAiResponse {
+  id: number;
+  move: number | null;
+  score: number;
+  depth: number;
+}
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<MancalaAiRequest>) => {
+  const { id, state, level } = e.data;
+  const { move, score, depth } = searchBestMove(state, MANCALA_AI_LEVELS[level] ?? MANCALA_AI_LEVELS[0]);
+  const response: MancalaAiResponse = { id, move, score, depth };
+  ctx.postMessage(response);
+};
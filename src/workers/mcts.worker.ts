@@ -0,0 +1,32 @@
+/**
+ * MCTS 워커 — 등록된 게임(shared/mctsGames) 무엇이든 시간 예산만큼 탐색한다.
+ * 요청: { id, game, state, level } → 응답: { id, move, iterations, winRate }
+ */
+import { MCTS_LEVELS, MctsGame, searchMcts } from '../shared/mcts';
+import { MCTS_GAMES, MctsGameId } from '../shared/mctsGames';
+
+export interface MctsAiRequest {
+  id: number;
+  game: MctsGameId;
+  // 게임별 상태 (구조화 복제로 넘어온다)
+  state: unknown;
+  // MCTS_LEVELS 인덱스
+  level: number;
+}
+
+export interface MctsAiResponse {
+  id: number;
+  move: unknown;
+  iterations: number;
+  winRate: number;
+}
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<MctsAiRequest>) => {
+  const { id, game, state, level } = e.data;
+  const rules = MCTS_GAMES[game] as MctsGame<unknown, unknown>;
+  const { move, iterations, winRate } = searchMcts(rules, state, MCTS_LEVELS[level] ?? MCTS_LEVELS[0]);
+  const response: MctsAiResponse = { id, move, iterations, winRate };
+  ctx.postMessage(response);
+};
@@ -0,0 +1,30 @@
+/**
+ * 지뢰찾기 찍기 없는 판 생성 워커 — 고급 판은 수백 번 풀어 봐야 해서 메인 스레드 밖에서 돈다.
+ * 요청: { id, config, r, c } → 응답: { id, mines, noGuess }
+ */
+import type { BoardConfig } from '../shared/minesweeper/rules';
+import { noGuessMines } from '../shared/minesweeper/solver';
+
+export interface MinesweeperGenRequest {
+  id: number;
+  config: BoardConfig;
+  // 첫 클릭 칸
+  r: number;
+  c: number;
+}
+
+export interface MinesweeperGenResponse {
+  id: number;
+  mines: [number, number][];
+  // 시간 안에 못 찾았으면 false (보통 무작위 판)
+  noGuess: boolean;
+}
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<MinesweeperGenRequest>) => {
+  const { id, config, r, c } = e.data;
+  const { mines, noGuess } = noGuessMines(config, r, c);
+  const response: MinesweeperGenResponse = { id, mines, noGuess };
+  ctx.postMessage(response);
+};
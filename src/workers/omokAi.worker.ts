@@ -0,0 +1,28 @@
+/**
+ * 오목 AI 워커 — 위협 탐색(VCF/VCT)을 메인 스레드 밖에서 돌린다.
+ * 요청: { id, state, level } → 응답: { id, move, reason }
+ */
+import { OMOK_AI_LEVELS, OmokAiResult, chooseMove } from '../shared/omok/ai';
+import type { OmokState } from '../shared/omok/rules';
+
+export interface OmokAiRequest {
+  id: number;
+  state: OmokState;
+  // OMOK_AI_LEVELS 인덱스
+  level: number;
+}
+
+export interface OmokAiResponse {
+  id: number;
+  move: number;
+  reason: OmokAiResult['reason'];
+}
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<OmokAiRequest>) => {
+  const { id, state, level } = e.data;
+  const { move, reason } = chooseMove(state, OMOK_AI_LEVELS[level] ?? OMOK_AI_LEVELS[0]);
+  const response: OmokAiResponse = { id, move, reason };
+  ctx.postMessage(response);
+};
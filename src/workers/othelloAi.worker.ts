@@ -0,0 +1,29 @@
+/**
+ * 오델로 AI 워커 — 탐색을 메인 스레드 밖에서 돌린다.
+ * 요청: { id, state, level } → 응답: { id, move, score, depth }
+ */
+import { OTHELLO_AI_LEVELS, searchBestMove } from '../shared/othello/ai';
+import type { OthelloMove, OthelloState } from '../shared/othello/rules';
+
+export interface OthelloAiRequest {
+  id: number;
+  state: OthelloState;
+  // OTHELLO_AI_LEVELS 인덱스
+  level: number;
+}
+
+export interface OthelloAiResponse {
+  id: number;
+  move: OthelloMove | null;
+  score: number;
+  depth: number;
+}
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<OthelloAiRequest>) => {
+  const { id, state, level } = e.data;
+  const { move, score, depth } = searchBestMove(state.board, state.turn, OTHELLO_AI_LEVELS[level] ?? OTHELLO_AI_LEVELS[0]);
+  const response: OthelloAiResponse = { id, move, score, depth };
+  ctx.postMessage(response);
+};
@@ -0,0 +1,24 @@
+/**
+ * 오델로 분석 워커 — 대국 후 분석에서 국면 하나씩 평가한다.
+ * 요청: { id, state } → 응답: { id, score, winChance, best } (흑 기준)
+ */
+import { analyzePosition } from '../shared/othello/analysis';
+import type { OthelloMove, OthelloState } from '../shared/othello/rules';
+import type { PositionEval } from '../shared/analysis';
+
+export interface OthelloAnalysisRequest {
+  id: number;
+  state: OthelloState;
+}
+
+export interface OthelloAnalysisResponse extends PositionEval<OthelloMove> {
+  id: number;
+}
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<OthelloAnalysisRequest>) => {
+  const { id, state } = e.data;
+  const response: OthelloAnalysisResponse = { id, ...analyzePosition(state) };
+  ctx.postMessage(response);
+};
@@ -0,0 +1,35 @@
+/**
+ * 피크로스 유일해 검사 워커 — 에디터에서 그린 그림의 힌트로 해를 2개까지 센다.
+ * 듬성듬성한 그림은 가정이 크게 갈라져 수 초가 걸릴 수 있어 메인 스레드 밖에서 돈다.
+ * 요청: { id, clues } → 응답: { id, count, exhausted, lineSolvable }
+ */
+import type { Clues } from '../shared/picross/rules';
+import { countSolutions, isLineSolvable } from '../shared/picross/solver';
+
+export interface PicrossCheckRequest {
+  id: number;
+  clues: Clues;
+}
+
+export interface PicrossCheckResponse {
+  id: number;
+  // 찾은 해 수 (최대 2)
+  count: number;
+  // 판정하지 못하고 멈췄는지
+  exhausted: boolean;
+  // 가정 없이 줄 풀이만으로 풀리는지
+  lineSolvable: boolean;
+}
+
+// 이만큼 갈라 보고도 판정이 안 나면 포기 (수 초 분량)
+const MAX_NODES = 5000;
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<PicrossCheckRequest>) => {
+  const { id, clues } = e.data;
+  const lineSolvable = isLineSolvable(clues);
+  const { count, exhausted } = lineSolvable ? { count: 1, exhausted: false } : countSolutions(clues, 2, MAX_NODES);
+  const response: PicrossCheckResponse = { id, count, exhausted, lineSolvable };
+  ctx.postMessage(response);
+};
@@ -0,0 +1,28 @@
+/**
+ * 틱택토 AI 워커 — NxN k목 / 얼티밋 탐색을 메인 스레드 밖에서 돌린다.
+ * 요청: { id, game, level } → 응답: { id, move }
+ */
+import { bestGridMove, bestUltimateMove, TTT_AI_LEVELS } from '../shared/tictactoe/ai';
+import type { TttGame } from '../shared/tictactoe/rules';
+
+export interface TttAiRequest {
+  id: number;
+  game: TttGame;
+  // TTT_AI_LEVELS 인덱스
+  level: number;
+}
+
+export interface TttAiResponse {
+  id: number;
+  move: number | null;
+}
+
+const ctx = self as unknown as Worker;
+
+ctx.onmessage = (e: MessageEvent<TttAiRequest>) => {
+  const { id, game, level } = e.data;
+  const aiLevel = TTT_AI_LEVELS[level] ?? TTT_AI_LEVELS[0];
+  const { move } = game.mode === 'grid' ? bestGridMove(game.state, aiLevel) : bestUltimateMove(game.state, aiLevel);
+  const response: TttAiResponse = { id, move };
+  ctx.postMessage(response);
+};